@@ -13,6 +13,9 @@ import {
   ImagesToPDFView,
   ReorderPagesView,
   SelectAreaView,
+  MetadataView,
+  ProtectPDFView,
+  UnlockPDFView,
 } from "./views";
 
 function AppContent() {
@@ -34,6 +37,9 @@ function AppContent() {
             <Route path="/compress" element={<CompressPDFView />} />
             <Route path="/reorder" element={<ReorderPagesView />} />
             <Route path="/select-area" element={<SelectAreaView />} />
+            <Route path="/metadata" element={<MetadataView />} />
+            <Route path="/protect" element={<ProtectPDFView />} />
+            <Route path="/unlock" element={<UnlockPDFView />} />
           </Routes>
         </div>
       </main>
@@ -0,0 +1,277 @@
+import React, { useEffect, useRef, useState } from "react";
+import * as pdfjsLib from "pdfjs-dist";
+import Button from "./Button";
+
+export interface PageScore {
+  pageNumber: number; // 1-based
+  ssim: number;
+  flagged: boolean;
+}
+
+interface BeforeAfterViewerProps {
+  before: Blob;
+  after: Blob;
+  scores?: PageScore[] | null; // Similarity per page, null while computing
+  beforePassword?: string; // When the original is encrypted
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+type ViewMode = "side-by-side" | "swipe";
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.25;
+
+/**
+ * Renders the same page of two PDFs next to each other, or on top of each
+ * other with a swipe handle, using PDF.js. The worker must already be
+ * configured by the view.
+ */
+export const BeforeAfterViewer: React.FC<BeforeAfterViewerProps> = ({
+  before,
+  after,
+  scores,
+  beforePassword,
+  beforeLabel = "Original",
+  afterLabel = "Compressed",
+}) => {
+  const [documents, setDocuments] = useState<
+    [pdfjsLib.PDFDocumentProxy, pdfjsLib.PDFDocumentProxy] | null
+  >(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [zoom, setZoom] = useState(1);
+  const [mode, setMode] = useState<ViewMode>("side-by-side");
+  const [swipePosition, setSwipePosition] = useState(50);
+  const beforeCanvasRef = useRef<HTMLCanvasElement>(null);
+  const afterCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loaded: pdfjsLib.PDFDocumentProxy[] = [];
+
+    const load = async () => {
+      try {
+        const [beforePdf, afterPdf] = await Promise.all(
+          [before, after].map(async (blob, index) => {
+            const pdf = await pdfjsLib.getDocument({
+              data: await blob.arrayBuffer(),
+              password: index === 0 ? beforePassword : undefined,
+            }).promise;
+            loaded.push(pdf);
+            return pdf;
+          }),
+        );
+        if (!cancelled) {
+          setDocuments([beforePdf, afterPdf]);
+          setPageNumber(1);
+        }
+      } catch (error) {
+        console.error("Failed to load PDFs for comparison:", error);
+        if (!cancelled) setLoadError("Failed to load PDFs for comparison");
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      loaded.forEach((pdf) => pdf.destroy());
+    };
+  }, [before, after, beforePassword]);
+
+  useEffect(() => {
+    if (!documents) return;
+    const tasks: pdfjsLib.RenderTask[] = [];
+
+    const render = async (
+      pdf: pdfjsLib.PDFDocumentProxy,
+      canvas: HTMLCanvasElement | null,
+    ) => {
+      if (!canvas) return;
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: zoom });
+      const context = canvas.getContext("2d");
+      if (!context) return;
+
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      const task = page.render({ canvasContext: context, viewport });
+      tasks.push(task);
+      await task.promise;
+    };
+
+    Promise.all([
+      render(documents[0], beforeCanvasRef.current),
+      render(documents[1], afterCanvasRef.current),
+    ]).catch((error) => {
+      // Cancelled renders reject when the page or zoom changes
+      if (error?.name !== "RenderingCancelledException") {
+        console.error("Failed to render comparison page:", error);
+      }
+    });
+
+    return () => tasks.forEach((task) => task.cancel());
+  }, [documents, pageNumber, zoom, mode]);
+
+  if (loadError) {
+    return <p className="text-sm text-red-400">{loadError}</p>;
+  }
+
+  if (!documents) {
+    return <p className="text-sm text-slate-400">Loading preview...</p>;
+  }
+
+  const pageCount = documents[0].numPages;
+  const currentScore = scores?.find((score) => score.pageNumber === pageNumber);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setPageNumber((page) => Math.max(1, page - 1))}
+            disabled={pageNumber <= 1}
+          >
+            Previous
+          </Button>
+          <select
+            aria-label="Page"
+            value={pageNumber}
+            onChange={(e) => setPageNumber(Number(e.target.value))}
+            className="px-2 py-1 border border-slate-600 rounded-md bg-slate-700 text-slate-100 text-sm"
+          >
+            {Array.from({ length: pageCount }, (_, index) => {
+              const score = scores?.find((s) => s.pageNumber === index + 1);
+              return (
+                <option key={index} value={index + 1}>
+                  Page {index + 1}
+                  {score
+                    ? ` · ${(score.ssim * 100).toFixed(1)}%${score.flagged ? " ⚠" : ""}`
+                    : ""}
+                </option>
+              );
+            })}
+          </select>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() =>
+              setPageNumber((page) => Math.min(pageCount, page + 1))
+            }
+            disabled={pageNumber >= pageCount}
+          >
+            Next
+          </Button>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setZoom((z) => Math.max(MIN_ZOOM, z - ZOOM_STEP))}
+            disabled={zoom <= MIN_ZOOM}
+            aria-label="Zoom out"
+          >
+            −
+          </Button>
+          <span className="text-sm text-slate-300 w-12 text-center">
+            {Math.round(zoom * 100)}%
+          </span>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setZoom((z) => Math.min(MAX_ZOOM, z + ZOOM_STEP))}
+            disabled={zoom >= MAX_ZOOM}
+            aria-label="Zoom in"
+          >
+            +
+          </Button>
+        </div>
+
+        <div className="flex items-center space-x-4">
+          {(
+            [
+              ["side-by-side", "Side by side"],
+              ["swipe", "Swipe"],
+            ] as const
+          ).map(([value, label]) => (
+            <label
+              key={value}
+              className="flex items-center space-x-2 cursor-pointer"
+            >
+              <input
+                type="radio"
+                name="comparisonMode"
+                value={value}
+                checked={mode === value}
+                onChange={() => setMode(value)}
+              />
+              <span className="text-sm text-slate-200">{label}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {currentScore && (
+        <p
+          className={`text-sm ${currentScore.flagged ? "text-amber-300" : "text-slate-400"}`}
+        >
+          Similarity: {(currentScore.ssim * 100).toFixed(1)}%
+          {currentScore.flagged &&
+            " — image quality on this page dropped noticeably"}
+        </p>
+      )}
+
+      {mode === "side-by-side" ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(
+            [
+              [beforeLabel, beforeCanvasRef],
+              [afterLabel, afterCanvasRef],
+            ] as const
+          ).map(([label, ref]) => (
+            <div key={label}>
+              <p className="text-xs text-slate-400 mb-1">{label}</p>
+              <div className="overflow-auto max-h-[70vh] bg-slate-900 rounded-lg border border-slate-700">
+                <canvas ref={ref} className="block" />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div>
+          <div className="flex justify-between text-xs text-slate-400 mb-1">
+            <span>{beforeLabel}</span>
+            <span>{afterLabel}</span>
+          </div>
+          <div className="overflow-auto max-h-[70vh] bg-slate-900 rounded-lg border border-slate-700">
+            <div className="relative inline-block">
+              <canvas ref={beforeCanvasRef} className="block" />
+              <canvas
+                ref={afterCanvasRef}
+                className="block absolute top-0 left-0"
+                style={{ clipPath: `inset(0 0 0 ${swipePosition}%)` }}
+              />
+              <div
+                className="absolute top-0 bottom-0 w-0.5 bg-sky-400 pointer-events-none"
+                style={{ left: `${swipePosition}%` }}
+              />
+            </div>
+          </div>
+          <input
+            type="range"
+            aria-label="Swipe position"
+            min={0}
+            max={100}
+            value={swipePosition}
+            onChange={(e) => setSwipePosition(Number(e.target.value))}
+            className="w-full mt-2"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import { useId } from "react";
+import {
+  FILENAME_TOKENS,
+  formatFilename,
+  getUniqueFilename,
+  validateFilenameTemplate,
+  type FilenameTokens,
+} from "../pdf-utils";
+
+interface FilenameTemplateInputProps {
+  value: string;
+  onChange: (template: string) => void;
+  defaultTemplate: string;
+  samples: FilenameTokens[]; // Tokens of the first few outputs, for the preview
+  extension: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const MAX_PREVIEW_NAMES = 3;
+
+export const FilenameTemplateInput: React.FC<FilenameTemplateInputProps> = ({
+  value,
+  onChange,
+  defaultTemplate,
+  samples,
+  extension,
+  disabled = false,
+  className = "",
+}) => {
+  const inputId = useId();
+  const error = validateFilenameTemplate(value);
+  const usedNames = new Set<string>();
+  const previewNames = error
+    ? []
+    : samples
+        .slice(0, MAX_PREVIEW_NAMES)
+        .map((tokens) =>
+          getUniqueFilename(
+            formatFilename(value, tokens, extension),
+            usedNames,
+          ),
+        );
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-2">
+        <label
+          htmlFor={inputId}
+          className="block text-sm font-medium text-slate-300"
+        >
+          File Names
+        </label>
+        {value !== defaultTemplate && (
+          <button
+            type="button"
+            onClick={() => onChange(defaultTemplate)}
+            disabled={disabled}
+            className="text-xs text-sky-400 hover:text-sky-300"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+      <input
+        id={inputId}
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        spellCheck={false}
+        className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 bg-slate-700 text-slate-100 font-mono text-sm ${
+          error
+            ? "border-red-600 focus:ring-red-500"
+            : "border-slate-600 focus:ring-sky-500"
+        }`}
+      />
+      {error ? (
+        <p className="text-xs text-red-400 mt-1">{error}</p>
+      ) : (
+        previewNames.length > 0 && (
+          <p className="text-xs text-slate-400 mt-1 break-all">
+            {previewNames.join(", ")}
+            {samples.length > MAX_PREVIEW_NAMES && ", ..."}
+          </p>
+        )
+      )}
+      <div className="flex flex-wrap gap-2 mt-2">
+        {FILENAME_TOKENS.map(({ token, description }) => (
+          <button
+            key={token}
+            type="button"
+            title={description}
+            onClick={() => onChange(value + token)}
+            disabled={disabled}
+            className="px-2 py-1 text-xs font-mono bg-slate-700 text-slate-300 border border-slate-600 rounded hover:bg-slate-600 transition-colors"
+          >
+            {token}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
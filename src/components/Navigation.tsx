@@ -6,6 +6,9 @@ import {
   Minimize2,
   RotateCcw,
   Crop,
+  Tags,
+  Lock,
+  LockOpen,
 } from "lucide-react";
 
 const tools = [
@@ -45,6 +48,24 @@ const tools = [
     icon: Crop,
     path: "/select-area",
   },
+  {
+    id: "metadata",
+    name: "Edit Metadata",
+    icon: Tags,
+    path: "/metadata",
+  },
+  {
+    id: "protect",
+    name: "Protect PDF",
+    icon: Lock,
+    path: "/protect",
+  },
+  {
+    id: "unlock",
+    name: "Unlock PDF",
+    icon: LockOpen,
+    path: "/unlock",
+  },
 ];
 
 export const Navigation: React.FC = () => {
@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { Lock } from "lucide-react";
+import Button from "./Button";
+import { Modal } from "./Modal";
+
+interface PasswordModalProps {
+  isOpen: boolean;
+  fileName: string;
+  isRetry?: boolean; // The previous password was wrong
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+export const PasswordModal: React.FC<PasswordModalProps> = ({
+  isOpen,
+  fileName,
+  isRetry = false,
+  onSubmit,
+  onCancel,
+}) => {
+  const [password, setPassword] = useState("");
+
+  // Start empty for every file and every attempt
+  useEffect(() => {
+    if (isOpen) setPassword("");
+  }, [isOpen, fileName, isRetry]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(password);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onCancel} title="Password Required">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-start gap-3">
+          <Lock className="w-5 h-5 mt-0.5 text-slate-400 flex-shrink-0" />
+          <p className="text-sm text-slate-600 dark:text-slate-300">
+            <span className="font-medium break-all">{fileName}</span> is
+            password protected. Enter its password to open it.
+          </p>
+        </div>
+
+        <div>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoFocus
+            autoComplete="off"
+            aria-label="PDF password"
+            className={`w-full px-3 py-2 border rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-slate-500 ${
+              isRetry
+                ? "border-red-500 dark:border-red-400"
+                : "border-slate-300 dark:border-slate-600"
+            }`}
+          />
+          {isRetry && (
+            <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+              Incorrect password. Please try again.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary">
+            Unlock
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
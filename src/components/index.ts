@@ -7,3 +7,6 @@ export { Header } from "./Header";
 export { Footer } from "./Footer";
 export { Navigation } from "./Navigation";
 export { Toast } from "./Toast";
+export { BeforeAfterViewer } from "./BeforeAfterViewer";
+export { PasswordModal } from "./PasswordModal";
+export { FilenameTemplateInput } from "./FilenameTemplateInput";
@@ -0,0 +1,73 @@
+import { useCallback, useRef, useState } from "react";
+import { checkPDFPassword } from "../pdf-utils";
+
+interface PasswordRequest {
+  fileName: string;
+  isRetry: boolean;
+}
+
+export interface PDFUnlockResult {
+  password?: string; // Only set when the file needed one
+  error?: string; // The file can't be opened
+}
+
+/**
+ * Detects encrypted PDFs and asks for their password until it's right or
+ * the user gives up. Render PasswordModal with `passwordPrompt`.
+ */
+export function usePDFPassword() {
+  const [request, setRequest] = useState<PasswordRequest | null>(null);
+  const resolveRef = useRef<((password: string | null) => void) | null>(null);
+  // One prompt at a time, even when files arrive in several drops
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  const answer = useCallback((password: string | null) => {
+    resolveRef.current?.(password);
+    resolveRef.current = null;
+    setRequest(null);
+  }, []);
+
+  const unlockPDF = useCallback((file: File): Promise<PDFUnlockResult> => {
+    const askPassword = (isRetry: boolean) =>
+      new Promise<string | null>((resolve) => {
+        resolveRef.current = resolve;
+        setRequest({ fileName: file.name, isRetry });
+      });
+
+    const unlock = async (): Promise<PDFUnlockResult> => {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      let status = await checkPDFPassword(bytes);
+      let password: string | null = null;
+
+      while (status === "wrong-password") {
+        password = await askPassword(password !== null);
+        if (password === null) {
+          return { error: `${file.name}: A password is required to open it` };
+        }
+        status = await checkPDFPassword(bytes, password);
+      }
+
+      if (status === "unsupported") {
+        return {
+          error: `${file.name}: Encrypted with a method that isn't supported`,
+        };
+      }
+      return password === null ? {} : { password };
+    };
+
+    const result = queueRef.current.then(unlock);
+    queueRef.current = result.catch(() => undefined);
+    return result;
+  }, []);
+
+  return {
+    unlockPDF,
+    passwordPrompt: {
+      isOpen: request !== null,
+      fileName: request?.fileName ?? "",
+      isRetry: request?.isRetry ?? false,
+      onSubmit: (password: string) => answer(password),
+      onCancel: () => answer(null),
+    },
+  };
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import {
+  PDFDocument,
+  PDFName,
+  StandardFonts,
+  concatTransformationMatrix,
+  drawObject,
+} from "pdf-lib";
+import { analyzeDocumentSize } from "./analyze";
+
+async function createDocument() {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([612, 792]);
+  const imageRef = pdfDoc.context.register(
+    pdfDoc.context.flateStream(new Uint8Array(600 * 300 * 3), {
+      Type: "XObject",
+      Subtype: "Image",
+      Width: 600,
+      Height: 300,
+      ColorSpace: "DeviceRGB",
+      BitsPerComponent: 8,
+    }),
+  );
+  page.node.setXObject(PDFName.of("Im0"), imageRef);
+  page.pushOperators(
+    concatTransformationMatrix(144, 0, 0, 72, 0, 0),
+    drawObject("Im0"),
+  );
+  return { pdfDoc, page, imageRef };
+}
+
+describe("analyzeDocumentSize", () => {
+  it("should list images with their effective DPI", async () => {
+    const { pdfDoc, imageRef } = await createDocument();
+
+    const breakdown = analyzeDocumentSize(pdfDoc, 100_000);
+
+    expect(breakdown.pageCount).toBe(1);
+    expect(breakdown.categories.images.count).toBe(1);
+    expect(breakdown.images[0]).toMatchObject({
+      id: imageRef.toString(),
+      width: 600,
+      height: 300,
+      components: 3,
+      encoding: "raw",
+      effectiveDPI: 300,
+      pageIndices: [0],
+    });
+    expect(breakdown.images[0].size).toBeGreaterThan(0);
+    expect(breakdown.categories.images.totalSize).toBe(
+      breakdown.images[0].size,
+    );
+  });
+
+  it("should report unpainted images without a DPI", async () => {
+    const { pdfDoc } = await createDocument();
+    const page = pdfDoc.getPage(0);
+    page.node.setXObject(
+      PDFName.of("Im1"),
+      pdfDoc.context.register(
+        pdfDoc.context.flateStream(new Uint8Array(3), {
+          Type: "XObject",
+          Subtype: "Image",
+          Width: 1,
+          Height: 1,
+          ColorSpace: "DeviceRGB",
+          BitsPerComponent: 8,
+        }),
+      ),
+    );
+
+    const breakdown = analyzeDocumentSize(pdfDoc, 100_000);
+    const unpainted = breakdown.images.find((image) => image.width === 1);
+
+    expect(unpainted?.effectiveDPI).toBeNull();
+  });
+
+  it("should describe fonts", async () => {
+    const { pdfDoc, page } = await createDocument();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    page.drawText("Hello", { font });
+    await pdfDoc.flush();
+
+    const breakdown = analyzeDocumentSize(pdfDoc, 100_000);
+
+    expect(breakdown.categories.fonts.count).toBe(1);
+    expect(breakdown.fonts[0]).toMatchObject({
+      name: "Helvetica",
+      subtype: "Type1",
+      embedded: false,
+      subset: false,
+    });
+  });
+
+  it("should count content streams, annotations and metadata", async () => {
+    const { pdfDoc, page } = await createDocument();
+    pdfDoc.setTitle("Report");
+    const annotation = pdfDoc.context.register(
+      pdfDoc.context.obj({
+        Type: "Annot",
+        Subtype: "Text",
+        Rect: [0, 0, 10, 10],
+      }),
+    );
+    page.node.set(PDFName.of("Annots"), pdfDoc.context.obj([annotation]));
+    await pdfDoc.flush();
+
+    const breakdown = analyzeDocumentSize(pdfDoc, 100_000);
+
+    expect(breakdown.categories.contentStreams.count).toBe(1);
+    expect(breakdown.categories.annotations.count).toBe(1);
+    expect(breakdown.categories.metadata.count).toBe(1);
+    expect(breakdown.categories.metadata.totalSize).toBeGreaterThan(0);
+  });
+
+  it("should report attachments by name", async () => {
+    const { pdfDoc } = await createDocument();
+    await pdfDoc.attach(new Uint8Array(500), "data.csv", {
+      mimeType: "text/csv",
+    });
+    await pdfDoc.flush();
+
+    const breakdown = analyzeDocumentSize(pdfDoc, 100_000);
+
+    expect(breakdown.categories.attachments.count).toBe(1);
+    expect(breakdown.attachments[0].name).toBe("data.csv");
+    expect(breakdown.attachments[0].size).toBeGreaterThan(0);
+  });
+
+  it("should count unreachable objects as unused", async () => {
+    const { pdfDoc } = await createDocument();
+    pdfDoc.context.register(pdfDoc.context.obj({ Orphan: true }));
+
+    const breakdown = analyzeDocumentSize(pdfDoc, 100_000);
+
+    expect(breakdown.categories.unusedObjects.count).toBeGreaterThanOrEqual(1);
+  });
+
+  it("should attribute the remaining bytes to other", async () => {
+    const { pdfDoc } = await createDocument();
+
+    const breakdown = analyzeDocumentSize(pdfDoc, 10_000_000);
+    const total = Object.values(breakdown.categories).reduce(
+      (sum, category) => sum + category.totalSize,
+      0,
+    );
+
+    expect(total).toBe(10_000_000);
+  });
+});
@@ -0,0 +1,364 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  PDFHexString,
+} from "pdf-lib";
+import { findUnreachableObjects } from "./cleanup";
+import {
+  collectPageImages,
+  getColorComponents,
+  getEffectiveDPI,
+  getFilterNames,
+  getImageEncoding,
+  type ImageEncoding,
+} from "./images";
+
+export type SizeCategory =
+  | "images"
+  | "fonts"
+  | "contentStreams"
+  | "annotations"
+  | "attachments"
+  | "metadata"
+  | "unusedObjects"
+  | "other";
+
+export interface CategorySize {
+  count: number;
+  totalSize: number; // Bytes
+}
+
+export interface ImageSizeInfo {
+  id: string; // Object reference, e.g. "12 0 R"
+  width: number;
+  height: number;
+  components?: number; // 1 for gray, 3 for RGB, undefined when unknown
+  size: number;
+  filters: string[];
+  encoding: ImageEncoding;
+  effectiveDPI: number | null; // null when the image isn't painted on a page
+  pageIndices: number[];
+}
+
+export interface FontSizeInfo {
+  id: string;
+  name: string;
+  subtype: string;
+  embedded: boolean;
+  subset: boolean;
+  size: number; // Font dictionary, descriptor, font program and tables
+}
+
+export interface AttachmentSizeInfo {
+  name: string;
+  size: number;
+}
+
+export interface PDFSizeBreakdown {
+  totalSize: number;
+  pageCount: number;
+  categories: Record<SizeCategory, CategorySize>;
+  images: ImageSizeInfo[];
+  fonts: FontSizeInfo[];
+  attachments: AttachmentSizeInfo[];
+}
+
+// Share of "N 0 obj ... endobj" wrappers and xref entries per object
+const OBJECT_OVERHEAD = 30;
+
+/**
+ * Attributes every indirect object of a document to one size category.
+ * Objects are claimed in a fixed order (unused, metadata, attachments,
+ * images, fonts, annotations, content streams), so a shared object is
+ * only counted once. Sizes are serialized sizes and therefore approximate
+ * for documents that use compressed object streams; whatever isn't
+ * attributed (page tree, cross-reference data, ...) is reported as "other".
+ */
+export function analyzeDocumentSize(
+  pdfDoc: PDFDocument,
+  totalSize: number,
+): PDFSizeBreakdown {
+  const { context } = pdfDoc;
+  const claimed = new Map<string, SizeCategory>();
+  const categories = createEmptyCategories();
+
+  const sizeOf = (ref: PDFRef) =>
+    (context.lookup(ref)?.sizeInBytes() ?? 0) + OBJECT_OVERHEAD;
+
+  const claim = (ref: PDFRef, category: SizeCategory): number => {
+    const key = ref.toString();
+    if (claimed.has(key) || !context.lookup(ref)) return 0;
+    claimed.set(key, category);
+    const size = sizeOf(ref);
+    categories[category].totalSize += size;
+    return size;
+  };
+
+  const objects = context.enumerateIndirectObjects();
+
+  // Unused objects
+  for (const ref of findUnreachableObjects(pdfDoc)) {
+    claim(ref, "unusedObjects");
+    categories.unusedObjects.count++;
+  }
+
+  // Document and object level metadata
+  if (context.trailerInfo.Info instanceof PDFRef) {
+    claim(context.trailerInfo.Info, "metadata");
+    categories.metadata.count++;
+  }
+  for (const [ref, object] of objects) {
+    if (object instanceof PDFStream && hasType(object.dict, "Metadata")) {
+      if (claim(ref, "metadata") > 0) categories.metadata.count++;
+    }
+  }
+
+  // Embedded files and their file specifications
+  const attachments: AttachmentSizeInfo[] = [];
+  for (const [ref, object] of objects) {
+    if (!(object instanceof PDFDict) || !hasType(object, "Filespec")) continue;
+    const embedded = object.lookup(PDFName.of("EF"));
+    if (!(embedded instanceof PDFDict)) continue;
+
+    let size = claim(ref, "attachments");
+    for (const value of embedded.values()) {
+      if (value instanceof PDFRef) size += claim(value, "attachments");
+    }
+    attachments.push({ name: getFilespecName(object), size });
+    categories.attachments.count++;
+  }
+
+  // Images
+  const placedImages = new Map(
+    collectPageImages(pdfDoc).map((image) => [image.ref.toString(), image]),
+  );
+  const images: ImageSizeInfo[] = [];
+  for (const [ref, object] of objects) {
+    if (!(object instanceof PDFRawStream)) continue;
+    if (!hasSubtype(object.dict, "Image")) continue;
+
+    const size = claim(ref, "images");
+    if (size === 0) continue;
+    categories.images.count++;
+
+    const placed = placedImages.get(ref.toString());
+    images.push({
+      id: ref.toString(),
+      width: lookupNumber(object.dict, "Width"),
+      height: lookupNumber(object.dict, "Height"),
+      components: getColorComponents(
+        context,
+        object.dict.lookup(PDFName.of("ColorSpace")),
+      ),
+      size,
+      filters: getFilterNames(object.dict),
+      encoding: getImageEncoding(context, object),
+      effectiveDPI: placed ? Math.round(getEffectiveDPI(placed)) : null,
+      pageIndices: placed ? [...placed.pageIndices] : [],
+    });
+  }
+
+  // Fonts, including descendant fonts, descriptors and font programs
+  const fonts: FontSizeInfo[] = [];
+  for (const [ref, object] of objects) {
+    if (!(object instanceof PDFDict) || !hasType(object, "Font")) continue;
+    const subtype = getName(object, "Subtype");
+    if (subtype === "CIDFontType0" || subtype === "CIDFontType2") continue;
+
+    let size = 0;
+    for (const fontRef of collectFontObjects(pdfDoc, ref)) {
+      size += claim(fontRef, "fonts");
+    }
+    if (size === 0) continue;
+
+    const name = getName(object, "BaseFont") ?? getName(object, "Name") ?? "";
+    const descriptor = getFontDescriptor(object);
+    fonts.push({
+      id: ref.toString(),
+      name,
+      subtype: subtype ?? "Unknown",
+      embedded:
+        descriptor !== undefined &&
+        ["FontFile", "FontFile2", "FontFile3"].some((key) =>
+          descriptor.has(PDFName.of(key)),
+        ),
+      subset: /^[A-Z]{6}\+/.test(name),
+      size,
+    });
+    categories.fonts.count++;
+  }
+
+  // Annotations and their appearance streams
+  for (const page of pdfDoc.getPages()) {
+    const annots = page.node.Annots();
+    if (!annots) continue;
+
+    for (const annot of annots.asArray()) {
+      if (!(annot instanceof PDFRef)) continue;
+      if (claim(annot, "annotations") === 0) continue;
+      categories.annotations.count++;
+
+      const annotDict = context.lookup(annot);
+      if (!(annotDict instanceof PDFDict)) continue;
+      for (const appearanceRef of collectAppearanceRefs(annotDict)) {
+        claim(appearanceRef, "annotations");
+      }
+    }
+  }
+
+  // Page content streams and form XObjects
+  for (const page of pdfDoc.getPages()) {
+    // Contents is a stream or an array of streams, possibly indirect
+    const contents = page.node.get(PDFName.of("Contents"));
+    const resolved = contents && context.lookup(contents);
+    const refs = [
+      contents,
+      ...(resolved instanceof PDFArray ? resolved.asArray() : []),
+    ];
+
+    for (const contentRef of refs) {
+      if (!(contentRef instanceof PDFRef)) continue;
+      const isStream = context.lookup(contentRef) instanceof PDFStream;
+      if (claim(contentRef, "contentStreams") > 0 && isStream) {
+        categories.contentStreams.count++;
+      }
+    }
+  }
+  for (const [ref, object] of objects) {
+    if (object instanceof PDFStream && hasSubtype(object.dict, "Form")) {
+      if (claim(ref, "contentStreams") > 0) categories.contentStreams.count++;
+    }
+  }
+
+  const attributed = Object.values(categories).reduce(
+    (sum, category) => sum + category.totalSize,
+    0,
+  );
+  categories.other.count = objects.length - claimed.size;
+  categories.other.totalSize = Math.max(0, totalSize - attributed);
+
+  return {
+    totalSize,
+    pageCount: pdfDoc.getPageCount(),
+    categories,
+    images: images.sort((a, b) => b.size - a.size),
+    fonts: fonts.sort((a, b) => b.size - a.size),
+    attachments,
+  };
+}
+
+function createEmptyCategories(): Record<SizeCategory, CategorySize> {
+  return {
+    images: { count: 0, totalSize: 0 },
+    fonts: { count: 0, totalSize: 0 },
+    contentStreams: { count: 0, totalSize: 0 },
+    annotations: { count: 0, totalSize: 0 },
+    attachments: { count: 0, totalSize: 0 },
+    metadata: { count: 0, totalSize: 0 },
+    unusedObjects: { count: 0, totalSize: 0 },
+    other: { count: 0, totalSize: 0 },
+  };
+}
+
+/**
+ * Indirect objects that belong to a font: the font itself, descendant
+ * fonts, descriptors, font programs, encodings, widths and ToUnicode maps.
+ * Type3 resources are skipped since they can point at shared objects.
+ */
+function collectFontObjects(pdfDoc: PDFDocument, fontRef: PDFRef): PDFRef[] {
+  const refs: PDFRef[] = [];
+  const seen = new Set<string>();
+  const pending: PDFObject[] = [fontRef];
+
+  while (pending.length > 0) {
+    const object = pending.pop()!;
+
+    if (object instanceof PDFRef) {
+      const key = object.toString();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      refs.push(object);
+      const target = pdfDoc.context.lookup(object);
+      if (target) pending.push(target);
+    } else if (object instanceof PDFDict) {
+      for (const [key, value] of object.entries()) {
+        if (key.decodeText() !== "Resources") pending.push(value);
+      }
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+
+  return refs;
+}
+
+function getFontDescriptor(font: PDFDict): PDFDict | undefined {
+  const descriptor = font.lookup(PDFName.of("FontDescriptor"));
+  if (descriptor instanceof PDFDict) return descriptor;
+
+  const descendants = font.lookup(PDFName.of("DescendantFonts"));
+  if (descendants instanceof PDFArray) {
+    const descendant = descendants.lookup(0);
+    if (descendant instanceof PDFDict) return getFontDescriptor(descendant);
+  }
+  return undefined;
+}
+
+// Appearance streams are either directly under N/R/D or one level deeper
+// in a dictionary of appearance states
+function collectAppearanceRefs(annot: PDFDict): PDFRef[] {
+  const refs: PDFRef[] = [];
+  const appearances = annot.lookup(PDFName.of("AP"));
+  if (!(appearances instanceof PDFDict)) return refs;
+
+  for (const value of appearances.values()) {
+    if (value instanceof PDFRef) {
+      refs.push(value);
+    }
+    const resolved = annot.context.lookup(value);
+    if (resolved instanceof PDFDict && !(resolved instanceof PDFStream)) {
+      for (const state of resolved.values()) {
+        if (state instanceof PDFRef) refs.push(state);
+      }
+    }
+  }
+  return refs;
+}
+
+function getFilespecName(filespec: PDFDict): string {
+  for (const key of ["UF", "F"]) {
+    const value = filespec.lookup(PDFName.of(key));
+    if (value instanceof PDFString || value instanceof PDFHexString) {
+      return value.decodeText();
+    }
+  }
+  return "Unnamed attachment";
+}
+
+function hasType(dict: PDFDict, type: string): boolean {
+  return getName(dict, "Type") === type;
+}
+
+function hasSubtype(dict: PDFDict, subtype: string): boolean {
+  return getName(dict, "Subtype") === subtype;
+}
+
+function getName(dict: PDFDict, key: string): string | undefined {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFName ? value.decodeText() : undefined;
+}
+
+function lookupNumber(dict: PDFDict, key: string): number {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : 0;
+}
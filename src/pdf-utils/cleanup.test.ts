@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import {
+  PDFDocument,
+  PDFName,
+  PDFRef,
+  StandardFonts,
+  drawObject,
+  setFontAndSize,
+} from "pdf-lib";
+import {
+  cleanupDocument,
+  removeUnreachableObjects,
+  removePageThumbnails,
+  pruneUnusedResources,
+  mergeDuplicateObjects,
+  hashBytes,
+} from "./cleanup";
+
+function registerImage(pdfDoc: PDFDocument, fill: number): PDFRef {
+  return pdfDoc.context.register(
+    pdfDoc.context.flateStream(new Uint8Array(2 * 2 * 3).fill(fill), {
+      Type: "XObject",
+      Subtype: "Image",
+      Width: 2,
+      Height: 2,
+      ColorSpace: "DeviceRGB",
+      BitsPerComponent: 8,
+    }),
+  );
+}
+
+describe("removeUnreachableObjects", () => {
+  it("should delete objects nothing points at", async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+    const orphan = pdfDoc.context.register(pdfDoc.context.obj({ Foo: 1 }));
+
+    const removed = removeUnreachableObjects(pdfDoc);
+
+    expect(removed).toBeGreaterThanOrEqual(1);
+    expect(pdfDoc.context.lookup(orphan)).toBeUndefined();
+    expect(pdfDoc.getPageCount()).toBe(1);
+  });
+
+  it("should keep objects reachable from the catalog and info", async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+    pdfDoc.setTitle("Contract");
+    removeUnreachableObjects(pdfDoc);
+
+    const reloaded = await PDFDocument.load(await pdfDoc.save());
+    expect(reloaded.getPageCount()).toBe(1);
+    expect(reloaded.getTitle()).toBe("Contract");
+  });
+});
+
+describe("removePageThumbnails", () => {
+  it("should remove /Thumb entries and their images", async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage();
+    const thumbnail = registerImage(pdfDoc, 0);
+    page.node.set(PDFName.of("Thumb"), thumbnail);
+
+    expect(removePageThumbnails(pdfDoc)).toBe(1);
+    expect(page.node.has(PDFName.of("Thumb"))).toBe(false);
+    expect(pdfDoc.context.lookup(thumbnail)).toBeUndefined();
+  });
+});
+
+describe("pruneUnusedResources", () => {
+  it("should remove resource entries no operator uses", async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage();
+    const usedFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const unusedFont = await pdfDoc.embedFont(StandardFonts.Courier);
+    page.node.setFontDictionary(PDFName.of("F1"), usedFont.ref);
+    page.node.setFontDictionary(PDFName.of("F2"), unusedFont.ref);
+
+    const imageRef = registerImage(pdfDoc, 0);
+    const formRef = pdfDoc.context.register(
+      pdfDoc.context.flateStream("", {
+        Type: "XObject",
+        Subtype: "Form",
+        BBox: [0, 0, 10, 10],
+      }),
+    );
+    page.node.setXObject(PDFName.of("Im0"), imageRef);
+    page.node.setXObject(PDFName.of("Fm0"), formRef);
+    page.pushOperators(setFontAndSize("F1", 12), drawObject("Im0"));
+
+    const result = pruneUnusedResources(pdfDoc);
+    const resources = page.node.Resources()!;
+    const fonts = resources.lookup(PDFName.of("Font")) as any;
+    const xObjects = resources.lookup(PDFName.of("XObject")) as any;
+
+    expect(result).toEqual({ formXObjects: 1, resources: 1 });
+    expect(fonts.has(PDFName.of("F1"))).toBe(true);
+    expect(fonts.has(PDFName.of("F2"))).toBe(false);
+    expect(xObjects.has(PDFName.of("Im0"))).toBe(true);
+    expect(xObjects.has(PDFName.of("Fm0"))).toBe(false);
+  });
+
+  it("should keep resources used inside painted form XObjects", async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage();
+    const imageRef = registerImage(pdfDoc, 0);
+    const formRef = pdfDoc.context.register(
+      pdfDoc.context.flateStream("/Im0 Do", {
+        Type: "XObject",
+        Subtype: "Form",
+        BBox: [0, 0, 10, 10],
+        Resources: { XObject: { Im0: imageRef, Im1: imageRef } },
+      }),
+    );
+    page.node.setXObject(PDFName.of("Fm0"), formRef);
+    page.pushOperators(drawObject("Fm0"));
+
+    const result = pruneUnusedResources(pdfDoc);
+
+    expect(result).toEqual({ formXObjects: 0, resources: 1 });
+  });
+});
+
+describe("mergeDuplicateObjects", () => {
+  it("should point identical images at a single copy", async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page1 = pdfDoc.addPage();
+    const page2 = pdfDoc.addPage();
+    const image1 = registerImage(pdfDoc, 7);
+    const image2 = registerImage(pdfDoc, 7);
+    const different = registerImage(pdfDoc, 9);
+    page1.node.setXObject(PDFName.of("Im0"), image1);
+    page2.node.setXObject(PDFName.of("Im0"), image2);
+    page2.node.setXObject(PDFName.of("Im1"), different);
+
+    const result = mergeDuplicateObjects(pdfDoc);
+    const page2XObjects = page2.node
+      .Resources()!
+      .lookup(PDFName.of("XObject")) as any;
+
+    expect(result.images).toBe(1);
+    expect(page2XObjects.get(PDFName.of("Im0"))).toBe(image1);
+    expect(page2XObjects.get(PDFName.of("Im1"))).toBe(different);
+    expect(pdfDoc.context.lookup(image2)).toBeUndefined();
+  });
+
+  it("should merge identical font dictionaries", async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage();
+    const font1 = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const font2 = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    await pdfDoc.flush();
+    page.node.setFontDictionary(PDFName.of("F1"), font1.ref);
+    page.node.setFontDictionary(PDFName.of("F2"), font2.ref);
+
+    const result = mergeDuplicateObjects(pdfDoc);
+    const fonts = page.node.Resources()!.lookup(PDFName.of("Font")) as any;
+
+    expect(result.fonts).toBe(1);
+    expect(fonts.get(PDFName.of("F2"))).toBe(font1.ref);
+  });
+});
+
+describe("cleanupDocument", () => {
+  it("should return a breakdown and leave a valid document", async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage();
+    page.node.set(PDFName.of("Thumb"), registerImage(pdfDoc, 1));
+    pdfDoc.context.register(pdfDoc.context.obj({ Orphan: true }));
+
+    const report = cleanupDocument(pdfDoc);
+
+    expect(report.thumbnails).toBe(1);
+    expect(report.unreachableObjects).toBeGreaterThanOrEqual(1);
+    expect(report).toHaveProperty("duplicateFonts");
+    expect(report).toHaveProperty("duplicateImages");
+    expect(report).toHaveProperty("unusedFormXObjects");
+    expect(report).toHaveProperty("unusedResources");
+
+    const reloaded = await PDFDocument.load(await pdfDoc.save());
+    expect(reloaded.getPageCount()).toBe(1);
+  });
+});
+
+describe("hashBytes", () => {
+  it("should produce stable 8 digit hashes", () => {
+    expect(hashBytes(new Uint8Array([]))).toBe("811c9dc5");
+    expect(hashBytes(new Uint8Array([1, 2, 3]))).toBe(
+      hashBytes(new Uint8Array([1, 2, 3])),
+    );
+    expect(hashBytes(new Uint8Array([1, 2, 3]))).not.toBe(
+      hashBytes(new Uint8Array([3, 2, 1])),
+    );
+  });
+});
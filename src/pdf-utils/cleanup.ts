@@ -0,0 +1,501 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+} from "pdf-lib";
+import {
+  getPageContentBytes,
+  getStreamBytes,
+  parseContentStream,
+} from "./content-stream";
+
+export interface CleanupReport {
+  unreachableObjects: number; // Indirect objects not reachable from the trailer
+  thumbnails: number; // Embedded page thumbnails
+  duplicateFonts: number; // Font dictionaries, descriptors and programs merged
+  duplicateImages: number; // Image XObjects merged with an identical copy
+  unusedFormXObjects: number; // Form XObjects no content stream paints
+  unusedResources: number; // Other resource entries no content stream uses
+}
+
+// Resource categories whose entries can be pruned when no operator uses them
+const PRUNABLE_CATEGORIES = [
+  "XObject",
+  "Font",
+  "ExtGState",
+  "Shading",
+  "Pattern",
+] as const;
+
+type ResourceCategory = (typeof PRUNABLE_CATEGORIES)[number];
+
+const OPERATOR_CATEGORIES: Record<string, ResourceCategory> = {
+  Do: "XObject",
+  Tf: "Font",
+  gs: "ExtGState",
+  sh: "Shading",
+  scn: "Pattern",
+  SCN: "Pattern",
+};
+
+const FONT_FILE_KEYS = ["FontFile", "FontFile2", "FontFile3"];
+
+export function createEmptyCleanupReport(): CleanupReport {
+  return {
+    unreachableObjects: 0,
+    thumbnails: 0,
+    duplicateFonts: 0,
+    duplicateImages: 0,
+    unusedFormXObjects: 0,
+    unusedResources: 0,
+  };
+}
+
+/**
+ * Removes data the document doesn't need: page thumbnails, resource entries
+ * that no content stream uses, duplicate fonts and images (by content hash)
+ * and finally every indirect object that is no longer reachable from the
+ * trailer.
+ * @returns Breakdown of what was removed
+ */
+export function cleanupDocument(pdfDoc: PDFDocument): CleanupReport {
+  const report = createEmptyCleanupReport();
+
+  report.thumbnails = removePageThumbnails(pdfDoc);
+
+  const pruned = pruneUnusedResources(pdfDoc);
+  report.unusedFormXObjects = pruned.formXObjects;
+  report.unusedResources = pruned.resources;
+
+  const duplicates = mergeDuplicateObjects(pdfDoc);
+  report.duplicateFonts = duplicates.fonts;
+  report.duplicateImages = duplicates.images;
+
+  report.unreachableObjects = removeUnreachableObjects(pdfDoc);
+
+  return report;
+}
+
+/**
+ * Deletes the embedded thumbnail image of every page
+ */
+export function removePageThumbnails(pdfDoc: PDFDocument): number {
+  let removed = 0;
+  for (const page of pdfDoc.getPages()) {
+    const thumbnail = page.node.get(PDFName.of("Thumb"));
+    if (!thumbnail) continue;
+
+    page.node.delete(PDFName.of("Thumb"));
+    if (thumbnail instanceof PDFRef) pdfDoc.context.delete(thumbnail);
+    removed++;
+  }
+  return removed;
+}
+
+/**
+ * Deletes every indirect object that can't be reached from the trailer
+ * @returns Number of objects deleted
+ */
+export function removeUnreachableObjects(pdfDoc: PDFDocument): number {
+  const unreachable = findUnreachableObjects(pdfDoc);
+  for (const ref of unreachable) {
+    pdfDoc.context.delete(ref);
+  }
+  return unreachable.length;
+}
+
+/**
+ * Lists the indirect objects that can't be reached from the trailer
+ */
+export function findUnreachableObjects(pdfDoc: PDFDocument): PDFRef[] {
+  const { context } = pdfDoc;
+  const reachable = new Set<string>();
+  const pending: PDFObject[] = [];
+
+  for (const root of Object.values(context.trailerInfo)) {
+    if (root) pending.push(root);
+  }
+
+  while (pending.length > 0) {
+    const object = pending.pop()!;
+
+    if (object instanceof PDFRef) {
+      const key = object.toString();
+      if (reachable.has(key)) continue;
+      reachable.add(key);
+      const target = context.lookup(object);
+      if (target) pending.push(target);
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+
+  return context
+    .enumerateIndirectObjects()
+    .map(([ref]) => ref)
+    .filter((ref) => !reachable.has(ref.toString()));
+}
+
+/**
+ * Removes resource entries that are never used by the content streams of
+ * pages, annotation appearances and the form XObjects they paint
+ */
+export function pruneUnusedResources(pdfDoc: PDFDocument): {
+  formXObjects: number;
+  resources: number;
+} {
+  const { context } = pdfDoc;
+  const usage = new Map<PDFDict, Map<ResourceCategory, Set<string>>>();
+  const unsafe = findResourcesUsedElsewhere(pdfDoc);
+  const visited = new Set<string>();
+  const dictIds = new Map<PDFDict, number>();
+
+  const getDictId = (dict: PDFDict) => {
+    if (!dictIds.has(dict)) dictIds.set(dict, dictIds.size);
+    return dictIds.get(dict)!;
+  };
+
+  const markUsed = (
+    resources: PDFDict,
+    category: ResourceCategory,
+    name: string,
+  ) => {
+    usage.get(resources)?.get(category)?.add(name);
+  };
+
+  const walkContent = (
+    getBytes: () => Uint8Array,
+    resources: PDFDict | undefined,
+  ) => {
+    if (!resources) return;
+    if (!usage.has(resources)) {
+      usage.set(
+        resources,
+        new Map(PRUNABLE_CATEGORIES.map((category) => [category, new Set()])),
+      );
+    }
+
+    let operations;
+    try {
+      operations = parseContentStream(getBytes());
+    } catch {
+      // Content we can't read might use anything in its resources
+      unsafe.add(resources);
+      return;
+    }
+
+    for (const { operator, operands } of operations) {
+      const category = OPERATOR_CATEGORIES[operator];
+      if (!category) continue;
+
+      // Tf takes the font name first, the others take the name last
+      const nameOperand =
+        operator === "Tf" ? operands[0] : operands[operands.length - 1];
+      if (nameOperand?.type !== "name") continue;
+      markUsed(resources, category, nameOperand.value);
+
+      if (category !== "XObject") continue;
+      const xObjects = resources.lookupMaybe(PDFName.of("XObject"), PDFDict);
+      const ref = xObjects?.get(PDFName.of(nameOperand.value));
+      const form = ref instanceof PDFRef ? context.lookup(ref) : undefined;
+      if (
+        form instanceof PDFStream &&
+        form.dict.lookup(PDFName.of("Subtype")) === PDFName.of("Form")
+      ) {
+        walkForm(form, ref as PDFRef, resources);
+      }
+    }
+  };
+
+  const walkForm = (
+    form: PDFStream,
+    ref: PDFRef | undefined,
+    parentResources: PDFDict | undefined,
+  ) => {
+    const resources =
+      form.dict.lookupMaybe(PDFName.of("Resources"), PDFDict) ??
+      parentResources;
+    const key = `${ref?.toString() ?? "direct"}|${resources ? getDictId(resources) : "none"}`;
+    if (ref && visited.has(key)) return;
+    visited.add(key);
+    walkContent(() => getStreamBytes(form), resources);
+  };
+
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    const resources = page.node.Resources();
+    walkContent(() => getPageContentBytes(pdfDoc, pageIndex), resources);
+
+    // Annotation appearance streams are form XObjects too
+    const annots = page.node.Annots();
+    for (let i = 0; i < (annots?.size() ?? 0); i++) {
+      const annot = annots!.lookup(i);
+      if (!(annot instanceof PDFDict)) continue;
+      const appearances = annot.lookupMaybe(PDFName.of("AP"), PDFDict);
+      for (const appearance of appearances?.values() ?? []) {
+        for (const [stream, ref] of getAppearanceStreams(pdfDoc, appearance)) {
+          walkForm(stream, ref, undefined);
+        }
+      }
+    }
+  });
+
+  let formXObjects = 0;
+  let resources = 0;
+
+  for (const [resourceDict, used] of usage) {
+    if (unsafe.has(resourceDict)) continue;
+
+    for (const category of PRUNABLE_CATEGORIES) {
+      const entries = resourceDict.lookupMaybe(PDFName.of(category), PDFDict);
+      if (!entries) continue;
+
+      for (const key of entries.keys()) {
+        if (used.get(category)!.has(key.decodeText())) continue;
+
+        const target = context.lookup(entries.get(key));
+        const isForm =
+          target instanceof PDFStream &&
+          target.dict.lookup(PDFName.of("Subtype")) === PDFName.of("Form");
+        entries.delete(key);
+        if (isForm) {
+          formXObjects++;
+        } else {
+          resources++;
+        }
+      }
+    }
+  }
+
+  return { formXObjects, resources };
+}
+
+/**
+ * Resource dictionaries used by content we don't walk (tiling patterns,
+ * Type3 glyph procedures) must keep all their entries
+ */
+function findResourcesUsedElsewhere(pdfDoc: PDFDocument): Set<PDFDict> {
+  const unsafe = new Set<PDFDict>();
+
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    const dict =
+      object instanceof PDFStream
+        ? object.dict
+        : object instanceof PDFDict
+          ? object
+          : undefined;
+    if (!dict) continue;
+
+    const isPattern = dict.has(PDFName.of("PatternType"));
+    const isType3 = dict.lookup(PDFName.of("Subtype")) === PDFName.of("Type3");
+    if (isPattern || isType3) {
+      const resources = dict.lookupMaybe(PDFName.of("Resources"), PDFDict);
+      if (resources) unsafe.add(resources);
+    }
+  }
+
+  return unsafe;
+}
+
+function getAppearanceStreams(
+  pdfDoc: PDFDocument,
+  appearance: PDFObject,
+): Array<[PDFStream, PDFRef | undefined]> {
+  const ref = appearance instanceof PDFRef ? appearance : undefined;
+  const resolved = pdfDoc.context.lookup(appearance);
+
+  if (resolved instanceof PDFStream) return [[resolved, ref]];
+  if (resolved instanceof PDFDict) {
+    // Appearance states such as /On and /Off
+    return resolved
+      .values()
+      .flatMap((state) => getAppearanceStreams(pdfDoc, state));
+  }
+  return [];
+}
+
+/**
+ * Merges byte-identical images, font programs and the font dictionaries
+ * that point at them, then rewrites every reference to the surviving copy
+ */
+export function mergeDuplicateObjects(pdfDoc: PDFDocument): {
+  fonts: number;
+  images: number;
+} {
+  const { context } = pdfDoc;
+  const fontFileRefs = new Set<string>();
+
+  for (const [, object] of context.enumerateIndirectObjects()) {
+    if (
+      object instanceof PDFDict &&
+      object.lookup(PDFName.of("Type")) === PDFName.of("FontDescriptor")
+    ) {
+      for (const key of FONT_FILE_KEYS) {
+        const ref = object.get(PDFName.of(key));
+        if (ref instanceof PDFRef) fontFileRefs.add(ref.toString());
+      }
+    }
+  }
+
+  const imageRefs = new Set<string>();
+
+  // Streams first: identical bytes and dictionaries
+  const streamReplacements = findDuplicates(pdfDoc, (ref, object) => {
+    if (!(object instanceof PDFRawStream)) return undefined;
+    const isImage =
+      object.dict.lookup(PDFName.of("Subtype")) === PDFName.of("Image");
+    if (!isImage && !fontFileRefs.has(ref.toString())) return undefined;
+    if (isImage) imageRefs.add(ref.toString());
+    return { key: serializeDict(object.dict), bytes: object.contents };
+  });
+  const duplicateImages = [...streamReplacements.keys()].filter((key) =>
+    imageRefs.has(key),
+  );
+  const images = duplicateImages.length;
+  let fonts = streamReplacements.size - images;
+  replaceReferences(pdfDoc, streamReplacements);
+
+  // Descriptors before fonts, since fonts point at descriptors
+  for (const type of ["FontDescriptor", "Font"]) {
+    const replacements = findDuplicates(pdfDoc, (_ref, object) => {
+      if (
+        !(object instanceof PDFDict) ||
+        object.lookup(PDFName.of("Type")) !== PDFName.of(type)
+      ) {
+        return undefined;
+      }
+      return { key: `${type}:${object.toString()}` };
+    });
+    fonts += replacements.size;
+    replaceReferences(pdfDoc, replacements);
+  }
+
+  return { fonts, images };
+}
+
+/**
+ * Groups indirect objects by a content key and returns a map from each
+ * duplicate's reference to the reference of the first identical object
+ */
+function findDuplicates(
+  pdfDoc: PDFDocument,
+  describe: (
+    ref: PDFRef,
+    object: PDFObject,
+  ) => { key: string; bytes?: Uint8Array } | undefined,
+): Map<string, PDFRef> {
+  const groups = new Map<string, Array<{ ref: PDFRef; bytes?: Uint8Array }>>();
+  const replacements = new Map<string, PDFRef>();
+
+  for (const [ref, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    const description = describe(ref, object);
+    if (!description) continue;
+
+    const { key, bytes } = description;
+    const groupKey = bytes ? `${key}:${bytes.length}:${hashBytes(bytes)}` : key;
+    const group = groups.get(groupKey) ?? [];
+
+    // Hash collisions are possible, so confirm byte equality
+    const original = group.find(
+      (candidate) => !bytes || bytesEqual(candidate.bytes!, bytes),
+    );
+    if (original) {
+      replacements.set(ref.toString(), original.ref);
+    } else {
+      group.push({ ref, bytes });
+      groups.set(groupKey, group);
+    }
+  }
+
+  return replacements;
+}
+
+/**
+ * Rewrites every reference in the document according to the map
+ */
+function replaceReferences(
+  pdfDoc: PDFDocument,
+  replacements: Map<string, PDFRef>,
+): void {
+  if (replacements.size === 0) return;
+
+  const visit = (object: PDFObject | undefined) => {
+    if (object instanceof PDFDict) {
+      for (const [key, value] of object.entries()) {
+        const replacement =
+          value instanceof PDFRef ? replacements.get(value.toString()) : null;
+        if (replacement) {
+          object.set(key, replacement);
+        } else {
+          visit(value);
+        }
+      }
+    } else if (object instanceof PDFArray) {
+      for (let i = 0; i < object.size(); i++) {
+        const value = object.get(i);
+        const replacement =
+          value instanceof PDFRef ? replacements.get(value.toString()) : null;
+        if (replacement) {
+          object.set(i, replacement);
+        } else {
+          visit(value);
+        }
+      }
+    } else if (object instanceof PDFStream) {
+      visit(object.dict);
+    }
+  };
+
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    visit(object);
+  }
+
+  const { trailerInfo } = pdfDoc.context;
+  for (const key of ["Root", "Info"] as const) {
+    const value = trailerInfo[key];
+    if (value instanceof PDFRef && replacements.has(value.toString())) {
+      trailerInfo[key] = replacements.get(value.toString());
+    }
+  }
+
+  // Nothing points at the duplicates anymore
+  for (const [ref] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (replacements.has(ref.toString())) pdfDoc.context.delete(ref);
+  }
+}
+
+function serializeDict(dict: PDFDict): string {
+  return dict
+    .entries()
+    .filter(([key]) => key !== PDFName.of("Length"))
+    .map(([key, value]) => `${key.toString()} ${value.toString()}`)
+    .join(" ");
+}
+
+/**
+ * 32-bit FNV-1a hash, used to bucket candidate duplicates
+ */
+export function hashBytes(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as pdfjsLib from "pdfjs-dist";
+import { comparePDFPages, computeSSIM, type PixelData } from "./compare";
+
+vi.mock("pdfjs-dist", () => ({
+  getDocument: vi.fn(),
+  GlobalWorkerOptions: {
+    workerSrc: "",
+  },
+}));
+
+function createPixels(
+  width: number,
+  height: number,
+  value: (x: number, y: number) => number,
+): PixelData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      data.fill(value(x, y), offset, offset + 3);
+      data[offset + 3] = 255;
+    }
+  }
+  return { data, width, height };
+}
+
+// Vertical stripes, like lines of text
+const stripes = (x: number) => (x % 4 < 2 ? 30 : 220);
+
+function mockDocument(numPages: number) {
+  const pdf = {
+    numPages,
+    getPage: vi.fn().mockResolvedValue({
+      getViewport: () => ({ width: 16, height: 16 }),
+      render: () => ({ promise: Promise.resolve() }),
+    }),
+    destroy: vi.fn().mockResolvedValue(undefined),
+  };
+  return { promise: Promise.resolve(pdf), pdf };
+}
+
+// Each rendered canvas returns the next bitmap from the queue
+function mockCanvases(bitmaps: PixelData[]) {
+  vi.mocked(document.createElement).mockImplementation(((tagName: string) => {
+    if (tagName !== "canvas") throw new Error("Unexpected element");
+    return {
+      width: 0,
+      height: 0,
+      getContext: () => ({
+        fillRect: vi.fn(),
+        getImageData: () => bitmaps.shift(),
+      }),
+    };
+  }) as any);
+}
+
+function createFile(name: string): File {
+  return new File(["%PDF"], name, { type: "application/pdf" });
+}
+
+describe("computeSSIM", () => {
+  it("should return 1 for identical images", () => {
+    const image = createPixels(32, 32, stripes);
+    expect(computeSSIM(image, image)).toBeCloseTo(1, 5);
+  });
+
+  it("should drop as the image gets blurrier", () => {
+    const sharp = createPixels(32, 32, stripes);
+    const soft = createPixels(32, 32, (x) => (x % 4 < 2 ? 90 : 160));
+    const flat = createPixels(32, 32, () => 125);
+
+    const softScore = computeSSIM(sharp, soft);
+    const flatScore = computeSSIM(sharp, flat);
+
+    expect(softScore).toBeLessThan(1);
+    expect(flatScore).toBeLessThan(softScore);
+  });
+
+  it("should handle images smaller than a window", () => {
+    const tiny = createPixels(3, 2, stripes);
+    expect(computeSSIM(tiny, tiny)).toBeCloseTo(1, 5);
+  });
+
+  it("should reject images of different sizes", () => {
+    expect(() =>
+      computeSSIM(createPixels(4, 4, stripes), createPixels(8, 8, stripes)),
+    ).toThrow("same size");
+  });
+});
+
+describe("comparePDFPages", () => {
+  beforeEach(() => {
+    vi.mocked(pdfjsLib.getDocument).mockReset();
+  });
+
+  it("should score every page and flag degraded ones", async () => {
+    vi.mocked(pdfjsLib.getDocument)
+      .mockReturnValueOnce(mockDocument(2) as any)
+      .mockReturnValueOnce(mockDocument(2) as any);
+    const sharp = createPixels(16, 16, stripes);
+    mockCanvases([sharp, sharp, sharp, createPixels(16, 16, () => 125)]);
+    const onProgress = vi.fn();
+
+    const result = await comparePDFPages({
+      original: createFile("original.pdf"),
+      compressed: createFile("compressed.pdf"),
+      onProgress,
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.pages).toHaveLength(2);
+      expect(result.pages[0].ssim).toBeCloseTo(1, 5);
+      expect(result.pages[0].flagged).toBe(false);
+      expect(result.pages[1].flagged).toBe(true);
+      expect(result.flaggedPages).toEqual([2]);
+    }
+    expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+  });
+
+  it("should fail when page counts differ", async () => {
+    const original = mockDocument(3);
+    const compressed = mockDocument(2);
+    vi.mocked(pdfjsLib.getDocument)
+      .mockReturnValueOnce(original as any)
+      .mockReturnValueOnce(compressed as any);
+
+    const result = await comparePDFPages({
+      original: createFile("original.pdf"),
+      compressed: createFile("compressed.pdf"),
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe("The PDFs have a different number of pages");
+    }
+    expect(original.pdf.destroy).toHaveBeenCalled();
+    expect(compressed.pdf.destroy).toHaveBeenCalled();
+  });
+
+  it("should report rendering errors", async () => {
+    vi.mocked(pdfjsLib.getDocument).mockReturnValue({
+      promise: Promise.reject(new Error("Invalid PDF structure")),
+    } as any);
+
+    const result = await comparePDFPages({
+      original: createFile("original.pdf"),
+      compressed: createFile("compressed.pdf"),
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe("Failed to compare PDFs");
+      expect(result.details).toBe("Invalid PDF structure");
+    }
+  });
+});
@@ -0,0 +1,269 @@
+import * as pdfjsLib from "pdfjs-dist";
+
+// Configure PDF.js worker for offline use
+pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
+  "pdfjs-dist/build/pdf.worker.min.mjs",
+  import.meta.url,
+).toString();
+
+export interface PixelData {
+  data: Uint8ClampedArray | Uint8Array; // RGBA
+  width: number;
+  height: number;
+}
+
+export interface PageComparison {
+  pageNumber: number; // 1-based
+  ssim: number; // 1 means identical
+  flagged: boolean; // Below the similarity threshold
+}
+
+export interface ComparePDFPagesOptions {
+  original: Blob;
+  password?: string; // For an encrypted original
+  compressed: Blob;
+  scale?: number; // Rendering scale (default: 1, i.e. 72 DPI)
+  threshold?: number; // Pages below this SSIM are flagged
+  onProgress?: (comparedPages: number, totalPages: number) => void;
+}
+
+export interface ComparePDFPagesResult {
+  success: true;
+  pages: PageComparison[];
+  averageSSIM: number;
+  flaggedPages: number[]; // 1-based page numbers
+}
+
+export interface ComparePDFPagesError {
+  success: false;
+  error: string;
+  details?: string;
+}
+
+export type ComparePDFPagesResponse =
+  | ComparePDFPagesResult
+  | ComparePDFPagesError;
+
+// Below this, differences are usually visible without zooming in
+export const DEFAULT_SSIM_THRESHOLD = 0.9;
+
+const SSIM_WINDOW_SIZE = 8;
+const SSIM_WINDOW_STEP = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/**
+ * Renders every page of the original and compressed PDF and scores how
+ * similar they look using SSIM on the rendered bitmaps
+ * @param options - Configuration object containing both PDFs
+ * @returns Promise that resolves to per-page similarity scores or error
+ */
+export async function comparePDFPages(
+  options: ComparePDFPagesOptions,
+): Promise<ComparePDFPagesResponse> {
+  try {
+    const {
+      original,
+      compressed,
+      scale = 1,
+      threshold = DEFAULT_SSIM_THRESHOLD,
+      onProgress,
+      password,
+    } = options;
+
+    if (!original || !compressed) {
+      return { success: false, error: "Both PDFs are required for comparison" };
+    }
+
+    const originalPdf = await pdfjsLib.getDocument({
+      data: await original.arrayBuffer(),
+      password,
+    }).promise;
+    try {
+      const compressedPdf = await pdfjsLib.getDocument({
+        data: await compressed.arrayBuffer(),
+      }).promise;
+      try {
+        return await compareDocuments(
+          originalPdf,
+          compressedPdf,
+          scale,
+          threshold,
+          onProgress,
+        );
+      } finally {
+        await compressedPdf.destroy();
+      }
+    } finally {
+      await originalPdf.destroy();
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: "Failed to compare PDFs",
+      details: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Scores each page pair of two loaded documents
+async function compareDocuments(
+  originalPdf: pdfjsLib.PDFDocumentProxy,
+  compressedPdf: pdfjsLib.PDFDocumentProxy,
+  scale: number,
+  threshold: number,
+  onProgress: ComparePDFPagesOptions["onProgress"],
+): Promise<ComparePDFPagesResponse> {
+  if (originalPdf.numPages !== compressedPdf.numPages) {
+    return {
+      success: false,
+      error: "The PDFs have a different number of pages",
+      details: `Original has ${originalPdf.numPages} pages, compressed has ${compressedPdf.numPages}`,
+    };
+  }
+
+  const pages: PageComparison[] = [];
+  for (let pageNumber = 1; pageNumber <= originalPdf.numPages; pageNumber++) {
+    const [before, after] = await Promise.all([
+      renderPageToPixels(originalPdf, pageNumber, scale),
+      renderPageToPixels(compressedPdf, pageNumber, scale),
+    ]);
+    const ssim = computeSSIM(before, after);
+    pages.push({ pageNumber, ssim, flagged: ssim < threshold });
+    onProgress?.(pageNumber, originalPdf.numPages);
+  }
+
+  const averageSSIM =
+    pages.reduce((sum, page) => sum + page.ssim, 0) / Math.max(1, pages.length);
+
+  return {
+    success: true,
+    pages,
+    averageSSIM,
+    flaggedPages: pages
+      .filter((page) => page.flagged)
+      .map((page) => page.pageNumber),
+  };
+}
+
+/**
+ * Renders one page onto an offscreen canvas and returns its pixels
+ */
+export async function renderPageToPixels(
+  pdf: pdfjsLib.PDFDocumentProxy,
+  pageNumber: number,
+  scale: number,
+): Promise<PixelData> {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Failed to create canvas context");
+  }
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  // White background so transparent areas compare like paper
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  await page.render({ canvasContext: context, viewport }).promise;
+
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Structural similarity of two RGBA bitmaps of the same size, computed on
+ * luminance over 8×8 windows with a step of 4 and averaged. Returns a value
+ * in [-1, 1] where 1 means identical.
+ */
+export function computeSSIM(a: PixelData, b: PixelData): number {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(
+      `Images must have the same size (${a.width}×${a.height} vs ${b.width}×${b.height})`,
+    );
+  }
+
+  const { width, height } = a;
+  if (width === 0 || height === 0) return 1;
+
+  const lumaA = toLuminance(a);
+  const lumaB = toLuminance(b);
+
+  // Small images are compared as a single window
+  const windowWidth = Math.min(SSIM_WINDOW_SIZE, width);
+  const windowHeight = Math.min(SSIM_WINDOW_SIZE, height);
+
+  let total = 0;
+  let windows = 0;
+
+  for (let y = 0; y + windowHeight <= height; y += SSIM_WINDOW_STEP) {
+    for (let x = 0; x + windowWidth <= width; x += SSIM_WINDOW_STEP) {
+      total += windowSSIM(lumaA, lumaB, width, x, y, windowWidth, windowHeight);
+      windows++;
+    }
+  }
+
+  return windows > 0 ? total / windows : 1;
+}
+
+function windowSSIM(
+  a: Float32Array,
+  b: Float32Array,
+  stride: number,
+  left: number,
+  top: number,
+  windowWidth: number,
+  windowHeight: number,
+): number {
+  const count = windowWidth * windowHeight;
+  let sumA = 0;
+  let sumB = 0;
+
+  for (let y = top; y < top + windowHeight; y++) {
+    for (let x = left; x < left + windowWidth; x++) {
+      sumA += a[y * stride + x];
+      sumB += b[y * stride + x];
+    }
+  }
+
+  const meanA = sumA / count;
+  const meanB = sumB / count;
+  let varianceA = 0;
+  let varianceB = 0;
+  let covariance = 0;
+
+  for (let y = top; y < top + windowHeight; y++) {
+    for (let x = left; x < left + windowWidth; x++) {
+      const deltaA = a[y * stride + x] - meanA;
+      const deltaB = b[y * stride + x] - meanB;
+      varianceA += deltaA * deltaA;
+      varianceB += deltaB * deltaB;
+      covariance += deltaA * deltaB;
+    }
+  }
+
+  varianceA /= count;
+  varianceB /= count;
+  covariance /= count;
+
+  return (
+    ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+    ((meanA * meanA + meanB * meanB + SSIM_C1) *
+      (varianceA + varianceB + SSIM_C2))
+  );
+}
+
+function toLuminance({ data, width, height }: PixelData): Float32Array {
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    const offset = i * 4;
+    luma[i] =
+      0.299 * data[offset] +
+      0.587 * data[offset + 1] +
+      0.114 * data[offset + 2];
+  }
+  return luma;
+}
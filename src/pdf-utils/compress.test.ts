@@ -1,10 +1,32 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import {
+  PDFDocument,
+  PDFName,
+  PDFRawStream,
+  concatTransformationMatrix,
+  drawObject,
+} from "pdf-lib";
+
+// Canvas decoding isn't available in jsdom, so stand in for the resampler
+vi.mock("./images", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./images")>()),
+  resampleImageAsJpeg: vi.fn(async () => new Uint8Array([0xff, 0xd8, 0xff])),
+  resampleImageAsGray: vi.fn(async (_context, _stream, options) => ({
+    samples: new Uint8Array(options.targetWidth * options.targetHeight),
+    bitsPerComponent: options.colorMode === "bilevel" ? 1 : 8,
+  })),
+}));
+
+import { resampleImageAsGray, resampleImageAsJpeg } from "./images";
+import { readLinearizationParameters } from "./linearize";
+import {
+  analyzePDF,
   compressPDF,
   formatFileSize,
   calculateCompressionPercentage,
   type CompressPDFOptions,
 } from "./compress";
+import { createPDFFileFromBytes } from "../../tests/pdf-fixtures";
 
 // Mock PDF files for testing
 function createMockPDFFile(name: string, sizeKB: number = 100): File {
@@ -18,6 +40,58 @@ function createMockNonPDFFile(name: string): File {
   return new File([blob], name, { type: "text/plain" });
 }
 
+// A letter page with a 1200x1200 image drawn 2 inches wide (600 DPI)
+async function createPDFWithImage(
+  dict: Record<string, unknown> = {},
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([612, 792]);
+  const pixels = new Uint8Array(1200 * 1200 * 3).map((_, i) => i % 251);
+  const imageRef = pdfDoc.context.register(
+    pdfDoc.context.flateStream(pixels, {
+      Type: "XObject",
+      Subtype: "Image",
+      Width: 1200,
+      Height: 1200,
+      ColorSpace: "DeviceRGB",
+      BitsPerComponent: 8,
+      ...(dict as object),
+    }),
+  );
+  page.node.setXObject(PDFName.of("Im0"), imageRef);
+  page.pushOperators(
+    concatTransformationMatrix(144, 0, 0, 144, 0, 0),
+    drawObject("Im0"),
+  );
+  return pdfDoc.save();
+}
+
+// jsdom's Blob has no arrayBuffer
+async function readBlob(blob: Blob): Promise<Uint8Array> {
+  const buffer = await new Promise<ArrayBuffer>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob);
+  });
+  return new Uint8Array(buffer);
+}
+
+async function loadResult(blob: Blob): Promise<PDFDocument> {
+  return PDFDocument.load(await readBlob(blob), { updateMetadata: false });
+}
+
+function getImageStream(pdfDoc: PDFDocument): PDFRawStream {
+  const [image] = pdfDoc.context
+    .enumerateIndirectObjects()
+    .map(([, object]) => object)
+    .filter(
+      (object): object is PDFRawStream =>
+        object instanceof PDFRawStream &&
+        object.dict.get(PDFName.of("Subtype")) === PDFName.of("Image"),
+    );
+  return image;
+}
+
 describe("compressPDF", () => {
   let mockPDFFile: File;
   let mockNonPDFFile: File;
@@ -129,6 +203,392 @@ describe("compressPDF", () => {
   });
 });
 
+describe("compressPDF image optimization", () => {
+  it("should downsample images to the level's target DPI", async () => {
+    const file = createPDFFileFromBytes("scan.pdf", await createPDFWithImage());
+
+    const result = await compressPDF({ file, compressionLevel: "medium" });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.optimizedImages).toBe(1);
+      expect(result.compressedSize).toBeLessThan(result.originalSize);
+    }
+    // 2 inches at 150 DPI
+    expect(resampleImageAsJpeg).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.any(PDFRawStream),
+      { targetWidth: 300, targetHeight: 300, quality: 0.75 },
+    );
+  });
+
+  it("should keep images whose re-encoded data is larger", async () => {
+    vi.mocked(resampleImageAsJpeg).mockResolvedValueOnce(
+      new Uint8Array(10 * 1024 * 1024),
+    );
+    const file = createPDFFileFromBytes("scan.pdf", await createPDFWithImage());
+
+    const result = await compressPDF({ file, compressionLevel: "high" });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.optimizedImages).toBe(0);
+    }
+  });
+
+  it("should leave images untouched at the low level", async () => {
+    const bytes = await createPDFWithImage();
+    const original = getImageStream(await PDFDocument.load(bytes));
+    const file = createPDFFileFromBytes("scan.pdf", bytes);
+
+    const result = await compressPDF({ file, compressionLevel: "low" });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.optimizedImages).toBe(0);
+    expect(result.appliedSettings.optimizeImages).toBe(false);
+    expect(resampleImageAsJpeg).not.toHaveBeenCalled();
+    const image = getImageStream(await loadResult(result.pdfBlob));
+    expect(image.contents).toEqual(original.contents);
+  });
+
+  it("should leave images with TIFF predictors untouched", async () => {
+    const bytes = await createPDFWithImage({
+      DecodeParms: { Predictor: 2, Colors: 3, Columns: 1200 },
+    });
+    const original = getImageStream(await PDFDocument.load(bytes));
+    const file = createPDFFileFromBytes("scan.pdf", bytes);
+
+    const result = await compressPDF({ file, compressionLevel: "medium" });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.optimizedImages).toBe(0);
+    expect(resampleImageAsJpeg).not.toHaveBeenCalled();
+    const image = getImageStream(await loadResult(result.pdfBlob));
+    expect(image.contents).toEqual(original.contents);
+  });
+});
+
+describe("compressPDF color mode", () => {
+  async function getImageDict(result: Awaited<ReturnType<typeof compressPDF>>) {
+    if (!result.success) throw new Error(result.error);
+    return getImageStream(await loadResult(result.pdfBlob)).dict;
+  }
+
+  it("should convert images to 8-bit gray", async () => {
+    const file = createPDFFileFromBytes("scan.pdf", await createPDFWithImage());
+
+    const result = await compressPDF({
+      file,
+      compressionLevel: "medium",
+      colorMode: "grayscale",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.optimizedImages).toBe(1);
+      expect(result.appliedSettings.colorMode).toBe("grayscale");
+    }
+    const dict = await getImageDict(result);
+    expect(dict.get(PDFName.of("ColorSpace"))).toBe(PDFName.of("DeviceGray"));
+    expect(dict.get(PDFName.of("BitsPerComponent"))?.toString()).toBe("8");
+    expect(dict.get(PDFName.of("Width"))?.toString()).toBe("300");
+  });
+
+  it("should keep at least 300 DPI for 1-bit images", async () => {
+    const file = createPDFFileFromBytes("scan.pdf", await createPDFWithImage());
+
+    const result = await compressPDF({
+      file,
+      compressionLevel: "high",
+      colorMode: "bilevel",
+    });
+
+    // 2 inches at 300 DPI, although the high level targets 96 DPI
+    expect(resampleImageAsGray).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.any(PDFRawStream),
+      { targetWidth: 600, targetHeight: 600, colorMode: "bilevel" },
+    );
+    const dict = await getImageDict(result);
+    expect(dict.get(PDFName.of("BitsPerComponent"))?.toString()).toBe("1");
+  });
+
+  it("should reject unknown color modes", async () => {
+    const file = createPDFFileFromBytes("scan.pdf", await createPDFWithImage());
+
+    const result = await compressPDF({
+      file,
+      compressionLevel: "medium",
+      colorMode: "sepia" as never,
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("Invalid color mode");
+    }
+  });
+});
+
+describe("compressPDF linearization", () => {
+  it("should write a linearized file on request", async () => {
+    const file = createPDFFileFromBytes(
+      "manual.pdf",
+      await createPDFWithImage(),
+    );
+
+    const result = await compressPDF({
+      file,
+      compressionLevel: "medium",
+      linearize: true,
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.linearized).toBe(true);
+      const bytes = await readBlob(result.pdfBlob);
+      expect(readLinearizationParameters(bytes)?.fileLength).toBe(bytes.length);
+    }
+  });
+
+  it("should not linearize by default", async () => {
+    const file = createPDFFileFromBytes(
+      "manual.pdf",
+      await createPDFWithImage(),
+    );
+
+    const result = await compressPDF({ file, compressionLevel: "medium" });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.linearized).toBe(false);
+      expect(
+        readLinearizationParameters(await readBlob(result.pdfBlob)),
+      ).toBeNull();
+    }
+  });
+});
+
+describe("compressPDF unused object removal", () => {
+  async function createPDFWithUnusedObjects(): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.load(await createPDFWithImage());
+    const page = pdfDoc.getPage(0);
+    const thumbnail = pdfDoc.context.register(
+      pdfDoc.context.flateStream(new Uint8Array(12), {
+        Type: "XObject",
+        Subtype: "Image",
+        Width: 2,
+        Height: 2,
+        ColorSpace: "DeviceRGB",
+        BitsPerComponent: 8,
+      }),
+    );
+    page.node.set(PDFName.of("Thumb"), thumbnail);
+    pdfDoc.context.register(pdfDoc.context.obj({ Orphan: true }));
+    return pdfDoc.save({ useObjectStreams: false });
+  }
+
+  it("should report what was removed", async () => {
+    const file = createPDFFileFromBytes(
+      "scan.pdf",
+      await createPDFWithUnusedObjects(),
+    );
+
+    const result = await compressPDF({ file, compressionLevel: "medium" });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.removedObjects.thumbnails).toBe(1);
+      expect(result.removedObjects.unreachableObjects).toBeGreaterThan(0);
+    }
+  });
+
+  it("should leave objects alone at the low level", async () => {
+    const file = createPDFFileFromBytes(
+      "scan.pdf",
+      await createPDFWithUnusedObjects(),
+    );
+
+    const result = await compressPDF({ file, compressionLevel: "low" });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(Object.values(result.removedObjects)).toEqual([0, 0, 0, 0, 0, 0]);
+    }
+  });
+});
+
+describe("compressPDF metadata", () => {
+  async function createPDFWithTitle(): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.load(await createPDFWithImage());
+    pdfDoc.setTitle("Contract 2024-17");
+    pdfDoc.setAuthor("Legal");
+    pdfDoc.setProducer("Scanner Suite");
+    return pdfDoc.save();
+  }
+
+  it("should keep metadata by default", async () => {
+    const file = createPDFFileFromBytes("scan.pdf", await createPDFWithTitle());
+
+    const result = await compressPDF({ file, compressionLevel: "high" });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const pdfDoc = await loadResult(result.pdfBlob);
+      expect(pdfDoc.getTitle()).toBe("Contract 2024-17");
+      expect(pdfDoc.getAuthor()).toBe("Legal");
+      expect(pdfDoc.getProducer()).toBe("Scanner Suite");
+    }
+  });
+
+  it("should strip metadata when requested", async () => {
+    const file = createPDFFileFromBytes("scan.pdf", await createPDFWithTitle());
+
+    const result = await compressPDF({
+      file,
+      compressionLevel: "medium",
+      removeMetadata: true,
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const pdfDoc = await loadResult(result.pdfBlob);
+      expect(pdfDoc.getTitle()).toBeUndefined();
+      expect(pdfDoc.getAuthor()).toBeUndefined();
+    }
+  });
+});
+
+describe("compressPDF target size mode", () => {
+  it("should validate the target size", async () => {
+    const result = await compressPDF({
+      file: createMockPDFFile("test.pdf"),
+      targetSize: -5,
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe(
+        "Invalid target size. It must be a positive number of bytes",
+      );
+    }
+  });
+
+  it("should skip image changes when structural compression fits", async () => {
+    const file = createPDFFileFromBytes("scan.pdf", await createPDFWithImage());
+
+    const result = await compressPDF({ file, targetSize: 50 * 1024 * 1024 });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.targetReached).toBe(true);
+      expect(result.appliedSettings.optimizeImages).toBe(false);
+    }
+    expect(resampleImageAsJpeg).not.toHaveBeenCalled();
+  });
+
+  it("should pick the mildest image settings that reach the target", async () => {
+    const file = createPDFFileFromBytes("scan.pdf", await createPDFWithImage());
+
+    const result = await compressPDF({ file, targetSize: 2000 });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.targetReached).toBe(true);
+      expect(result.compressedSize).toBeLessThanOrEqual(2000);
+      expect(result.appliedSettings).toEqual({
+        optimizeImages: true,
+        imageTargetDPI: 300,
+        imageQuality: 0.85,
+        colorMode: "color",
+      });
+    }
+  });
+
+  it("should report when the target can't be reached", async () => {
+    // Output shrinks with resolution, so the strongest settings win
+    vi.mocked(resampleImageAsJpeg).mockImplementation(
+      async (_context, _stream, { targetWidth }) => new Uint8Array(targetWidth),
+    );
+    const file = createPDFFileFromBytes("scan.pdf", await createPDFWithImage());
+
+    const result = await compressPDF({ file, targetSize: 10 });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.targetSize).toBe(10);
+      expect(result.targetReached).toBe(false);
+      expect(result.appliedSettings.imageTargetDPI).toBe(50);
+      expect(result.appliedSettings.imageQuality).toBe(0.3);
+    }
+  });
+});
+
+describe("analyzePDF", () => {
+  it("should reject non-PDF files", async () => {
+    const file = new File(["text"], "notes.txt", { type: "text/plain" });
+
+    const result = await analyzePDF({ file });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should recommend downsampling high resolution images", async () => {
+    // Noise doesn't deflate, so the image dominates the file like a photo
+    const pdfDoc = await PDFDocument.load(await createPDFWithImage());
+    let seed = 1;
+    const noise = new Uint8Array(1200 * 1200 * 3).map(() => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      return seed >> 23;
+    });
+    const image = pdfDoc
+      .getPage(0)
+      .node.Resources()!
+      .lookup(PDFName.of("XObject")) as any;
+    pdfDoc.context.assign(
+      image.get(PDFName.of("Im0")),
+      pdfDoc.context.flateStream(noise, {
+        Type: "XObject",
+        Subtype: "Image",
+        Width: 1200,
+        Height: 1200,
+        ColorSpace: "DeviceRGB",
+        BitsPerComponent: 8,
+      }),
+    );
+    const file = createPDFFileFromBytes("photo.pdf", await pdfDoc.save());
+
+    const result = await analyzePDF({ file });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const { report } = result;
+      expect(report.images[0].effectiveDPI).toBe(600);
+      expect(report.recommendedLevel).toBe("medium");
+      expect(report.recommendationReason).toContain("150 DPI");
+      expect(report.estimatedSizes.high).toBeLessThan(
+        report.estimatedSizes.medium,
+      );
+      expect(report.estimatedSizes.medium).toBeLessThan(report.totalSize);
+    }
+  });
+
+  it("should recommend low for files without images", async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage().drawText("Plain text only");
+    const file = createPDFFileFromBytes("text.pdf", await pdfDoc.save());
+
+    const result = await analyzePDF({ file });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.report.recommendedLevel).toBe("low");
+      expect(result.report.estimatedSizes.low).toBe(result.report.totalSize);
+    }
+  });
+});
+
 describe("formatFileSize", () => {
   it("should format bytes correctly", () => {
     expect(formatFileSize(0)).toBe("0 Bytes");
@@ -1,8 +1,61 @@
-import { PDFDocument } from "pdf-lib";
+import { PDFDocument, PDFName, PDFNumber } from "pdf-lib";
+import { analyzeDocumentSize, type PDFSizeBreakdown } from "./analyze";
+import {
+  cleanupDocument,
+  createEmptyCleanupReport,
+  type CleanupReport,
+} from "./cleanup";
+import {
+  collectPageImages,
+  createGrayImageStream,
+  createJpegImageStream,
+  getColorComponents,
+  getImageEncoding,
+  getTargetDimensions,
+  resampleImageAsGray,
+  resampleImageAsJpeg,
+  type ImageColorMode,
+  type PageImage,
+} from "./images";
+import { decryptPDFBytes, loadPDFDocument } from "./decrypt";
+import { linearizePDF } from "./linearize";
+import { removeDocumentMetadata } from "./metadata";
 
-export interface CompressPDFOptions {
+export type { CleanupReport } from "./cleanup";
+export type { ImageColorMode } from "./images";
+export type {
+  PDFSizeBreakdown,
+  SizeCategory,
+  CategorySize,
+  ImageSizeInfo,
+  FontSizeInfo,
+  AttachmentSizeInfo,
+} from "./analyze";
+
+export type CompressionLevel = "low" | "medium" | "high";
+
+export type CompressPDFOptions = {
   file: File;
-  compressionLevel: "low" | "medium" | "high";
+  removeMetadata?: boolean; // Strip Info and XMP metadata (kept by default)
+  colorMode?: ImageColorMode; // Convert images to gray or 1-bit (default: "color")
+  linearize?: boolean; // Write a linearized ("Fast Web View") file
+  password?: string; // For encrypted files; the output isn't encrypted
+} & (
+  | {
+      compressionLevel: CompressionLevel;
+      targetSize?: undefined;
+    }
+  | {
+      targetSize: number; // Maximum output size in bytes
+      compressionLevel?: undefined;
+    }
+);
+
+export interface AppliedCompressionSettings {
+  optimizeImages: boolean;
+  imageTargetDPI: number;
+  imageQuality: number;
+  colorMode: ImageColorMode;
 }
 
 export interface CompressPDFResult {
@@ -11,6 +64,12 @@ export interface CompressPDFResult {
   originalSize: number;
   compressedSize: number;
   compressionRatio: number; // percentage reduction
+  optimizedImages: number; // Images that were downsampled or re-encoded
+  removedObjects: CleanupReport; // What the unused object pass removed
+  appliedSettings: AppliedCompressionSettings;
+  linearized: boolean; // Whether the output is linearized
+  targetSize?: number; // Only set in target-size mode
+  targetReached?: boolean; // Only set in target-size mode
 }
 
 export interface CompressPDFError {
@@ -21,16 +80,83 @@ export interface CompressPDFError {
 
 export type CompressPDFResponse = CompressPDFResult | CompressPDFError;
 
+export interface AnalyzePDFOptions {
+  file: File;
+  password?: string; // For encrypted files
+}
+
+export interface PDFSizeReport extends PDFSizeBreakdown {
+  estimatedSizes: Record<CompressionLevel, number>; // Rough output size per level
+  recommendedLevel: CompressionLevel;
+  recommendationReason: string;
+}
+
+export interface AnalyzePDFResult {
+  success: true;
+  report: PDFSizeReport;
+}
+
+export type AnalyzePDFResponse = AnalyzePDFResult | CompressPDFError;
+
+type CompressionSettings = ReturnType<typeof getCompressionSettings> & {
+  removeMetadata: boolean;
+  colorMode: ImageColorMode;
+  linearize: boolean;
+};
+
+interface CompressionAttempt {
+  bytes: Uint8Array;
+  optimizedImages: number;
+  removedObjects: CleanupReport;
+  linearized: boolean;
+  settings: CompressionSettings;
+}
+
+// Text in 1-bit scans breaks up below this resolution
+const BILEVEL_MIN_DPI = 300;
+
+// Files above this size are awkward to email or upload
+const LARGE_FILE_SIZE = 10 * 1024 * 1024;
+
+// Image settings tried in target-size mode, from mildest to strongest
+const TARGET_SIZE_LADDER: Array<{
+  imageTargetDPI: number;
+  imageQuality: number;
+}> = [
+  { imageTargetDPI: 300, imageQuality: 0.85 },
+  { imageTargetDPI: 200, imageQuality: 0.8 },
+  { imageTargetDPI: 150, imageQuality: 0.75 },
+  { imageTargetDPI: 150, imageQuality: 0.6 },
+  { imageTargetDPI: 120, imageQuality: 0.6 },
+  { imageTargetDPI: 96, imageQuality: 0.6 },
+  { imageTargetDPI: 96, imageQuality: 0.45 },
+  { imageTargetDPI: 72, imageQuality: 0.45 },
+  { imageTargetDPI: 72, imageQuality: 0.3 },
+  { imageTargetDPI: 50, imageQuality: 0.3 },
+];
+
 /**
- * Compresses a PDF by optimizing images and removing unnecessary data
- * @param options - Configuration object containing file and compression level
+ * Compresses a PDF by optimizing images and removing unnecessary data.
+ * With `targetSize` the image settings are searched for the mildest
+ * combination that produces a file no larger than the target.
+ * `colorMode` converts embedded images to grayscale or 1-bit black and
+ * white; text and vector colors are left as they are.
+ * @param options - Configuration object containing file and compression level or target size
  * @returns Promise that resolves to compressed PDF blob or error
  */
 export async function compressPDF(
   options: CompressPDFOptions,
 ): Promise<CompressPDFResponse> {
   try {
-    const { file, compressionLevel } = options;
+    const {
+      file,
+      compressionLevel,
+      targetSize,
+      removeMetadata = false,
+      colorMode = "color",
+      linearize = false,
+      password,
+    } = options;
 
     // Validate input
     if (!file) {
@@ -45,33 +171,50 @@ export async function compressPDF(
       };
     }
 
-    if (!["low", "medium", "high"].includes(compressionLevel)) {
+    if (targetSize !== undefined) {
+      if (!Number.isFinite(targetSize) || targetSize <= 0) {
+        return {
+          success: false,
+          error: "Invalid target size. It must be a positive number of bytes",
+        };
+      }
+    } else if (!["low", "medium", "high"].includes(compressionLevel)) {
       return {
         success: false,
         error: "Invalid compression level. Supported levels: low, medium, high",
       };
     }
 
-    const originalSize = file.size;
-
-    // Load the source PDF
-    const fileBuffer = await file.arrayBuffer();
-    const pdfDoc = await PDFDocument.load(fileBuffer);
+    if (!["color", "grayscale", "bilevel"].includes(colorMode)) {
+      return {
+        success: false,
+        error: "Invalid color mode. Supported modes: color, grayscale, bilevel",
+      };
+    }
 
-    // Get compression settings based on level
-    const compressionSettings = getCompressionSettings(compressionLevel);
+    const originalSize = file.size;
 
-    // Apply compression optimizations
-    await applyCompressionOptimizations(pdfDoc, compressionSettings);
+    // Load the source PDF, decrypted once so every attempt can reuse it
+    const fileBuffer = await decryptPDFBytes(
+      await file.arrayBuffer(),
+      password,
+    );
 
-    // Save with compression options
-    const saveOptions = {
-      useObjectStreams: compressionSettings.useObjectStreams,
-      addDefaultPage: false,
-      objectsPerTick: compressionSettings.objectsPerTick,
-    };
+    const attempt =
+      targetSize !== undefined
+        ? await compressToTargetSize(fileBuffer, targetSize, {
+            removeMetadata,
+            colorMode,
+            linearize,
+          })
+        : await runCompression(fileBuffer, {
+            ...getCompressionSettings(compressionLevel),
+            removeMetadata,
+            colorMode,
+            linearize,
+          });
 
-    const compressedBytes = await pdfDoc.save(saveOptions);
+    const compressedBytes = attempt.bytes;
     const compressedSize = compressedBytes.length;
 
     // Calculate compression ratio
@@ -88,6 +231,19 @@ export async function compressPDF(
       originalSize,
       compressedSize,
       compressionRatio: Math.max(0, compressionRatio), // Ensure non-negative
+      optimizedImages: attempt.optimizedImages,
+      removedObjects: attempt.removedObjects,
+      linearized: attempt.linearized,
+      appliedSettings: {
+        optimizeImages: attempt.settings.optimizeImages,
+        imageTargetDPI: attempt.settings.imageTargetDPI,
+        imageQuality: attempt.settings.imageQuality,
+        colorMode: attempt.settings.colorMode,
+      },
+      ...(targetSize !== undefined && {
+        targetSize,
+        targetReached: compressedSize <= targetSize,
+      }),
     };
   } catch (error) {
     return {
@@ -98,24 +254,271 @@ export async function compressPDF(
   }
 }
 
+/**
+ * Reports where the bytes of a PDF go (images, fonts, content streams,
+ * annotations, attachments, metadata, unused objects) and estimates the
+ * output size of each compression level
+ * @param options - Configuration object containing the PDF file
+ * @returns Promise that resolves to a size report or error
+ */
+export async function analyzePDF(
+  options: AnalyzePDFOptions,
+): Promise<AnalyzePDFResponse> {
+  try {
+    const { file, password } = options;
+
+    if (!file) {
+      return { success: false, error: "No file provided" };
+    }
+
+    if (file.type !== "application/pdf") {
+      return {
+        success: false,
+        error: "Invalid file type. Only PDF files are supported.",
+        details: `Expected 'application/pdf', got '${file.type}'`,
+      };
+    }
+
+    const fileBuffer = await file.arrayBuffer();
+    const pdfDoc = await loadPDFDocument(fileBuffer, {
+      password,
+      updateMetadata: false,
+    });
+
+    const breakdown = analyzeDocumentSize(pdfDoc, file.size);
+    const estimatedSizes = {
+      low: estimateCompressedSize(breakdown, getCompressionSettings("low")),
+      medium: estimateCompressedSize(
+        breakdown,
+        getCompressionSettings("medium"),
+      ),
+      high: estimateCompressedSize(breakdown, getCompressionSettings("high")),
+    };
+
+    return {
+      success: true,
+      report: {
+        ...breakdown,
+        estimatedSizes,
+        ...recommendCompressionLevel(breakdown, estimatedSizes),
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: "Failed to analyze PDF",
+      details: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Estimates the output size for a set of settings. Resampled images are
+ * assumed to cost a fixed number of bytes per pixel for their JPEG quality,
+ * and only count when that is smaller than the current image, mirroring
+ * how optimizeImages keeps originals.
+ */
+function estimateCompressedSize(
+  breakdown: PDFSizeBreakdown,
+  settings: ReturnType<typeof getCompressionSettings>,
+): number {
+  let size = breakdown.totalSize;
+
+  if (settings.removeUnusedObjects) {
+    size -= breakdown.categories.unusedObjects.totalSize;
+  }
+
+  if (settings.optimizeImages) {
+    for (const image of breakdown.images) {
+      if (!image.effectiveDPI || image.encoding === "unsupported") continue;
+
+      const scale = Math.min(1, settings.imageTargetDPI / image.effectiveDPI);
+      const pixels = image.width * image.height * scale * scale;
+      const estimate =
+        pixels *
+        getJpegBytesPerPixel(settings.imageQuality) *
+        (image.components === 1 ? 1 / 3 : 1);
+
+      if (estimate < image.size) {
+        size -= image.size - estimate;
+      }
+    }
+  }
+
+  return Math.max(0, Math.round(size));
+}
+
+// Rough average for photographic content; flat artwork compresses better
+function getJpegBytesPerPixel(quality: number): number {
+  return 0.05 + 0.3 * quality * quality;
+}
+
+function recommendCompressionLevel(
+  breakdown: PDFSizeBreakdown,
+  estimatedSizes: Record<CompressionLevel, number>,
+): { recommendedLevel: CompressionLevel; recommendationReason: string } {
+  const { totalSize } = breakdown;
+  const savings = (level: CompressionLevel) =>
+    totalSize > 0 ? (totalSize - estimatedSizes[level]) / totalSize : 0;
+
+  if (savings("high") < 0.1) {
+    return {
+      recommendedLevel: "low",
+      recommendationReason:
+        "The file is already compact; stronger levels would save little and only cost image quality",
+    };
+  }
+
+  const highResolutionImages = breakdown.images.filter(
+    (image) =>
+      (image.effectiveDPI ?? 0) > 150 && image.encoding !== "unsupported",
+  );
+
+  if (highResolutionImages.length > 0) {
+    if (
+      estimatedSizes.medium > LARGE_FILE_SIZE &&
+      estimatedSizes.high <= LARGE_FILE_SIZE
+    ) {
+      return {
+        recommendedLevel: "high",
+        recommendationReason: `Medium would still leave about ${formatFileSize(estimatedSizes.medium)}; high gets it under ${formatFileSize(LARGE_FILE_SIZE)}`,
+      };
+    }
+    return {
+      recommendedLevel: "medium",
+      recommendationReason: `${highResolutionImages.length} image${highResolutionImages.length === 1 ? " is" : "s are"} above 150 DPI and can be downsampled without visible loss on screen`,
+    };
+  }
+
+  if (savings("medium") >= 0.05) {
+    return {
+      recommendedLevel: "medium",
+      recommendationReason: `Unused objects and oversized images account for about ${Math.round(savings("medium") * 100)}% of the file`,
+    };
+  }
+
+  return {
+    recommendedLevel: "low",
+    recommendationReason:
+      "Most of the file is text and fonts, which compression levels don't change",
+  };
+}
+
+/**
+ * Loads a fresh copy of the document, applies one set of settings and
+ * serializes the result
+ */
+async function runCompression(
+  fileBuffer: ArrayBuffer | Uint8Array,
+  settings: CompressionSettings,
+): Promise<CompressionAttempt> {
+  // Keep the original Producer, Creator and dates unless stripping them
+  const pdfDoc = await PDFDocument.load(fileBuffer, {
+    updateMetadata: settings.removeMetadata,
+  });
+
+  // Apply compression optimizations
+  const { optimizedImages, removedObjects } =
+    await applyCompressionOptimizations(pdfDoc, settings);
+
+  // Save with compression options. Linearized files use classic
+  // cross-reference tables, so object streams are skipped for them.
+  let bytes = await pdfDoc.save({
+    useObjectStreams: settings.useObjectStreams && !settings.linearize,
+    addDefaultPage: false,
+    objectsPerTick: settings.objectsPerTick,
+  });
+
+  let linearized = false;
+  if (settings.linearize) {
+    try {
+      bytes = await linearizePDF(bytes);
+      linearized = true;
+    } catch (error) {
+      // Fall back to the regular file; the result reports it
+      console.warn("Failed to linearize PDF:", error);
+    }
+  }
+
+  return { bytes, optimizedImages, removedObjects, linearized, settings };
+}
+
+/**
+ * Finds the mildest settings whose output fits in the target size.
+ * Structural compression alone is tried first; after that the image ladder
+ * is binary searched, assuming output size shrinks along the ladder.
+ * When even the strongest settings miss the target, the smallest result
+ * is returned so the caller can report how close it got.
+ */
+async function compressToTargetSize(
+  fileBuffer: ArrayBuffer | Uint8Array,
+  targetSize: number,
+  options: Pick<
+    CompressionSettings,
+    "removeMetadata" | "colorMode" | "linearize"
+  >,
+): Promise<CompressionAttempt> {
+  const baseSettings = { ...getCompressionSettings("high"), ...options };
+
+  const lossless = await runCompression(fileBuffer, {
+    ...baseSettings,
+    optimizeImages: false,
+  });
+  if (lossless.bytes.length <= targetSize) {
+    return lossless;
+  }
+
+  let low = 0;
+  let high = TARGET_SIZE_LADDER.length - 1;
+  let best: CompressionAttempt | null = null;
+  let smallest: CompressionAttempt = lossless;
+
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    const attempt = await runCompression(fileBuffer, {
+      ...baseSettings,
+      ...TARGET_SIZE_LADDER[middle],
+    });
+
+    if (attempt.bytes.length < smallest.bytes.length) {
+      smallest = attempt;
+    }
+
+    if (attempt.bytes.length <= targetSize) {
+      best = attempt;
+      high = middle - 1; // Try milder settings
+    } else {
+      low = middle + 1; // Need stronger settings
+    }
+  }
+
+  // When nothing fits, the search always moved towards stronger settings
+  // and ended on the strongest rung
+  return best ?? smallest;
+}
+
 /**
  * Get compression settings based on compression level
  */
-function getCompressionSettings(level: "low" | "medium" | "high") {
+function getCompressionSettings(level: CompressionLevel) {
   switch (level) {
     case "low":
       return {
         useObjectStreams: false,
         objectsPerTick: 500, // Process more objects per tick for speed
         removeUnusedObjects: false,
-        optimizeImages: false,
+        optimizeImages: false, // Images stay exactly as they are
+        imageTargetDPI: 300, // Print quality
+        imageQuality: 0.85,
       };
     case "medium":
       return {
         useObjectStreams: true,
         objectsPerTick: 200,
         removeUnusedObjects: true,
-        optimizeImages: false,
+        optimizeImages: true,
+        imageTargetDPI: 150, // Comfortable on-screen reading and office printing
+        imageQuality: 0.75,
       };
     case "high":
       return {
@@ -123,13 +526,17 @@ function getCompressionSettings(level: "low" | "medium" | "high") {
         objectsPerTick: 100, // Process fewer objects per tick for maximum compression
         removeUnusedObjects: true,
         optimizeImages: true,
+        imageTargetDPI: 96, // Screen resolution
+        imageQuality: 0.6,
       };
     default:
       return {
         useObjectStreams: true,
         objectsPerTick: 200,
         removeUnusedObjects: true,
-        optimizeImages: false,
+        optimizeImages: true,
+        imageTargetDPI: 150,
+        imageQuality: 0.75,
       };
   }
 }
@@ -139,33 +546,171 @@ function getCompressionSettings(level: "low" | "medium" | "high") {
  */
 async function applyCompressionOptimizations(
   pdfDoc: PDFDocument,
-  settings: ReturnType<typeof getCompressionSettings>,
-): Promise<void> {
+  settings: CompressionSettings,
+): Promise<{ optimizedImages: number; removedObjects: CleanupReport }> {
+  let optimizedImages = 0;
+  let removedObjects = createEmptyCleanupReport();
+
   try {
-    // Remove metadata that might be taking up space (optional optimization)
+    // Metadata is only removed on request; document management systems
+    // index files by their Title
+    if (settings.removeMetadata) {
+      removeDocumentMetadata(pdfDoc);
+    }
+
     if (settings.removeUnusedObjects) {
-      // Remove creation date, modification date, and other metadata to save space
-      pdfDoc.setTitle("");
-      pdfDoc.setAuthor("");
-      pdfDoc.setSubject("");
-      pdfDoc.setProducer("");
-      pdfDoc.setCreator("");
-      pdfDoc.setKeywords([]);
-    }
-
-    // Note: pdf-lib has limited built-in compression capabilities compared to server-side tools
-    // Most compression happens automatically during the save() process with object streams
-    // For more aggressive compression, we would need additional libraries or server-side processing
-
-    // Future enhancement: Image compression could be added here by:
-    // 1. Extracting images from each page
-    // 2. Compressing them using canvas APIs
-    // 3. Re-embedding the compressed images
-    // This would require more complex image processing logic
+      // Drop thumbnails, unused resources, duplicate fonts/images and any
+      // object no longer reachable from the trailer. Runs before image
+      // optimization so merged duplicates are only resampled once.
+      removedObjects = cleanupDocument(pdfDoc);
+    }
+
+    if (settings.colorMode !== "color") {
+      // Images are converted even when resampling is off
+      optimizedImages = await convertImageColors(
+        pdfDoc,
+        settings.optimizeImages ? settings.imageTargetDPI : Infinity,
+        settings.colorMode,
+      );
+    } else if (settings.optimizeImages) {
+      optimizedImages = await optimizeImages(
+        pdfDoc,
+        settings.imageTargetDPI,
+        settings.imageQuality,
+      );
+    }
   } catch (error) {
     // Don't fail the entire compression if optimization fails
     console.warn("Some compression optimizations failed:", error);
   }
+
+  return { optimizedImages, removedObjects };
+}
+
+/**
+ * Downsamples every page image above the target DPI (based on the size it is
+ * drawn at) and re-encodes it as JPEG. The new stream only replaces the
+ * original when it is actually smaller.
+ * @returns Number of images that were replaced
+ */
+async function optimizeImages(
+  pdfDoc: PDFDocument,
+  targetDPI: number,
+  quality: number,
+): Promise<number> {
+  let replaced = 0;
+
+  for (const image of collectPageImages(pdfDoc)) {
+    if (getImageEncoding(pdfDoc.context, image.stream) === "unsupported") {
+      continue;
+    }
+    try {
+      const { width, height } = getTargetDimensions(image, targetDPI);
+      const jpegBytes = await resampleImageAsJpeg(
+        pdfDoc.context,
+        image.stream,
+        { targetWidth: width, targetHeight: height, quality },
+      );
+
+      if (!jpegBytes || jpegBytes.length >= image.stream.contents.length) {
+        continue;
+      }
+
+      pdfDoc.context.assign(
+        image.ref,
+        createJpegImageStream(
+          pdfDoc.context,
+          image.stream,
+          jpegBytes,
+          width,
+          height,
+        ),
+      );
+      replaced++;
+    } catch (error) {
+      // Keep the original image if it can't be decoded
+      console.warn(`Failed to optimize image ${image.ref.toString()}:`, error);
+    }
+  }
+
+  return replaced;
+}
+
+/**
+ * Replaces every decodable page image with a DeviceGray version, 8-bit for
+ * grayscale and 1-bit for bilevel, downsampled to the target DPI on the way.
+ * Converted images replace the original even when larger, since the point
+ * is to get rid of color. Bilevel images keep at least 300 DPI.
+ * @returns Number of images that were replaced
+ */
+async function convertImageColors(
+  pdfDoc: PDFDocument,
+  targetDPI: number,
+  colorMode: Exclude<ImageColorMode, "color">,
+): Promise<number> {
+  let replaced = 0;
+  const dpi =
+    colorMode === "bilevel" ? Math.max(targetDPI, BILEVEL_MIN_DPI) : targetDPI;
+
+  for (const image of collectPageImages(pdfDoc)) {
+    if (getImageEncoding(pdfDoc.context, image.stream) === "unsupported") {
+      continue;
+    }
+    try {
+      const { width, height } = getTargetDimensions(image, dpi);
+      if (
+        isAlreadyConverted(pdfDoc, image, colorMode) &&
+        width === image.width &&
+        height === image.height
+      ) {
+        continue;
+      }
+
+      const gray = await resampleImageAsGray(pdfDoc.context, image.stream, {
+        targetWidth: width,
+        targetHeight: height,
+        colorMode,
+      });
+      if (!gray) continue;
+
+      pdfDoc.context.assign(
+        image.ref,
+        createGrayImageStream(
+          pdfDoc.context,
+          image.stream,
+          gray,
+          width,
+          height,
+        ),
+      );
+      replaced++;
+    } catch (error) {
+      // Keep the original image if it can't be decoded
+      console.warn(`Failed to convert image ${image.ref.toString()}:`, error);
+    }
+  }
+
+  return replaced;
+}
+
+// Gray images need no work in grayscale mode, 1-bit ones in either mode
+function isAlreadyConverted(
+  pdfDoc: PDFDocument,
+  image: PageImage,
+  colorMode: Exclude<ImageColorMode, "color">,
+): boolean {
+  const dict = image.stream.dict;
+  const components = getColorComponents(
+    pdfDoc.context,
+    dict.lookup(PDFName.of("ColorSpace")),
+  );
+  if (components !== 1) return false;
+
+  const bitsPerComponent = dict.lookup(PDFName.of("BitsPerComponent"));
+  return (
+    colorMode === "grayscale" ||
+    (bitsPerComponent instanceof PDFNumber && bitsPerComponent.asNumber() === 1)
+  );
 }
 
 /**
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import {
+  PDFDocument,
+  PDFName,
+  concatTransformationMatrix,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+} from "pdf-lib";
+import {
+  parseContentStream,
+  multiplyMatrices,
+  getPlacedSize,
+  collectXObjectPlacements,
+  type Matrix,
+} from "./content-stream";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+async function createDocumentWithImage() {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([612, 792]);
+  const imageRef = pdfDoc.context.register(
+    pdfDoc.context.flateStream(new Uint8Array(4 * 2 * 3), {
+      Type: "XObject",
+      Subtype: "Image",
+      Width: 4,
+      Height: 2,
+      ColorSpace: "DeviceRGB",
+      BitsPerComponent: 8,
+    }),
+  );
+  page.node.setXObject(PDFName.of("Im0"), imageRef);
+  return { pdfDoc, page, imageRef };
+}
+
+describe("parseContentStream", () => {
+  it("should parse operators with numeric and name operands", () => {
+    const operations = parseContentStream(
+      encode("q 100 0 0 50 10 20 cm /Im0 Do Q"),
+    );
+
+    expect(operations.map((op) => op.operator)).toEqual(["q", "cm", "Do", "Q"]);
+    expect(operations[1].operands).toEqual([
+      { type: "number", value: 100 },
+      { type: "number", value: 0 },
+      { type: "number", value: 0 },
+      { type: "number", value: 50 },
+      { type: "number", value: 10 },
+      { type: "number", value: 20 },
+    ]);
+    expect(operations[2].operands).toEqual([{ type: "name", value: "Im0" }]);
+  });
+
+  it("should skip strings, comments and hex strings", () => {
+    const operations = parseContentStream(
+      encode("BT (Hello (nested) \\) Do) Tj % comment Do\n<48656c6c6f> Tj ET"),
+    );
+
+    expect(operations.map((op) => op.operator)).toEqual([
+      "BT",
+      "Tj",
+      "Tj",
+      "ET",
+    ]);
+  });
+
+  it("should skip inline image data", () => {
+    const operations = parseContentStream(
+      encode("q BI /W 2 /H 1 /BPC 8 /CS /G ID \x00Do\xff EI Q"),
+    );
+
+    expect(operations.map((op) => op.operator)).toEqual(["q", "BI", "Q"]);
+  });
+
+  it("should decode escaped characters in names", () => {
+    const operations = parseContentStream(encode("/Im#20A Do"));
+    expect(operations[0].operands).toEqual([{ type: "name", value: "Im A" }]);
+  });
+});
+
+describe("matrix helpers", () => {
+  it("should multiply matrices in PDF order", () => {
+    const scaleMatrix: Matrix = [2, 0, 0, 3, 0, 0];
+    const translateMatrix: Matrix = [1, 0, 0, 1, 10, 20];
+
+    expect(multiplyMatrices(scaleMatrix, translateMatrix)).toEqual([
+      2, 0, 0, 3, 10, 20,
+    ]);
+    expect(multiplyMatrices(translateMatrix, scaleMatrix)).toEqual([
+      2, 0, 0, 3, 20, 60,
+    ]);
+  });
+
+  it("should compute placed size for rotated matrices", () => {
+    const { width, height } = getPlacedSize([0, 100, -50, 0, 0, 0]);
+    expect(width).toBe(100);
+    expect(height).toBe(50);
+  });
+});
+
+describe("collectXObjectPlacements", () => {
+  it("should report the CTM of each painted image", async () => {
+    const { pdfDoc, page, imageRef } = await createDocumentWithImage();
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(1, 0, 0, 1, 50, 50),
+      concatTransformationMatrix(288, 0, 0, 144, 0, 0),
+      drawObject("Im0"),
+      popGraphicsState(),
+    );
+
+    const placements = collectXObjectPlacements(pdfDoc);
+
+    expect(placements).toHaveLength(1);
+    expect(placements[0].ref).toBe(imageRef);
+    expect(placements[0].subtype).toBe("Image");
+    expect(placements[0].matrix).toEqual([288, 0, 0, 144, 50, 50]);
+  });
+
+  it("should follow form XObjects and apply their matrix", async () => {
+    const { pdfDoc, page, imageRef } = await createDocumentWithImage();
+    const formRef = pdfDoc.context.register(
+      pdfDoc.context.flateStream("q 100 0 0 100 0 0 cm /Im0 Do Q", {
+        Type: "XObject",
+        Subtype: "Form",
+        BBox: [0, 0, 100, 100],
+        Matrix: [2, 0, 0, 2, 0, 0],
+        Resources: { XObject: { Im0: imageRef } },
+      }),
+    );
+    page.node.setXObject(PDFName.of("Fm0"), formRef);
+    page.pushOperators(drawObject("Fm0"));
+
+    const placements = collectXObjectPlacements(pdfDoc);
+    const image = placements.find((p) => p.subtype === "Image");
+
+    expect(placements.map((p) => p.subtype)).toEqual(["Form", "Image"]);
+    expect(image?.matrix).toEqual([200, 0, 0, 200, 0, 0]);
+  });
+
+  it("should ignore names missing from the resources", async () => {
+    const { pdfDoc, page } = await createDocumentWithImage();
+    page.pushOperators(drawObject("Missing"));
+
+    expect(collectXObjectPlacements(pdfDoc)).toEqual([]);
+  });
+});
@@ -0,0 +1,387 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFFlateStream,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+} from "pdf-lib";
+
+export type ContentOperand =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "other" };
+
+export interface ContentOperation {
+  operator: string;
+  operands: ContentOperand[];
+}
+
+// [a, b, c, d, e, f] as used by the PDF "cm" operator
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+export interface XObjectPlacement {
+  ref: PDFRef;
+  stream: PDFStream;
+  subtype: "Image" | "Form";
+  pageIndex: number;
+  matrix: Matrix; // CTM in effect when the XObject was painted
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([
+  0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25,
+]);
+
+// Form XObjects can nest; guard against malicious or cyclic documents
+const MAX_FORM_DEPTH = 12;
+
+/**
+ * Returns the decoded bytes of any pdf-lib stream object
+ */
+export function getStreamBytes(stream: PDFStream): Uint8Array {
+  if (stream instanceof PDFRawStream) {
+    return decodePDFRawStream(stream).decode();
+  }
+  if (stream instanceof PDFFlateStream) {
+    return stream.getUnencodedContents();
+  }
+  return stream.getContents();
+}
+
+/**
+ * Multiplies two matrices (m × n) using PDF's row-vector convention
+ */
+export function multiplyMatrices(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+/**
+ * Size in points of the unit square once transformed by a matrix
+ */
+export function getPlacedSize(matrix: Matrix): {
+  width: number;
+  height: number;
+} {
+  return {
+    width: Math.hypot(matrix[0], matrix[1]),
+    height: Math.hypot(matrix[2], matrix[3]),
+  };
+}
+
+/**
+ * Tokenizes a decoded content stream into operators and their operands.
+ * Only numbers and names are kept as typed operands; strings, arrays and
+ * dictionaries are reported as "other". Inline images are skipped.
+ */
+export function parseContentStream(bytes: Uint8Array): ContentOperation[] {
+  const operations: ContentOperation[] = [];
+  let operands: ContentOperand[] = [];
+  let pos = 0;
+  const length = bytes.length;
+
+  const skipWhitespaceAndComments = () => {
+    while (pos < length) {
+      const byte = bytes[pos];
+      if (WHITESPACE.has(byte)) {
+        pos++;
+      } else if (byte === 0x25) {
+        // Comment runs to the end of the line
+        while (pos < length && bytes[pos] !== 0x0a && bytes[pos] !== 0x0d) {
+          pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readRegular = (): string => {
+    const start = pos;
+    while (
+      pos < length &&
+      !WHITESPACE.has(bytes[pos]) &&
+      !DELIMITERS.has(bytes[pos])
+    ) {
+      pos++;
+    }
+    return String.fromCharCode(...bytes.subarray(start, pos));
+  };
+
+  const skipLiteralString = () => {
+    let depth = 0;
+    while (pos < length) {
+      const byte = bytes[pos++];
+      if (byte === 0x5c) {
+        pos++; // Escaped character
+      } else if (byte === 0x28) {
+        depth++;
+      } else if (byte === 0x29) {
+        depth--;
+        if (depth === 0) return;
+      }
+    }
+  };
+
+  const skipInlineImage = () => {
+    // Skip the image dictionary up to the ID operator
+    while (pos < length) {
+      skipWhitespaceAndComments();
+      if (bytes[pos] === 0x28) {
+        skipLiteralString();
+      } else if (DELIMITERS.has(bytes[pos])) {
+        pos++;
+      } else if (readRegular() === "ID") {
+        break;
+      }
+    }
+    pos++; // Single whitespace after ID
+
+    // Image data ends at the first "EI" surrounded by whitespace
+    while (pos < length) {
+      if (
+        bytes[pos] === 0x45 &&
+        bytes[pos + 1] === 0x49 &&
+        WHITESPACE.has(bytes[pos - 1]) &&
+        (pos + 2 >= length || WHITESPACE.has(bytes[pos + 2]))
+      ) {
+        pos += 2;
+        return;
+      }
+      pos++;
+    }
+  };
+
+  while (pos < length) {
+    skipWhitespaceAndComments();
+    if (pos >= length) break;
+
+    const byte = bytes[pos];
+
+    if (byte === 0x2f) {
+      // Name
+      pos++;
+      operands.push({ type: "name", value: decodeName(readRegular()) });
+    } else if (byte === 0x28) {
+      skipLiteralString();
+      operands.push({ type: "other" });
+    } else if (byte === 0x3c && bytes[pos + 1] === 0x3c) {
+      // Dictionary (marked content properties); nested dictionaries are
+      // flattened since only their presence matters
+      pos += 2;
+      operands.push({ type: "other" });
+    } else if (byte === 0x3e && bytes[pos + 1] === 0x3e) {
+      pos += 2;
+    } else if (byte === 0x3c) {
+      // Hex string
+      while (pos < length && bytes[pos] !== 0x3e) pos++;
+      pos++;
+      operands.push({ type: "other" });
+    } else if (byte === 0x5b) {
+      pos++;
+      operands.push({ type: "other" });
+    } else if (DELIMITERS.has(byte)) {
+      pos++;
+    } else {
+      const token = readRegular();
+      const number = Number(token);
+
+      if (token !== "" && !isNaN(number) && /^[+\-.\d]/.test(token)) {
+        operands.push({ type: "number", value: number });
+      } else if (token === "true" || token === "false" || token === "null") {
+        operands.push({ type: "other" });
+      } else if (token === "BI") {
+        skipInlineImage();
+        operations.push({ operator: "BI", operands: [] });
+        operands = [];
+      } else if (token !== "") {
+        operations.push({ operator: token, operands });
+        operands = [];
+      } else {
+        pos++;
+      }
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Decodes #xx escapes in a PDF name token
+ */
+function decodeName(raw: string): string {
+  return raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) =>
+    String.fromCharCode(parseInt(hex, 16)),
+  );
+}
+
+/**
+ * Returns the concatenated, decoded content of a page
+ */
+export function getPageContentBytes(
+  pdfDoc: PDFDocument,
+  pageIndex: number,
+): Uint8Array {
+  const page = pdfDoc.getPage(pageIndex);
+  const contents = page.node.Contents();
+  const streams: PDFStream[] = [];
+
+  if (contents instanceof PDFStream) {
+    streams.push(contents);
+  } else if (contents instanceof PDFArray) {
+    for (let i = 0; i < contents.size(); i++) {
+      const stream = pdfDoc.context.lookup(contents.get(i));
+      if (stream instanceof PDFStream) streams.push(stream);
+    }
+  }
+
+  const parts = streams.map(getStreamBytes);
+  const totalLength = parts.reduce((sum, part) => sum + part.length + 1, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+    result[offset++] = 0x0a; // Streams are separated by whitespace
+  }
+  return result;
+}
+
+/**
+ * Walks every page's content (including nested form XObjects) and reports
+ * each XObject painted with "Do" together with the CTM at that point
+ */
+export function collectXObjectPlacements(
+  pdfDoc: PDFDocument,
+): XObjectPlacement[] {
+  const placements: XObjectPlacement[] = [];
+  const pageCount = pdfDoc.getPageCount();
+
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    const page = pdfDoc.getPage(pageIndex);
+    const resources = page.node.Resources();
+
+    try {
+      const operations = parseContentStream(
+        getPageContentBytes(pdfDoc, pageIndex),
+      );
+      walkOperations(
+        pdfDoc,
+        operations,
+        resources,
+        IDENTITY_MATRIX,
+        pageIndex,
+        [],
+        placements,
+      );
+    } catch (error) {
+      // A broken content stream shouldn't prevent inspecting other pages
+      console.warn(`Failed to parse content of page ${pageIndex + 1}:`, error);
+    }
+  }
+
+  return placements;
+}
+
+function walkOperations(
+  pdfDoc: PDFDocument,
+  operations: ContentOperation[],
+  resources: PDFDict | undefined,
+  baseMatrix: Matrix,
+  pageIndex: number,
+  formStack: PDFRef[],
+  placements: XObjectPlacement[],
+): void {
+  const stack: Matrix[] = [];
+  let ctm = baseMatrix;
+
+  for (const { operator, operands } of operations) {
+    if (operator === "q") {
+      stack.push(ctm);
+    } else if (operator === "Q") {
+      ctm = stack.pop() ?? baseMatrix;
+    } else if (operator === "cm") {
+      const values = operands
+        .filter((operand) => operand.type === "number")
+        .map((operand) => (operand as { value: number }).value);
+      if (values.length === 6) {
+        ctm = multiplyMatrices(values as Matrix, ctm);
+      }
+    } else if (operator === "Do") {
+      const nameOperand = operands[operands.length - 1];
+      if (!nameOperand || nameOperand.type !== "name") continue;
+
+      const xObjects = resources?.lookupMaybe(PDFName.of("XObject"), PDFDict);
+      const ref = xObjects?.get(PDFName.of(nameOperand.value));
+      if (!(ref instanceof PDFRef)) continue;
+
+      const stream = pdfDoc.context.lookup(ref);
+      if (!(stream instanceof PDFStream)) continue;
+
+      const subtype = stream.dict.lookup(PDFName.of("Subtype"));
+      if (subtype === PDFName.of("Image")) {
+        placements.push({
+          ref,
+          stream,
+          subtype: "Image",
+          pageIndex,
+          matrix: ctm,
+        });
+      } else if (subtype === PDFName.of("Form")) {
+        placements.push({
+          ref,
+          stream,
+          subtype: "Form",
+          pageIndex,
+          matrix: ctm,
+        });
+
+        if (formStack.length >= MAX_FORM_DEPTH || formStack.includes(ref)) {
+          continue;
+        }
+
+        const formMatrix = readMatrix(stream.dict.lookup(PDFName.of("Matrix")));
+        const formResources =
+          stream.dict.lookupMaybe(PDFName.of("Resources"), PDFDict) ??
+          resources;
+
+        try {
+          walkOperations(
+            pdfDoc,
+            parseContentStream(getStreamBytes(stream)),
+            formResources,
+            multiplyMatrices(formMatrix, ctm),
+            pageIndex,
+            [...formStack, ref],
+            placements,
+          );
+        } catch (error) {
+          console.warn("Failed to parse form XObject content:", error);
+        }
+      }
+    }
+  }
+}
+
+function readMatrix(value: unknown): Matrix {
+  if (!(value instanceof PDFArray) || value.size() !== 6) {
+    return IDENTITY_MATRIX;
+  }
+  const numbers = value
+    .asArray()
+    .map((item) => (item instanceof PDFNumber ? item.asNumber() : NaN));
+  return numbers.some(isNaN) ? IDENTITY_MATRIX : (numbers as Matrix);
+}
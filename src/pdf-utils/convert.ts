@@ -1,4 +1,4 @@
-import { PDFDocument } from "pdf-lib";
+import { PDFDocument, PageSizes } from "pdf-lib";
 
 export interface ConvertImagesToPDFOptions {
   images: File[];
@@ -20,8 +20,17 @@ export type ConvertImagesToPDFResponse =
   | ConvertImagesToPDFResult
   | ConvertImagesToPDFError;
 
+export type ImagePageSize =
+  | "image" // Page matches the image, scaled down to fit Letter
+  | "a4"
+  | "letter";
+
 // Supported image formats
-const SUPPORTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png"];
+export const SUPPORTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png"];
+
+export function isSupportedImageType(type: string): boolean {
+  return SUPPORTED_IMAGE_TYPES.includes(type.toLowerCase());
+}
 
 /**
  * Converts multiple image files into a single PDF document
@@ -45,7 +54,7 @@ export async function convertImagesToPDF(
 
     // Validate all files are supported images
     for (const image of images) {
-      if (!SUPPORTED_IMAGE_TYPES.includes(image.type.toLowerCase())) {
+      if (!isSupportedImageType(image.type)) {
         return {
           success: false,
           error: `Unsupported image type: ${image.name}`,
@@ -60,52 +69,7 @@ export async function convertImagesToPDF(
     // Process each image
     for (const imageFile of images) {
       try {
-        // Read image as array buffer
-        const imageBuffer = await imageFile.arrayBuffer();
-
-        let image;
-        const imageType = imageFile.type.toLowerCase();
-
-        // Embed image based on type
-        if (imageType === "image/png") {
-          image = await pdfDoc.embedPng(imageBuffer);
-        } else if (imageType === "image/jpeg" || imageType === "image/jpg") {
-          image = await pdfDoc.embedJpg(imageBuffer);
-        } else {
-          throw new Error(`Unsupported image type: ${imageType}`);
-        }
-
-        // Get image dimensions
-        const { width: imageWidth, height: imageHeight } = image.scale(1);
-
-        // Create a new page with the image dimensions
-        // Scale to fit within reasonable page size limits (max 8.5x11 inches at 72 DPI)
-        const maxWidth = 612; // 8.5 inches * 72 DPI
-        const maxHeight = 792; // 11 inches * 72 DPI
-
-        let pageWidth = imageWidth;
-        let pageHeight = imageHeight;
-
-        // Scale down if image is too large
-        if (imageWidth > maxWidth || imageHeight > maxHeight) {
-          const widthRatio = maxWidth / imageWidth;
-          const heightRatio = maxHeight / imageHeight;
-          const scaleRatio = Math.min(widthRatio, heightRatio);
-
-          pageWidth = imageWidth * scaleRatio;
-          pageHeight = imageHeight * scaleRatio;
-        }
-
-        // Add a new page
-        const page = pdfDoc.addPage([pageWidth, pageHeight]);
-
-        // Draw the image to fill the entire page
-        page.drawImage(image, {
-          x: 0,
-          y: 0,
-          width: pageWidth,
-          height: pageHeight,
-        });
+        await addImagePage(pdfDoc, imageFile);
       } catch (imageError) {
         return {
           success: false,
@@ -137,3 +101,80 @@ export async function convertImagesToPDF(
     };
   }
 }
+
+/**
+ * Embeds an image and adds it to the end of the document as a page of its
+ * own. Fixed page sizes are turned to match the image and the image is
+ * centered and scaled to fit.
+ */
+export async function addImagePage(
+  pdfDoc: PDFDocument,
+  imageFile: File,
+  pageSize: ImagePageSize = "image",
+): Promise<void> {
+  // Read image as array buffer
+  const imageBuffer = await imageFile.arrayBuffer();
+
+  let image;
+  const imageType = imageFile.type.toLowerCase();
+
+  // Embed image based on type
+  if (imageType === "image/png") {
+    image = await pdfDoc.embedPng(imageBuffer);
+  } else if (imageType === "image/jpeg" || imageType === "image/jpg") {
+    image = await pdfDoc.embedJpg(imageBuffer);
+  } else {
+    throw new Error(`Unsupported image type: ${imageType}`);
+  }
+
+  // Get image dimensions
+  const { width: imageWidth, height: imageHeight } = image.scale(1);
+
+  if (pageSize !== "image") {
+    const [shortSide, longSide] =
+      pageSize === "a4" ? PageSizes.A4 : PageSizes.Letter;
+    const [pageWidth, pageHeight] =
+      imageWidth > imageHeight ? [longSide, shortSide] : [shortSide, longSide];
+    const scale = Math.min(pageWidth / imageWidth, pageHeight / imageHeight);
+    const width = imageWidth * scale;
+    const height = imageHeight * scale;
+
+    const page = pdfDoc.addPage([pageWidth, pageHeight]);
+    page.drawImage(image, {
+      x: (pageWidth - width) / 2,
+      y: (pageHeight - height) / 2,
+      width,
+      height,
+    });
+    return;
+  }
+
+  // Create a new page with the image dimensions
+  // Scale to fit within reasonable page size limits (max 8.5x11 inches at 72 DPI)
+  const maxWidth = 612; // 8.5 inches * 72 DPI
+  const maxHeight = 792; // 11 inches * 72 DPI
+
+  let pageWidth = imageWidth;
+  let pageHeight = imageHeight;
+
+  // Scale down if image is too large
+  if (imageWidth > maxWidth || imageHeight > maxHeight) {
+    const widthRatio = maxWidth / imageWidth;
+    const heightRatio = maxHeight / imageHeight;
+    const scaleRatio = Math.min(widthRatio, heightRatio);
+
+    pageWidth = imageWidth * scaleRatio;
+    pageHeight = imageHeight * scaleRatio;
+  }
+
+  // Add a new page
+  const page = pdfDoc.addPage([pageWidth, pageHeight]);
+
+  // Draw the image to fill the entire page
+  page.drawImage(image, {
+    x: 0,
+    y: 0,
+    width: pageWidth,
+    height: pageHeight,
+  });
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { aesDecrypt, aesEncrypt, md5, rc4 } from "./crypto";
+
+const text = (value: string) => new TextEncoder().encode(value);
+const hex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+describe("md5", () => {
+  it("should match known digests", () => {
+    expect(hex(md5(text("")))).toBe("d41d8cd98f00b204e9800998ecf8427e");
+    expect(hex(md5(text("abc")))).toBe("900150983cd24fb0d6963f7d28e17f72");
+    expect(hex(md5(text("The quick brown fox jumps over the lazy dog")))).toBe(
+      "9e107d9d372bb6826bd81d3542a419d6",
+    );
+  });
+
+  it("should handle input spanning several blocks", () => {
+    expect(hex(md5(text("a".repeat(200))))).toBe(
+      "887f30b43b2867f4a9accceee7d16e6c",
+    );
+  });
+});
+
+describe("rc4", () => {
+  it("should match known ciphertext", () => {
+    expect(hex(rc4(text("Key"), text("Plaintext")))).toBe("bbf316e8d940af0ad3");
+    expect(hex(rc4(text("Secret"), text("Attack at dawn")))).toBe(
+      "45a01f645fc35b383552544b9bf5",
+    );
+  });
+});
+
+describe("aesEncrypt and aesDecrypt", () => {
+  const key = new Uint8Array(16).fill(7);
+  const iv = new Uint8Array(16).fill(3);
+
+  it("should round-trip with padding", async () => {
+    const encrypted = await aesEncrypt(key, iv, text("Hello, PDF encryption!"));
+
+    expect(encrypted).toHaveLength(32);
+    const decrypted = await aesDecrypt(key, iv, encrypted);
+    expect(new TextDecoder().decode(decrypted)).toBe("Hello, PDF encryption!");
+  });
+
+  it("should round-trip whole blocks without padding", async () => {
+    const data = new Uint8Array(32).map((_, index) => index);
+    const encrypted = await aesEncrypt(key, iv, data, false);
+
+    expect(encrypted).toHaveLength(32);
+    expect(await aesDecrypt(key, iv, encrypted, false)).toEqual(data);
+  });
+
+  it("should keep data whose padding is invalid", async () => {
+    const data = new Uint8Array(16).fill(0x41);
+    const encrypted = await aesEncrypt(key, iv, data, false);
+
+    expect(await aesDecrypt(key, iv, encrypted)).toEqual(data);
+  });
+});
@@ -0,0 +1,202 @@
+// Primitives for the PDF standard security handler. MD5 and RC4 aren't
+// available in WebCrypto, so they're implemented here.
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5,
+  9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11,
+  16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15,
+  21,
+];
+
+const MD5_CONSTANTS = Array.from(
+  { length: 64 },
+  (_, index) => Math.floor(Math.abs(Math.sin(index + 1)) * 2 ** 32) >>> 0,
+);
+
+export function md5(data: Uint8Array): Uint8Array {
+  // Pad to 56 mod 64 bytes, then append the bit length
+  const paddedLength = (((data.length + 8) >> 6) + 1) << 6;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(data.length / 2 ** 29), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+  const words = new Uint32Array(16);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let index = 0; index < 16; index++) {
+      words[index] = view.getUint32(offset + index * 4, true);
+    }
+
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+    for (let index = 0; index < 64; index++) {
+      let f: number;
+      let g: number;
+      if (index < 16) {
+        f = (b & c) | (~b & d);
+        g = index;
+      } else if (index < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * index + 1) % 16;
+      } else if (index < 48) {
+        f = b ^ c ^ d;
+        g = (3 * index + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * index) % 16;
+      }
+
+      const sum = (a + f + MD5_CONSTANTS[index] + words[g]) >>> 0;
+      const shift = MD5_SHIFTS[index];
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) >>> 0;
+    }
+
+    a0 = (a0 + a) >>> 0;
+    b0 = (b0 + b) >>> 0;
+    c0 = (c0 + c) >>> 0;
+    d0 = (d0 + d) >>> 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const digestView = new DataView(digest.buffer);
+  [a0, b0, c0, d0].forEach((word, index) =>
+    digestView.setUint32(index * 4, word, true),
+  );
+  return digest;
+}
+
+// Encrypts and decrypts, as RC4 is symmetric
+export function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const state = new Uint8Array(256);
+  for (let index = 0; index < 256; index++) state[index] = index;
+
+  let j = 0;
+  for (let index = 0; index < 256; index++) {
+    j = (j + state[index] + key[index % key.length]) & 0xff;
+    [state[index], state[j]] = [state[j], state[index]];
+  }
+
+  const output = new Uint8Array(data.length);
+  let i = 0;
+  j = 0;
+  for (let index = 0; index < data.length; index++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[index] = data[index] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return output;
+}
+
+/**
+ * AES-CBC encryption with PKCS#7 padding. Without padding, `data` must be a
+ * whole number of 16-byte blocks.
+ */
+export async function aesEncrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+  padding = true,
+): Promise<Uint8Array> {
+  const cryptoKey = await importAesKey(key);
+  const encrypted = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-CBC", iv: toBuffer(iv) },
+      cryptoKey,
+      toBuffer(data),
+    ),
+  );
+  // WebCrypto always pads, which only adds a block at the end
+  return padding ? encrypted : encrypted.slice(0, data.length);
+}
+
+/**
+ * AES-CBC decryption. Padding is removed when it's valid, so files with
+ * broken padding still decrypt. Trailing partial blocks are ignored.
+ */
+export async function aesDecrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+  padding = true,
+): Promise<Uint8Array> {
+  const blocks = data.subarray(0, data.length - (data.length % 16));
+  if (blocks.length === 0) return new Uint8Array(0);
+
+  // WebCrypto rejects bad padding, so append a block that decrypts to a full
+  // block of padding and decrypt the rest as is
+  const lastBlock = blocks.subarray(blocks.length - 16);
+  const paddingBlock = (
+    await aesEncrypt(key, lastBlock, new Uint8Array(16).fill(16))
+  ).subarray(0, 16);
+  const input = new Uint8Array(blocks.length + 16);
+  input.set(blocks);
+  input.set(paddingBlock, blocks.length);
+
+  const decrypted = new Uint8Array(
+    await crypto.subtle.decrypt(
+      { name: "AES-CBC", iv: toBuffer(iv) },
+      await importAesKey(key),
+      toBuffer(input),
+    ),
+  );
+  if (!padding) return decrypted;
+
+  const padLength = decrypted[decrypted.length - 1];
+  const isValidPadding =
+    padLength >= 1 &&
+    padLength <= 16 &&
+    decrypted
+      .subarray(decrypted.length - padLength)
+      .every((byte) => byte === padLength);
+  return isValidPadding
+    ? decrypted.slice(0, decrypted.length - padLength)
+    : decrypted;
+}
+
+export async function sha(
+  algorithm: "SHA-256" | "SHA-384" | "SHA-512",
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, toBuffer(data)));
+}
+
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function importAesKey(key: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", toBuffer(key), "AES-CBC", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+// WebCrypto wants its own copy, backed by a plain ArrayBuffer
+function toBuffer(data: Uint8Array): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(data);
+}
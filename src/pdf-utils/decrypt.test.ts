@@ -0,0 +1,230 @@
+import { describe, it, expect } from "vitest";
+import {
+  PDFArray,
+  PDFDocument,
+  PDFRawStream,
+  StandardFonts,
+  decodePDFRawStream,
+} from "pdf-lib";
+import * as pdfjsLib from "pdfjs-dist/legacy/build/pdf.mjs";
+import { createPDFFileFromBytes, encryptRC4 } from "../../tests/pdf-fixtures";
+import {
+  checkPDFPassword,
+  decryptPDF,
+  loadPDFDocument,
+  PDFPasswordError,
+  UnsupportedEncryptionError,
+} from "./decrypt";
+import { encryptPDF } from "./encrypt";
+
+// jsdom's Blob has no arrayBuffer(), so go through FileReader
+async function readBlob(blob: Blob): Promise<Uint8Array> {
+  const buffer = await new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+  return new Uint8Array(buffer);
+}
+
+async function createDocument(): Promise<PDFDocument> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle("Quarterly salaries");
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  pdfDoc.addPage([300, 400]).drawText("Confidential", { font, x: 20, y: 20 });
+  pdfDoc.addPage([300, 400]);
+  // Round-trip so every stream is raw
+  return PDFDocument.load(await pdfDoc.save(), { updateMetadata: false });
+}
+
+describe("encrypted test documents", () => {
+  it("should open in pdf.js with the password", async () => {
+    const bytes = await encryptRC4(await createDocument(), "user", "owner");
+
+    const pdf = await pdfjsLib.getDocument({
+      data: bytes.slice(),
+      password: "user",
+    }).promise;
+    const { info } = await pdf.getMetadata();
+    expect(info).toMatchObject({ Title: "Quarterly salaries" });
+
+    await expect(
+      pdfjsLib.getDocument({ data: bytes.slice() }).promise,
+    ).rejects.toThrow();
+  });
+});
+
+describe("loadPDFDocument", () => {
+  it("should decrypt strings and streams with the user password", async () => {
+    const bytes = await encryptRC4(await createDocument(), "user", "owner");
+
+    const pdfDoc = await loadPDFDocument(bytes, {
+      password: "user",
+      updateMetadata: false,
+    });
+
+    expect(pdfDoc.isEncrypted).toBe(false);
+    expect(pdfDoc.getTitle()).toBe("Quarterly salaries");
+    expect(pdfDoc.getPageCount()).toBe(2);
+    const contents = (pdfDoc.getPage(0).node.Contents() as PDFArray).lookup(
+      0,
+      PDFRawStream,
+    );
+    const operators = new TextDecoder().decode(
+      decodePDFRawStream(contents).decode(),
+    );
+    // "Confidential" in the font's encoding
+    expect(operators).toContain("<436F6E666964656E7469616C> Tj");
+  });
+
+  it("should accept the owner password", async () => {
+    const bytes = await encryptRC4(await createDocument(), "user", "owner");
+
+    const pdfDoc = await loadPDFDocument(bytes, { password: "owner" });
+
+    expect(pdfDoc.getTitle()).toBe("Quarterly salaries");
+  });
+
+  it("should open files with an empty user password without asking", async () => {
+    const bytes = await encryptRC4(await createDocument(), "", "owner");
+
+    const pdfDoc = await loadPDFDocument(bytes);
+
+    expect(pdfDoc.getTitle()).toBe("Quarterly salaries");
+  });
+
+  it("should unpack encrypted object streams", async () => {
+    const bytes = await encryptRC4(await createDocument(), "user", "owner", {
+      infoInObjectStream: true,
+    });
+
+    const pdfDoc = await loadPDFDocument(bytes, {
+      password: "user",
+      updateMetadata: false,
+    });
+
+    expect(pdfDoc.getTitle()).toBe("Quarterly salaries");
+  });
+
+  it("should reject a wrong password", async () => {
+    const bytes = await encryptRC4(await createDocument(), "user", "owner");
+
+    await expect(
+      loadPDFDocument(bytes, { password: "guess" }),
+    ).rejects.toBeInstanceOf(PDFPasswordError);
+  });
+
+  it("should reject other security handlers", async () => {
+    const pdfDoc = await createDocument();
+    pdfDoc.context.trailerInfo.Encrypt = pdfDoc.context.register(
+      pdfDoc.context.obj({ Filter: "Adobe.PubSec", V: 4 }),
+    );
+    const bytes = await pdfDoc.save({ useObjectStreams: false });
+
+    await expect(loadPDFDocument(bytes)).rejects.toBeInstanceOf(
+      UnsupportedEncryptionError,
+    );
+  });
+});
+
+describe("checkPDFPassword", () => {
+  it("should tell whether a password is needed and correct", async () => {
+    const plain = await (await createDocument()).save();
+    const bytes = await encryptRC4(await createDocument(), "user", "owner");
+
+    expect(await checkPDFPassword(plain)).toBe("not-encrypted");
+    expect(await checkPDFPassword(bytes)).toBe("wrong-password");
+    expect(await checkPDFPassword(bytes, "user")).toBe("unlocked");
+    expect(await checkPDFPassword(bytes, "owner")).toBe("unlocked");
+  });
+});
+
+describe("decryptPDF", () => {
+  it("should remove the password and permission restrictions", async () => {
+    const encrypted = await encryptPDF({
+      file: createPDFFileFromBytes(
+        "salaries.pdf",
+        await (await createDocument()).save(),
+      ),
+      userPassword: "user",
+      ownerPassword: "owner",
+      permissions: { printing: false, copying: false },
+    });
+    expect(encrypted.success).toBe(true);
+    if (!encrypted.success) return;
+
+    const result = await decryptPDF({
+      file: createPDFFileFromBytes(
+        "salaries.pdf",
+        await readBlob(encrypted.pdfBlob),
+      ),
+      password: "user",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.wasEncrypted).toBe(true);
+    const bytes = await readBlob(result.pdfBlob);
+    expect(await checkPDFPassword(bytes)).toBe("not-encrypted");
+    const pdf = await pdfjsLib.getDocument({ data: bytes }).promise;
+    expect(pdf.numPages).toBe(2);
+    expect(await pdf.getPermissions()).toBeNull();
+  });
+
+  it("should return unencrypted files as they are", async () => {
+    const bytes = await (await createDocument()).save();
+
+    const result = await decryptPDF({
+      file: createPDFFileFromBytes("salaries.pdf", bytes),
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.wasEncrypted).toBe(false);
+    expect((await readBlob(result.pdfBlob)).length).toBe(bytes.length);
+  });
+
+  it("should report a wrong password", async () => {
+    const bytes = await encryptRC4(await createDocument(), "user", "owner");
+
+    const result = await decryptPDF({
+      file: createPDFFileFromBytes("salaries.pdf", bytes),
+      password: "guess",
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: "Incorrect password",
+    });
+  });
+
+  it("should report unsupported security handlers", async () => {
+    const pdfDoc = await createDocument();
+    pdfDoc.context.trailerInfo.Encrypt = pdfDoc.context.register(
+      pdfDoc.context.obj({ Filter: "Adobe.PubSec", V: 4 }),
+    );
+    const bytes = await pdfDoc.save({ useObjectStreams: false });
+
+    const result = await decryptPDF({
+      file: createPDFFileFromBytes("salaries.pdf", bytes),
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: "Unsupported encryption",
+      details: "Unsupported security handler: Adobe.PubSec",
+    });
+  });
+
+  it("should reject non-PDF files", async () => {
+    const file = new File(["text"], "notes.txt", { type: "text/plain" });
+
+    const result = await decryptPDF({ file, password: "user" });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: "Invalid file type. Only PDF files are supported.",
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  type LoadOptions,
+  type PDFContext,
+} from "pdf-lib";
+import {
+  openSecurityHandler,
+  PDFPasswordError,
+  transformStrings,
+  UnsupportedEncryptionError,
+  type SecurityHandler,
+} from "./security-handler";
+
+export { PDFPasswordError, UnsupportedEncryptionError };
+
+export interface LoadPDFOptions extends LoadOptions {
+  password?: string; // User or owner password of an encrypted file
+}
+
+export interface DecryptPDFOptions {
+  file: File;
+  password?: string; // User or owner password
+}
+
+export interface DecryptPDFResult {
+  success: true;
+  pdfBlob: Blob;
+  wasEncrypted: boolean; // Unencrypted files are returned as they are
+}
+
+export interface DecryptPDFError {
+  success: false;
+  error: string;
+  details?: string;
+}
+
+export type DecryptPDFResponse = DecryptPDFResult | DecryptPDFError;
+
+export type PDFPasswordCheck =
+  | "not-encrypted"
+  | "unlocked" // The password (or no password) opens the file
+  | "wrong-password"
+  | "unsupported"; // Encrypted with something we can't decrypt
+
+// Same length as "ObjStm", so hiding object streams keeps offsets intact
+const HIDDEN_OBJECT_STREAM = "EncStm";
+
+/**
+ * Loads a PDF like PDFDocument.load, decrypting it first if it's encrypted.
+ * The document comes back without encryption.
+ * @throws PDFPasswordError if the password opens an encrypted file
+ * neither as user nor as owner
+ * @throws UnsupportedEncryptionError for encryption we can't decrypt
+ */
+export async function loadPDFDocument(
+  bytes: ArrayBuffer | Uint8Array,
+  { password, ...options }: LoadPDFOptions = {},
+): Promise<PDFDocument> {
+  return PDFDocument.load(await decryptPDFBytes(bytes, password), options);
+}
+
+/**
+ * Decrypts an encrypted PDF into an unencrypted file. Other files are
+ * returned as they are, without copying Uint8Arrays.
+ * @throws PDFPasswordError and UnsupportedEncryptionError like
+ * loadPDFDocument
+ */
+export async function decryptPDFBytes(
+  bytes: ArrayBuffer | Uint8Array,
+  password = "",
+): Promise<Uint8Array> {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  if (!mayBeEncrypted(data)) return data;
+
+  const pdfDoc = await loadEncrypted(data);
+  const { context } = pdfDoc;
+  const encryptRef = context.trailerInfo.Encrypt;
+  const encrypt = context.lookup(encryptRef);
+  if (!(encrypt instanceof PDFDict)) return data;
+
+  const handler = await openSecurityHandler(
+    encrypt,
+    getFileId(context),
+    password,
+  );
+  await decryptObjects(context, handler, encrypt);
+  context.trailerInfo.Encrypt = undefined;
+  if (encryptRef instanceof PDFRef) context.delete(encryptRef);
+  await expandObjectStreams(context);
+
+  return pdfDoc.save({ useObjectStreams: false });
+}
+
+/**
+ * Writes a decrypted copy of an encrypted PDF, without password or
+ * permission restrictions
+ * @param options - Configuration object containing the PDF file and password
+ * @returns Promise that resolves to the decrypted PDF blob or error
+ */
+export async function decryptPDF(
+  options: DecryptPDFOptions,
+): Promise<DecryptPDFResponse> {
+  try {
+    const { file, password } = options;
+
+    if (!file) {
+      return { success: false, error: "No file provided" };
+    }
+
+    if (file.type !== "application/pdf") {
+      return {
+        success: false,
+        error: "Invalid file type. Only PDF files are supported.",
+        details: `Expected 'application/pdf', got '${file.type}'`,
+      };
+    }
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    const pdfBytes = await decryptPDFBytes(data, password);
+    const pdfBlob = new Blob([pdfBytes], { type: "application/pdf" });
+
+    return { success: true, pdfBlob, wasEncrypted: pdfBytes !== data };
+  } catch (error) {
+    if (error instanceof PDFPasswordError) {
+      return {
+        success: false,
+        error: "Incorrect password",
+        details: "The password is neither the user nor the owner password",
+      };
+    }
+    if (error instanceof UnsupportedEncryptionError) {
+      return {
+        success: false,
+        error: "Unsupported encryption",
+        details: error.message,
+      };
+    }
+    return {
+      success: false,
+      error: "Failed to decrypt PDF",
+      details: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Tells whether a file needs a password, and whether `password` opens it
+ */
+export async function checkPDFPassword(
+  bytes: ArrayBuffer | Uint8Array,
+  password = "",
+): Promise<PDFPasswordCheck> {
+  const data = new Uint8Array(bytes);
+  if (!mayBeEncrypted(data)) return "not-encrypted";
+
+  const { context } = await loadEncrypted(data);
+  const encrypt = context.lookup(context.trailerInfo.Encrypt);
+  if (!(encrypt instanceof PDFDict)) return "not-encrypted";
+
+  try {
+    await openSecurityHandler(encrypt, getFileId(context), password);
+    return "unlocked";
+  } catch (error) {
+    if (error instanceof PDFPasswordError) return "wrong-password";
+    if (error instanceof UnsupportedEncryptionError) return "unsupported";
+    throw error;
+  }
+}
+
+// The trailer and cross-reference streams are never encrypted, so files
+// without this name aren't either
+function mayBeEncrypted(data: Uint8Array): boolean {
+  return indexOfBytes(data, "/Encrypt") !== -1;
+}
+
+// pdf-lib unpacks object streams while parsing, which fails while they're
+// encrypted, so they're renamed until they've been decrypted
+async function loadEncrypted(data: Uint8Array): Promise<PDFDocument> {
+  const hidden = data.slice();
+  for (
+    let index = indexOfBytes(hidden, "/ObjStm");
+    index !== -1;
+    index = indexOfBytes(hidden, "/ObjStm", index + 1)
+  ) {
+    hidden.set(new TextEncoder().encode(HIDDEN_OBJECT_STREAM), index + 1);
+  }
+  return PDFDocument.load(hidden, {
+    ignoreEncryption: true,
+    updateMetadata: false,
+  });
+}
+
+async function decryptObjects(
+  context: PDFContext,
+  handler: SecurityHandler,
+  encrypt: PDFDict,
+) {
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object === encrypt) continue;
+    const decryptString = (data: Uint8Array) =>
+      handler.decrypt(data, ref, "string");
+
+    if (object instanceof PDFRawStream) {
+      const { dict } = object;
+      const type = dict.lookup(PDFName.of("Type"));
+      if (type === PDFName.of("XRef")) continue;
+
+      await transformStrings(dict, decryptString);
+      const isPlainMetadata =
+        type === PDFName.of("Metadata") && !handler.encryptMetadata;
+      if (!isPlainMetadata && !removeIdentityCryptFilter(dict)) {
+        const contents = await handler.decrypt(object.contents, ref, "stream");
+        context.assign(ref, PDFRawStream.of(dict, contents));
+      }
+    } else {
+      context.assign(ref, await transformStrings(object, decryptString));
+    }
+  }
+}
+
+// Streams can opt out of encryption with an Identity crypt filter, which
+// pdf-lib can't decode
+// @returns Whether the stream was unencrypted
+function removeIdentityCryptFilter(dict: PDFDict): boolean {
+  const filter = dict.lookup(PDFName.of("Filter"));
+  const filters = filter instanceof PDFArray ? filter.asArray() : [filter];
+  const cryptIndex = filters.indexOf(PDFName.of("Crypt"));
+  if (cryptIndex === -1) return false;
+
+  const params = dict.lookup(PDFName.of("DecodeParms"));
+  const cryptParams =
+    params instanceof PDFArray ? params.lookup(cryptIndex) : params;
+  const name =
+    cryptParams instanceof PDFDict
+      ? cryptParams.lookup(PDFName.of("Name"))
+      : undefined;
+
+  if (filter instanceof PDFArray) {
+    filter.remove(cryptIndex);
+    if (params instanceof PDFArray) params.remove(cryptIndex);
+  } else {
+    dict.delete(PDFName.of("Filter"));
+    dict.delete(PDFName.of("DecodeParms"));
+  }
+  return !name || name === PDFName.of("Identity");
+}
+
+async function expandObjectStreams(context: PDFContext) {
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (
+      object instanceof PDFRawStream &&
+      object.dict.get(PDFName.of("Type")) === PDFName.of(HIDDEN_OBJECT_STREAM)
+    ) {
+      object.dict.set(PDFName.of("Type"), PDFName.of("ObjStm"));
+      context.delete(ref);
+      await PDFObjectStreamParser.forStream(object).parseIntoContext();
+    }
+  }
+}
+
+function getFileId(context: PDFContext): Uint8Array {
+  const ids = context.lookup(context.trailerInfo.ID);
+  const id = ids instanceof PDFArray ? ids.lookup(0) : undefined;
+  return id instanceof PDFString || id instanceof PDFHexString
+    ? id.asBytes()
+    : new Uint8Array(0);
+}
+
+function indexOfBytes(data: Uint8Array, text: string, from = 0): number {
+  const pattern = Array.from(text, (char) => char.charCodeAt(0));
+  const last = data.length - pattern.length;
+  for (let index = data.indexOf(pattern[0], from); index !== -1; ) {
+    if (index > last) return -1;
+    let offset = 1;
+    while (
+      offset < pattern.length &&
+      data[index + offset] === pattern[offset]
+    ) {
+      offset++;
+    }
+    if (offset === pattern.length) return index;
+    index = data.indexOf(pattern[0], index + 1);
+  }
+  return -1;
+}
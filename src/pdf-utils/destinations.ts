@@ -0,0 +1,179 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  PDFObject,
+  PDFString,
+} from "pdf-lib";
+
+export interface NamedDestination {
+  name: PDFName | PDFString | PDFHexString; // Names live in /Dests, strings in the name tree
+  destination: PDFArray;
+}
+
+/**
+ * Destination of an outline item or link annotation, from /Dest or a GoTo
+ * action. May be an explicit array or a name to resolve.
+ */
+export function getDestination(dict: PDFDict): PDFObject | undefined {
+  const dest = dict.lookup(PDFName.of("Dest"));
+  if (dest) return dest;
+
+  const action = dict.lookupMaybe(PDFName.of("A"), PDFDict);
+  if (action?.lookup(PDFName.of("S")) === PDFName.of("GoTo")) {
+    return action.lookup(PDFName.of("D"));
+  }
+  return undefined;
+}
+
+/**
+ * Explicit destination array for a name, string or array destination
+ */
+export function resolveDestination(
+  pdfDoc: PDFDocument,
+  dest: PDFObject | undefined,
+): PDFArray | undefined {
+  if (dest instanceof PDFArray) return dest;
+
+  let target: PDFObject | undefined;
+  if (dest instanceof PDFName) {
+    const dests = pdfDoc.catalog.lookupMaybe(PDFName.of("Dests"), PDFDict);
+    target = dests?.lookup(dest);
+  } else if (dest instanceof PDFString || dest instanceof PDFHexString) {
+    const key = dest.decodeText();
+    target = listNameTreeDestinations(pdfDoc).find(
+      ({ name }) => name.decodeText() === key,
+    )?.destination;
+  }
+
+  return unwrapDestination(target);
+}
+
+/**
+ * Lists the document's named destinations that resolve to explicit arrays
+ */
+export function listNamedDestinations(pdfDoc: PDFDocument): NamedDestination[] {
+  const named: NamedDestination[] = [];
+
+  const dests = pdfDoc.catalog.lookupMaybe(PDFName.of("Dests"), PDFDict);
+  for (const [name] of dests?.entries() ?? []) {
+    const destination = unwrapDestination(dests!.lookup(name));
+    if (destination) named.push({ name, destination });
+  }
+
+  return [...named, ...listNameTreeDestinations(pdfDoc)];
+}
+
+/**
+ * Adds a named destination unless one with that name exists
+ * @returns Whether the destination was added
+ */
+export function addNamedDestination(
+  pdfDoc: PDFDocument,
+  { name, destination }: NamedDestination,
+): boolean {
+  const { catalog, context } = pdfDoc;
+
+  if (name instanceof PDFName) {
+    let dests = catalog.lookupMaybe(PDFName.of("Dests"), PDFDict);
+    if (!dests) {
+      dests = context.obj({});
+      catalog.set(PDFName.of("Dests"), context.register(dests));
+    }
+    if (dests.has(name)) return false;
+    dests.set(name, destination);
+    return true;
+  }
+
+  // Rewritten as a single sorted leaf, which is all the documents we create use
+  const entries = listNameTreeDestinations(pdfDoc);
+  if (entries.some((entry) => entry.name.decodeText() === name.decodeText())) {
+    return false;
+  }
+  entries.push({ name, destination });
+  entries.sort((a, b) => (a.name.decodeText() < b.name.decodeText() ? -1 : 1));
+
+  let names = catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+  if (!names) {
+    names = context.obj({});
+    catalog.set(PDFName.of("Names"), names);
+  }
+  names.set(
+    PDFName.of("Dests"),
+    context.obj({
+      Names: entries.flatMap((entry) => [entry.name, entry.destination]),
+    }),
+  );
+  return true;
+}
+
+/**
+ * View parameters after the page, e.g. [/XYZ 0 792 null]. These are names,
+ * numbers and nulls, so they can be used in any document.
+ */
+export function getDestinationView(
+  pdfDoc: PDFDocument,
+  destination: PDFArray,
+): PDFObject[] {
+  const view: PDFObject[] = [];
+  for (let index = 1; index < destination.size(); index++) {
+    const value = pdfDoc.context.lookup(destination.get(index));
+    if (
+      value instanceof PDFName ||
+      value instanceof PDFNumber ||
+      value === PDFNull
+    ) {
+      view.push(value);
+    } else {
+      return [];
+    }
+  }
+  return view;
+}
+
+function listNameTreeDestinations(pdfDoc: PDFDocument): NamedDestination[] {
+  const names = pdfDoc.catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+  const root = names?.lookupMaybe(PDFName.of("Dests"), PDFDict);
+  const named: NamedDestination[] = [];
+  const visited = new Set<PDFDict>();
+
+  const visit = (node: PDFDict) => {
+    if (visited.has(node)) return;
+    visited.add(node);
+
+    const leaf = node.lookupMaybe(PDFName.of("Names"), PDFArray);
+    for (let index = 0; leaf && index + 1 < leaf.size(); index += 2) {
+      const name = leaf.lookup(index);
+      const destination = unwrapDestination(leaf.lookup(index + 1));
+      if (
+        (name instanceof PDFString || name instanceof PDFHexString) &&
+        destination
+      ) {
+        named.push({ name, destination });
+      }
+    }
+
+    const kids = node.lookupMaybe(PDFName.of("Kids"), PDFArray);
+    for (let index = 0; kids && index < kids.size(); index++) {
+      const kid = kids.lookupMaybe(index, PDFDict);
+      if (kid) visit(kid);
+    }
+  };
+
+  if (root) visit(root);
+  return named;
+}
+
+// Named destinations may be wrapped in a dictionary with /D
+function unwrapDestination(
+  target: PDFObject | undefined,
+): PDFArray | undefined {
+  if (target instanceof PDFDict) {
+    return target.lookupMaybe(PDFName.of("D"), PDFArray);
+  }
+  return target instanceof PDFArray ? target : undefined;
+}
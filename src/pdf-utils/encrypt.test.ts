@@ -0,0 +1,212 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import * as pdfjsLib from "pdfjs-dist/legacy/build/pdf.mjs";
+import { checkPDFPassword, loadPDFDocument } from "./decrypt";
+import {
+  encryptPDF,
+  getPermissionBits,
+  type EncryptionAlgorithm,
+} from "./encrypt";
+import { createPDFFileFromBytes } from "../../tests/pdf-fixtures";
+
+async function createPDFFile(name = "salaries.pdf"): Promise<File> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle("Quarterly salaries");
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  pdfDoc.addPage([300, 400]).drawText("Confidential", { font, x: 20, y: 20 });
+  pdfDoc.addPage([300, 400]);
+  return createPDFFileFromBytes(name, await pdfDoc.save());
+}
+
+// jsdom's Blob has no arrayBuffer(), so go through FileReader
+async function readBlob(blob: Blob): Promise<Uint8Array> {
+  const buffer = await new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+  return new Uint8Array(buffer);
+}
+
+async function openWithPDFJS(bytes: Uint8Array, password?: string) {
+  return pdfjsLib.getDocument({ data: bytes.slice(), password }).promise;
+}
+
+async function getPageText(pdf: pdfjsLib.PDFDocumentProxy) {
+  const content = await (await pdf.getPage(1)).getTextContent();
+  return content.items.map((item) => ("str" in item ? item.str : "")).join("");
+}
+
+describe("encryptPDF", () => {
+  it.each<EncryptionAlgorithm>(["aes-256", "aes-128", "rc4-128"])(
+    "should write %s encryption that pdf.js opens with the password",
+    async (algorithm) => {
+      const result = await encryptPDF({
+        file: await createPDFFile(),
+        userPassword: "open sesame",
+        ownerPassword: "owner",
+        algorithm,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      const bytes = await readBlob(result.pdfBlob);
+
+      await expect(openWithPDFJS(bytes)).rejects.toThrow();
+      await expect(openWithPDFJS(bytes, "wrong")).rejects.toThrow();
+
+      const pdf = await openWithPDFJS(bytes, "open sesame");
+      expect(pdf.numPages).toBe(2);
+      expect(await getPageText(pdf)).toBe("Confidential");
+      const { info } = await pdf.getMetadata();
+      expect(info).toMatchObject({ Title: "Quarterly salaries" });
+
+      const owner = await openWithPDFJS(bytes, "owner");
+      expect(owner.numPages).toBe(2);
+    },
+  );
+
+  it("should round-trip through loadPDFDocument", async () => {
+    const result = await encryptPDF({
+      file: await createPDFFile(),
+      userPassword: "pässwörd",
+      algorithm: "aes-256",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const bytes = await readBlob(result.pdfBlob);
+
+    expect(await checkPDFPassword(bytes)).toBe("wrong-password");
+    const pdfDoc = await loadPDFDocument(bytes, { password: "pässwörd" });
+    expect(pdfDoc.getTitle()).toBe("Quarterly salaries");
+    expect(pdfDoc.getPageCount()).toBe(2);
+  });
+
+  it("should open without a password when only an owner password is set", async () => {
+    const result = await encryptPDF({
+      file: await createPDFFile(),
+      userPassword: "",
+      ownerPassword: "owner",
+      algorithm: "aes-128",
+      permissions: { copying: false },
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const pdf = await openWithPDFJS(await readBlob(result.pdfBlob));
+    expect(await getPageText(pdf)).toBe("Confidential");
+  });
+
+  it("should restrict permissions", async () => {
+    const result = await encryptPDF({
+      file: await createPDFFile(),
+      userPassword: "user",
+      ownerPassword: "owner",
+      permissions: { printing: true, copying: false, modifying: false },
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const pdf = await openWithPDFJS(await readBlob(result.pdfBlob), "user");
+    const permissions = await pdf.getPermissions();
+
+    const { PermissionFlag } = pdfjsLib;
+    expect(permissions).toEqual(
+      expect.arrayContaining([
+        PermissionFlag.PRINT,
+        PermissionFlag.PRINT_HIGH_QUALITY,
+        PermissionFlag.MODIFY_ANNOTATIONS,
+        PermissionFlag.FILL_INTERACTIVE_FORMS,
+      ]),
+    );
+    expect(permissions).not.toContain(PermissionFlag.COPY);
+    expect(permissions).not.toContain(PermissionFlag.MODIFY_CONTENTS);
+    expect(permissions).not.toContain(PermissionFlag.ASSEMBLE);
+  });
+
+  it("should re-encrypt an encrypted input with its password", async () => {
+    const first = await encryptPDF({
+      file: await createPDFFile(),
+      userPassword: "old",
+      algorithm: "rc4-128",
+    });
+    expect(first.success).toBe(true);
+    if (!first.success) return;
+
+    const result = await encryptPDF({
+      file: createPDFFileFromBytes(
+        "salaries.pdf",
+        await readBlob(first.pdfBlob),
+      ),
+      password: "old",
+      userPassword: "new",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const bytes = await readBlob(result.pdfBlob);
+    expect(await checkPDFPassword(bytes, "old")).toBe("wrong-password");
+    expect(await checkPDFPassword(bytes, "new")).toBe("unlocked");
+  });
+
+  it("should require a password", async () => {
+    const result = await encryptPDF({
+      file: await createPDFFile(),
+      userPassword: "",
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: "A user or owner password is required",
+    });
+  });
+
+  it("should reject non-Latin passwords for legacy algorithms", async () => {
+    const result = await encryptPDF({
+      file: await createPDFFile(),
+      userPassword: "пароль",
+      algorithm: "rc4-128",
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.details).toBe(
+      "Use AES-256 for passwords with other characters",
+    );
+  });
+
+  it("should reject non-PDF files", async () => {
+    const file = new File(["text"], "notes.txt", { type: "text/plain" });
+
+    const result = await encryptPDF({ file, userPassword: "user" });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toBe(
+      "Invalid file type. Only PDF files are supported.",
+    );
+  });
+});
+
+describe("getPermissionBits", () => {
+  it("should keep the reserved bits set", () => {
+    const none = {
+      printing: false,
+      copying: false,
+      modifying: false,
+      annotating: false,
+    };
+
+    expect(getPermissionBits(none)).toBe(-3392);
+    expect(
+      getPermissionBits({
+        printing: true,
+        copying: true,
+        modifying: true,
+        annotating: true,
+      }),
+    ).toBe(-4);
+  });
+});
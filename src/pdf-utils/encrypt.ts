@@ -0,0 +1,332 @@
+import {
+  PDFArray,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+  type PDFContext,
+  type PDFRef,
+} from "pdf-lib";
+import { aesEncrypt, concatBytes, randomBytes, rc4 } from "./crypto";
+import { loadPDFDocument } from "./decrypt";
+import {
+  computeAesV3Values,
+  computeRc4FileKey,
+  computeRc4OwnerValue,
+  computeRc4UserValue,
+  encodePassword,
+  getObjectKey,
+  toHexString,
+  transformStrings,
+  type CryptMethod,
+  type StandardSecurityParams,
+} from "./security-handler";
+
+export type EncryptionAlgorithm = "aes-256" | "aes-128" | "rc4-128";
+
+export interface PDFPermissions {
+  printing: boolean;
+  copying: boolean; // Copying text and images
+  modifying: boolean; // Editing, and inserting, rotating or deleting pages
+  annotating: boolean; // Adding comments and filling in forms
+}
+
+export interface PDFEncryptionSettings {
+  userPassword: string; // Needed to open the file; empty opens without one
+  ownerPassword: string; // Opens the file without restrictions
+  algorithm: EncryptionAlgorithm;
+  permissions: PDFPermissions;
+}
+
+export interface EncryptPDFOptions {
+  file: File;
+  userPassword: string;
+  ownerPassword?: string; // Random when empty, so restrictions can't be lifted
+  algorithm?: EncryptionAlgorithm; // Default: "aes-256"
+  permissions?: Partial<PDFPermissions>; // Everything is allowed by default
+  password?: string; // For an input that's already encrypted
+}
+
+export interface EncryptPDFResult {
+  success: true;
+  pdfBlob: Blob;
+}
+
+export interface EncryptPDFError {
+  success: false;
+  error: string;
+  details?: string;
+}
+
+export type EncryptPDFResponse = EncryptPDFResult | EncryptPDFError;
+
+export const ENCRYPTION_ALGORITHMS: EncryptionAlgorithm[] = [
+  "aes-256",
+  "aes-128",
+  "rc4-128",
+];
+
+const ALL_PERMISSIONS: PDFPermissions = {
+  printing: true,
+  copying: true,
+  modifying: true,
+  annotating: true,
+};
+
+// Bits 7, 8 and 13 to 32 of P are reserved and must be set. Bit 10,
+// extraction for accessibility, is always allowed.
+const BASE_PERMISSION_BITS = 0xfffff0c0 | (1 << 9);
+
+/**
+ * Encrypts a PDF with the standard security handler. Encrypted inputs are
+ * decrypted with `password` first.
+ * @param options - Configuration object containing the PDF file, passwords
+ * and permissions
+ * @returns Promise that resolves to the encrypted PDF blob or error
+ */
+export async function encryptPDF(
+  options: EncryptPDFOptions,
+): Promise<EncryptPDFResponse> {
+  try {
+    const {
+      file,
+      userPassword,
+      ownerPassword,
+      algorithm = "aes-256",
+      permissions,
+      password,
+    } = options;
+
+    if (!file) {
+      return { success: false, error: "No file provided" };
+    }
+
+    if (file.type !== "application/pdf") {
+      return {
+        success: false,
+        error: "Invalid file type. Only PDF files are supported.",
+        details: `Expected 'application/pdf', got '${file.type}'`,
+      };
+    }
+
+    if (!ENCRYPTION_ALGORITHMS.includes(algorithm)) {
+      return {
+        success: false,
+        error: `Invalid encryption algorithm. Supported algorithms: ${ENCRYPTION_ALGORITHMS.join(", ")}`,
+      };
+    }
+
+    if (!userPassword && !ownerPassword) {
+      return {
+        success: false,
+        error: "A user or owner password is required",
+      };
+    }
+
+    // Only revision 6 has Unicode passwords
+    if (
+      algorithm !== "aes-256" &&
+      !isLatin1(userPassword + (ownerPassword ?? ""))
+    ) {
+      return {
+        success: false,
+        error:
+          "Passwords can only contain Latin characters with this algorithm",
+        details: "Use AES-256 for passwords with other characters",
+      };
+    }
+
+    const fileBuffer = await file.arrayBuffer();
+    const pdfDoc = await loadPDFDocument(fileBuffer, { password });
+
+    const pdfBytes = await encryptPDFDocument(pdfDoc, {
+      userPassword,
+      ownerPassword:
+        ownerPassword ||
+        Array.from(randomBytes(16), (byte) =>
+          byte.toString(16).padStart(2, "0"),
+        ).join(""),
+      algorithm,
+      permissions: { ...ALL_PERMISSIONS, ...permissions },
+    });
+    const pdfBlob = new Blob([pdfBytes], { type: "application/pdf" });
+
+    return { success: true, pdfBlob };
+  } catch (error) {
+    return {
+      success: false,
+      error: "Failed to encrypt PDF",
+      details: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Encrypts every string and stream of a loaded, unencrypted document and
+ * saves it. The document can't be used afterwards.
+ */
+export async function encryptPDFDocument(
+  pdfDoc: PDFDocument,
+  settings: PDFEncryptionSettings,
+): Promise<Uint8Array> {
+  const { context } = pdfDoc;
+  const { algorithm } = settings;
+  const { fileKey, encrypt } = await createEncryption(
+    context,
+    settings,
+    getFileId(context),
+  );
+
+  const method: CryptMethod =
+    algorithm === "aes-256"
+      ? "aesv3"
+      : algorithm === "aes-128"
+        ? "aesv2"
+        : "rc4";
+  const encryptBytes = async (data: Uint8Array, ref: PDFRef) => {
+    const key = getObjectKey(fileKey, ref, method);
+    if (method === "rc4") return rc4(key, data);
+    // AES data starts with its initialization vector
+    const iv = randomBytes(16);
+    return concatBytes(iv, await aesEncrypt(key, iv, data));
+  };
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    const encryptString = (data: Uint8Array) => encryptBytes(data, ref);
+
+    if (object instanceof PDFStream) {
+      const { dict } = object;
+      if (dict.lookup(PDFName.of("Type")) === PDFName.of("XRef")) continue;
+
+      await transformStrings(dict, encryptString);
+      const contents = await encryptBytes(object.getContents(), ref);
+      context.assign(ref, PDFRawStream.of(dict, contents));
+    } else {
+      context.assign(ref, await transformStrings(object, encryptString));
+    }
+  }
+
+  // Registered last, as the encryption dictionary itself isn't encrypted
+  context.trailerInfo.Encrypt = context.register(encrypt);
+
+  // Objects in object streams would have to be encrypted along with them
+  return pdfDoc.save({
+    useObjectStreams: false,
+    addDefaultPage: false,
+    updateFieldAppearances: false,
+  });
+}
+
+/**
+ * P, the permission bits of the encryption dictionary
+ */
+export function getPermissionBits(permissions: PDFPermissions): number {
+  let bits = BASE_PERMISSION_BITS;
+  // Printing at all and in high quality
+  if (permissions.printing) bits |= (1 << 2) | (1 << 11);
+  // Modifying contents and assembling pages
+  if (permissions.modifying) bits |= (1 << 3) | (1 << 10);
+  if (permissions.copying) bits |= 1 << 4;
+  // Annotating and filling in forms
+  if (permissions.annotating) bits |= (1 << 5) | (1 << 8);
+  // P is a signed 32-bit integer
+  return bits | 0;
+}
+
+async function createEncryption(
+  context: PDFContext,
+  settings: PDFEncryptionSettings,
+  fileId: Uint8Array,
+) {
+  const { algorithm } = settings;
+  const permissions = getPermissionBits(settings.permissions);
+
+  if (algorithm === "aes-256") {
+    const fileKey = randomBytes(32);
+    const values = await computeAesV3Values(
+      fileKey,
+      encodePassword(settings.userPassword, 6),
+      encodePassword(settings.ownerPassword, 6),
+      permissions,
+      true,
+    );
+    const encrypt = context.obj({
+      Filter: "Standard",
+      V: 5,
+      R: 6,
+      Length: 256,
+      CF: {
+        StdCF: { Type: "CryptFilter", CFM: "AESV3", AuthEvent: "DocOpen" },
+      },
+      StmF: "StdCF",
+      StrF: "StdCF",
+      O: toHexString(values.owner),
+      U: toHexString(values.user),
+      OE: toHexString(values.ownerEncryptedKey),
+      UE: toHexString(values.userEncryptedKey),
+      Perms: toHexString(values.perms),
+      P: permissions,
+    });
+    return { fileKey, encrypt };
+  }
+
+  const revision = algorithm === "aes-128" ? 4 : 3;
+  const userPassword = encodePassword(settings.userPassword, revision);
+  const params: StandardSecurityParams = {
+    revision,
+    keyLength: 16,
+    owner: new Uint8Array(0),
+    user: new Uint8Array(0),
+    permissions,
+    encryptMetadata: true,
+    fileId,
+  };
+  params.owner = computeRc4OwnerValue(
+    params,
+    encodePassword(settings.ownerPassword, revision),
+    userPassword,
+  );
+  const fileKey = computeRc4FileKey(params, userPassword);
+  params.user = computeRc4UserValue(params, fileKey);
+
+  const encrypt = context.obj({
+    Filter: "Standard",
+    V: revision === 4 ? 4 : 2,
+    R: revision,
+    Length: 128,
+    ...(revision === 4 && {
+      CF: {
+        StdCF: { Type: "CryptFilter", CFM: "AESV2", AuthEvent: "DocOpen" },
+      },
+      StmF: "StdCF",
+      StrF: "StdCF",
+    }),
+    O: toHexString(params.owner),
+    U: toHexString(params.user),
+    P: permissions,
+  });
+  return { fileKey, encrypt };
+}
+
+// The keys depend on the file's ID, so files without one get a new one
+function getFileId(context: PDFContext): Uint8Array {
+  const ids = context.lookup(context.trailerInfo.ID);
+  const id = ids instanceof PDFArray ? ids.lookup(0) : undefined;
+  if (
+    (id instanceof PDFString || id instanceof PDFHexString) &&
+    id.asBytes().length > 0
+  ) {
+    return id.asBytes();
+  }
+
+  const fileId = randomBytes(16);
+  const newId = toHexString(fileId);
+  context.trailerInfo.ID = context.obj([newId, newId]);
+  return fileId;
+}
+
+function isLatin1(text: string): boolean {
+  return Array.from(text).every((char) => char.charCodeAt(0) < 256);
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatFilename,
+  getUniqueFilename,
+  validateFilenameTemplate,
+} from "./filename-template";
+
+describe("formatFilename", () => {
+  const date = new Date(2024, 4, 1, 9, 5, 7);
+
+  it("should fill in tokens and formats", () => {
+    expect(
+      formatFilename(
+        "{name}-{index:000}-p{start}-{end}-{date:YYYY-MM-DD_HHmmss}",
+        { name: "report", index: 7, start: 3, end: 12, date },
+        "pdf",
+      ),
+    ).toBe("report-007-p3-12-2024-05-01_090507.pdf");
+  });
+
+  it("should default the date format and leave index unpadded", () => {
+    expect(
+      formatFilename("{date} {index}", { name: "a", index: 12, date }, "png"),
+    ).toBe("2024-05-01 12.png");
+  });
+
+  it("should drop separators around tokens without a value", () => {
+    expect(
+      formatFilename("{title}_{name}_{bookmark}", { name: "scan" }, "pdf"),
+    ).toBe("scan.pdf");
+  });
+
+  it("should fall back to a numbered part when nothing is left", () => {
+    expect(
+      formatFilename("{bookmark}", { name: "book", index: 2 }, "pdf"),
+    ).toBe("book_part_2.pdf");
+    expect(formatFilename("{match}", { name: "book" }, "pdf")).toBe("book.pdf");
+  });
+
+  it("should replace characters file systems reject", () => {
+    expect(
+      formatFilename(
+        "{title}",
+        { name: "x", title: 'Q1: "Sales" / Costs' },
+        "pdf",
+      ),
+    ).toBe("Q1_ _Sales_ _ Costs.pdf");
+  });
+
+  it("should keep doubled braces as literal braces", () => {
+    expect(formatFilename("{{{name}}}", { name: "draft" }, "pdf")).toBe(
+      "{draft}.pdf",
+    );
+  });
+});
+
+describe("validateFilenameTemplate", () => {
+  it("should accept known tokens", () => {
+    expect(
+      validateFilenameTemplate("{name}_{index:00}_{date:YYYYMMDD}"),
+    ).toBeNull();
+  });
+
+  it("should report unknown tokens and bad formats", () => {
+    expect(validateFilenameTemplate("{author}")).toBe("Unknown token {author}");
+    expect(validateFilenameTemplate("{index:abc}")).toContain(
+      "Invalid format in {index:abc}",
+    );
+    expect(validateFilenameTemplate("{start:00}")).toBe(
+      "{start} doesn't take a format",
+    );
+  });
+
+  it("should report unmatched braces with their position", () => {
+    expect(validateFilenameTemplate("part {index")).toContain(
+      'Unmatched "{" at position 6',
+    );
+    expect(validateFilenameTemplate("  ")).toBe(
+      "Filename template cannot be empty",
+    );
+  });
+});
+
+describe("getUniqueFilename", () => {
+  it("should number repeated names before the extension", () => {
+    const usedNames = new Set<string>();
+
+    expect(getUniqueFilename("a.pdf", usedNames)).toBe("a.pdf");
+    expect(getUniqueFilename("A.pdf", usedNames)).toBe("A (2).pdf");
+    expect(getUniqueFilename("a.pdf", usedNames)).toBe("a (3).pdf");
+  });
+});
@@ -0,0 +1,171 @@
+export interface FilenameTokens {
+  name: string; // Input file name without its extension
+  index?: number; // 1-based position among the outputs
+  start?: number; // First page of the output
+  end?: number; // Last page of the output
+  range?: string; // Page range as entered, e.g. "1-3"
+  date?: Date; // Default: now
+  title?: string; // Document title from its metadata
+  bookmark?: string; // Bookmark the output was split at
+  match?: string; // Captured groups of a text pattern split
+}
+
+export interface FilenameTokenInfo {
+  token: string;
+  description: string;
+}
+
+export const FILENAME_TOKENS: FilenameTokenInfo[] = [
+  { token: "{name}", description: "Input file name" },
+  { token: "{index:000}", description: "Output number, zero-padded" },
+  { token: "{start}", description: "First page" },
+  { token: "{end}", description: "Last page" },
+  { token: "{range}", description: "Page range" },
+  { token: "{date:YYYY-MM-DD}", description: "Today's date" },
+  { token: "{title}", description: "Document title" },
+  { token: "{bookmark}", description: "Bookmark title" },
+  { token: "{match}", description: "Text pattern groups" },
+];
+
+const TOKEN_NAMES = [
+  "name",
+  "index",
+  "start",
+  "end",
+  "range",
+  "date",
+  "title",
+  "bookmark",
+  "match",
+];
+
+// {token} or {token:format}, with {{ and }} for literal braces
+const TEMPLATE_PATTERN = /\{\{|\}\}|\{([^{}:]*)(?::([^{}]*))?\}|[{}]/g;
+
+/**
+ * Checks a filename template, returning a message for its first problem
+ */
+export function validateFilenameTemplate(template: string): string | null {
+  if (!template.trim()) {
+    return "Filename template cannot be empty";
+  }
+
+  for (const match of template.matchAll(TEMPLATE_PATTERN)) {
+    const [text, token, format] = match;
+    if (text === "{{" || text === "}}") continue;
+    if (token === undefined) {
+      return `Unmatched "${text}" at position ${match.index + 1}. Use "${text}${text}" for a literal brace.`;
+    }
+    if (!TOKEN_NAMES.includes(token)) {
+      return `Unknown token {${token}}`;
+    }
+    if (format !== undefined && token === "index" && !/^0+$/.test(format)) {
+      return `Invalid format in {${text.slice(1, -1)}}. Use zeros for the width, e.g. {index:000}.`;
+    }
+    if (format !== undefined && token !== "index" && token !== "date") {
+      return `{${token}} doesn't take a format`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Fills in a filename template and appends the extension. Tokens without a
+ * value are left out, and characters file systems reject are replaced.
+ */
+export function formatFilename(
+  template: string,
+  tokens: FilenameTokens,
+  extension: string,
+): string {
+  const filled = template.replace(
+    TEMPLATE_PATTERN,
+    (text, token?: string, format?: string) => {
+      if (text === "{{") return "{";
+      if (text === "}}") return "}";
+      return token === undefined ? "" : formatToken(token, format, tokens);
+    },
+  );
+
+  // Separators around tokens without a value shouldn't dangle
+  const name =
+    sanitizeFilename(filled).replace(/^[\s._-]+|[\s._-]+$/g, "") ||
+    sanitizeFilename(
+      tokens.index === undefined
+        ? tokens.name
+        : `${tokens.name}_part_${tokens.index}`,
+    ) ||
+    "document";
+  return `${name}.${extension}`;
+}
+
+/**
+ * Keeps titles readable while dropping characters file systems reject
+ */
+export function sanitizeFilename(title: string): string {
+  const name = title.replace(/\s+/g, " ").replace(/[\\/:*?"<>|]/g, "_");
+  return Array.from(name, (char) => (char < " " ? "_" : char))
+    .join("")
+    .trim()
+    .slice(0, 100);
+}
+
+/**
+ * Adds " (2)", " (3)" and so on before the extension until the name isn't
+ * in `usedNames`, ignoring case, and records it there
+ */
+export function getUniqueFilename(
+  filename: string,
+  usedNames: Set<string>,
+): string {
+  const dot = filename.lastIndexOf(".");
+  const stem = dot > 0 ? filename.slice(0, dot) : filename;
+  const extension = dot > 0 ? filename.slice(dot) : "";
+
+  let unique = filename;
+  for (let n = 2; usedNames.has(unique.toLowerCase()); n++) {
+    unique = `${stem} (${n})${extension}`;
+  }
+  usedNames.add(unique.toLowerCase());
+  return unique;
+}
+
+function formatToken(
+  token: string,
+  format: string | undefined,
+  tokens: FilenameTokens,
+): string {
+  switch (token) {
+    case "index":
+      return tokens.index === undefined
+        ? ""
+        : String(tokens.index).padStart(format?.length ?? 0, "0");
+    case "date":
+      return formatDate(tokens.date ?? new Date(), format || "YYYY-MM-DD");
+    case "start":
+    case "end":
+      return tokens[token] === undefined ? "" : String(tokens[token]);
+    case "name":
+    case "range":
+    case "title":
+    case "bookmark":
+    case "match":
+      return tokens[token] ?? "";
+    default:
+      return "";
+  }
+}
+
+function formatDate(date: Date, format: string): string {
+  const parts: Record<string, number> = {
+    YYYY: date.getFullYear(),
+    MM: date.getMonth() + 1,
+    DD: date.getDate(),
+    HH: date.getHours(),
+    mm: date.getMinutes(),
+    ss: date.getSeconds(),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (part) =>
+    String(parts[part]).padStart(part.length, "0"),
+  );
+}
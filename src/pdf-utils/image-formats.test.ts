@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import {
+  createTIFF,
+  encodeTIFFPage,
+  packBits,
+  setJPEGResolution,
+  setPNGResolution,
+} from "./image-formats";
+
+const bytes = (hex: string) =>
+  Uint8Array.from(hex.split(" "), (byte) => parseInt(byte, 16));
+
+function unpackBits(data: Uint8Array): number[] {
+  const result: number[] = [];
+  for (let index = 0; index < data.length; ) {
+    const header = data[index++];
+    if (header < 128) {
+      result.push(...data.subarray(index, index + header + 1));
+      index += header + 1;
+    } else {
+      result.push(...Array(257 - header).fill(data[index++]));
+    }
+  }
+  return result;
+}
+
+// Tag to values of each IFD, following the chain from the header
+function readTIFF(tiff: Uint8Array): Map<number, number[]>[] {
+  const view = new DataView(tiff.buffer);
+  const sizes: Record<number, number> = { 3: 2, 4: 4, 5: 8 };
+  const ifds: Map<number, number[]>[] = [];
+
+  for (let offset = view.getUint32(4, true); offset !== 0; ) {
+    const tags = new Map<number, number[]>();
+    const count = view.getUint16(offset, true);
+    for (let index = 0; index < count; index++) {
+      const entry = offset + 2 + index * 12;
+      const type = view.getUint16(entry + 2, true);
+      const valueCount = view.getUint32(entry + 4, true);
+      const valuesOffset =
+        sizes[type] * valueCount > 4
+          ? view.getUint32(entry + 8, true)
+          : entry + 8;
+      tags.set(
+        view.getUint16(entry, true),
+        Array.from(
+          { length: type === 5 ? valueCount * 2 : valueCount },
+          (_, i) =>
+            type === 3
+              ? view.getUint16(valuesOffset + i * 2, true)
+              : view.getUint32(valuesOffset + i * 4, true),
+        ),
+      );
+    }
+    ifds.push(tags);
+    offset = view.getUint32(offset + 2 + count * 12, true);
+  }
+  return ifds;
+}
+
+describe("packBits", () => {
+  it("should match the reference encoding", () => {
+    const input = bytes(
+      "aa aa aa 80 00 2a aa aa aa aa 80 00 2a 22 aa aa aa aa aa aa aa aa aa aa",
+    );
+
+    expect(packBits(input)).toEqual(
+      bytes("fe aa 02 80 00 2a fd aa 03 80 00 2a 22 f7 aa"),
+    );
+  });
+
+  it("should round-trip long runs and literals", () => {
+    const input = new Uint8Array(700);
+    input.fill(255, 0, 300);
+    for (let index = 300; index < 700; index++) input[index] = index % 7;
+
+    const packed = packBits(input);
+
+    expect(unpackBits(packed)).toEqual(Array.from(input));
+    expect(packed.length).toBeLessThan(input.length);
+  });
+});
+
+describe("setPNGResolution", () => {
+  const signature = bytes("89 50 4e 47 0d 0a 1a 0a");
+  // CRCs aren't checked, so the input chunks leave them zero
+  const chunk = (type: string, data: number[]) => {
+    const result = new Uint8Array(data.length + 12);
+    result[3] = data.length;
+    result.set(new TextEncoder().encode(type), 4);
+    result.set(data, 8);
+    return Array.from(result);
+  };
+
+  it("should replace the pHYs chunk after the header", () => {
+    const png = Uint8Array.from([
+      ...signature,
+      ...chunk("IHDR", Array(13).fill(1)),
+      ...chunk("IDAT", [1, 2, 3]),
+      ...chunk("pHYs", Array(9).fill(0)),
+      ...chunk("IEND", []),
+    ]);
+
+    const result = setPNGResolution(png, 300);
+    const physOffset = 8 + 25;
+    const view = new DataView(result.buffer);
+
+    expect(
+      new TextDecoder().decode(result.subarray(physOffset + 4, physOffset + 8)),
+    ).toBe("pHYs");
+    expect(view.getUint32(physOffset + 8)).toBe(11811);
+    expect(view.getUint32(physOffset + 12)).toBe(11811);
+    expect(result[physOffset + 16]).toBe(1);
+    expect(view.getUint32(physOffset + 17)).toBe(0x78a53f76);
+    expect(result.length).toBe(png.length);
+  });
+
+  it("should reject other images", () => {
+    expect(() => setPNGResolution(bytes("ff d8 ff d9"), 300)).toThrow(
+      "Not a PNG image",
+    );
+  });
+});
+
+describe("setJPEGResolution", () => {
+  it("should update an existing JFIF header", () => {
+    const jpeg = bytes(
+      "ff d8 ff e0 00 10 4a 46 49 46 00 01 01 00 00 01 00 01 00 00 ff d9",
+    );
+
+    const result = setJPEGResolution(jpeg, 300);
+
+    expect(Array.from(result.subarray(13, 18))).toEqual([1, 1, 44, 1, 44]);
+    expect(result.length).toBe(jpeg.length);
+  });
+
+  it("should add a JFIF header when there is none", () => {
+    const jpeg = bytes("ff d8 ff db 00 02 ff d9");
+
+    const result = setJPEGResolution(jpeg, 600);
+
+    expect(result.length).toBe(jpeg.length + 18);
+    expect(new TextDecoder().decode(result.subarray(6, 10))).toBe("JFIF");
+    expect(Array.from(result.subarray(13, 18))).toEqual([1, 2, 88, 2, 88]);
+    expect(Array.from(result.subarray(20))).toEqual([
+      0xff, 0xdb, 0, 2, 0xff, 0xd9,
+    ]);
+  });
+});
+
+describe("createTIFF", () => {
+  // 3x2 page of distinct colors, with alpha that should be dropped
+  const rgba = Uint8Array.from(
+    Array.from({ length: 6 }, (_, pixel) => [
+      pixel * 40,
+      255 - pixel,
+      7,
+      128,
+    ]).flat(),
+  );
+
+  it("should write one image per page with its resolution", () => {
+    const tiff = createTIFF(
+      [encodeTIFFPage(rgba, 3, 2), encodeTIFFPage([9, 9, 9, 255], 1, 1)],
+      300,
+    );
+
+    expect(Array.from(tiff.subarray(0, 4))).toEqual([0x49, 0x49, 42, 0]);
+
+    const [first, second] = readTIFF(tiff);
+    expect(readTIFF(tiff)).toHaveLength(2);
+    expect(first.get(256)).toEqual([3]);
+    expect(first.get(257)).toEqual([2]);
+    expect(first.get(258)).toEqual([8, 8, 8]);
+    expect(first.get(259)).toEqual([32773]);
+    expect(first.get(282)).toEqual([300, 1]);
+    expect(first.get(296)).toEqual([2]);
+    expect(first.get(297)).toEqual([0, 2]);
+    expect(second.get(297)).toEqual([1, 2]);
+
+    const [offset] = first.get(273)!;
+    const [length] = first.get(279)!;
+    expect(unpackBits(tiff.subarray(offset, offset + length))).toEqual(
+      Array.from(rgba.filter((_, index) => index % 4 !== 3)),
+    );
+  });
+
+  it("should split tall pages into strips", () => {
+    const width = 1000;
+    const page = encodeTIFFPage(new Uint8Array(width * 10 * 4), width, 10);
+
+    expect(page.rowsPerStrip).toBe(2);
+    expect(page.strips).toHaveLength(5);
+
+    const [ifd] = readTIFF(createTIFF([page], 150));
+    expect(ifd.get(273)).toHaveLength(5);
+    expect(ifd.get(279)).toEqual(page.strips.map((strip) => strip.length));
+  });
+});
@@ -0,0 +1,339 @@
+// Resolution metadata for canvas-encoded images, and a multi-page TIFF
+// encoder since browsers can't encode TIFF themselves.
+
+import { concatBytes } from "./crypto";
+
+export interface TIFFPage {
+  width: number;
+  height: number;
+  rowsPerStrip: number;
+  strips: Uint8Array[]; // PackBits compressed RGB rows
+}
+
+interface TIFFEntry {
+  tag: number;
+  type: number;
+  values: number[]; // Rationals as numerator, denominator pairs
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const INCHES_PER_METER = 1 / 0.0254;
+// APP0 JFIF 1.01 segment without a thumbnail
+const JFIF_SEGMENT = [
+  0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00,
+  0x01, 0x00, 0x01, 0x00, 0x00,
+];
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const TIFF_SHORT = 3;
+const TIFF_LONG = 4;
+const TIFF_RATIONAL = 5;
+const TIFF_PACKBITS = 32773;
+const TIFF_RGB = 2;
+const TIFF_INCH = 2;
+// Uncompressed bytes per strip, the size the TIFF spec recommends
+const TIFF_STRIP_SIZE = 8192;
+
+/**
+ * Sets a PNG's resolution by replacing its pHYs chunk, which PNGs from
+ * canvas.toBlob don't have
+ */
+export function setPNGResolution(png: Uint8Array, dpi: number): Uint8Array {
+  if (PNG_SIGNATURE.some((byte, index) => png[index] !== byte)) {
+    throw new Error("Not a PNG image");
+  }
+
+  const pixelsPerMeter = Math.round(dpi * INCHES_PER_METER);
+  const physData = new Uint8Array(9);
+  const physView = new DataView(physData.buffer);
+  physView.setUint32(0, pixelsPerMeter);
+  physView.setUint32(4, pixelsPerMeter);
+  physData[8] = 1; // Unit: meter
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const parts = [png.subarray(0, PNG_SIGNATURE.length)];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= png.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    if (type !== "pHYs") parts.push(png.subarray(offset, end));
+    // pHYs has to come before the image data
+    if (type === "IHDR") parts.push(createPNGChunk("pHYs", physData));
+    offset = end;
+  }
+
+  return concatBytes(...parts);
+}
+
+/**
+ * Sets a JPEG's resolution in its JFIF header, adding one if the encoder
+ * didn't write it
+ */
+export function setJPEGResolution(jpeg: Uint8Array, dpi: number): Uint8Array {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+    throw new Error("Not a JPEG image");
+  }
+
+  const isJFIF =
+    jpeg[2] === 0xff &&
+    jpeg[3] === 0xe0 &&
+    String.fromCharCode(...jpeg.subarray(6, 11)) === "JFIF\0";
+  const result = isJFIF
+    ? jpeg.slice()
+    : concatBytes(
+        jpeg.subarray(0, 2),
+        Uint8Array.from(JFIF_SEGMENT),
+        jpeg.subarray(2),
+      );
+
+  const density = Math.min(Math.round(dpi), 0xffff);
+  const view = new DataView(result.buffer);
+  result[13] = 1; // Unit: inch
+  view.setUint16(14, density);
+  view.setUint16(16, density);
+  return result;
+}
+
+/**
+ * Compresses a page's RGBA pixels into TIFF strips, dropping the alpha
+ * channel, so only the compressed page is kept until the file is written
+ */
+export function encodeTIFFPage(
+  rgba: ArrayLike<number>,
+  width: number,
+  height: number,
+): TIFFPage {
+  const rowsPerStrip = Math.max(1, Math.floor(TIFF_STRIP_SIZE / (width * 3)));
+  const row = new Uint8Array(width * 3);
+  const strips: Uint8Array[] = [];
+
+  for (let stripStart = 0; stripStart < height; stripStart += rowsPerStrip) {
+    const rows: Uint8Array[] = [];
+    const stripEnd = Math.min(stripStart + rowsPerStrip, height);
+
+    for (let y = stripStart; y < stripEnd; y++) {
+      for (let x = 0; x < width; x++) {
+        const source = (y * width + x) * 4;
+        row[x * 3] = rgba[source];
+        row[x * 3 + 1] = rgba[source + 1];
+        row[x * 3 + 2] = rgba[source + 2];
+      }
+      // PackBits runs can't cross rows
+      rows.push(packBits(row));
+    }
+    strips.push(concatBytes(...rows));
+  }
+
+  return { width, height, rowsPerStrip, strips };
+}
+
+/**
+ * Writes a little-endian baseline TIFF with one image per page
+ */
+export function createTIFF(pages: TIFFPage[], dpi: number): Uint8Array {
+  if (pages.length === 0) {
+    throw new Error("A TIFF needs at least one page");
+  }
+
+  // Entries only depend on the strip count, so sizes are known up front
+  let size = 8;
+  const layouts = pages.map((page, index) => {
+    const dataOffset = size;
+    size = alignWord(
+      size + page.strips.reduce((total, strip) => total + strip.length, 0),
+    );
+    const ifdOffset = size;
+    const placeholders = page.strips.map(() => 0);
+    size += getIFDSize(
+      getTIFFEntries(page, placeholders, dpi, index, pages.length),
+    );
+    return { dataOffset, ifdOffset };
+  });
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49]); // "II", little-endian
+  view.setUint16(2, 42, true);
+  view.setUint32(4, layouts[0].ifdOffset, true);
+
+  pages.forEach((page, index) => {
+    const { dataOffset, ifdOffset } = layouts[index];
+    const stripOffsets: number[] = [];
+    let offset = dataOffset;
+    for (const strip of page.strips) {
+      bytes.set(strip, offset);
+      stripOffsets.push(offset);
+      offset += strip.length;
+    }
+
+    writeIFD(
+      view,
+      ifdOffset,
+      getTIFFEntries(page, stripOffsets, dpi, index, pages.length),
+      layouts[index + 1]?.ifdOffset ?? 0,
+    );
+  });
+
+  return bytes;
+}
+
+/**
+ * PackBits run-length encoding. Runs shorter than 3 bytes stay in literal
+ * blocks, so the output is at most 1 byte per 128 longer than the input.
+ */
+export function packBits(data: Uint8Array): Uint8Array {
+  const result = new Uint8Array(data.length + Math.ceil(data.length / 128));
+  let length = 0;
+  let index = 0;
+
+  while (index < data.length) {
+    let run = 1;
+    while (
+      index + run < data.length &&
+      run < 128 &&
+      data[index + run] === data[index]
+    ) {
+      run++;
+    }
+
+    if (run >= 3) {
+      result[length++] = 257 - run;
+      result[length++] = data[index];
+      index += run;
+      continue;
+    }
+
+    const start = index;
+    index++;
+    while (
+      index < data.length &&
+      index - start < 128 &&
+      !(data[index] === data[index + 1] && data[index] === data[index + 2])
+    ) {
+      index++;
+    }
+    result[length++] = index - start - 1;
+    result.set(data.subarray(start, index), length);
+    length += index - start;
+  }
+
+  return result.slice(0, length);
+}
+
+function createPNGChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let index = 0; index < 4; index++) {
+    chunk[4 + index] = type.charCodeAt(index);
+  }
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Sorted by tag, as the TIFF spec requires
+function getTIFFEntries(
+  page: TIFFPage,
+  stripOffsets: number[],
+  dpi: number,
+  pageIndex: number,
+  pageCount: number,
+): TIFFEntry[] {
+  const resolution = [Math.round(dpi), 1];
+  return [
+    { tag: 256, type: TIFF_LONG, values: [page.width] },
+    { tag: 257, type: TIFF_LONG, values: [page.height] },
+    { tag: 258, type: TIFF_SHORT, values: [8, 8, 8] }, // BitsPerSample
+    { tag: 259, type: TIFF_SHORT, values: [TIFF_PACKBITS] },
+    { tag: 262, type: TIFF_SHORT, values: [TIFF_RGB] },
+    { tag: 273, type: TIFF_LONG, values: stripOffsets },
+    { tag: 277, type: TIFF_SHORT, values: [3] }, // SamplesPerPixel
+    { tag: 278, type: TIFF_LONG, values: [page.rowsPerStrip] },
+    {
+      tag: 279, // StripByteCounts
+      type: TIFF_LONG,
+      values: page.strips.map((strip) => strip.length),
+    },
+    { tag: 282, type: TIFF_RATIONAL, values: resolution },
+    { tag: 283, type: TIFF_RATIONAL, values: resolution },
+    { tag: 284, type: TIFF_SHORT, values: [1] }, // Chunky pixels
+    { tag: 296, type: TIFF_SHORT, values: [TIFF_INCH] },
+    { tag: 297, type: TIFF_SHORT, values: [pageIndex, pageCount] },
+  ];
+}
+
+// Values that don't fit in an entry follow the IFD
+function getIFDSize(entries: TIFFEntry[]): number {
+  return entries.reduce(
+    (size, entry) => {
+      const valuesSize = getValuesSize(entry);
+      return valuesSize > 4 ? size + alignWord(valuesSize) : size;
+    },
+    6 + entries.length * 12,
+  );
+}
+
+function writeIFD(
+  view: DataView,
+  offset: number,
+  entries: TIFFEntry[],
+  nextIFDOffset: number,
+): void {
+  view.setUint16(offset, entries.length, true);
+  let valuesOffset = offset + 6 + entries.length * 12;
+
+  entries.forEach((entry, index) => {
+    const entryOffset = offset + 2 + index * 12;
+    const { tag, type, values } = entry;
+    view.setUint16(entryOffset, tag, true);
+    view.setUint16(entryOffset + 2, type, true);
+    view.setUint32(
+      entryOffset + 4,
+      type === TIFF_RATIONAL ? values.length / 2 : values.length,
+      true,
+    );
+
+    let target = entryOffset + 8;
+    const valuesSize = getValuesSize(entry);
+    if (valuesSize > 4) {
+      view.setUint32(target, valuesOffset, true);
+      target = valuesOffset;
+      valuesOffset += alignWord(valuesSize);
+    }
+    values.forEach((value, valueIndex) => {
+      if (type === TIFF_SHORT) {
+        view.setUint16(target + valueIndex * 2, value, true);
+      } else {
+        view.setUint32(target + valueIndex * 4, value, true);
+      }
+    });
+  });
+
+  view.setUint32(offset + 2 + entries.length * 12, nextIFDOffset, true);
+}
+
+function getValuesSize({ type, values }: TIFFEntry): number {
+  return values.length * (type === TIFF_SHORT ? 2 : 4);
+}
+
+// TIFF offsets have to be even
+function alignWord(offset: number): number {
+  return offset + (offset % 2);
+}
@@ -0,0 +1,293 @@
+import { describe, it, expect } from "vitest";
+import {
+  PDFDocument,
+  PDFName,
+  PDFRawStream,
+  concatTransformationMatrix,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+} from "pdf-lib";
+import {
+  collectPageImages,
+  getEffectiveDPI,
+  getTargetDimensions,
+  getImageEncoding,
+  decodeRawImagePixels,
+  removePNGPredictor,
+  createJpegImageStream,
+  toGrayscaleSamples,
+  computeOtsuThreshold,
+  packBilevelSamples,
+  createGrayImageStream,
+} from "./images";
+
+async function createDocumentWithImage(
+  width: number,
+  height: number,
+  placedWidth: number,
+  placedHeight: number,
+  dict: Record<string, unknown> = {},
+) {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([612, 792]);
+  const imageRef = pdfDoc.context.register(
+    pdfDoc.context.flateStream(new Uint8Array(width * height * 3), {
+      Type: "XObject",
+      Subtype: "Image",
+      Width: width,
+      Height: height,
+      ColorSpace: "DeviceRGB",
+      BitsPerComponent: 8,
+      ...(dict as object),
+    }),
+  );
+  page.node.setXObject(PDFName.of("Im0"), imageRef);
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(placedWidth, 0, 0, placedHeight, 0, 0),
+    drawObject("Im0"),
+    popGraphicsState(),
+  );
+  return { pdfDoc, page, imageRef };
+}
+
+describe("collectPageImages", () => {
+  it("should list painted images with pixel and placed sizes", async () => {
+    const { pdfDoc, imageRef } = await createDocumentWithImage(
+      600,
+      300,
+      144,
+      72,
+    );
+
+    const images = collectPageImages(pdfDoc);
+
+    expect(images).toHaveLength(1);
+    expect(images[0].ref).toBe(imageRef);
+    expect(images[0].width).toBe(600);
+    expect(images[0].height).toBe(300);
+    expect(images[0].placedWidth).toBe(144);
+    expect(images[0].placedHeight).toBe(72);
+    expect(images[0].pageIndices).toEqual([0]);
+  });
+
+  it("should keep the largest placement of a reused image", async () => {
+    const { pdfDoc, page } = await createDocumentWithImage(100, 100, 72, 72);
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(144, 0, 0, 144, 0, 0),
+      drawObject("Im0"),
+      popGraphicsState(),
+    );
+
+    const images = collectPageImages(pdfDoc);
+
+    expect(images).toHaveLength(1);
+    expect(images[0].placedWidth).toBe(144);
+  });
+});
+
+describe("getEffectiveDPI", () => {
+  it("should compute DPI from pixels and placed size", async () => {
+    const { pdfDoc } = await createDocumentWithImage(600, 300, 144, 72);
+    const [image] = collectPageImages(pdfDoc);
+
+    // 600px over 2in and 300px over 1in
+    expect(getEffectiveDPI(image)).toBe(300);
+  });
+});
+
+describe("getTargetDimensions", () => {
+  it("should downsample images above the target DPI", async () => {
+    const { pdfDoc } = await createDocumentWithImage(600, 300, 144, 72);
+    const [image] = collectPageImages(pdfDoc);
+
+    expect(getTargetDimensions(image, 150)).toEqual({
+      width: 300,
+      height: 150,
+    });
+  });
+
+  it("should never upsample", async () => {
+    const { pdfDoc } = await createDocumentWithImage(600, 300, 144, 72);
+    const [image] = collectPageImages(pdfDoc);
+
+    expect(getTargetDimensions(image, 600)).toEqual({
+      width: 600,
+      height: 300,
+    });
+  });
+});
+
+describe("getImageEncoding", () => {
+  it("should treat 8-bit Flate images as raw", async () => {
+    const { pdfDoc } = await createDocumentWithImage(2, 2, 72, 72);
+    const [image] = collectPageImages(pdfDoc);
+
+    expect(getImageEncoding(pdfDoc.context, image.stream)).toBe("raw");
+  });
+
+  it("should detect JPEG images", async () => {
+    const { pdfDoc } = await createDocumentWithImage(2, 2, 72, 72);
+    const stream = PDFRawStream.of(
+      pdfDoc.context.obj({
+        Subtype: "Image",
+        Width: 2,
+        Height: 2,
+        ColorSpace: "DeviceGray",
+        BitsPerComponent: 8,
+        Filter: "DCTDecode",
+      }),
+      new Uint8Array([0xff, 0xd8]),
+    );
+
+    expect(getImageEncoding(pdfDoc.context, stream)).toBe("jpeg");
+  });
+
+  it("should reject CMYK, masks and decode arrays", async () => {
+    const cmyk = await createDocumentWithImage(2, 2, 72, 72, {
+      ColorSpace: "DeviceCMYK",
+    });
+    const decode = await createDocumentWithImage(2, 2, 72, 72, {
+      Decode: [1, 0, 1, 0, 1, 0],
+    });
+    const bilevel = await createDocumentWithImage(2, 2, 72, 72, {
+      BitsPerComponent: 1,
+    });
+
+    for (const { pdfDoc } of [cmyk, decode, bilevel]) {
+      const [image] = collectPageImages(pdfDoc);
+      expect(getImageEncoding(pdfDoc.context, image.stream)).toBe(
+        "unsupported",
+      );
+    }
+  });
+
+  it("should reject TIFF predictors but accept PNG ones", async () => {
+    const tiff = await createDocumentWithImage(2, 2, 72, 72, {
+      DecodeParms: { Predictor: 2, Colors: 3, Columns: 2 },
+    });
+    const png = await createDocumentWithImage(2, 2, 72, 72, {
+      DecodeParms: [{ Predictor: 15, Colors: 3, Columns: 2 }],
+    });
+
+    const [tiffImage] = collectPageImages(tiff.pdfDoc);
+    const [pngImage] = collectPageImages(png.pdfDoc);
+    expect(getImageEncoding(tiff.pdfDoc.context, tiffImage.stream)).toBe(
+      "unsupported",
+    );
+    expect(getImageEncoding(png.pdfDoc.context, pngImage.stream)).toBe("raw");
+  });
+});
+
+describe("removePNGPredictor", () => {
+  it("should undo Sub and Up filters", () => {
+    // Two rows of two gray pixels: [10, 20] and [15, 25]
+    const filtered = new Uint8Array([1, 10, 10, 2, 5, 5]);
+    expect(Array.from(removePNGPredictor(filtered, 2, 1))).toEqual([
+      10, 20, 15, 25,
+    ]);
+  });
+});
+
+describe("decodeRawImagePixels", () => {
+  it("should expand gray samples to RGBA", async () => {
+    const pdfDoc = await PDFDocument.create();
+    const stream = pdfDoc.context.flateStream(new Uint8Array([0, 128]), {
+      Subtype: "Image",
+      Width: 2,
+      Height: 1,
+      ColorSpace: "DeviceGray",
+      BitsPerComponent: 8,
+    });
+    const raw = PDFRawStream.of(stream.dict, stream.getContents());
+
+    expect(Array.from(decodeRawImagePixels(pdfDoc.context, raw))).toEqual([
+      0, 0, 0, 255, 128, 128, 128, 255,
+    ]);
+  });
+});
+
+describe("createJpegImageStream", () => {
+  it("should build a DCT image and keep the soft mask", async () => {
+    const { pdfDoc } = await createDocumentWithImage(4, 4, 72, 72);
+    const smaskRef = pdfDoc.context.register(pdfDoc.context.obj({}));
+    const [image] = collectPageImages(pdfDoc);
+    image.stream.dict.set(PDFName.of("SMask"), smaskRef);
+
+    const jpeg = createJpegImageStream(
+      pdfDoc.context,
+      image.stream,
+      new Uint8Array([1, 2, 3]),
+      2,
+      2,
+    );
+
+    expect(jpeg.dict.get(PDFName.of("Filter"))).toBe(PDFName.of("DCTDecode"));
+    expect(jpeg.dict.get(PDFName.of("Width"))?.toString()).toBe("2");
+    expect(jpeg.dict.get(PDFName.of("SMask"))).toBe(smaskRef);
+    expect(jpeg.contents).toEqual(new Uint8Array([1, 2, 3]));
+  });
+});
+
+describe("toGrayscaleSamples", () => {
+  it("should weight channels by luminance", () => {
+    const rgba = new Uint8Array([
+      255, 255, 255, 255, 255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255,
+    ]);
+
+    expect(Array.from(toGrayscaleSamples(rgba))).toEqual([255, 76, 150, 29]);
+  });
+});
+
+describe("computeOtsuThreshold", () => {
+  it("should split dark ink from light paper", () => {
+    const gray = new Uint8Array([20, 25, 30, 200, 210, 220, 230, 240]);
+    const threshold = computeOtsuThreshold(gray);
+
+    expect(threshold).toBeGreaterThan(30);
+    expect(threshold).toBeLessThanOrEqual(200);
+  });
+
+  it("should handle single-level images", () => {
+    expect(computeOtsuThreshold(new Uint8Array([255, 255, 255]))).toBe(128);
+  });
+});
+
+describe("packBilevelSamples", () => {
+  it("should pack rows most significant bit first with byte padding", () => {
+    // 10 pixels wide, so each row takes 2 bytes
+    const gray = new Uint8Array([
+      255, 0, 255, 0, 255, 0, 255, 0, 255, 255, 0, 0, 0, 0, 0, 0, 0, 0, 0, 255,
+    ]);
+
+    const packed = packBilevelSamples(gray, 10, 2, 128);
+
+    expect(Array.from(packed)).toEqual([0b10101010, 0b11000000, 0, 0b01000000]);
+  });
+});
+
+describe("createGrayImageStream", () => {
+  it("should build a 1-bit DeviceGray image and keep the soft mask", async () => {
+    const { pdfDoc } = await createDocumentWithImage(4, 4, 72, 72);
+    const smaskRef = pdfDoc.context.register(pdfDoc.context.obj({}));
+    const [image] = collectPageImages(pdfDoc);
+    image.stream.dict.set(PDFName.of("SMask"), smaskRef);
+
+    const gray = createGrayImageStream(
+      pdfDoc.context,
+      image.stream,
+      { samples: new Uint8Array([0xf0, 0x0f]), bitsPerComponent: 1 },
+      4,
+      2,
+    );
+
+    expect(gray.dict.get(PDFName.of("ColorSpace"))).toBe(
+      PDFName.of("DeviceGray"),
+    );
+    expect(gray.dict.get(PDFName.of("BitsPerComponent"))?.toString()).toBe("1");
+    expect(gray.dict.get(PDFName.of("Filter"))).toBe(PDFName.of("FlateDecode"));
+    expect(gray.dict.get(PDFName.of("SMask"))).toBe(smaskRef);
+  });
+});
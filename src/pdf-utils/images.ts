@@ -0,0 +1,611 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+} from "pdf-lib";
+import { collectXObjectPlacements, getPlacedSize } from "./content-stream";
+
+export interface PageImage {
+  ref: PDFRef;
+  stream: PDFRawStream;
+  width: number; // Pixels
+  height: number; // Pixels
+  placedWidth: number; // Largest placed width in points
+  placedHeight: number; // Largest placed height in points
+  pageIndices: number[];
+}
+
+export type ImageEncoding = "jpeg" | "raw" | "unsupported";
+
+// "bilevel" thresholds to 1-bit black and white, e.g. for scanned forms
+export type ImageColorMode = "color" | "grayscale" | "bilevel";
+
+export interface ResampleImageOptions {
+  targetWidth: number;
+  targetHeight: number;
+  quality: number; // 0.1 to 1.0 JPEG quality
+}
+
+export interface GrayImageOptions {
+  targetWidth: number;
+  targetHeight: number;
+  colorMode: Exclude<ImageColorMode, "color">;
+}
+
+export interface GrayImageSamples {
+  samples: Uint8Array; // Packed rows, ready for a DeviceGray image
+  bitsPerComponent: 1 | 8;
+}
+
+const POINTS_PER_INCH = 72;
+
+/**
+ * Lists every image XObject painted on a page, with the largest size it is
+ * drawn at. Images that are never painted (or only used as soft masks)
+ * are not included.
+ */
+export function collectPageImages(pdfDoc: PDFDocument): PageImage[] {
+  const images = new Map<string, PageImage>();
+
+  for (const placement of collectXObjectPlacements(pdfDoc)) {
+    if (placement.subtype !== "Image") continue;
+    if (!(placement.stream instanceof PDFRawStream)) continue;
+
+    const { width: placedWidth, height: placedHeight } = getPlacedSize(
+      placement.matrix,
+    );
+    const key = placement.ref.toString();
+    const existing = images.get(key);
+
+    if (existing) {
+      existing.placedWidth = Math.max(existing.placedWidth, placedWidth);
+      existing.placedHeight = Math.max(existing.placedHeight, placedHeight);
+      if (!existing.pageIndices.includes(placement.pageIndex)) {
+        existing.pageIndices.push(placement.pageIndex);
+      }
+      continue;
+    }
+
+    const dict = placement.stream.dict;
+    images.set(key, {
+      ref: placement.ref,
+      stream: placement.stream,
+      width: lookupNumber(dict, "Width"),
+      height: lookupNumber(dict, "Height"),
+      placedWidth,
+      placedHeight,
+      pageIndices: [placement.pageIndex],
+    });
+  }
+
+  return [...images.values()];
+}
+
+/**
+ * Effective resolution of an image at its largest placement. Uses the lower
+ * of the horizontal and vertical resolutions so downsampling never drops
+ * below the target in either direction.
+ */
+export function getEffectiveDPI(image: PageImage): number {
+  if (image.placedWidth <= 0 || image.placedHeight <= 0) return 0;
+  const dpiX = image.width / (image.placedWidth / POINTS_PER_INCH);
+  const dpiY = image.height / (image.placedHeight / POINTS_PER_INCH);
+  return Math.min(dpiX, dpiY);
+}
+
+/**
+ * Pixel dimensions an image should have to match the target DPI at its
+ * placed size. Never upsamples.
+ */
+export function getTargetDimensions(
+  image: PageImage,
+  targetDPI: number,
+): { width: number; height: number } {
+  const effectiveDPI = getEffectiveDPI(image);
+  if (effectiveDPI <= targetDPI || effectiveDPI === 0) {
+    return { width: image.width, height: image.height };
+  }
+  const ratio = targetDPI / effectiveDPI;
+  return {
+    width: Math.max(1, Math.round(image.width * ratio)),
+    height: Math.max(1, Math.round(image.height * ratio)),
+  };
+}
+
+/**
+ * Number of color components of a color space, or undefined for color
+ * spaces that can't be converted on a canvas (Indexed, Separation, ...)
+ */
+export function getColorComponents(
+  context: PDFContext,
+  colorSpace: unknown,
+): number | undefined {
+  const resolved =
+    colorSpace instanceof PDFRef ? context.lookup(colorSpace) : colorSpace;
+
+  if (resolved instanceof PDFName) {
+    switch (resolved.asString()) {
+      case "/DeviceGray":
+      case "/CalGray":
+        return 1;
+      case "/DeviceRGB":
+      case "/CalRGB":
+        return 3;
+      case "/DeviceCMYK":
+        return 4;
+      default:
+        return undefined;
+    }
+  }
+
+  if (resolved instanceof PDFArray && resolved.size() > 0) {
+    const family = resolved.lookup(0);
+    if (!(family instanceof PDFName)) return undefined;
+
+    switch (family.asString()) {
+      case "/CalGray":
+        return 1;
+      case "/CalRGB":
+        return 3;
+      case "/ICCBased": {
+        const profile = resolved.lookup(1);
+        if (!(profile instanceof PDFStream)) return undefined;
+        const n = profile.dict.lookup(PDFName.of("N"));
+        return n instanceof PDFNumber ? n.asNumber() : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Works out whether an image can be decoded in the browser. "jpeg" streams
+ * can be handed to the browser's decoder as-is, "raw" streams decode to
+ * 8-bit gray or RGB samples.
+ */
+export function getImageEncoding(
+  context: PDFContext,
+  stream: PDFRawStream,
+): ImageEncoding {
+  const dict = stream.dict;
+
+  // Stencil masks and images with decode arrays have non-trivial sample
+  // mappings that a plain re-encode would lose
+  if (dict.lookup(PDFName.of("ImageMask")) === PDFBool.True) {
+    return "unsupported";
+  }
+  if (dict.has(PDFName.of("Decode"))) return "unsupported";
+
+  const filters = getFilterNames(dict);
+  const components = getColorComponents(
+    context,
+    dict.lookup(PDFName.of("ColorSpace")),
+  );
+  if (components !== 1 && components !== 3) return "unsupported";
+
+  if (filters.length === 1 && filters[0] === "DCTDecode") {
+    return "jpeg";
+  }
+
+  // Only PNG predictors are undone; TIFF ones (2) would decode as noise
+  const predictor = getPredictor(dict);
+  const decodable = ["FlateDecode", "LZWDecode", "ASCII85Decode"];
+  if (
+    filters.every((filter) => decodable.includes(filter)) &&
+    lookupNumber(dict, "BitsPerComponent") === 8 &&
+    (predictor === 1 || predictor >= 10)
+  ) {
+    return "raw";
+  }
+
+  return "unsupported";
+}
+
+/**
+ * Returns the names of the filters applied to a stream, in order
+ */
+export function getFilterNames(dict: PDFDict): string[] {
+  const filter = dict.lookup(PDFName.of("Filter"));
+  if (filter instanceof PDFName) return [filter.decodeText()];
+  if (filter instanceof PDFArray) {
+    return filter
+      .asArray()
+      .map((item) => (item instanceof PDFName ? item.decodeText() : ""));
+  }
+  return [];
+}
+
+/**
+ * Decodes a raw (non-JPEG) image stream into RGBA pixels
+ */
+export function decodeRawImagePixels(
+  context: PDFContext,
+  stream: PDFRawStream,
+): Uint8ClampedArray {
+  const dict = stream.dict;
+  const width = lookupNumber(dict, "Width");
+  const height = lookupNumber(dict, "Height");
+  const components =
+    getColorComponents(context, dict.lookup(PDFName.of("ColorSpace"))) ?? 3;
+
+  let samples = decodePDFRawStream(stream).decode();
+  if (getPredictor(dict) >= 10) {
+    samples = removePNGPredictor(samples, width, components);
+  }
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, j = 0; i < width * height; i++, j += components) {
+    const offset = i * 4;
+    if (components === 1) {
+      rgba[offset] = rgba[offset + 1] = rgba[offset + 2] = samples[j];
+    } else {
+      rgba[offset] = samples[j];
+      rgba[offset + 1] = samples[j + 1];
+      rgba[offset + 2] = samples[j + 2];
+    }
+    rgba[offset + 3] = 255;
+  }
+  return rgba;
+}
+
+// Predictor of the first filter's parameters, 1 (none) when not given
+function getPredictor(dict: PDFDict): number {
+  const params = dict.lookup(PDFName.of("DecodeParms"));
+  const paramsDict = params instanceof PDFArray ? params.lookup(0) : params;
+  if (!(paramsDict instanceof PDFDict)) return 1;
+  return paramsDict.has(PDFName.of("Predictor"))
+    ? lookupNumber(paramsDict, "Predictor")
+    : 1;
+}
+
+/**
+ * Undoes PNG row filters (Predictor >= 10) for 8-bit samples
+ */
+export function removePNGPredictor(
+  data: Uint8Array,
+  width: number,
+  components: number,
+): Uint8Array {
+  const rowLength = width * components;
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const output = new Uint8Array(rows * rowLength);
+
+  for (let row = 0; row < rows; row++) {
+    const filterType = data[row * (rowLength + 1)];
+    const inOffset = row * (rowLength + 1) + 1;
+    const outOffset = row * rowLength;
+
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[inOffset + i];
+      const left = i >= components ? output[outOffset + i - components] : 0;
+      const up = row > 0 ? output[outOffset - rowLength + i] : 0;
+      const upLeft =
+        row > 0 && i >= components
+          ? output[outOffset - rowLength + i - components]
+          : 0;
+
+      let value: number;
+      switch (filterType) {
+        case 1:
+          value = raw + left;
+          break;
+        case 2:
+          value = raw + up;
+          break;
+        case 3:
+          value = raw + Math.floor((left + up) / 2);
+          break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          const predicted =
+            pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          value = raw + predicted;
+          break;
+        }
+        default:
+          value = raw;
+      }
+      output[outOffset + i] = value & 0xff;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Draws an image XObject onto a canvas of the requested size using the
+ * browser's decoders and high quality scaling
+ */
+export async function renderImageToCanvas(
+  context: PDFContext,
+  stream: PDFRawStream,
+  targetWidth: number,
+  targetHeight: number,
+): Promise<HTMLCanvasElement | null> {
+  const encoding = getImageEncoding(context, stream);
+  if (encoding === "unsupported") return null;
+
+  const width = lookupNumber(stream.dict, "Width");
+  const height = lookupNumber(stream.dict, "Height");
+
+  let source: CanvasImageSource;
+  if (encoding === "jpeg") {
+    source = await createImageBitmap(
+      new Blob([stream.contents], { type: "image/jpeg" }),
+    );
+  } else {
+    const sourceCanvas = document.createElement("canvas");
+    sourceCanvas.width = width;
+    sourceCanvas.height = height;
+    const sourceContext = sourceCanvas.getContext("2d");
+    if (!sourceContext) return null;
+
+    const imageData = sourceContext.createImageData(width, height);
+    imageData.data.set(decodeRawImagePixels(context, stream));
+    sourceContext.putImageData(imageData, 0, 0);
+    source = sourceCanvas;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = targetWidth;
+  canvas.height = targetHeight;
+  const canvasContext = canvas.getContext("2d");
+  if (!canvasContext) return null;
+
+  // Transparent areas are handled by the image's SMask, not by the samples
+  canvasContext.fillStyle = "#ffffff";
+  canvasContext.fillRect(0, 0, targetWidth, targetHeight);
+  canvasContext.imageSmoothingEnabled = true;
+  canvasContext.imageSmoothingQuality = "high";
+  canvasContext.drawImage(source, 0, 0, targetWidth, targetHeight);
+
+  if ("close" in source && typeof source.close === "function") {
+    source.close();
+  }
+
+  return canvas;
+}
+
+/**
+ * Encodes a canvas as JPEG bytes
+ */
+export async function encodeCanvasAsJpeg(
+  canvas: HTMLCanvasElement,
+  quality: number,
+): Promise<Uint8Array> {
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error("Failed to encode image"));
+        }
+      },
+      "image/jpeg",
+      quality,
+    );
+  });
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Decodes, resamples and re-encodes an image XObject as JPEG.
+ * Returns null when the image can't be decoded in the browser.
+ */
+export async function resampleImageAsJpeg(
+  context: PDFContext,
+  stream: PDFRawStream,
+  options: ResampleImageOptions,
+): Promise<Uint8Array | null> {
+  const canvas = await renderImageToCanvas(
+    context,
+    stream,
+    options.targetWidth,
+    options.targetHeight,
+  );
+  if (!canvas) return null;
+  return encodeCanvasAsJpeg(canvas, options.quality);
+}
+
+/**
+ * Builds a replacement image XObject holding JPEG data, keeping the
+ * entries of the original dictionary that still apply
+ */
+export function createJpegImageStream(
+  context: PDFContext,
+  original: PDFRawStream,
+  jpegBytes: Uint8Array,
+  width: number,
+  height: number,
+): PDFRawStream {
+  const dict = context.obj({
+    Type: "XObject",
+    Subtype: "Image",
+    Width: width,
+    Height: height,
+    ColorSpace: "DeviceRGB",
+    BitsPerComponent: 8,
+    Filter: "DCTDecode",
+    Length: jpegBytes.length,
+  });
+
+  copyImageEntries(original.dict, dict);
+
+  return PDFRawStream.of(dict, jpegBytes);
+}
+
+/**
+ * Converts RGBA pixels to one luminance byte per pixel (Rec. 601 weights)
+ */
+export function toGrayscaleSamples(rgba: ArrayLike<number>): Uint8Array {
+  const gray = new Uint8Array(Math.floor(rgba.length / 4));
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4;
+    gray[i] = Math.round(
+      0.299 * rgba[offset] +
+        0.587 * rgba[offset + 1] +
+        0.114 * rgba[offset + 2],
+    );
+  }
+  return gray;
+}
+
+/**
+ * Picks the gray level that best separates ink from paper using Otsu's
+ * method, so faint and dark scans both threshold cleanly
+ */
+export function computeOtsuThreshold(gray: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of gray) histogram[value]++;
+
+  let total = 0;
+  for (let level = 0; level < 256; level++) total += level * histogram[level];
+
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  let bestVariance = -1;
+  let threshold = 128;
+
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = gray.length - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += level * histogram[level];
+    const backgroundMean = backgroundSum / backgroundCount;
+    const foregroundMean = (total - backgroundSum) / foregroundCount;
+    const variance =
+      backgroundCount *
+      foregroundCount *
+      (backgroundMean - foregroundMean) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      // Levels up to and including this one become black
+      threshold = level + 1;
+    }
+  }
+
+  return threshold;
+}
+
+/**
+ * Packs gray samples into 1 bit per pixel, most significant bit first with
+ * every row padded to a whole byte. Samples below the threshold become 0
+ * (black) and the rest 1 (white), matching DeviceGray without a Decode array.
+ */
+export function packBilevelSamples(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  threshold: number,
+): Uint8Array {
+  const rowBytes = Math.ceil(width / 8);
+  const packed = new Uint8Array(rowBytes * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] >= threshold) {
+        packed[y * rowBytes + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+
+  return packed;
+}
+
+/**
+ * Decodes and resamples an image XObject, then converts it to 8-bit gray
+ * or 1-bit black and white samples. Returns null when the image can't be
+ * decoded in the browser.
+ */
+export async function resampleImageAsGray(
+  context: PDFContext,
+  stream: PDFRawStream,
+  options: GrayImageOptions,
+): Promise<GrayImageSamples | null> {
+  const { targetWidth, targetHeight, colorMode } = options;
+  const canvas = await renderImageToCanvas(
+    context,
+    stream,
+    targetWidth,
+    targetHeight,
+  );
+  const canvasContext = canvas?.getContext("2d");
+  if (!canvasContext) return null;
+
+  const { data } = canvasContext.getImageData(0, 0, targetWidth, targetHeight);
+  const gray = toGrayscaleSamples(data);
+
+  if (colorMode === "grayscale") {
+    return { samples: gray, bitsPerComponent: 8 };
+  }
+
+  return {
+    samples: packBilevelSamples(
+      gray,
+      targetWidth,
+      targetHeight,
+      computeOtsuThreshold(gray),
+    ),
+    bitsPerComponent: 1,
+  };
+}
+
+/**
+ * Builds a replacement DeviceGray image XObject from gray samples,
+ * Flate compressed, keeping the entries of the original dictionary that
+ * still apply
+ */
+export function createGrayImageStream(
+  context: PDFContext,
+  original: PDFRawStream,
+  image: GrayImageSamples,
+  width: number,
+  height: number,
+): PDFRawStream {
+  const stream = context.flateStream(image.samples, {
+    Type: "XObject",
+    Subtype: "Image",
+    Width: width,
+    Height: height,
+    ColorSpace: "DeviceGray",
+    BitsPerComponent: image.bitsPerComponent,
+  });
+
+  copyImageEntries(original.dict, stream.dict);
+
+  return stream;
+}
+
+function copyImageEntries(source: PDFDict, target: PDFDict): void {
+  for (const key of ["SMask", "Intent", "Interpolate", "OC", "Metadata"]) {
+    const value = source.get(PDFName.of(key));
+    if (value !== undefined) target.set(PDFName.of(key), value);
+  }
+
+  // Stencil masks stay valid; color key masks refer to the old samples
+  const mask = source.get(PDFName.of("Mask"));
+  if (mask instanceof PDFRef) target.set(PDFName.of("Mask"), mask);
+}
+
+function lookupNumber(dict: PDFDict, key: string): number {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : 0;
+}
@@ -2,6 +2,13 @@
 export * from "./merge";
 export * from "./convert";
 export * from "./split";
+export * from "./page-ranges";
+export * from "./filename-template";
 export * from "./compress";
 export * from "./reorder";
+export * from "./metadata";
+export * from "./compare";
+export * from "./linearize";
+export * from "./decrypt";
+export * from "./encrypt";
 export { selectPDFArea } from "./select-area";
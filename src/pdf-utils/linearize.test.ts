@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, PDFName, StandardFonts } from "pdf-lib";
+import { linearizePDF, readLinearizationParameters } from "./linearize";
+
+// Four pages sharing one font, each with its own text
+async function createDocument(): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  for (let index = 1; index <= 4; index++) {
+    const page = pdfDoc.addPage([612, 792]);
+    page.drawText(`Chapter ${index}`, { x: 72, y: 700, font });
+  }
+  pdfDoc.setTitle("Manual");
+  return pdfDoc.save();
+}
+
+function text(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+// Offsets by object number from a classic cross-reference section
+function readXref(bytes: Uint8Array, offset: number) {
+  const source = text(bytes, offset, bytes.length - offset);
+  const match = /^xref\n(\d+) (\d+)\n/.exec(source);
+  if (!match) throw new Error(`No xref at ${offset}`);
+
+  const first = Number(match[1]);
+  const count = Number(match[2]);
+  const entries = new Map<number, number>();
+  for (let index = 0; index < count; index++) {
+    const entry = source.substr(match[0].length + index * 20, 20);
+    if (entry.endsWith("n \n")) {
+      entries.set(first + index, Number(entry.slice(0, 10)));
+    }
+  }
+
+  const trailer = /trailer\n<<([^]*?)>>/.exec(source)![1];
+  const prev = /\/Prev (\d+)/.exec(trailer);
+  return {
+    entries,
+    trailer,
+    prev: prev ? Number(prev[1]) : undefined,
+    firstEntryOffset: offset + match[0].length,
+  };
+}
+
+// Big-endian unsigned integers of any bit width
+function readBits(bytes: Uint8Array, bitOffset: number, bits: number) {
+  let value = 0;
+  for (let bit = 0; bit < bits; bit++) {
+    const position = bitOffset + bit;
+    value = value * 2 + ((bytes[position >> 3] >> (7 - (position & 7))) & 1);
+  }
+  return value;
+}
+
+describe("linearizePDF", () => {
+  it("should start with a linearization dictionary that matches the file", async () => {
+    const bytes = await linearizePDF(await createDocument());
+    const params = readLinearizationParameters(bytes);
+
+    expect(params).not.toBeNull();
+    expect(params!.fileLength).toBe(bytes.length);
+    expect(params!.pageCount).toBe(4);
+  });
+
+  it("should chain the first-page and main cross-reference tables", async () => {
+    const bytes = await linearizePDF(await createDocument());
+    const params = readLinearizationParameters(bytes)!;
+
+    const startxref = Number(
+      /startxref\n(\d+)\n%%EOF\n$/.exec(text(bytes, bytes.length - 40, 40))![1],
+    );
+    const firstPageXref = readXref(bytes, startxref);
+    expect(firstPageXref.prev).toBeDefined();
+    const mainXref = readXref(bytes, firstPageXref.prev!);
+
+    // /T points at the end of line before the first main table entry
+    expect(params.mainXrefEntryOffset).toBe(mainXref.firstEntryOffset - 1);
+
+    // Every entry points at its object
+    for (const { entries } of [firstPageXref, mainXref]) {
+      for (const [number, offset] of entries) {
+        expect(text(bytes, offset, 20)).toMatch(new RegExp(`^${number} 0 obj`));
+      }
+    }
+
+    // The two sections cover every object exactly once
+    const numbers = [
+      ...firstPageXref.entries.keys(),
+      ...mainXref.entries.keys(),
+    ];
+    expect(new Set(numbers).size).toBe(numbers.length);
+    expect(firstPageXref.trailer).toMatch(
+      new RegExp(`/Size ${numbers.length + 1}\\b`),
+    );
+  });
+
+  it("should put the first page and the hint stream in the first-page section", async () => {
+    const bytes = await linearizePDF(await createDocument());
+    const params = readLinearizationParameters(bytes)!;
+    const startxref = Number(
+      /startxref\n(\d+)\n%%EOF\n$/.exec(text(bytes, bytes.length - 40, 40))![1],
+    );
+    const firstPageXref = readXref(bytes, startxref);
+    const mainXref = readXref(bytes, firstPageXref.prev!);
+
+    // /O is the first page and lives before /E
+    const firstPageOffset = firstPageXref.entries.get(params.firstPageObject)!;
+    expect(firstPageOffset).toBeDefined();
+    expect(text(bytes, firstPageOffset, 200)).toMatch(/\/Type \/Page\b/);
+    expect(firstPageOffset).toBeLessThan(params.firstPageEnd);
+
+    // Other pages come after the end of the first page
+    for (const offset of mainXref.entries.values()) {
+      expect(offset).toBeGreaterThanOrEqual(params.firstPageEnd);
+    }
+
+    // /H covers exactly one stream object
+    const hint = text(bytes, params.hintOffset, params.hintLength);
+    expect(hint).toMatch(/^\d+ 0 obj\n<<[^]*\/S \d+[^]*stream\n/);
+    expect(hint.endsWith("endobj\n")).toBe(true);
+  });
+
+  it("should write page offset hints that locate every page", async () => {
+    const bytes = await linearizePDF(await createDocument());
+    const params = readLinearizationParameters(bytes)!;
+    const startxref = Number(
+      /startxref\n(\d+)\n%%EOF\n$/.exec(text(bytes, bytes.length - 40, 40))![1],
+    );
+    const firstPageXref = readXref(bytes, startxref);
+
+    const hint = text(bytes, params.hintOffset, params.hintLength);
+    const dataStart =
+      params.hintOffset + hint.indexOf("stream\n") + "stream\n".length;
+    const data = bytes.subarray(dataStart);
+
+    const leastObjects = readBits(data, 0, 32);
+    const firstPageLocation = readBits(data, 32, 32);
+    const objectBits = readBits(data, 64, 16);
+    const leastLength = readBits(data, 80, 32);
+    const lengthBits = readBits(data, 112, 16);
+
+    // Hint offsets are counted as if the hint stream weren't there
+    expect(firstPageLocation).toBe(
+      firstPageXref.entries.get(params.firstPageObject)! - params.hintLength,
+    );
+
+    // Walk the pages: each one starts where the previous one ended
+    const headerBits = 36 * 8;
+    const objectColumnBytes = Math.ceil((objectBits * 4) / 8);
+    let offset = firstPageLocation + params.hintLength;
+    for (let page = 0; page < 4; page++) {
+      expect(text(bytes, offset, 200)).toMatch(
+        /^\d+ 0 obj\n<<[^]*\/Type \/Page\b/,
+      );
+      const objects =
+        leastObjects +
+        readBits(data, headerBits + page * objectBits, objectBits);
+      const length =
+        leastLength +
+        readBits(
+          data,
+          headerBits + objectColumnBytes * 8 + page * lengthBits,
+          lengthBits,
+        );
+      expect(objects).toBeGreaterThanOrEqual(1);
+      offset += length;
+    }
+  });
+
+  it("should keep pages, content and metadata", async () => {
+    const original = await PDFDocument.load(await createDocument());
+    const linearized = await PDFDocument.load(
+      await linearizePDF(await original.save()),
+    );
+
+    expect(linearized.getPageCount()).toBe(4);
+    expect(linearized.getTitle()).toBe("Manual");
+    for (let index = 0; index < 4; index++) {
+      const font = linearized
+        .getPage(index)
+        .node.Resources()
+        ?.lookup(PDFName.of("Font"));
+      expect(font).toBeDefined();
+    }
+  });
+
+  it("should reject documents without pages", async () => {
+    const pdfDoc = await PDFDocument.create();
+    const bytes = await pdfDoc.save({ addDefaultPage: false });
+
+    await expect(linearizePDF(bytes)).rejects.toThrow("without pages");
+  });
+});
+
+describe("readLinearizationParameters", () => {
+  it("should return null for regular files", async () => {
+    expect(readLinearizationParameters(await createDocument())).toBeNull();
+  });
+});
@@ -0,0 +1,688 @@
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+} from "pdf-lib";
+
+export interface LinearizationParameters {
+  fileLength: number; // /L
+  hintOffset: number; // /H, first element
+  hintLength: number; // /H, second element
+  firstPageObject: number; // /O
+  firstPageEnd: number; // /E
+  pageCount: number; // /N
+  mainXrefEntryOffset: number; // /T
+}
+
+interface SerializedObject {
+  ref: PDFRef; // Reference in the source document
+  number: number; // Object number in the output
+  bytes: Uint8Array;
+}
+
+interface LinearizationPlan {
+  documentLevel: PDFRef[]; // Part 4: catalog and objects needed to open the file
+  firstPage: PDFRef[]; // Part 6: first page and everything it uses
+  otherPages: PDFRef[][]; // Part 7: each later page and its private objects
+  shared: PDFRef[]; // Part 8: objects used by several later pages
+  other: PDFRef[]; // Part 9: outlines, page tree, Info, ...
+  sharedByPage: PDFRef[][]; // Shared objects used by each later page
+}
+
+// "%PDF-1.7" followed by a binary comment, as the spec recommends
+const HEADER = [...toBytes("%PDF-1.7\n%"), 0xe2, 0xe3, 0xcf, 0xd3, 0x0a];
+
+// Placeholder used to size fields that are filled in after layout
+const MAX_OFFSET = 9_999_999_999;
+
+const XREF_ENTRY_LENGTH = 20;
+
+/**
+ * Rewrites a PDF as a linearized ("Fast Web View") file: the first page and
+ * everything it needs come first, followed by hint tables that tell the
+ * viewer where every other page starts, so page 1 can be shown before the
+ * rest of the file has downloaded. Objects no longer reachable from the
+ * trailer are dropped. Object streams aren't used, as classic
+ * cross-reference tables are what viewers expect in linearized files.
+ * @param pdfBytes - A complete PDF, e.g. the output of `pdfDoc.save()`
+ * @returns The linearized PDF
+ */
+export async function linearizePDF(
+  pdfBytes: Uint8Array | ArrayBuffer,
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  if (pdfDoc.getPageCount() === 0) {
+    throw new Error("Cannot linearize a document without pages");
+  }
+  return writeLinearizedDocument(pdfDoc, planLinearization(pdfDoc));
+}
+
+/**
+ * Reads the linearization parameter dictionary at the start of a PDF.
+ * Returns null when the file isn't linearized.
+ */
+export function readLinearizationParameters(
+  pdfBytes: Uint8Array,
+): LinearizationParameters | null {
+  // The dictionary must be the first object in the file
+  const start = fromBytes(pdfBytes.subarray(0, 1024));
+  const match = /^%PDF-\d\.\d[^]*?\d+\s+\d+\s+obj\s*<<([^]*?)>>/.exec(start);
+  if (!match || !/\/Linearized\s/.test(match[1])) return null;
+
+  const dict = match[1];
+  const read = (key: string) => {
+    const value = new RegExp(`/${key}\\s+(\\d+)`).exec(dict);
+    return value ? Number(value[1]) : NaN;
+  };
+  const hint = /\/H\s*\[\s*(\d+)\s+(\d+)/.exec(dict);
+
+  return {
+    fileLength: read("L"),
+    hintOffset: hint ? Number(hint[1]) : NaN,
+    hintLength: hint ? Number(hint[2]) : NaN,
+    firstPageObject: read("O"),
+    firstPageEnd: read("E"),
+    pageCount: read("N"),
+    mainXrefEntryOffset: read("T"),
+  };
+}
+
+/**
+ * Sorts every reachable object into the parts of a linearized file
+ * (ISO 32000-1, Annex F)
+ */
+function planLinearization(pdfDoc: PDFDocument): LinearizationPlan {
+  const { context, catalog } = pdfDoc;
+  const rootRef = context.trailerInfo.Root as PDFRef;
+  const pages = pdfDoc.getPages();
+  const pageRefs = pages.map((page) => page.ref);
+
+  // Page traversal stops at other pages and the page tree
+  const barrier = new Set<string>([rootRef.toString()]);
+  for (const page of pages) {
+    barrier.add(page.ref.toString());
+    let parent = page.node.get(PDFName.of("Parent"));
+    while (parent instanceof PDFRef && !barrier.has(parent.toString())) {
+      barrier.add(parent.toString());
+      const parentDict = context.lookup(parent);
+      parent =
+        parentDict instanceof PDFDict
+          ? parentDict.get(PDFName.of("Parent"))
+          : undefined;
+    }
+  }
+
+  // Part 4: objects a viewer needs before it can show any page. Form fields
+  // are left to the pages that show them.
+  const documentRoots: PDFObject[] = [];
+  const documentLevel: PDFRef[] = [rootRef];
+  for (const key of ["ViewerPreferences", "OpenAction"]) {
+    const value = catalog.get(PDFName.of(key));
+    if (value) documentRoots.push(value);
+  }
+  const acroForm = catalog.get(PDFName.of("AcroForm"));
+  const acroFormDict = catalog.lookup(PDFName.of("AcroForm"));
+  if (acroForm instanceof PDFRef) documentLevel.push(acroForm);
+  if (acroFormDict instanceof PDFDict) {
+    for (const [key, value] of acroFormDict.entries()) {
+      if (key !== PDFName.of("Fields")) documentRoots.push(value);
+    }
+  }
+  documentLevel.push(
+    ...collectReachable(
+      context,
+      documentRoots,
+      new Set([...barrier, ...documentLevel.map(String)]),
+    ),
+  );
+
+  const claimed = new Set([...barrier, ...documentLevel.map(String)]);
+  const objectsByPage = pages.map((page) =>
+    collectReachable(
+      context,
+      page.node
+        .entries()
+        .filter(([key]) => key !== PDFName.of("Parent"))
+        .map(([, value]) => value),
+      claimed,
+    ),
+  );
+
+  const usage = new Map<string, number>();
+  for (const refs of objectsByPage) {
+    for (const ref of refs) {
+      usage.set(ref.toString(), (usage.get(ref.toString()) ?? 0) + 1);
+    }
+  }
+  const isShared = (ref: PDFRef) => (usage.get(ref.toString()) ?? 0) > 1;
+
+  const firstPage = [pageRefs[0], ...objectsByPage[0]];
+  const inFirstPage = new Set(firstPage.map(String));
+
+  const otherPages: PDFRef[][] = [];
+  const sharedByPage: PDFRef[][] = [];
+  const shared: PDFRef[] = [];
+  const inShared = new Set<string>();
+
+  for (let index = 1; index < pages.length; index++) {
+    const refs = objectsByPage[index];
+    otherPages.push([pageRefs[index], ...refs.filter((ref) => !isShared(ref))]);
+    sharedByPage.push(refs.filter(isShared));
+
+    for (const ref of refs.filter(isShared)) {
+      const key = ref.toString();
+      if (inFirstPage.has(key) || inShared.has(key)) continue;
+      inShared.add(key);
+      shared.push(ref);
+    }
+  }
+
+  // Part 9: whatever else is reachable from the trailer
+  const placed = new Set([
+    ...documentLevel.map(String),
+    ...firstPage.map(String),
+    ...otherPages.flat().map(String),
+    ...shared.map(String),
+  ]);
+  const otherRoots: PDFObject[] = [catalog];
+  if (context.trailerInfo.Info) otherRoots.push(context.trailerInfo.Info);
+  const other = collectReachable(context, otherRoots, placed);
+
+  return { documentLevel, firstPage, otherPages, shared, other, sharedByPage };
+}
+
+/**
+ * Lists the indirect objects reachable from the given objects, in the
+ * order they are found, without entering any object in `stop`
+ */
+function collectReachable(
+  context: PDFContext,
+  roots: PDFObject[],
+  stop: Set<string>,
+): PDFRef[] {
+  const found: PDFRef[] = [];
+  const seen = new Set<string>();
+  const queue = [...roots];
+
+  for (let index = 0; index < queue.length; index++) {
+    const object = queue[index];
+
+    if (object instanceof PDFRef) {
+      const key = object.toString();
+      if (seen.has(key) || stop.has(key)) continue;
+      seen.add(key);
+      const resolved = context.lookup(object);
+      if (resolved === undefined) continue;
+      found.push(object);
+      queue.push(resolved);
+    } else if (object instanceof PDFDict) {
+      queue.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      queue.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      queue.push(...object.dict.values());
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Serializes the planned parts with renumbered objects, the hint stream,
+ * both cross-reference sections and the linearization dictionary
+ */
+function writeLinearizedDocument(
+  pdfDoc: PDFDocument,
+  plan: LinearizationPlan,
+): Uint8Array {
+  const { context } = pdfDoc;
+
+  // Objects after the first page are numbered from 1, in file order, and the
+  // first-page section takes the numbers after them
+  const mainSection = [
+    ...plan.otherPages.flat(),
+    ...plan.shared,
+    ...plan.other,
+  ];
+  const renumber = new Map<string, number>();
+  mainSection.forEach((ref, index) => renumber.set(ref.toString(), index + 1));
+
+  const linearizationNumber = mainSection.length + 1;
+  let nextNumber = linearizationNumber + 1;
+  for (const ref of plan.documentLevel) {
+    renumber.set(ref.toString(), nextNumber++);
+  }
+  const hintNumber = nextNumber++;
+  for (const ref of plan.firstPage) {
+    renumber.set(ref.toString(), nextNumber++);
+  }
+  const size = nextNumber;
+
+  const serialize = (ref: PDFRef): SerializedObject => {
+    const number = renumber.get(ref.toString())!;
+    const object = remapRefs(context.lookup(ref)!, renumber, context);
+    return { ref, number, bytes: serializeObject(number, object) };
+  };
+
+  const documentLevel = plan.documentLevel.map(serialize);
+  const firstPage = plan.firstPage.map(serialize);
+  const otherPages = plan.otherPages.map((refs) => refs.map(serialize));
+  const shared = plan.shared.map(serialize);
+  const other = plan.other.map(serialize);
+
+  const trailerEntries = buildTrailerEntries(pdfDoc, renumber);
+
+  // Sizes of the fixed-width parts at the start of the file
+  const linearizationLength = renderLinearizationObject(linearizationNumber, {
+    fileLength: MAX_OFFSET,
+    hintOffset: MAX_OFFSET,
+    hintLength: MAX_OFFSET,
+    firstPageObject: MAX_OFFSET,
+    firstPageEnd: MAX_OFFSET,
+    pageCount: MAX_OFFSET,
+    mainXrefEntryOffset: MAX_OFFSET,
+  }).length;
+  const firstXrefCount = 1 + documentLevel.length + 1 + firstPage.length;
+  const firstXrefLength = renderFirstPageXref(
+    linearizationNumber,
+    new Array<number>(firstXrefCount).fill(0),
+    trailerEntries,
+    size,
+    MAX_OFFSET,
+  ).length;
+
+  // Offsets as if the hint stream weren't there, which is how hint tables
+  // count them
+  const offsets = new Map<SerializedObject, number>();
+  let position = HEADER.length + linearizationLength + firstXrefLength;
+  for (const object of documentLevel) {
+    offsets.set(object, position);
+    position += object.bytes.length;
+  }
+  const hintOffset = position;
+  for (const object of [
+    ...firstPage,
+    ...otherPages.flat(),
+    ...shared,
+    ...other,
+  ]) {
+    offsets.set(object, position);
+    position += object.bytes.length;
+  }
+
+  const hintBytes = serializeObject(
+    hintNumber,
+    buildHintStream(context, {
+      firstPage,
+      otherPages,
+      shared,
+      sharedByPage: plan.sharedByPage,
+      offsets,
+    }),
+  );
+  const hintLength = hintBytes.length;
+  const actualOffset = (object: SerializedObject) =>
+    offsets.get(object)! +
+    (offsets.get(object)! >= hintOffset ? hintLength : 0);
+
+  const lastFirstPageObject = firstPage[firstPage.length - 1];
+  const firstPageEnd =
+    actualOffset(lastFirstPageObject) + lastFirstPageObject.bytes.length;
+  const mainXrefOffset = position + hintLength;
+  const mainXref = renderMainXref(
+    mainSection.length,
+    [...otherPages.flat(), ...shared, ...other].map(actualOffset),
+    HEADER.length + linearizationLength,
+  );
+  const fileLength = mainXrefOffset + mainXref.length;
+
+  const linearizationObject = renderLinearizationObject(linearizationNumber, {
+    fileLength,
+    hintOffset,
+    hintLength,
+    firstPageObject: firstPage[0].number,
+    firstPageEnd,
+    pageCount: plan.otherPages.length + 1,
+    // The end of line before the first entry of the main table
+    mainXrefEntryOffset:
+      mainXrefOffset + `xref\n0 ${mainSection.length + 1}`.length,
+  });
+
+  const firstXref = renderFirstPageXref(
+    linearizationNumber,
+    [
+      HEADER.length,
+      ...documentLevel.map(actualOffset),
+      hintOffset,
+      ...firstPage.map(actualOffset),
+    ],
+    trailerEntries,
+    size,
+    mainXrefOffset,
+  );
+
+  const output = new Uint8Array(fileLength);
+  let cursor = 0;
+  const write = (bytes: ArrayLike<number>) => {
+    output.set(bytes, cursor);
+    cursor += bytes.length;
+  };
+
+  write(HEADER);
+  write(toBytes(padDictionary(linearizationObject, linearizationLength)));
+  write(toBytes(padDictionary(firstXref, firstXrefLength)));
+  documentLevel.forEach((object) => write(object.bytes));
+  write(hintBytes);
+  [...firstPage, ...otherPages.flat(), ...shared, ...other].forEach((object) =>
+    write(object.bytes),
+  );
+  write(toBytes(mainXref));
+
+  return output;
+}
+
+/**
+ * Builds the primary hint stream: the page offset hint table followed by
+ * the shared object hint table (ISO 32000-1, F.4). Content stream entries
+ * mirror the page lengths, as most writers do.
+ */
+function buildHintStream(
+  context: PDFContext,
+  layout: {
+    firstPage: SerializedObject[];
+    otherPages: SerializedObject[][];
+    shared: SerializedObject[];
+    sharedByPage: PDFRef[][];
+    offsets: Map<SerializedObject, number>;
+  },
+): PDFRawStream {
+  const { firstPage, otherPages, shared, sharedByPage, offsets } = layout;
+  const pageGroups = [firstPage, ...otherPages];
+  const length = (objects: SerializedObject[]) =>
+    objects.reduce((sum, object) => sum + object.bytes.length, 0);
+
+  // Shared object groups: every first page object, then part 8
+  const sharedEntries = [...firstPage, ...shared];
+  const sharedIndex = new Map(
+    sharedEntries.map((object, index) => [object.ref.toString(), index]),
+  );
+
+  const objectCounts = pageGroups.map((objects) => objects.length);
+  const pageLengths = pageGroups.map(length);
+  // The first page's shared objects are all in the first-page section
+  const sharedIds = [
+    [],
+    ...sharedByPage.map((refs) =>
+      refs.map((ref) => sharedIndex.get(ref.toString())!),
+    ),
+  ];
+
+  const minObjects = Math.min(...objectCounts);
+  const minPageLength = Math.min(...pageLengths);
+  const objectBits = bitsFor(Math.max(...objectCounts) - minObjects);
+  const lengthBits = bitsFor(Math.max(...pageLengths) - minPageLength);
+  const sharedCountBits = bitsFor(
+    Math.max(...sharedIds.map((ids) => ids.length)),
+  );
+  const sharedIdBits = bitsFor(Math.max(0, ...sharedIds.flat()));
+
+  const writer = new BitWriter();
+  writer.write(minObjects, 32);
+  writer.write(offsets.get(firstPage[0])!, 32);
+  writer.write(objectBits, 16);
+  writer.write(minPageLength, 32);
+  writer.write(lengthBits, 16);
+  writer.write(0, 32); // Least content stream offset
+  writer.write(0, 16);
+  writer.write(minPageLength, 32); // Least content stream length
+  writer.write(lengthBits, 16);
+  writer.write(sharedCountBits, 16);
+  writer.write(sharedIdBits, 16);
+  writer.write(0, 16); // Bits for shared object numerators
+  writer.write(4, 16); // Denominator of the numerators
+
+  writer.writeColumn(
+    objectCounts.map((count) => count - minObjects),
+    objectBits,
+  );
+  writer.writeColumn(
+    pageLengths.map((size) => size - minPageLength),
+    lengthBits,
+  );
+  writer.writeColumn(
+    sharedIds.map((ids) => ids.length),
+    sharedCountBits,
+  );
+  writer.writeColumn(sharedIds.flat(), sharedIdBits);
+  writer.writeColumn(
+    pageLengths.map((size) => size - minPageLength),
+    lengthBits,
+  );
+
+  const sharedTableOffset = writer.length;
+  const groupLengths = sharedEntries.map((object) => object.bytes.length);
+  const minGroupLength = Math.min(...groupLengths);
+  const groupLengthBits = bitsFor(Math.max(...groupLengths) - minGroupLength);
+
+  writer.write(shared.length > 0 ? shared[0].number : 0, 32);
+  writer.write(shared.length > 0 ? offsets.get(shared[0])! : 0, 32);
+  writer.write(firstPage.length, 32);
+  writer.write(sharedEntries.length, 32);
+  writer.write(0, 16); // Every group holds a single object
+  writer.write(minGroupLength, 32);
+  writer.write(groupLengthBits, 16);
+
+  writer.writeColumn(
+    groupLengths.map((size) => size - minGroupLength),
+    groupLengthBits,
+  );
+  writer.writeColumn(
+    sharedEntries.map(() => 0),
+    1,
+  ); // No MD5 signatures
+
+  return PDFRawStream.of(
+    context.obj({ S: sharedTableOffset }),
+    writer.toBytes(),
+  );
+}
+
+function buildTrailerEntries(
+  pdfDoc: PDFDocument,
+  renumber: Map<string, number>,
+): string {
+  const { trailerInfo } = pdfDoc.context;
+  const rootNumber = renumber.get(String(trailerInfo.Root));
+  let entries = ` /Root ${rootNumber} 0 R`;
+
+  const infoNumber =
+    trailerInfo.Info instanceof PDFRef
+      ? renumber.get(trailerInfo.Info.toString())
+      : undefined;
+  if (infoNumber !== undefined) entries += ` /Info ${infoNumber} 0 R`;
+
+  // Linearized files need a file identifier
+  const id =
+    trailerInfo.ID instanceof PDFArray
+      ? trailerInfo.ID.toString()
+      : `[ ${randomHexString()} ${randomHexString()} ]`;
+  return `${entries} /ID ${id}`;
+}
+
+function renderLinearizationObject(
+  number: number,
+  params: LinearizationParameters,
+): string {
+  return (
+    `${number} 0 obj\n<< /Linearized 1 /L ${params.fileLength}` +
+    ` /H [ ${params.hintOffset} ${params.hintLength} ]` +
+    ` /O ${params.firstPageObject} /E ${params.firstPageEnd}` +
+    ` /N ${params.pageCount} /T ${params.mainXrefEntryOffset} >>\nendobj\n`
+  );
+}
+
+function renderFirstPageXref(
+  firstNumber: number,
+  offsets: number[],
+  trailerEntries: string,
+  size: number,
+  mainXrefOffset: number,
+): string {
+  return (
+    `xref\n${firstNumber} ${offsets.length}\n` +
+    offsets.map(renderXrefEntry).join("") +
+    `trailer\n<< /Size ${size}${trailerEntries} /Prev ${mainXrefOffset} >>\n` +
+    // Readers use the startxref at the end of the file
+    "startxref\n0\n%%EOF\n"
+  );
+}
+
+function renderMainXref(
+  count: number,
+  offsets: number[],
+  firstXrefOffset: number,
+): string {
+  return (
+    `xref\n0 ${count + 1}\n` +
+    "0000000000 65535 f \n" +
+    offsets.map(renderXrefEntry).join("") +
+    `trailer\n<< /Size ${count + 1} >>\n` +
+    `startxref\n${firstXrefOffset}\n%%EOF\n`
+  );
+}
+
+function renderXrefEntry(offset: number): string {
+  const entry = `${String(offset).padStart(10, "0")} 00000 n \n`;
+  if (entry.length !== XREF_ENTRY_LENGTH) {
+    throw new Error(`Offset ${offset} doesn't fit in a cross-reference entry`);
+  }
+  return entry;
+}
+
+// Fills the space reserved for a fixed-width part with blanks before the
+// end of its dictionary
+function padDictionary(source: string, length: number): string {
+  const end = source.lastIndexOf(">>");
+  return (
+    source.slice(0, end) +
+    " ".repeat(length - source.length) +
+    source.slice(end)
+  );
+}
+
+function serializeObject(number: number, object: PDFObject): Uint8Array {
+  const header = toBytes(`${number} 0 obj\n`);
+  const footer = toBytes("\nendobj\n");
+  const bytes = new Uint8Array(
+    header.length + object.sizeInBytes() + footer.length,
+  );
+  bytes.set(header, 0);
+  const end = header.length + object.copyBytesInto(bytes, header.length);
+  bytes.set(footer, end);
+  return bytes;
+}
+
+/**
+ * Copies an object with every reference renumbered. References to objects
+ * that aren't written become null.
+ */
+function remapRefs(
+  object: PDFObject,
+  renumber: Map<string, number>,
+  context: PDFContext,
+): PDFObject {
+  if (object instanceof PDFRef) {
+    const number = renumber.get(object.toString());
+    return number === undefined ? PDFNull : PDFRef.of(number);
+  }
+  if (object instanceof PDFDict) {
+    const dict = PDFDict.withContext(context);
+    for (const [key, value] of object.entries()) {
+      dict.set(key, remapRefs(value, renumber, context));
+    }
+    return dict;
+  }
+  if (object instanceof PDFArray) {
+    const array = PDFArray.withContext(context);
+    for (const value of object.asArray()) {
+      array.push(remapRefs(value, renumber, context));
+    }
+    return array;
+  }
+  if (object instanceof PDFStream) {
+    return PDFRawStream.of(
+      remapRefs(object.dict, renumber, context) as PDFDict,
+      object.getContents(),
+    );
+  }
+  return object;
+}
+
+/**
+ * Writes big-endian unsigned integers of arbitrary bit widths. Columns of
+ * hint table entries each start on a byte boundary.
+ */
+class BitWriter {
+  private bytes: number[] = [];
+  private current = 0;
+  private bitCount = 0;
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  write(value: number, bits: number): void {
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      this.current = (this.current << 1) | Math.floor(value / 2 ** bit) % 2;
+      this.bitCount++;
+      if (this.bitCount === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+
+  writeColumn(values: number[], bits: number): void {
+    for (const value of values) this.write(value, bits);
+    this.flush();
+  }
+
+  flush(): void {
+    if (this.bitCount > 0) this.write(0, 8 - this.bitCount);
+  }
+
+  toBytes(): Uint8Array {
+    this.flush();
+    return new Uint8Array(this.bytes);
+  }
+}
+
+function bitsFor(value: number): number {
+  return value > 0 ? Math.floor(Math.log2(value)) + 1 : 0;
+}
+
+function randomHexString(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return PDFHexString.of(
+    Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(""),
+  ).toString();
+}
+
+function toBytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+function fromBytes(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+}
@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { mergePDFs, type MergePDFsOptions } from "./merge";
+import { PDFDocument } from "pdf-lib";
+import { getInterleavedOrder, mergePDFs, type MergePDFsOptions } from "./merge";
+import { readOutline, writeOutline } from "./outline";
+import { createPDFFileFromBytes } from "../../tests/pdf-fixtures";
 
 // Mock PDF files for testing
 function createMockPDFFile(
@@ -15,6 +18,46 @@ function createMockNonPDFFile(name: string): File {
   return new File([blob], name, { type: "text/plain" });
 }
 
+async function createPDFFile(
+  name: string,
+  pageWidths: number[],
+  setup?: (pdfDoc: PDFDocument) => void,
+) {
+  const pdfDoc = await PDFDocument.create();
+  pageWidths.forEach((width) => pdfDoc.addPage([width, 792]));
+  setup?.(pdfDoc);
+  const bytes = await pdfDoc.save();
+  return createPDFFileFromBytes(name, bytes);
+}
+
+// jsdom's Blob has no arrayBuffer(), so go through FileReader
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+// 2x1 pixel PNG, wider than it is tall
+const PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAIAAAABCAYAAAD0In+KAAAADklEQVR4nGP4z8DwH4QBEfcD/ePF9e8AAAAASUVORK5CYII=";
+
+function createPNGFile(name: string): File {
+  const bytes = Uint8Array.from(atob(PNG_BASE64), (char) => char.charCodeAt(0));
+  const file = new File([bytes], name, { type: "image/png" });
+  Object.defineProperty(file, "arrayBuffer", {
+    value: () => Promise.resolve(bytes.slice().buffer),
+  });
+  return file;
+}
+
+async function getPageWidths(blob: Blob): Promise<number[]> {
+  const pdfDoc = await PDFDocument.load(await readBlob(blob));
+  return pdfDoc.getPages().map((page) => page.getWidth());
+}
+
 describe("mergePDFs", () => {
   let mockPDFFile1: File;
   let mockPDFFile2: File;
@@ -64,10 +107,8 @@ describe("mergePDFs", () => {
 
     expect(result.success).toBe(false);
     if (!result.success) {
-      expect(result.error).toContain("Only PDF files are supported");
-      expect(result.details).toContain(
-        "Expected 'application/pdf', got 'text/plain'",
-      );
+      expect(result.error).toContain("Only PDF files and images are supported");
+      expect(result.details).toContain("got 'text/plain'");
     }
   });
 
@@ -120,3 +161,380 @@ describe("mergePDFs", () => {
     }
   });
 });
+
+describe("mergePDFs page ranges", () => {
+  it("should copy only the pages in each file's range", async () => {
+    // Page widths identify where each page came from
+    const fileA = await createPDFFile(
+      "a.pdf",
+      [101, 102, 103, 104, 105, 106, 107],
+    );
+    const fileB = await createPDFFile("b.pdf", [201, 202]);
+
+    const result = await mergePDFs({
+      files: [
+        { file: fileA, pageRange: "1-3,7" },
+        { file: fileB, pageRange: "all" },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.totalPages).toBe(6);
+      expect(await getPageWidths(result.pdfBlob)).toEqual([
+        101, 102, 103, 107, 201, 202,
+      ]);
+    }
+  });
+
+  it("should copy every page when the range is empty or missing", async () => {
+    const fileA = await createPDFFile("a.pdf", [101, 102]);
+    const fileB = await createPDFFile("b.pdf", [201]);
+
+    const result = await mergePDFs({
+      files: [{ file: fileA, pageRange: "  " }, fileB],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(await getPageWidths(result.pdfBlob)).toEqual([101, 102, 201]);
+    }
+  });
+
+  it("should keep the range's order when asked to", async () => {
+    const fileA = await createPDFFile("a.pdf", [101, 102, 103, 104]);
+    const fileB = await createPDFFile("b.pdf", [201, 202]);
+
+    const result = await mergePDFs({
+      files: [
+        { file: fileA, pageRange: "last-1-1,4", keepPageOrder: true },
+        { file: fileB, pageRange: "2,1" },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(await getPageWidths(result.pdfBlob)).toEqual([
+        103, 102, 101, 104, 201, 202,
+      ]);
+    }
+  });
+
+  it("should reject ranges outside the file", async () => {
+    const fileA = await createPDFFile("a.pdf", [101, 102]);
+    const fileB = await createPDFFile("b.pdf", [201]);
+
+    const result = await mergePDFs({
+      files: [fileA, { file: fileB, pageRange: "1-3" }],
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe("Invalid page range for b.pdf");
+      expect(result.details).toContain("Pages must be between 1 and 1");
+    }
+  });
+});
+
+describe("mergePDFs bookmarks", () => {
+  async function createFiles() {
+    const report = await createPDFFile("report.pdf", [101, 102, 103], (doc) => {
+      doc.setTitle("Annual Report");
+      writeOutline(doc, [
+        {
+          title: "Summary",
+          pageIndex: 0,
+          view: [],
+          open: true,
+          children: [
+            {
+              title: "Details",
+              pageIndex: 2,
+              view: [],
+              open: true,
+              children: [],
+            },
+          ],
+        },
+      ]);
+    });
+    const appendix = await createPDFFile("appendix.pdf", [201, 202]);
+    return { report, appendix };
+  }
+
+  async function readMergedOutline(blob: Blob) {
+    const pdfDoc = await PDFDocument.load(await readBlob(blob));
+    return readOutline(pdfDoc).map(({ title, pageIndex, children }) => ({
+      title,
+      pageIndex,
+      children: children.map((child) => [child.title, child.pageIndex]),
+    }));
+  }
+
+  it("should keep each file's own outline by default", async () => {
+    const { report, appendix } = await createFiles();
+    const result = await mergePDFs({ files: [appendix, report] });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(await readMergedOutline(result.pdfBlob)).toEqual([
+        { title: "Summary", pageIndex: 2, children: [["Details", 4]] },
+      ]);
+    }
+  });
+
+  it("should add a bookmark per file at its first page", async () => {
+    const { report, appendix } = await createFiles();
+    const result = await mergePDFs({
+      files: [report, appendix],
+      bookmarks: "files",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(await readMergedOutline(result.pdfBlob)).toEqual([
+        { title: "report", pageIndex: 0, children: [] },
+        { title: "appendix", pageIndex: 3, children: [] },
+      ]);
+    }
+  });
+
+  it("should use Title metadata and fall back to the file name", async () => {
+    const { report, appendix } = await createFiles();
+    const result = await mergePDFs({
+      files: [report, appendix],
+      bookmarks: "files",
+      bookmarkTitles: "metadata",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const outline = await readMergedOutline(result.pdfBlob);
+      expect(outline.map((item) => item.title)).toEqual([
+        "Annual Report",
+        "appendix",
+      ]);
+    }
+  });
+
+  it("should nest source outlines at their new pages", async () => {
+    const { report, appendix } = await createFiles();
+    const result = await mergePDFs({
+      files: [appendix, { file: report, pageRange: "2-3" }],
+      bookmarks: "nested",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      // Summary's page was left out, so Details takes its place
+      expect(await readMergedOutline(result.pdfBlob)).toEqual([
+        { title: "appendix", pageIndex: 0, children: [] },
+        { title: "report", pageIndex: 2, children: [["Details", 3]] },
+      ]);
+    }
+  });
+});
+
+describe("getInterleavedOrder", () => {
+  it("should alternate pages of the two files", () => {
+    expect(getInterleavedOrder(3, 3)).toEqual([0, 3, 1, 4, 2, 5]);
+  });
+
+  it("should take the second file backwards", () => {
+    expect(getInterleavedOrder(3, 3, true)).toEqual([0, 5, 1, 4, 2, 3]);
+  });
+
+  it("should put leftover pages at the end", () => {
+    expect(getInterleavedOrder(4, 2)).toEqual([0, 4, 1, 5, 2, 3]);
+    expect(getInterleavedOrder(1, 3, true)).toEqual([0, 3, 2, 1]);
+  });
+});
+
+describe("mergePDFs interleave mode", () => {
+  it("should alternate fronts and reversed backs", async () => {
+    const fronts = await createPDFFile("fronts.pdf", [101, 102, 103]);
+    const backs = await createPDFFile("backs.pdf", [203, 202, 201]);
+
+    const result = await mergePDFs({
+      files: [fronts, backs],
+      mode: "interleave",
+      reverseSecond: true,
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(await getPageWidths(result.pdfBlob)).toEqual([
+        101, 201, 102, 202, 103, 203,
+      ]);
+    }
+  });
+
+  it("should apply page ranges before interleaving", async () => {
+    const fronts = await createPDFFile("fronts.pdf", [101, 102, 103]);
+    const backs = await createPDFFile("backs.pdf", [201, 202]);
+
+    const result = await mergePDFs({
+      files: [{ file: fronts, pageRange: "2-3" }, backs],
+      mode: "interleave",
+      bookmarks: "files",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(await getPageWidths(result.pdfBlob)).toEqual([102, 201, 103, 202]);
+      // Bookmarks follow their pages
+      const pdfDoc = await PDFDocument.load(await readBlob(result.pdfBlob));
+      expect(readOutline(pdfDoc).map((item) => item.pageIndex)).toEqual([0, 1]);
+    }
+  });
+
+  it("should require exactly two files", async () => {
+    const result = await mergePDFs({
+      files: [
+        createMockPDFFile("a.pdf"),
+        createMockPDFFile("b.pdf"),
+        createMockPDFFile("c.pdf"),
+      ],
+      mode: "interleave",
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe("Interleaving requires exactly 2 files");
+    }
+  });
+});
+
+describe("mergePDFs with images", () => {
+  it("should add each image as a page in its position", async () => {
+    const result = await mergePDFs({
+      files: [
+        await createPDFFile("a.pdf", [100, 101]),
+        createPNGFile("scan.png"),
+        await createPDFFile("b.pdf", [200]),
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(await getPageWidths(result.pdfBlob)).toEqual([100, 101, 2, 200]);
+      expect(result.totalPages).toBe(4);
+    }
+  });
+
+  it("should fit images on the chosen page size", async () => {
+    const result = await mergePDFs({
+      files: [createPNGFile("scan.png"), await createPDFFile("a.pdf", [100])],
+      imagePageSize: "a4",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const pdfDoc = await PDFDocument.load(await readBlob(result.pdfBlob));
+      // Landscape, to match the image
+      expect(pdfDoc.getPage(0).getSize()).toEqual({
+        width: 841.89,
+        height: 595.28,
+      });
+    }
+  });
+
+  it("should bookmark images by file name", async () => {
+    const result = await mergePDFs({
+      files: [await createPDFFile("a.pdf", [100]), createPNGFile("scan.png")],
+      bookmarks: "files",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const pdfDoc = await PDFDocument.load(await readBlob(result.pdfBlob));
+      expect(
+        readOutline(pdfDoc).map(({ title, pageIndex }) => [title, pageIndex]),
+      ).toEqual([
+        ["a", 0],
+        ["scan", 1],
+      ]);
+    }
+  });
+});
+
+describe("mergePDFs separator pages", () => {
+  it("should add a blank page between documents", async () => {
+    const result = await mergePDFs({
+      files: [
+        await createPDFFile("a.pdf", [100, 101]),
+        await createPDFFile("b.pdf", [200]),
+        await createPDFFile("c.pdf", [300]),
+      ],
+      separator: "blank",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      // Blank pages take the size of the page before them
+      expect(await getPageWidths(result.pdfBlob)).toEqual([
+        100, 101, 101, 200, 200, 300,
+      ]);
+    }
+  });
+
+  it("should pad odd documents so each starts on a right-hand page", async () => {
+    const result = await mergePDFs({
+      files: [
+        await createPDFFile("a.pdf", [100, 101, 102]),
+        await createPDFFile("b.pdf", [200, 201]),
+        await createPDFFile("c.pdf", [300]),
+      ],
+      duplexPadding: true,
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(await getPageWidths(result.pdfBlob)).toEqual([
+        100, 101, 102, 102, 200, 201, 300,
+      ]);
+      expect(result.totalPages).toBe(7);
+    }
+  });
+
+  it("should add a title page before each document", async () => {
+    const result = await mergePDFs({
+      files: [
+        await createPDFFile("a.pdf", [100, 101]),
+        await createPDFFile("Exhibit B – 日本.pdf", [200, 201, 202]),
+      ],
+      separator: "title",
+      duplexPadding: true,
+      bookmarks: "files",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const pdfDoc = await PDFDocument.load(await readBlob(result.pdfBlob));
+      // Title pages match the document's first page and are padded so the
+      // document starts on a right-hand page
+      expect(pdfDoc.getPages().map((page) => page.getWidth())).toEqual([
+        100, 100, 100, 101, 200, 200, 200, 201, 202,
+      ]);
+      expect(
+        readOutline(pdfDoc).map(({ title, pageIndex }) => [title, pageIndex]),
+      ).toEqual([
+        ["a", 0],
+        ["Exhibit B – 日本", 4],
+      ]);
+    }
+  });
+
+  it("should reject separator pages when interleaving", async () => {
+    const result = await mergePDFs({
+      files: [
+        await createPDFFile("a.pdf", [100]),
+        await createPDFFile("b.pdf", [200]),
+      ],
+      mode: "interleave",
+      separator: "blank",
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
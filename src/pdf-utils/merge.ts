@@ -1,7 +1,53 @@
-import { PDFDocument } from "pdf-lib";
+import {
+  PDFDocument,
+  PDFFont,
+  PDFName,
+  PDFPage,
+  PageSizes,
+  StandardFonts,
+  rgb,
+} from "pdf-lib";
+import {
+  addImagePage,
+  isSupportedImageType,
+  SUPPORTED_IMAGE_TYPES,
+  type ImagePageSize,
+} from "./convert";
+import { loadPDFDocument } from "./decrypt";
+import { remapOutline, writeOutline, type OutlineItem } from "./outline";
+import { appendPages } from "./page-copy";
+import { parsePageRanges } from "./page-ranges";
+
+export interface MergeFileEntry {
+  file: File; // A PDF, or an image that becomes one page
+  pageRange?: string; // PDFs only, e.g., "1-3,7" or "all" (default), see parsePageRanges
+  keepPageOrder?: boolean; // Pages in the order of the range, repeats included
+  password?: string; // For encrypted PDFs
+}
+
+export type MergeBookmarks =
+  | "none" // No file bookmarks, each file's own outline is kept as is
+  | "files" // One top-level bookmark per file
+  | "nested"; // ...with each file's own outline nested under it
+
+export type MergeMode =
+  | "append" // One file after another
+  | "interleave"; // Alternate pages of two files, e.g. front and back scans
+
+export type MergeSeparator =
+  | "none"
+  | "blank" // A blank page between documents
+  | "title"; // A page with the file name and page count before each document
 
 export interface MergePDFsOptions {
-  files: File[];
+  files: Array<File | MergeFileEntry>;
+  mode?: MergeMode; // Default: "append"
+  reverseSecond?: boolean; // Interleave only: take the second file's pages last to first
+  imagePageSize?: ImagePageSize; // Default: "image"
+  separator?: MergeSeparator; // Default: "none"
+  duplexPadding?: boolean; // Add blank pages so every document starts on a right-hand page
+  bookmarks?: MergeBookmarks; // Default: "none"
+  bookmarkTitles?: "filename" | "metadata"; // metadata falls back to the file name
 }
 
 export interface MergePDFsResult {
@@ -20,63 +66,197 @@ export type MergePDFsResponse = MergePDFsResult | MergePDFsError;
 
 /**
  * Merges multiple PDF files into a single PDF document
- * @param options - Configuration object containing files to merge
+ * @param options - Configuration object containing files to merge, each
+ * optionally limited to a page range
  * @returns Promise that resolves to merged PDF blob or error
  */
 export async function mergePDFs(
   options: MergePDFsOptions,
 ): Promise<MergePDFsResponse> {
   try {
-    const { files } = options;
-
     // Validate input
-    if (!files || files.length === 0) {
+    if (!options.files || options.files.length === 0) {
       return {
         success: false,
         error: "No files provided for merging",
       };
     }
 
-    if (files.length === 1) {
+    const entries = options.files.map((entry) =>
+      entry instanceof File ? { file: entry } : entry,
+    );
+
+    if (entries.length === 1) {
       return {
         success: false,
         error: "At least 2 files are required for merging",
       };
     }
 
-    // Validate all files are PDFs
-    for (const file of files) {
-      if (file.type !== "application/pdf") {
+    const { mode = "append", reverseSecond = false } = options;
+    if (mode === "interleave" && entries.length !== 2) {
+      return {
+        success: false,
+        error: "Interleaving requires exactly 2 files",
+      };
+    }
+
+    const { separator = "none", duplexPadding = false } = options;
+    if (mode === "interleave" && (separator !== "none" || duplexPadding)) {
+      return {
+        success: false,
+        error: "Separator and padding pages can't be added when interleaving",
+      };
+    }
+
+    // Validate all files are PDFs or images
+    for (const { file } of entries) {
+      if (file.type !== "application/pdf" && !isSupportedImageType(file.type)) {
         return {
           success: false,
-          error: `Invalid file type: ${file.name}. Only PDF files are supported.`,
-          details: `Expected 'application/pdf', got '${file.type}'`,
+          error: `Invalid file type: ${file.name}. Only PDF files and images are supported.`,
+          details: `Expected 'application/pdf' or one of ${SUPPORTED_IMAGE_TYPES.join(", ")}, got '${file.type}'`,
         };
       }
     }
 
     // Create a new PDF document for merging
     const mergedPdf = await PDFDocument.create();
-    let totalPages = 0;
+    const {
+      imagePageSize = "image",
+      bookmarks = "none",
+      bookmarkTitles = "filename",
+    } = options;
+    let outline: OutlineItem[] = [];
+    const pageCounts: number[] = [];
+    const titleFonts =
+      separator === "title" ? await embedTitleFonts(mergedPdf) : undefined;
+
+    // Process each file
+    for (const [
+      index,
+      { file, pageRange, keepPageOrder, password },
+    ] of entries.entries()) {
+      if (index > 0) {
+        if (separator === "blank") addBlankPage(mergedPdf);
+        if (duplexPadding && mergedPdf.getPageCount() % 2 === 1) {
+          addBlankPage(mergedPdf);
+        }
+      }
+
+      // File bookmarks point at the title page when there is one
+      const firstPage = mergedPdf.getPageCount();
+      if (titleFonts) {
+        mergedPdf.addPage();
+        if (duplexPadding) addBlankPage(mergedPdf);
+      }
+      const contentStart = mergedPdf.getPageCount();
+
+      // Images become a single page
+      if (isSupportedImageType(file.type)) {
+        try {
+          await addImagePage(mergedPdf, file, imagePageSize);
+        } catch (imageError) {
+          return {
+            success: false,
+            error: `Failed to process image: ${file.name}`,
+            details:
+              imageError instanceof Error
+                ? imageError.message
+                : String(imageError),
+          };
+        }
 
-    // Process each PDF file
-    for (const file of files) {
+        pageCounts.push(1);
+        if (titleFonts) {
+          drawTitlePage(
+            mergedPdf,
+            titleFonts,
+            firstPage,
+            contentStart,
+            file.name,
+            "1 page",
+          );
+        }
+        if (bookmarks !== "none") {
+          outline.push(createFileBookmark(getFileTitle(file), firstPage, []));
+        }
+        continue;
+      }
+
+      let sourcePdf: PDFDocument;
       try {
         // Read file as array buffer
         const fileBuffer = await file.arrayBuffer();
 
         // Load the PDF document
-        const sourcePdf = await PDFDocument.load(fileBuffer);
+        sourcePdf = await loadPDFDocument(fileBuffer, { password });
+      } catch (fileError) {
+        return {
+          success: false,
+          error: `Failed to process file: ${file.name}`,
+          details:
+            fileError instanceof Error ? fileError.message : String(fileError),
+        };
+      }
+
+      // Pick the requested pages, or all of them
+      let pageIndices: number[];
+      try {
+        pageIndices = pageRange?.trim()
+          ? parsePageRanges(pageRange, sourcePdf.getPageCount(), {
+              keepOrder: keepPageOrder,
+            }).map((pageNumber) => pageNumber - 1)
+          : sourcePdf.getPageIndices();
+      } catch (rangeError) {
+        return {
+          success: false,
+          error: `Invalid page range for ${file.name}`,
+          details:
+            rangeError instanceof Error
+              ? rangeError.message
+              : String(rangeError),
+        };
+      }
 
-        // Get all page indices
-        const pageIndices = sourcePdf.getPageIndices();
-        totalPages += pageIndices.length;
+      try {
+        // Copy the selected pages along with their links, form fields and
+        // bookmarks
+        const fileOutline = await appendPages(
+          mergedPdf,
+          sourcePdf,
+          pageIndices,
+        );
+        pageCounts.push(pageIndices.length);
 
-        // Copy all pages from source to merged document
-        const copiedPages = await mergedPdf.copyPages(sourcePdf, pageIndices);
+        if (titleFonts) {
+          const sourcePages = sourcePdf.getPageCount();
+          drawTitlePage(
+            mergedPdf,
+            titleFonts,
+            firstPage,
+            contentStart,
+            file.name,
+            pageIndices.length === sourcePages
+              ? formatPageCount(sourcePages)
+              : `${pageIndices.length} of ${formatPageCount(sourcePages)}`,
+          );
+        }
 
-        // Add all copied pages to the merged document
-        copiedPages.forEach((page) => mergedPdf.addPage(page));
+        if (bookmarks === "none") {
+          outline.push(...fileOutline);
+        } else if (pageIndices.length > 0) {
+          const title =
+            (bookmarkTitles === "metadata" && sourcePdf.getTitle()?.trim()) ||
+            getFileTitle(file);
+          outline.push(
+            createFileBookmark(
+              title,
+              firstPage,
+              bookmarks === "nested" ? fileOutline : [],
+            ),
+          );
+        }
       } catch (fileError) {
         return {
           success: false,
@@ -87,6 +267,21 @@ export async function mergePDFs(
       }
     }
 
+    if (mode === "interleave") {
+      const order = getInterleavedOrder(
+        pageCounts[0],
+        pageCounts[1],
+        reverseSecond,
+      );
+      movePages(mergedPdf, order);
+      outline = remapOutline(
+        outline,
+        new Map(order.map((pageIndex, position) => [pageIndex, position])),
+      );
+    }
+
+    writeOutline(mergedPdf, outline);
+
     // Generate the final PDF bytes
     const pdfBytes = await mergedPdf.save();
 
@@ -96,7 +291,7 @@ export async function mergePDFs(
     return {
       success: true,
       pdfBlob,
-      totalPages,
+      totalPages: mergedPdf.getPageCount(),
     };
   } catch (error) {
     return {
@@ -106,3 +301,160 @@ export async function mergePDFs(
     };
   }
 }
+
+/**
+ * Page order for interleaving two files: A1, B1, A2, B2... Indices count the
+ * first file's pages followed by the second's. Leftover pages of the longer
+ * file go at the end.
+ * @param reverseSecond - Take the second file's pages last to first, as
+ * when a stack of back sides is scanned upside down
+ */
+export function getInterleavedOrder(
+  firstCount: number,
+  secondCount: number,
+  reverseSecond = false,
+): number[] {
+  const order: number[] = [];
+  for (let i = 0; i < Math.max(firstCount, secondCount); i++) {
+    if (i < firstCount) order.push(i);
+    if (i < secondCount) {
+      order.push(firstCount + (reverseSecond ? secondCount - 1 - i : i));
+    }
+  }
+  return order;
+}
+
+// Rearranges the page tree so that page order[i] ends up at position i
+function movePages(pdfDoc: PDFDocument, order: number[]) {
+  const pages = pdfDoc.getPages();
+  for (let index = pages.length - 1; index >= 0; index--) {
+    pdfDoc.removePage(index);
+  }
+  order.forEach((pageIndex, position) =>
+    pdfDoc.insertPage(position, pages[pageIndex]),
+  );
+}
+
+function createFileBookmark(
+  title: string,
+  pageIndex: number,
+  children: OutlineItem[],
+): OutlineItem {
+  return { title, pageIndex, view: [PDFName.of("Fit")], open: false, children };
+}
+
+// File name without its extension
+function getFileTitle(file: File): string {
+  return file.name.replace(/\.[^.]+$/, "");
+}
+
+interface TitleFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+async function embedTitleFonts(pdfDoc: PDFDocument): Promise<TitleFonts> {
+  return {
+    regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+    bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+  };
+}
+
+// Same size as the page before it
+function addBlankPage(pdfDoc: PDFDocument): PDFPage {
+  const pageCount = pdfDoc.getPageCount();
+  if (pageCount === 0) return pdfDoc.addPage(PageSizes.Letter);
+  const { width, height } = pdfDoc.getPage(pageCount - 1).getSize();
+  return pdfDoc.addPage([width, height]);
+}
+
+// File name and page count, centered. The title page and its padding take
+// the size of the document's first page.
+function drawTitlePage(
+  pdfDoc: PDFDocument,
+  fonts: TitleFonts,
+  titleIndex: number,
+  contentStart: number,
+  fileName: string,
+  pageCountLabel: string,
+) {
+  const pages = pdfDoc.getPages();
+  const [width, height] = pages[contentStart]
+    ? [pages[contentStart].getWidth(), pages[contentStart].getHeight()]
+    : PageSizes.Letter;
+  for (const leadingPage of pages.slice(titleIndex, contentStart)) {
+    leadingPage.setSize(width, height);
+  }
+  const page = pages[titleIndex];
+
+  const titleSize = 24;
+  const lineHeight = titleSize * 1.25;
+  const lines = wrapText(
+    toEncodableText(fileName, fonts.bold),
+    fonts.bold,
+    titleSize,
+    width - 144,
+  );
+
+  let y = height / 2 + ((lines.length - 1) * lineHeight) / 2 + titleSize;
+  for (const line of lines) {
+    page.drawText(line, {
+      x: (width - fonts.bold.widthOfTextAtSize(line, titleSize)) / 2,
+      y,
+      size: titleSize,
+      font: fonts.bold,
+      color: rgb(0.1, 0.1, 0.1),
+    });
+    y -= lineHeight;
+  }
+
+  const labelSize = 14;
+  page.drawText(pageCountLabel, {
+    x: (width - fonts.regular.widthOfTextAtSize(pageCountLabel, labelSize)) / 2,
+    y: y - labelSize,
+    size: labelSize,
+    font: fonts.regular,
+    color: rgb(0.4, 0.4, 0.4),
+  });
+}
+
+// Breaks at spaces, or anywhere in words too long for a line
+function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number,
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = "";
+    for (const char of word) {
+      if (line && font.widthOfTextAtSize(line + char, size) > maxWidth) {
+        lines.push(line);
+        line = "";
+      }
+      line += char;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Standard fonts only cover WinAnsi, so other characters become "?"
+function toEncodableText(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text, (char) =>
+    supported.has(char.codePointAt(0)!) ? char : "?",
+  ).join("");
+}
+
+function formatPageCount(count: number): string {
+  return `${count} page${count === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,351 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, PDFHexString, PDFName } from "pdf-lib";
+import {
+  readPDFMetadata,
+  updatePDFMetadata,
+  updateMultiplePDFMetadata,
+  getDocumentMetadata,
+  applyMetadataChanges,
+  removeDocumentMetadata,
+} from "./metadata";
+import { createPDFFileFromBytes, encryptRC4 } from "../../tests/pdf-fixtures";
+
+async function blobToBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(
+    await new Promise<ArrayBuffer>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.readAsArrayBuffer(blob);
+    }),
+  );
+}
+
+async function createPDFWithMetadata(): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage();
+  pdfDoc.setTitle("Quarterly Report");
+  pdfDoc.setAuthor("Finance Team");
+  pdfDoc.setSubject("Q3 results");
+  pdfDoc.setKeywords(["finance", "q3"]);
+  pdfDoc.setCreator("Report Builder");
+  pdfDoc.setProducer("Report Builder PDF");
+  pdfDoc.setCreationDate(new Date("2024-01-02T03:04:05Z"));
+  pdfDoc.setModificationDate(new Date("2024-02-03T04:05:06Z"));
+  return pdfDoc.save();
+}
+
+const XMP_PACKET = `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/" photoshop:City="Berlin">
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">XMP Title</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>Ada</rdf:li><rdf:li>Grace</rdf:li></rdf:Seq></dc:creator>
+      <dc:rights><rdf:Alt><rdf:li xml:lang="x-default">CC BY 4.0</rdf:li></rdf:Alt></dc:rights>
+      <dc:language><rdf:Bag><rdf:li>en</rdf:li></rdf:Bag></dc:language>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+async function createEncryptedPDFFile(name: string): Promise<File> {
+  const pdfDoc = await PDFDocument.load(await createPDFWithMetadata(), {
+    updateMetadata: false,
+  });
+  return createPDFFileFromBytes(
+    name,
+    await encryptRC4(pdfDoc, "secret", "owner"),
+  );
+}
+
+async function createPDFWithXMP(): Promise<PDFDocument> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage();
+  const stream = pdfDoc.context.stream(XMP_PACKET, {
+    Type: "Metadata",
+    Subtype: "XML",
+  });
+  pdfDoc.catalog.set(PDFName.of("Metadata"), pdfDoc.context.register(stream));
+  return pdfDoc;
+}
+
+describe("readPDFMetadata", () => {
+  it("should read the Info dictionary", async () => {
+    const file = createPDFFileFromBytes(
+      "report.pdf",
+      await createPDFWithMetadata(),
+    );
+
+    const result = await readPDFMetadata({ file });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.metadata).toMatchObject({
+        title: "Quarterly Report",
+        author: "Finance Team",
+        subject: "Q3 results",
+        keywords: "finance q3",
+        creator: "Report Builder",
+        producer: "Report Builder PDF",
+        hasXMP: false,
+      });
+      expect(result.metadata.creationDate?.toISOString()).toBe(
+        "2024-01-02T03:04:05.000Z",
+      );
+    }
+  });
+
+  it("should read encrypted files with their password", async () => {
+    const file = await createEncryptedPDFFile("locked.pdf");
+
+    const locked = await readPDFMetadata({ file });
+    const result = await readPDFMetadata({ file, password: "secret" });
+
+    expect(locked.success).toBe(false);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.metadata.title).toBe("Quarterly Report");
+      expect(result.metadata.author).toBe("Finance Team");
+    }
+  });
+
+  it("should reject non-PDF files", async () => {
+    const file = new File(["text"], "notes.txt", { type: "text/plain" });
+
+    const result = await readPDFMetadata({ file });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("Invalid file type");
+    }
+  });
+
+  it("should return an error for unreadable PDFs", async () => {
+    const file = createPDFFileFromBytes(
+      "broken.pdf",
+      new TextEncoder().encode("not a pdf"),
+    );
+
+    const result = await readPDFMetadata({ file });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe("Failed to read PDF metadata");
+    }
+  });
+});
+
+describe("getDocumentMetadata", () => {
+  it("should read Dublin Core fields from XMP", async () => {
+    const pdfDoc = await createPDFWithXMP();
+
+    const metadata = getDocumentMetadata(pdfDoc);
+
+    expect(metadata.hasXMP).toBe(true);
+    expect(metadata.dublinCore).toMatchObject({
+      title: "XMP Title",
+      creator: ["Ada", "Grace"],
+      rights: "CC BY 4.0",
+      language: "en",
+    });
+  });
+
+  it("should list custom Info entries", async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.setTitle("Invoice");
+    const info = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info) as any;
+    info.set(PDFName.of("InvoiceNumber"), PDFHexString.fromText("INV-42"));
+
+    expect(getDocumentMetadata(pdfDoc).customProperties).toEqual({
+      InvoiceNumber: "INV-42",
+    });
+  });
+});
+
+describe("applyMetadataChanges", () => {
+  it("should only change the given fields", async () => {
+    const pdfDoc = await PDFDocument.load(await createPDFWithMetadata(), {
+      updateMetadata: false,
+    });
+    const modificationDate = new Date("2025-05-06T07:08:09Z");
+
+    applyMetadataChanges(pdfDoc, { title: "Final Report", modificationDate });
+
+    const metadata = getDocumentMetadata(pdfDoc);
+    expect(metadata.title).toBe("Final Report");
+    expect(metadata.author).toBe("Finance Team");
+    expect(metadata.modificationDate?.toISOString()).toBe(
+      modificationDate.toISOString(),
+    );
+  });
+
+  it("should remove fields set to empty values", async () => {
+    const pdfDoc = await PDFDocument.load(await createPDFWithMetadata(), {
+      updateMetadata: false,
+    });
+
+    applyMetadataChanges(pdfDoc, { author: "", creationDate: null });
+
+    const metadata = getDocumentMetadata(pdfDoc);
+    expect(metadata.author).toBe("");
+    expect(metadata.creationDate).toBeUndefined();
+  });
+
+  it("should add and remove custom properties", async () => {
+    const pdfDoc = await PDFDocument.create();
+
+    applyMetadataChanges(pdfDoc, {
+      customProperties: { Department: "Legal", CaseId: "77" },
+    });
+    applyMetadataChanges(pdfDoc, { customProperties: { CaseId: null } });
+
+    expect(getDocumentMetadata(pdfDoc).customProperties).toEqual({
+      Department: "Legal",
+    });
+  });
+
+  it("should write an XMP packet matching the Info dictionary", async () => {
+    const pdfDoc = await PDFDocument.create();
+
+    applyMetadataChanges(pdfDoc, {
+      title: "Handbook",
+      author: "HR",
+      keywords: "policy, onboarding",
+      publisher: "ACME",
+      customProperties: { Department: "People" },
+    });
+
+    const metadata = getDocumentMetadata(pdfDoc);
+    expect(metadata.hasXMP).toBe(true);
+    expect(metadata.dublinCore).toMatchObject({
+      title: "Handbook",
+      creator: ["HR"],
+      subject: ["policy", "onboarding"],
+      publisher: "ACME",
+    });
+  });
+
+  it("should keep XMP properties it doesn't manage", async () => {
+    const pdfDoc = await createPDFWithXMP();
+
+    applyMetadataChanges(pdfDoc, { title: "New Title" });
+
+    const metadata = getDocumentMetadata(pdfDoc);
+    expect(metadata.dublinCore.title).toBe("New Title");
+    expect(metadata.dublinCore.rights).toBe("CC BY 4.0");
+    expect(metadata.dublinCore.language).toBe("en");
+
+    const stream = pdfDoc.catalog.lookup(PDFName.of("Metadata")) as any;
+    const packet = new TextDecoder().decode(stream.getContents());
+    expect(packet).toContain('photoshop:City="Berlin"');
+    expect(packet.match(/<dc:title>/g)).toHaveLength(1);
+  });
+});
+
+describe("removeDocumentMetadata", () => {
+  it("should drop the Info dictionary and XMP packet", async () => {
+    const pdfDoc = await createPDFWithXMP();
+    pdfDoc.setTitle("Secret");
+
+    removeDocumentMetadata(pdfDoc);
+
+    const reloaded = await PDFDocument.load(await pdfDoc.save(), {
+      updateMetadata: false,
+    });
+    expect(reloaded.getTitle()).toBeUndefined();
+    expect(getDocumentMetadata(reloaded).hasXMP).toBe(false);
+  });
+});
+
+describe("updatePDFMetadata", () => {
+  it("should return a PDF with the new metadata", async () => {
+    const file = createPDFFileFromBytes(
+      "report.pdf",
+      await createPDFWithMetadata(),
+    );
+
+    const result = await updatePDFMetadata({
+      file,
+      changes: { title: "Updated", customProperties: { Status: "Approved" } },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const reloaded = await PDFDocument.load(
+        await blobToBytes(result.pdfBlob),
+        { updateMetadata: false },
+      );
+      const metadata = getDocumentMetadata(reloaded);
+      expect(metadata.title).toBe("Updated");
+      expect(metadata.producer).toBe("Report Builder PDF");
+      expect(metadata.customProperties).toEqual({ Status: "Approved" });
+    }
+  });
+
+  it("should update encrypted files and write them unencrypted", async () => {
+    const file = await createEncryptedPDFFile("locked.pdf");
+
+    const result = await updatePDFMetadata({
+      file,
+      changes: { title: "Unlocked" },
+      password: "secret",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const reloaded = await PDFDocument.load(
+        await blobToBytes(result.pdfBlob),
+        { updateMetadata: false },
+      );
+      expect(reloaded.isEncrypted).toBe(false);
+      expect(getDocumentMetadata(reloaded).title).toBe("Unlocked");
+    }
+  });
+});
+
+describe("updateMultiplePDFMetadata", () => {
+  it("should require files", async () => {
+    const result = await updateMultiplePDFMetadata({
+      files: [],
+      changes: { title: "x" },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should update every file and report failures separately", async () => {
+    const bytes = await createPDFWithMetadata();
+    const files = [
+      createPDFFileFromBytes("a.pdf", bytes),
+      createPDFFileFromBytes("b.pdf", bytes),
+      new File(["text"], "c.txt", { type: "text/plain" }),
+    ];
+
+    const result = await updateMultiplePDFMetadata({
+      files,
+      changes: { author: "Archive" },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.results.map((r) => r.fileName)).toEqual(["a.pdf", "b.pdf"]);
+      expect(result.failures).toHaveLength(1);
+      expect(result.failures[0].fileName).toBe("c.txt");
+    }
+  });
+
+  it("should take a password per file in batches", async () => {
+    const result = await updateMultiplePDFMetadata({
+      files: [
+        { file: await createEncryptedPDFFile("a.pdf"), password: "secret" },
+        await createEncryptedPDFFile("b.pdf"),
+      ],
+      changes: { author: "Archive" },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.results.map((r) => r.fileName)).toEqual(["a.pdf"]);
+      expect(result.failures.map((f) => f.fileName)).toEqual(["b.pdf"]);
+    }
+  });
+});
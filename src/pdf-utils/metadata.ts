@@ -0,0 +1,758 @@
+import {
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from "pdf-lib";
+import { getStreamBytes } from "./content-stream";
+import { loadPDFDocument } from "./decrypt";
+
+export interface DublinCoreMetadata {
+  title: string;
+  creator: string[];
+  description: string;
+  subject: string[];
+  rights: string;
+  publisher: string;
+  language: string;
+}
+
+export interface PDFMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string;
+  creator: string; // Application that created the original document
+  producer: string;
+  creationDate?: Date;
+  modificationDate?: Date;
+  customProperties: Record<string, string>;
+  dublinCore: DublinCoreMetadata; // From the XMP packet, empty when missing
+  hasXMP: boolean;
+}
+
+export interface MetadataChanges {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  creationDate?: Date | null; // null removes the date
+  modificationDate?: Date | null; // Defaults to the time of the change
+  customProperties?: Record<string, string | null>; // null removes the property
+  rights?: string; // XMP only
+  publisher?: string; // XMP only
+  language?: string; // XMP only
+}
+
+export interface ReadPDFMetadataOptions {
+  file: File;
+  password?: string; // For encrypted files
+}
+
+export interface ReadPDFMetadataResult {
+  success: true;
+  metadata: PDFMetadata;
+}
+
+export interface UpdatePDFMetadataOptions {
+  file: File;
+  changes: MetadataChanges;
+  password?: string; // For encrypted files; the output isn't encrypted
+}
+
+export interface UpdatePDFMetadataResult {
+  success: true;
+  pdfBlob: Blob;
+}
+
+export interface MetadataFileEntry {
+  file: File;
+  password?: string; // For encrypted files; the output isn't encrypted
+}
+
+export interface UpdateMultiplePDFMetadataOptions {
+  files: Array<File | MetadataFileEntry>;
+  changes: MetadataChanges;
+}
+
+export interface UpdateMultiplePDFMetadataResult {
+  success: true;
+  results: Array<{ fileName: string; pdfBlob: Blob }>;
+  failures: Array<{ fileName: string; error: string }>;
+}
+
+export interface MetadataError {
+  success: false;
+  error: string;
+  details?: string;
+}
+
+export type ReadPDFMetadataResponse = ReadPDFMetadataResult | MetadataError;
+export type UpdatePDFMetadataResponse = UpdatePDFMetadataResult | MetadataError;
+export type UpdateMultiplePDFMetadataResponse =
+  | UpdateMultiplePDFMetadataResult
+  | MetadataError;
+
+// Info dictionary keys with a dedicated field; everything else is custom
+const STANDARD_INFO_KEYS = new Set([
+  "Title",
+  "Author",
+  "Subject",
+  "Keywords",
+  "Creator",
+  "Producer",
+  "CreationDate",
+  "ModDate",
+  "Trapped",
+]);
+
+const XMP_NAMESPACES = {
+  x: "adobe:ns:meta/",
+  rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  dc: "http://purl.org/dc/elements/1.1/",
+  xmp: "http://ns.adobe.com/xap/1.0/",
+  pdf: "http://ns.adobe.com/pdf/1.3/",
+  pdfx: "http://ns.adobe.com/pdfx/1.3/",
+} as const;
+
+type XMPPrefix = keyof typeof XMP_NAMESPACES;
+type XMPContainer = "Alt" | "Bag" | "Seq" | null;
+
+interface XMPProperty {
+  prefix: XMPPrefix;
+  name: string;
+  container: XMPContainer;
+  values: string[];
+}
+
+/**
+ * Reads the Info dictionary and XMP packet of a PDF
+ * @param options - Configuration object containing the PDF file
+ * @returns Promise that resolves to the document metadata or error
+ */
+export async function readPDFMetadata(
+  options: ReadPDFMetadataOptions,
+): Promise<ReadPDFMetadataResponse> {
+  try {
+    const { file, password } = options;
+
+    const validationError = validatePDFFile(file);
+    if (validationError) {
+      return validationError;
+    }
+
+    const fileBuffer = await file.arrayBuffer();
+    const pdfDoc = await loadPDFDocument(fileBuffer, {
+      password,
+      updateMetadata: false,
+    });
+
+    return { success: true, metadata: getDocumentMetadata(pdfDoc) };
+  } catch (error) {
+    return {
+      success: false,
+      error: "Failed to read PDF metadata",
+      details: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Applies metadata changes to a PDF. Fields left undefined are kept, and the
+ * XMP packet is rewritten so it matches the Info dictionary.
+ * @param options - Configuration object containing the PDF file and changes
+ * @returns Promise that resolves to the updated PDF blob or error
+ */
+export async function updatePDFMetadata(
+  options: UpdatePDFMetadataOptions,
+): Promise<UpdatePDFMetadataResponse> {
+  try {
+    const { file, changes, password } = options;
+
+    const validationError = validatePDFFile(file);
+    if (validationError) {
+      return validationError;
+    }
+
+    const fileBuffer = await file.arrayBuffer();
+    const pdfDoc = await loadPDFDocument(fileBuffer, {
+      password,
+      updateMetadata: false,
+    });
+
+    applyMetadataChanges(pdfDoc, changes);
+
+    const pdfBytes = await pdfDoc.save();
+    const pdfBlob = new Blob([pdfBytes], { type: "application/pdf" });
+
+    return { success: true, pdfBlob };
+  } catch (error) {
+    return {
+      success: false,
+      error: "Failed to update PDF metadata",
+      details: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Applies the same metadata changes to several PDFs. Files that fail are
+ * reported individually instead of aborting the whole batch.
+ * @param options - Configuration object containing the PDF files and changes
+ * @returns Promise that resolves to the updated PDF blobs or error
+ */
+export async function updateMultiplePDFMetadata(
+  options: UpdateMultiplePDFMetadataOptions,
+): Promise<UpdateMultiplePDFMetadataResponse> {
+  const { files, changes } = options;
+
+  if (!files || files.length === 0) {
+    return { success: false, error: "No files provided" };
+  }
+
+  // Share one modification date across the batch
+  const batchChanges: MetadataChanges = {
+    ...changes,
+    modificationDate:
+      changes.modificationDate === undefined
+        ? new Date()
+        : changes.modificationDate,
+  };
+
+  const results: UpdateMultiplePDFMetadataResult["results"] = [];
+  const failures: UpdateMultiplePDFMetadataResult["failures"] = [];
+
+  const entries = files.map((entry) =>
+    entry instanceof File ? { file: entry } : entry,
+  );
+
+  for (const { file, password } of entries) {
+    const result = await updatePDFMetadata({
+      file,
+      changes: batchChanges,
+      password,
+    });
+    if (result.success) {
+      results.push({ fileName: file.name, pdfBlob: result.pdfBlob });
+    } else {
+      failures.push({
+        fileName: file.name,
+        error: result.details
+          ? `${result.error}: ${result.details}`
+          : result.error,
+      });
+    }
+  }
+
+  if (results.length === 0) {
+    return {
+      success: false,
+      error: "Failed to update metadata of any file",
+      details: failures.map((f) => `${f.fileName}: ${f.error}`).join("\n"),
+    };
+  }
+
+  return { success: true, results, failures };
+}
+
+/**
+ * Reads all metadata from a loaded document
+ */
+export function getDocumentMetadata(pdfDoc: PDFDocument): PDFMetadata {
+  const info = getInfoDict(pdfDoc, false);
+  const customProperties: Record<string, string> = {};
+
+  if (info) {
+    for (const [key, value] of info.entries()) {
+      const name = key.decodeText();
+      if (STANDARD_INFO_KEYS.has(name)) continue;
+
+      const resolved = pdfDoc.context.lookup(value);
+      if (resolved instanceof PDFString || resolved instanceof PDFHexString) {
+        customProperties[name] = resolved.decodeText();
+      } else if (resolved instanceof PDFName) {
+        customProperties[name] = resolved.decodeText();
+      }
+    }
+  }
+
+  const xmpPacket = readXMPPacket(pdfDoc);
+  const xmpDocument = xmpPacket ? parseXMP(xmpPacket) : null;
+
+  return {
+    title: pdfDoc.getTitle() ?? "",
+    author: pdfDoc.getAuthor() ?? "",
+    subject: pdfDoc.getSubject() ?? "",
+    keywords: pdfDoc.getKeywords() ?? "",
+    creator: pdfDoc.getCreator() ?? "",
+    producer: pdfDoc.getProducer() ?? "",
+    creationDate: pdfDoc.getCreationDate(),
+    modificationDate: pdfDoc.getModificationDate(),
+    customProperties,
+    dublinCore: xmpDocument
+      ? readDublinCore(xmpDocument)
+      : createEmptyDublinCore(),
+    hasXMP: xmpDocument !== null,
+  };
+}
+
+/**
+ * Writes metadata changes into the Info dictionary and regenerates the
+ * managed properties of the XMP packet from the result
+ */
+export function applyMetadataChanges(
+  pdfDoc: PDFDocument,
+  changes: MetadataChanges,
+): void {
+  const info = getInfoDict(pdfDoc, true)!;
+
+  const textFields: Array<[keyof MetadataChanges, string]> = [
+    ["title", "Title"],
+    ["author", "Author"],
+    ["subject", "Subject"],
+    ["keywords", "Keywords"],
+    ["creator", "Creator"],
+    ["producer", "Producer"],
+  ];
+  for (const [field, key] of textFields) {
+    const value = changes[field];
+    if (typeof value === "string") {
+      setInfoText(info, key, value);
+    }
+  }
+
+  if (changes.creationDate !== undefined) {
+    setInfoDate(info, "CreationDate", changes.creationDate);
+  }
+  setInfoDate(
+    info,
+    "ModDate",
+    changes.modificationDate === undefined
+      ? new Date()
+      : changes.modificationDate,
+  );
+
+  for (const [name, value] of Object.entries(changes.customProperties ?? {})) {
+    if (!name || STANDARD_INFO_KEYS.has(name)) continue;
+    setInfoText(info, name, value ?? "");
+  }
+
+  const current = getDocumentMetadata(pdfDoc);
+  const existingPacket = readXMPPacket(pdfDoc);
+  const xmpDocument =
+    (existingPacket && parseXMP(existingPacket)) || createXMPDocument();
+
+  writeXMPProperties(xmpDocument, [
+    altProperty("dc", "title", current.title),
+    seqProperty("dc", "creator", current.author ? [current.author] : []),
+    altProperty("dc", "description", current.subject),
+    bagProperty("dc", "subject", splitKeywords(current.keywords)),
+    altProperty("dc", "rights", changes.rights ?? current.dublinCore.rights),
+    bagProperty(
+      "dc",
+      "publisher",
+      compact([changes.publisher ?? current.dublinCore.publisher]),
+    ),
+    bagProperty(
+      "dc",
+      "language",
+      compact([changes.language ?? current.dublinCore.language]),
+    ),
+    simpleProperty("xmp", "CreatorTool", current.creator),
+    simpleProperty("xmp", "CreateDate", formatXMPDate(current.creationDate)),
+    simpleProperty(
+      "xmp",
+      "ModifyDate",
+      formatXMPDate(current.modificationDate),
+    ),
+    simpleProperty(
+      "xmp",
+      "MetadataDate",
+      formatXMPDate(current.modificationDate),
+    ),
+    simpleProperty("pdf", "Producer", current.producer),
+    simpleProperty("pdf", "Keywords", current.keywords),
+  ]);
+  replaceCustomXMPProperties(xmpDocument, current.customProperties);
+
+  writeXMPPacket(pdfDoc, serializeXMP(xmpDocument));
+}
+
+/**
+ * Removes the Info dictionary and XMP packet from a document
+ */
+export function removeDocumentMetadata(pdfDoc: PDFDocument): void {
+  const { context, catalog } = pdfDoc;
+
+  if (context.trailerInfo.Info instanceof PDFRef) {
+    context.delete(context.trailerInfo.Info);
+  }
+  context.trailerInfo.Info = undefined;
+
+  const metadataRef = catalog.get(PDFName.of("Metadata"));
+  if (metadataRef instanceof PDFRef) {
+    context.delete(metadataRef);
+  }
+  catalog.delete(PDFName.of("Metadata"));
+}
+
+function validatePDFFile(file: File): MetadataError | null {
+  if (!file) {
+    return { success: false, error: "No file provided" };
+  }
+
+  if (file.type !== "application/pdf") {
+    return {
+      success: false,
+      error: `Invalid file type: ${file.name}. Only PDF files are supported.`,
+      details: `Expected 'application/pdf', got '${file.type}'`,
+    };
+  }
+
+  return null;
+}
+
+function getInfoDict(pdfDoc: PDFDocument, create: boolean): PDFDict | null {
+  const { context } = pdfDoc;
+  const existing = context.trailerInfo.Info
+    ? context.lookup(context.trailerInfo.Info)
+    : undefined;
+
+  if (existing instanceof PDFDict) {
+    return existing;
+  }
+  if (!create) {
+    return null;
+  }
+
+  const info = context.obj({});
+  context.trailerInfo.Info = context.register(info);
+  return info;
+}
+
+// Empty values remove the key instead of storing an empty string
+function setInfoText(info: PDFDict, key: string, value: string): void {
+  if (value === "") {
+    info.delete(PDFName.of(key));
+  } else {
+    info.set(PDFName.of(key), PDFHexString.fromText(value));
+  }
+}
+
+function setInfoDate(info: PDFDict, key: string, value: Date | null): void {
+  if (value === null) {
+    info.delete(PDFName.of(key));
+  } else {
+    info.set(PDFName.of(key), PDFString.fromDate(value));
+  }
+}
+
+function splitKeywords(keywords: string): string[] {
+  return keywords
+    .split(/[,;]/)
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+}
+
+function compact(values: Array<string | undefined>): string[] {
+  return values.filter((value): value is string => Boolean(value));
+}
+
+function formatXMPDate(date: Date | undefined): string {
+  return date ? date.toISOString().replace(/\.\d{3}Z$/, "Z") : "";
+}
+
+function createEmptyDublinCore(): DublinCoreMetadata {
+  return {
+    title: "",
+    creator: [],
+    description: "",
+    subject: [],
+    rights: "",
+    publisher: "",
+    language: "",
+  };
+}
+
+function readXMPPacket(pdfDoc: PDFDocument): string | null {
+  const stream = pdfDoc.catalog.lookupMaybe(PDFName.of("Metadata"), PDFStream);
+  if (!stream) {
+    return null;
+  }
+  try {
+    return new TextDecoder("utf-8").decode(getStreamBytes(stream));
+  } catch (error) {
+    console.warn("Failed to decode XMP metadata stream:", error);
+    return null;
+  }
+}
+
+function writeXMPPacket(pdfDoc: PDFDocument, packet: string): void {
+  const { context, catalog } = pdfDoc;
+
+  // XMP stays uncompressed so file scanners can find it
+  const stream = PDFRawStream.of(
+    context.obj({ Type: "Metadata", Subtype: "XML" }),
+    new TextEncoder().encode(packet),
+  );
+
+  const existingRef = catalog.get(PDFName.of("Metadata"));
+  if (existingRef instanceof PDFRef) {
+    context.assign(existingRef, stream);
+  } else {
+    catalog.set(PDFName.of("Metadata"), context.register(stream));
+  }
+}
+
+function parseXMP(packet: string): XMLDocument | null {
+  const start = packet.indexOf("<x:xmpmeta");
+  const rdfStart = packet.indexOf("<rdf:RDF");
+  const xml = packet.slice(start >= 0 ? start : Math.max(rdfStart, 0));
+  const end = xml.lastIndexOf("<?xpacket");
+
+  const xmpDocument = new DOMParser().parseFromString(
+    end >= 0 ? xml.slice(0, end) : xml,
+    "application/xml",
+  );
+  if (
+    xmpDocument.getElementsByTagName("parsererror").length > 0 ||
+    !getRDFElement(xmpDocument)
+  ) {
+    return null;
+  }
+  return xmpDocument;
+}
+
+function createXMPDocument(): XMLDocument {
+  return new DOMParser().parseFromString(
+    `<x:xmpmeta xmlns:x="${XMP_NAMESPACES.x}"><rdf:RDF xmlns:rdf="${XMP_NAMESPACES.rdf}"></rdf:RDF></x:xmpmeta>`,
+    "application/xml",
+  );
+}
+
+function serializeXMP(xmpDocument: XMLDocument): string {
+  const body = new XMLSerializer().serializeToString(
+    xmpDocument.documentElement,
+  );
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n${body}\n<?xpacket end="w"?>`;
+}
+
+function getRDFElement(xmpDocument: XMLDocument): Element | null {
+  return (
+    xmpDocument.getElementsByTagNameNS(XMP_NAMESPACES.rdf, "RDF")[0] ?? null
+  );
+}
+
+function readDublinCore(xmpDocument: XMLDocument): DublinCoreMetadata {
+  const read = (name: string) => readXMPValues(xmpDocument, "dc", name);
+
+  return {
+    title: read("title")[0] ?? "",
+    creator: read("creator"),
+    description: read("description")[0] ?? "",
+    subject: read("subject"),
+    rights: read("rights")[0] ?? "",
+    publisher: read("publisher").join(", "),
+    language: read("language").join(", "),
+  };
+}
+
+// Values of a property in element form (simple or rdf:li items) or written
+// as an attribute of rdf:Description
+function readXMPValues(
+  xmpDocument: XMLDocument,
+  prefix: XMPPrefix,
+  name: string,
+): string[] {
+  const namespace = XMP_NAMESPACES[prefix];
+  const element = xmpDocument.getElementsByTagNameNS(namespace, name)[0];
+
+  if (element) {
+    const items = Array.from(
+      element.getElementsByTagNameNS(XMP_NAMESPACES.rdf, "li"),
+    );
+    if (items.length > 0) {
+      return items.map((item) => item.textContent?.trim() ?? "");
+    }
+    const text = element.textContent?.trim() ?? "";
+    return text ? [text] : [];
+  }
+
+  for (const description of Array.from(
+    xmpDocument.getElementsByTagNameNS(XMP_NAMESPACES.rdf, "Description"),
+  )) {
+    const value = description.getAttributeNS(namespace, name);
+    if (value) {
+      return [value];
+    }
+  }
+  return [];
+}
+
+function altProperty(
+  prefix: XMPPrefix,
+  name: string,
+  value: string,
+): XMPProperty {
+  return { prefix, name, container: "Alt", values: compact([value]) };
+}
+
+function bagProperty(
+  prefix: XMPPrefix,
+  name: string,
+  values: string[],
+): XMPProperty {
+  return { prefix, name, container: "Bag", values };
+}
+
+function seqProperty(
+  prefix: XMPPrefix,
+  name: string,
+  values: string[],
+): XMPProperty {
+  return { prefix, name, container: "Seq", values };
+}
+
+function simpleProperty(
+  prefix: XMPPrefix,
+  name: string,
+  value: string,
+): XMPProperty {
+  return { prefix, name, container: null, values: compact([value]) };
+}
+
+/**
+ * Removes every existing occurrence of the given properties and writes the
+ * non-empty ones into a single rdf:Description. Properties the tool doesn't
+ * manage are left untouched.
+ */
+function writeXMPProperties(
+  xmpDocument: XMLDocument,
+  properties: XMPProperty[],
+): void {
+  for (const { prefix, name } of properties) {
+    removeXMPProperty(xmpDocument, XMP_NAMESPACES[prefix], name);
+  }
+
+  const description = getManagedDescription(xmpDocument);
+  for (const property of properties) {
+    if (property.values.length > 0) {
+      description.appendChild(createXMPPropertyElement(xmpDocument, property));
+    }
+  }
+}
+
+function replaceCustomXMPProperties(
+  xmpDocument: XMLDocument,
+  customProperties: Record<string, string>,
+): void {
+  const namespace = XMP_NAMESPACES.pdfx;
+  for (const element of Array.from(
+    xmpDocument.getElementsByTagNameNS(namespace, "*"),
+  )) {
+    element.parentNode?.removeChild(element);
+  }
+  for (const description of Array.from(
+    xmpDocument.getElementsByTagNameNS(XMP_NAMESPACES.rdf, "Description"),
+  )) {
+    for (const attribute of Array.from(description.attributes)) {
+      if (attribute.namespaceURI === namespace) {
+        description.removeAttributeNode(attribute);
+      }
+    }
+  }
+
+  writeXMPProperties(
+    xmpDocument,
+    Object.entries(customProperties)
+      .filter(([name]) => /^[A-Za-z_][\w.-]*$/.test(name))
+      .map(([name, value]) => simpleProperty("pdfx", name, value)),
+  );
+}
+
+function removeXMPProperty(
+  xmpDocument: XMLDocument,
+  namespace: string,
+  name: string,
+): void {
+  for (const element of Array.from(
+    xmpDocument.getElementsByTagNameNS(namespace, name),
+  )) {
+    element.parentNode?.removeChild(element);
+  }
+  for (const description of Array.from(
+    xmpDocument.getElementsByTagNameNS(XMP_NAMESPACES.rdf, "Description"),
+  )) {
+    description.removeAttributeNS(namespace, name);
+  }
+}
+
+// Managed properties go into the first rdf:Description, which gets the
+// namespace declarations it is missing
+function getManagedDescription(xmpDocument: XMLDocument): Element {
+  const rdf = getRDFElement(xmpDocument)!;
+  let description = rdf.getElementsByTagNameNS(
+    XMP_NAMESPACES.rdf,
+    "Description",
+  )[0];
+
+  if (!description) {
+    description = xmpDocument.createElementNS(
+      XMP_NAMESPACES.rdf,
+      "rdf:Description",
+    );
+    description.setAttributeNS(XMP_NAMESPACES.rdf, "rdf:about", "");
+    rdf.appendChild(description);
+  }
+
+  for (const prefix of ["dc", "xmp", "pdf", "pdfx"] as const) {
+    if (!description.hasAttribute(`xmlns:${prefix}`)) {
+      description.setAttributeNS(
+        "http://www.w3.org/2000/xmlns/",
+        `xmlns:${prefix}`,
+        XMP_NAMESPACES[prefix],
+      );
+    }
+  }
+  return description;
+}
+
+function createXMPPropertyElement(
+  xmpDocument: XMLDocument,
+  { prefix, name, container, values }: XMPProperty,
+): Element {
+  const element = xmpDocument.createElementNS(
+    XMP_NAMESPACES[prefix],
+    `${prefix}:${name}`,
+  );
+
+  if (!container) {
+    element.textContent = values[0];
+    return element;
+  }
+
+  const list = xmpDocument.createElementNS(
+    XMP_NAMESPACES.rdf,
+    `rdf:${container}`,
+  );
+  for (const value of values) {
+    const item = xmpDocument.createElementNS(XMP_NAMESPACES.rdf, "rdf:li");
+    if (container === "Alt") {
+      item.setAttributeNS(
+        "http://www.w3.org/XML/1998/namespace",
+        "xml:lang",
+        "x-default",
+      );
+    }
+    item.textContent = value;
+    list.appendChild(item);
+  }
+  element.appendChild(list);
+  return element;
+}
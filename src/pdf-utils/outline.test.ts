@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, PDFHexString, PDFName, PDFNumber } from "pdf-lib";
+import {
+  readOutline,
+  remapOutline,
+  writeOutline,
+  type OutlineItem,
+} from "./outline";
+
+function item(
+  title: string,
+  pageIndex: number | null,
+  children: OutlineItem[] = [],
+): OutlineItem {
+  return { title, pageIndex, view: [], open: true, children };
+}
+
+async function createDocument(pageCount: number) {
+  const pdfDoc = await PDFDocument.create();
+  for (let index = 0; index < pageCount; index++) pdfDoc.addPage();
+  return pdfDoc;
+}
+
+// Keeps only what matters for comparisons
+function summarize(items: OutlineItem[]): unknown[] {
+  return items.map(({ title, pageIndex, children }) => ({
+    title,
+    pageIndex,
+    children: summarize(children),
+  }));
+}
+
+describe("writeOutline and readOutline", () => {
+  it("should round-trip nested items", async () => {
+    const pdfDoc = await createDocument(4);
+    const items = [
+      item("Part 1", 0, [item("Chapter 1", 1), item("Chapter 2", 2)]),
+      item("Appendix", null, [item("Índice", 3)]),
+    ];
+
+    writeOutline(pdfDoc, items);
+    const reloaded = await PDFDocument.load(await pdfDoc.save());
+
+    expect(summarize(readOutline(reloaded))).toEqual(summarize(items));
+  });
+
+  it("should count visible items and close collapsed ones", async () => {
+    const pdfDoc = await createDocument(3);
+    writeOutline(pdfDoc, [
+      { ...item("Open", 0, [item("A", 1), item("B", 2)]) },
+      { ...item("Closed", 0, [item("C", 1)]), open: false },
+    ]);
+
+    const outlines = pdfDoc.catalog.lookup(PDFName.of("Outlines")) as any;
+    expect(outlines.lookup(PDFName.of("Count")).asNumber()).toBe(4);
+    const closed = outlines.lookup(PDFName.of("Last"));
+    expect(closed.lookup(PDFName.of("Count")).asNumber()).toBe(-1);
+    expect(readOutline(pdfDoc)[1].open).toBe(false);
+  });
+
+  it("should resolve named destinations", async () => {
+    const pdfDoc = await createDocument(2);
+    const { context } = pdfDoc;
+    const dest = context.obj([
+      pdfDoc.getPage(1).ref,
+      PDFName.of("XYZ"),
+      PDFNumber.of(0),
+      PDFNumber.of(500),
+      null,
+    ]);
+    pdfDoc.catalog.set(
+      PDFName.of("Names"),
+      context.obj({
+        Dests: context.obj({
+          Names: [PDFHexString.fromText("summary"), dest],
+        }),
+      }),
+    );
+    const itemRef = context.register(
+      context.obj({
+        Title: PDFHexString.fromText("Summary"),
+        A: context.obj({ S: "GoTo", D: PDFHexString.fromText("summary") }),
+      }),
+    );
+    pdfDoc.catalog.set(
+      PDFName.of("Outlines"),
+      context.obj({ First: itemRef, Last: itemRef, Count: 1 }),
+    );
+
+    const [summary] = readOutline(pdfDoc);
+
+    expect(summary.pageIndex).toBe(1);
+    expect(summary.view.map(String)).toEqual(["/XYZ", "0", "500", "null"]);
+  });
+
+  it("should remove the outline when there are no items", async () => {
+    const pdfDoc = await createDocument(1);
+    writeOutline(pdfDoc, [item("Start", 0)]);
+    writeOutline(pdfDoc, []);
+
+    expect(pdfDoc.catalog.get(PDFName.of("Outlines"))).toBeUndefined();
+  });
+});
+
+describe("remapOutline", () => {
+  it("should move items and lift children of dropped pages", () => {
+    const items = [
+      item("Kept", 0),
+      item("Dropped", 1, [item("Child", 2)]),
+      item("Heading", null),
+    ];
+
+    const remapped = remapOutline(
+      items,
+      new Map([
+        [0, 5],
+        [2, 6],
+      ]),
+    );
+
+    expect(summarize(remapped)).toEqual([
+      { title: "Kept", pageIndex: 5, children: [] },
+      { title: "Child", pageIndex: 6, children: [] },
+      { title: "Heading", pageIndex: null, children: [] },
+    ]);
+  });
+});
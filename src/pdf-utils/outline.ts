@@ -0,0 +1,162 @@
+import {
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRef,
+  PDFString,
+} from "pdf-lib";
+import {
+  getDestination,
+  getDestinationView,
+  resolveDestination,
+} from "./destinations";
+
+export interface OutlineItem {
+  title: string;
+  pageIndex: number | null; // 0-based target page, null for headings
+  view: PDFObject[]; // Fit type and its parameters, e.g. [/XYZ 0 792 null]
+  open: boolean;
+  children: OutlineItem[];
+}
+
+/**
+ * Reads a document's outline, resolving named destinations and GoTo actions
+ * to page indices. Items pointing anywhere else become headings.
+ */
+export function readOutline(pdfDoc: PDFDocument): OutlineItem[] {
+  const outlines = pdfDoc.catalog.lookupMaybe(PDFName.of("Outlines"), PDFDict);
+  if (!outlines) return [];
+
+  const pageIndices = new Map<PDFRef, number>();
+  pdfDoc.getPages().forEach((page, index) => pageIndices.set(page.ref, index));
+
+  const visited = new Set<PDFDict>();
+  const readItems = (parent: PDFDict): OutlineItem[] => {
+    const items: OutlineItem[] = [];
+    let item = parent.lookupMaybe(PDFName.of("First"), PDFDict);
+
+    while (item && !visited.has(item)) {
+      visited.add(item);
+      const target = resolveDestination(pdfDoc, getDestination(item));
+      const page = target?.get(0);
+      const pageIndex =
+        page instanceof PDFRef
+          ? pageIndices.get(page)
+          : page instanceof PDFNumber
+            ? page.asNumber()
+            : undefined;
+      const count = item.lookupMaybe(PDFName.of("Count"), PDFNumber);
+
+      items.push({
+        title: decodeTitle(item.lookup(PDFName.of("Title"))),
+        pageIndex:
+          pageIndex !== undefined && pageIndex < pageIndices.size
+            ? pageIndex
+            : null,
+        view: target ? getDestinationView(pdfDoc, target) : [],
+        open: !!count && count.asNumber() > 0,
+        children: readItems(item),
+      });
+      item = item.lookupMaybe(PDFName.of("Next"), PDFDict);
+    }
+    return items;
+  };
+
+  return readItems(outlines);
+}
+
+/**
+ * Replaces a document's outline. `pageRefs` maps the items' page indices to
+ * pages of `pdfDoc`.
+ */
+export function writeOutline(
+  pdfDoc: PDFDocument,
+  items: OutlineItem[],
+  pageRefs: PDFRef[] = pdfDoc.getPages().map((page) => page.ref),
+): void {
+  if (items.length === 0) {
+    pdfDoc.catalog.delete(PDFName.of("Outlines"));
+    return;
+  }
+
+  const { context } = pdfDoc;
+  const outlinesRef = context.nextRef();
+
+  // Count is the number of items visible while the parent is open
+  const writeLevel = (parentRef: PDFRef, children: OutlineItem[]) => {
+    const refs = children.map(() => context.nextRef());
+    let visibleCount = 0;
+
+    children.forEach((item, index) => {
+      const dict = context.obj({
+        Title: PDFHexString.fromText(item.title),
+        Parent: parentRef,
+      });
+      if (index > 0) dict.set(PDFName.of("Prev"), refs[index - 1]);
+      if (index < refs.length - 1) {
+        dict.set(PDFName.of("Next"), refs[index + 1]);
+      }
+
+      const pageRef =
+        item.pageIndex !== null ? pageRefs[item.pageIndex] : undefined;
+      if (pageRef) {
+        const view = item.view.length > 0 ? item.view : [PDFName.of("Fit")];
+        dict.set(PDFName.of("Dest"), context.obj([pageRef, ...view]));
+      }
+
+      if (item.children.length > 0) {
+        const { first, last, count } = writeLevel(refs[index], item.children);
+        dict.set(PDFName.of("First"), first);
+        dict.set(PDFName.of("Last"), last);
+        dict.set(
+          PDFName.of("Count"),
+          PDFNumber.of(item.open ? count : -item.children.length),
+        );
+        if (item.open) visibleCount += count;
+      }
+
+      context.assign(refs[index], dict);
+      visibleCount++;
+    });
+
+    return { first: refs[0], last: refs[refs.length - 1], count: visibleCount };
+  };
+
+  const { first, last, count } = writeLevel(outlinesRef, items);
+  context.assign(
+    outlinesRef,
+    context.obj({ Type: "Outlines", First: first, Last: last, Count: count }),
+  );
+  pdfDoc.catalog.set(PDFName.of("Outlines"), outlinesRef);
+}
+
+/**
+ * Moves items to new page indices. Items whose page is gone are replaced by
+ * their remaining children.
+ */
+export function remapOutline(
+  items: OutlineItem[],
+  pageMap: Map<number, number>,
+): OutlineItem[] {
+  return items.flatMap((item) => {
+    const children = remapOutline(item.children, pageMap);
+    if (item.pageIndex === null) {
+      return [{ ...item, children }];
+    }
+
+    const pageIndex = pageMap.get(item.pageIndex);
+    return pageIndex === undefined
+      ? children
+      : [{ ...item, pageIndex, children }];
+  });
+}
+
+function decodeTitle(title: PDFObject | undefined): string {
+  if (title instanceof PDFString || title instanceof PDFHexString) {
+    return title.decodeText();
+  }
+  return "";
+}
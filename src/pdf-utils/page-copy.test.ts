@@ -0,0 +1,224 @@
+import { describe, it, expect } from "vitest";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFPageLeaf,
+  PDFRef,
+  PDFString,
+} from "pdf-lib";
+import { appendPages } from "./page-copy";
+import { readOutline, writeOutline } from "./outline";
+import { listNamedDestinations } from "./destinations";
+
+// Three pages. Page 1 links to page 3, to the named destination "middle"
+// (page 2) and to a website. A text field sits on page 2 and a radio group
+// has one button on page 1 and one on page 3.
+async function createSource(): Promise<PDFDocument> {
+  const pdfDoc = await PDFDocument.create();
+  const pages = [pdfDoc.addPage(), pdfDoc.addPage(), pdfDoc.addPage()];
+  const { context } = pdfDoc;
+
+  const addLink = (entries: Record<string, unknown>) => {
+    const ref = context.register(
+      context.obj({
+        Type: "Annot",
+        Subtype: "Link",
+        Rect: [0, 0, 10, 10],
+        ...entries,
+      } as any),
+    );
+    pages[0].node.addAnnot(ref);
+  };
+  addLink({ Dest: [pages[2].ref, PDFName.of("Fit")] });
+  addLink({ A: context.obj({ S: "GoTo", D: PDFString.of("middle") }) });
+  addLink({
+    A: context.obj({ S: "URI", URI: PDFString.of("https://example.com") }),
+  });
+
+  pdfDoc.catalog.set(
+    PDFName.of("Names"),
+    context.obj({
+      Dests: context.obj({
+        Names: [
+          PDFString.of("middle"),
+          context.obj([pages[1].ref, PDFName.of("Fit")]),
+        ],
+      }),
+    }),
+  );
+
+  const form = pdfDoc.getForm();
+  form.createTextField("name").addToPage(pages[1]);
+  const choice = form.createRadioGroup("choice");
+  choice.addOptionToPage("first", pages[0]);
+  choice.addOptionToPage("last", pages[2]);
+
+  writeOutline(pdfDoc, [
+    { title: "Start", pageIndex: 0, view: [], open: true, children: [] },
+    { title: "End", pageIndex: 2, view: [], open: true, children: [] },
+  ]);
+
+  // Round-trip so the source looks like a loaded file
+  return PDFDocument.load(await pdfDoc.save());
+}
+
+function getLinks(pdfDoc: PDFDocument, pageIndex: number): PDFDict[] {
+  const annots = pdfDoc.getPage(pageIndex).node.Annots();
+  return (annots?.asArray() ?? [])
+    .map((ref) => pdfDoc.context.lookup(ref, PDFDict))
+    .filter((annot) => annot.get(PDFName.of("Subtype")) === PDFName.of("Link"));
+}
+
+function getGoToAction(pdfDoc: PDFDocument, pageIndex: number): PDFDict {
+  return getLinks(pdfDoc, pageIndex)
+    .map((link) => link.lookup(PDFName.of("A")))
+    .find(
+      (action): action is PDFDict =>
+        action instanceof PDFDict &&
+        action.get(PDFName.of("S")) === PDFName.of("GoTo"),
+    )!;
+}
+
+function getLinkPage(pdfDoc: PDFDocument, link: PDFDict): number {
+  const dest = link.lookup(PDFName.of("Dest"), PDFArray);
+  return pdfDoc.getPages().findIndex((page) => page.ref === dest.get(0));
+}
+
+function countPageObjects(pdfDoc: PDFDocument): number {
+  return pdfDoc.context
+    .enumerateIndirectObjects()
+    .filter(([, object]) => object instanceof PDFPageLeaf).length;
+}
+
+describe("appendPages", () => {
+  it("should point links at the copied pages", async () => {
+    const source = await createSource();
+    const target = await PDFDocument.create();
+
+    await appendPages(target, source, [2, 0]);
+
+    const [explicit] = getLinks(target, 1);
+    expect(getLinkPage(target, explicit)).toBe(0);
+  });
+
+  it("should drop links to pages left out and keep other actions", async () => {
+    const source = await createSource();
+    const target = await PDFDocument.create();
+
+    await appendPages(target, source, [0]);
+
+    const links = getLinks(target, 0);
+    expect(links).toHaveLength(1);
+    expect(links[0].lookup(PDFName.of("A"), PDFDict).get(PDFName.of("S"))).toBe(
+      PDFName.of("URI"),
+    );
+    // The linked page isn't copied along
+    expect(countPageObjects(target)).toBe(1);
+  });
+
+  it("should carry over named destinations for copied pages", async () => {
+    const source = await createSource();
+    const target = await PDFDocument.create();
+
+    await appendPages(target, source, [0, 1]);
+
+    const [named] = listNamedDestinations(target);
+    expect(named.name.decodeText()).toBe("middle");
+    expect(named.destination.get(0)).toBe(target.getPage(1).ref);
+
+    // The link keeps using the name
+    const goTo = getGoToAction(target, 0);
+    expect(goTo.lookup(PDFName.of("D"))).toBeInstanceOf(PDFString);
+  });
+
+  it("should resolve links to names that are already taken", async () => {
+    const target = await PDFDocument.create();
+    await appendPages(target, await createSource(), [1]);
+    await appendPages(target, await createSource(), [0, 1]);
+
+    // "middle" still means the first file's page, so the second file's link
+    // gets an explicit destination to its own copy
+    const goTo = getGoToAction(target, 1);
+    const dest = goTo.lookup(PDFName.of("D"), PDFArray);
+    expect(dest.get(0)).toBe(target.getPage(2).ref);
+  });
+
+  it("should keep form fields with only the widgets on copied pages", async () => {
+    const source = await createSource();
+    const target = await PDFDocument.create();
+
+    await appendPages(target, source, [1, 2]);
+    const reloaded = await PDFDocument.load(await target.save());
+
+    const form = reloaded.getForm();
+    expect(form.getFields().map((field) => field.getName())).toEqual([
+      "name",
+      "choice",
+    ]);
+    const choice = form.getRadioGroup("choice");
+    expect(choice.acroField.getWidgets()).toHaveLength(1);
+    expect(choice.acroField.getWidgets()[0].P()).toBe(reloaded.getPage(1).ref);
+  });
+
+  it("should rename fields that clash with existing ones", async () => {
+    const target = await PDFDocument.create();
+    await appendPages(target, await createSource(), [1]);
+    await appendPages(target, await createSource(), [1]);
+
+    const names = target
+      .getForm()
+      .getFields()
+      .map((field) => field.getName());
+    expect(names).toEqual(["name", "name_2"]);
+  });
+
+  it("should give repeated pages their own objects", async () => {
+    const source = await createSource();
+    const target = await PDFDocument.create();
+
+    await appendPages(target, source, [1, 1]);
+
+    const [first, second] = target.getPages();
+    expect(first.node).not.toBe(second.node);
+    for (const page of [first, second]) {
+      const widget = page.node.Annots()!.lookup(0, PDFDict);
+      expect(widget.get(PDFName.of("P"))).toBe(page.ref);
+    }
+  });
+
+  it("should return the outline at the new page indices", async () => {
+    const source = await createSource();
+    const target = await PDFDocument.create();
+    target.addPage();
+
+    const outline = await appendPages(target, source, [2, 1]);
+
+    expect(outline.map(({ title, pageIndex }) => [title, pageIndex])).toEqual([
+      ["End", 1],
+    ]);
+    expect(readOutline(target)).toEqual([]);
+  });
+});
+
+describe("appendPages with hex string names", () => {
+  it("should match names regardless of encoding", async () => {
+    const source = await createSource();
+    const names = source.catalog.lookup(PDFName.of("Names"), PDFDict);
+    const dests = names.lookup(PDFName.of("Dests"), PDFDict);
+    dests
+      .lookup(PDFName.of("Names"), PDFArray)
+      .set(0, PDFHexString.fromText("middle"));
+    const target = await PDFDocument.create();
+
+    await appendPages(target, source, [0, 1]);
+
+    const goTo = getGoToAction(target, 0);
+    expect(goTo.lookup(PDFName.of("D"))).toBeInstanceOf(PDFString);
+    expect(listNamedDestinations(target)[0].destination.get(0)).toBeInstanceOf(
+      PDFRef,
+    );
+  });
+});
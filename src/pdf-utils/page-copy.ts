@@ -0,0 +1,302 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFObjectCopier,
+  PDFPage,
+  PDFPageLeaf,
+  PDFRef,
+  PDFString,
+} from "pdf-lib";
+import { removeUnreachableObjects } from "./cleanup";
+import {
+  addNamedDestination,
+  getDestination,
+  getDestinationView,
+  listNamedDestinations,
+  resolveDestination,
+} from "./destinations";
+import { readOutline, remapOutline, type OutlineItem } from "./outline";
+
+interface CopiedPage {
+  source: PDFPage;
+  page: PDFPage;
+}
+
+/**
+ * Appends pages of `source` to `target`, like copyPages followed by addPage,
+ * and carries over what refers to them: named destinations, internal links
+ * and form fields. Links and fields whose pages were left out are dropped.
+ * @param pageIndices - 0-based source pages in output order; may repeat
+ * @returns The source outline, moved to the pages' new indices
+ */
+export async function appendPages(
+  target: PDFDocument,
+  source: PDFDocument,
+  pageIndices: number[],
+): Promise<OutlineItem[]> {
+  await source.flush();
+  const sourcePages = source.getPages();
+  const firstIndex = target.getPageCount();
+
+  // Copying pages by reference makes links and widgets that point at a
+  // selected page point at its copy
+  const copier = PDFObjectCopier.for(source.context, target.context);
+  const pageRefs = new Map<PDFRef, PDFRef>(); // Source page to its first copy
+  const pageMap = new Map<number, number>(); // Same, by index
+  const copies: CopiedPage[] = [];
+
+  pageIndices.forEach((sourceIndex, position) => {
+    const sourcePage = sourcePages[sourceIndex];
+    if (!sourcePage) throw new Error(`Page ${sourceIndex + 1} does not exist`);
+
+    let ref: PDFRef;
+    if (pageRefs.has(sourcePage.ref)) {
+      // Repeated pages need objects of their own
+      ref = target.context.register(
+        PDFObjectCopier.for(source.context, target.context).copy(
+          sourcePage.node,
+        ),
+      );
+    } else {
+      ref = copier.copy(sourcePage.ref);
+      pageRefs.set(sourcePage.ref, ref);
+      pageMap.set(sourceIndex, firstIndex + position);
+    }
+
+    const node = target.context.lookup(ref) as PDFPageLeaf;
+    const page = PDFPage.of(node, ref, target);
+    target.addPage(page);
+    copies.push({ source: sourcePage, page });
+  });
+
+  // Explicit destination in the target, if its page was copied
+  const copyDestination = (
+    destination: PDFArray | undefined,
+  ): PDFArray | undefined => {
+    const page = destination?.get(0);
+    const pageRef = page instanceof PDFRef ? pageRefs.get(page) : undefined;
+    if (!destination || !pageRef) return undefined;
+    return target.context.obj([
+      pageRef,
+      ...getDestinationView(source, destination),
+    ]);
+  };
+
+  const carriedNames = new Set<string>();
+  for (const { name, destination } of listNamedDestinations(source)) {
+    const copied = copyDestination(destination);
+    if (copied && addNamedDestination(target, { name, destination: copied })) {
+      carriedNames.add(getNameKey(name));
+    }
+  }
+
+  const widgets = new Map<PDFDict, PDFRef>();
+  for (const copy of copies) {
+    copyAnnotations(copy, (dest) => {
+      // Names that weren't carried over are missing or taken by another file
+      const isName =
+        dest instanceof PDFName ||
+        dest instanceof PDFString ||
+        dest instanceof PDFHexString;
+      if (isName && carriedNames.has(getNameKey(dest))) return dest;
+      return copyDestination(resolveDestination(source, dest));
+    });
+
+    const annots = copy.page.node.Annots();
+    for (let index = 0; annots && index < annots.size(); index++) {
+      const ref = annots.get(index);
+      const annot = annots.lookupMaybe(index, PDFDict);
+      if (ref instanceof PDFRef && annot && isWidget(annot)) {
+        widgets.set(annot, ref);
+      }
+    }
+  }
+
+  copyFormFields(target, source, copier, widgets);
+
+  // Pages and widgets copied only because something pointed at them
+  removeUnreachableObjects(target);
+
+  return remapOutline(readOutline(source), pageMap);
+}
+
+// Fixes /P and GoTo links of a copied page, dropping links to pages left out.
+// Links are read from the source, since repeated pages are copied separately.
+function copyAnnotations(
+  { source, page }: CopiedPage,
+  copyDestination: (dest: PDFObject) => PDFObject | undefined,
+) {
+  const sourceAnnots = source.node.Annots();
+  const annots = page.node.Annots();
+  if (!sourceAnnots || !annots) return;
+
+  const kept: PDFObject[] = [];
+  for (let index = 0; index < annots.size(); index++) {
+    const annot = annots.lookupMaybe(index, PDFDict);
+    const sourceAnnot = sourceAnnots.lookupMaybe(index, PDFDict);
+    if (!annot || !sourceAnnot) continue;
+
+    if (annot.has(PDFName.of("P"))) annot.set(PDFName.of("P"), page.ref);
+
+    const dest =
+      annot.lookup(PDFName.of("Subtype")) === PDFName.of("Link")
+        ? getDestination(sourceAnnot)
+        : undefined;
+    if (dest) {
+      const copied = copyDestination(dest);
+      if (!copied) continue;
+
+      const action = annot.lookupMaybe(PDFName.of("A"), PDFDict);
+      if (annot.has(PDFName.of("Dest")) || !action) {
+        annot.set(PDFName.of("Dest"), copied);
+      } else {
+        action.set(PDFName.of("D"), copied);
+      }
+    }
+
+    kept.push(annots.get(index));
+  }
+
+  page.node.set(PDFName.of("Annots"), page.doc.context.obj(kept));
+}
+
+// Adds the field trees of the copied widgets to the target's form, keeping
+// only the widgets on copied pages
+function copyFormFields(
+  target: PDFDocument,
+  source: PDFDocument,
+  copier: PDFObjectCopier,
+  widgets: Map<PDFDict, PDFRef>,
+) {
+  const sourceForm = source.catalog.lookupMaybe(
+    PDFName.of("AcroForm"),
+    PDFDict,
+  );
+  if (!sourceForm || widgets.size === 0) return;
+
+  const { context } = target;
+  const roots = new Set<PDFRef>();
+  for (const [widget, widgetRef] of widgets) {
+    let ref = widgetRef;
+    let field = widget;
+    const visited = new Set<PDFDict>([field]);
+    for (;;) {
+      const parentRef = field.get(PDFName.of("Parent"));
+      const parent = field.lookupMaybe(PDFName.of("Parent"), PDFDict);
+      if (!(parentRef instanceof PDFRef) || !parent || visited.has(parent)) {
+        break;
+      }
+      visited.add(parent);
+      ref = parentRef;
+      field = parent;
+    }
+    roots.add(ref);
+  }
+
+  let form = target.catalog.lookupMaybe(PDFName.of("AcroForm"), PDFDict);
+  if (!form) {
+    form = context.obj({ Fields: [] });
+    target.catalog.set(PDFName.of("AcroForm"), context.register(form));
+  }
+  let fields = form.lookupMaybe(PDFName.of("Fields"), PDFArray);
+  if (!fields) {
+    fields = context.obj([]);
+    form.set(PDFName.of("Fields"), fields);
+  }
+
+  // Fields with the same name would share one value, so rename clashes
+  const usedNames = new Set<string>();
+  for (let index = 0; index < fields.size(); index++) {
+    const name = getFieldName(fields.lookupMaybe(index, PDFDict));
+    if (name) usedNames.add(name);
+  }
+
+  for (const ref of roots) {
+    const root = context.lookup(ref, PDFDict);
+    pruneFieldKids(root, widgets, new Set());
+
+    let name = getFieldName(root);
+    if (name && usedNames.has(name)) {
+      let suffix = 2;
+      while (usedNames.has(`${name}_${suffix}`)) suffix++;
+      name = `${name}_${suffix}`;
+      root.set(PDFName.of("T"), PDFHexString.fromText(name));
+    }
+    if (name) usedNames.add(name);
+    fields.push(ref);
+  }
+
+  // Defaults used to regenerate appearances
+  for (const key of ["DA", "Q"]) {
+    const value = sourceForm.get(PDFName.of(key));
+    if (value && !form.has(PDFName.of(key))) {
+      form.set(PDFName.of(key), copier.copy(value));
+    }
+  }
+  const sourceResources = sourceForm.lookupMaybe(PDFName.of("DR"), PDFDict);
+  const resources = form.lookupMaybe(PDFName.of("DR"), PDFDict);
+  if (sourceResources && !resources) {
+    form.set(PDFName.of("DR"), copier.copy(sourceForm.get(PDFName.of("DR"))!));
+  } else if (sourceResources && resources) {
+    const sourceFonts = sourceResources.lookupMaybe(
+      PDFName.of("Font"),
+      PDFDict,
+    );
+    let fonts = resources.lookupMaybe(PDFName.of("Font"), PDFDict);
+    if (sourceFonts && !fonts) {
+      fonts = context.obj({});
+      resources.set(PDFName.of("Font"), fonts);
+    }
+    for (const [name, font] of sourceFonts?.entries() ?? []) {
+      if (!fonts!.has(name)) fonts!.set(name, copier.copy(font));
+    }
+  }
+  if (sourceForm.lookup(PDFName.of("NeedAppearances")) === PDFBool.True) {
+    form.set(PDFName.of("NeedAppearances"), PDFBool.True);
+  }
+}
+
+// Removes kids that don't lead to a copied widget
+// @returns Whether anything is left
+function pruneFieldKids(
+  field: PDFDict,
+  widgets: Map<PDFDict, PDFRef>,
+  visited: Set<PDFDict>,
+): boolean {
+  if (visited.has(field)) return false;
+  visited.add(field);
+
+  const kids = field.lookupMaybe(PDFName.of("Kids"), PDFArray);
+  if (!kids) return widgets.has(field);
+
+  const kept = kids.asArray().filter((kid) => {
+    const kidDict = field.context.lookup(kid);
+    if (!(kidDict instanceof PDFDict)) return false;
+    return isWidget(kidDict)
+      ? widgets.has(kidDict)
+      : pruneFieldKids(kidDict, widgets, visited);
+  });
+  field.set(PDFName.of("Kids"), field.context.obj(kept));
+  return kept.length > 0;
+}
+
+function isWidget(annot: PDFDict): boolean {
+  return annot.lookup(PDFName.of("Subtype")) === PDFName.of("Widget");
+}
+
+function getFieldName(field: PDFDict | undefined): string | undefined {
+  const name = field?.lookup(PDFName.of("T"));
+  return name instanceof PDFString || name instanceof PDFHexString
+    ? name.decodeText()
+    : undefined;
+}
+
+// Names and strings are separate namespaces
+function getNameKey(name: PDFName | PDFString | PDFHexString): string {
+  return name instanceof PDFName ? name.toString() : `(${name.decodeText()})`;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { PageRangeError, parsePageRanges } from "./page-ranges";
+
+function getError(rangeString: string, totalPages: number): PageRangeError {
+  try {
+    parsePageRanges(rangeString, totalPages);
+  } catch (error) {
+    if (error instanceof PageRangeError) return error;
+    throw error;
+  }
+  throw new Error(`"${rangeString}" was accepted`);
+}
+
+describe("parsePageRanges", () => {
+  it("should parse single pages and ranges in page order", () => {
+    expect(parsePageRanges("7, 1-3, 2", 10)).toEqual([1, 2, 3, 7]);
+  });
+
+  it("should accept all, odd and even", () => {
+    expect(parsePageRanges(" All ", 3)).toEqual([1, 2, 3]);
+    expect(parsePageRanges("odd", 5)).toEqual([1, 3, 5]);
+    expect(parsePageRanges("EVEN", 5)).toEqual([2, 4]);
+  });
+
+  it("should count back from the last page", () => {
+    expect(parsePageRanges("last", 8)).toEqual([8]);
+    expect(parsePageRanges("last-2", 8)).toEqual([6]);
+    expect(parsePageRanges("last - 2 - last", 8)).toEqual([6, 7, 8]);
+    expect(parsePageRanges("2-last-5", 8)).toEqual([2, 3]);
+  });
+
+  it("should run open ranges to the last page", () => {
+    expect(parsePageRanges("5-", 7)).toEqual([5, 6, 7]);
+    expect(parsePageRanges("1, 6 - ", 7)).toEqual([1, 6, 7]);
+  });
+
+  it("should leave out excluded pages", () => {
+    expect(parsePageRanges("1-10,!7,!2-3", 20)).toEqual([1, 4, 5, 6, 8, 9, 10]);
+    expect(parsePageRanges("!1, !last", 4)).toEqual([2, 3]);
+    expect(parsePageRanges("! even", 5)).toEqual([1, 3, 5]);
+  });
+
+  it("should keep order and repeats when asked to", () => {
+    expect(parsePageRanges("10-8", 10)).toEqual([8, 9, 10]);
+    expect(parsePageRanges("10-8", 10, { keepOrder: true })).toEqual([
+      10, 9, 8,
+    ]);
+    expect(parsePageRanges("3,1-2,3,!2", 5, { keepOrder: true })).toEqual([
+      3, 1, 3,
+    ]);
+    expect(parsePageRanges("odd,even", 4, { keepOrder: true })).toEqual([
+      1, 3, 2, 4,
+    ]);
+  });
+
+  it("should reject pages outside the document with their position", () => {
+    const error = getError("1, 2-5", 4);
+    expect(error.message).toBe(
+      'Invalid page "5" at position 6. Pages must be between 1 and 4',
+    );
+    expect(error.position).toBe(6);
+    expect(getError("last-4", 4).message).toContain('Invalid page "last-4"');
+    expect(getError("0", 4).position).toBe(1);
+  });
+
+  it("should report syntax errors with their position", () => {
+    expect(getError("x", 4).message).toBe(
+      'Unexpected "x" at position 1. Use page numbers, ranges like 1-5, last, odd or even.',
+    );
+    expect(getError("1-2-3", 4).position).toBe(4);
+    expect(getError("1;2", 4).position).toBe(2);
+    expect(getError("1,,2", 4).message).toBe(
+      "Missing page number at position 3",
+    );
+    expect(getError("1, !", 4).position).toBe(5);
+    expect(getError("", 4).position).toBe(1);
+  });
+
+  it("should reject ranges that leave no pages", () => {
+    expect(getError("1-2,!odd,!even", 4).message).toBe(
+      "The range leaves no pages",
+    );
+  });
+});
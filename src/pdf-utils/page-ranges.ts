@@ -0,0 +1,157 @@
+export interface PageRangeOptions {
+  keepOrder?: boolean; // Keep pages in the order written, repeats included
+}
+
+export class PageRangeError extends Error {
+  name = "PageRangeError";
+  position: number; // 1-based character position of the problem
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+  }
+}
+
+const PAGE_SETS = new Map<string, (page: number) => boolean>([
+  ["all", () => true],
+  ["odd", (page) => page % 2 === 1],
+  ["even", (page) => page % 2 === 0],
+]);
+
+// A page number, "last" or "last-N", at the current position
+const PAGE_PATTERN = /(\d+)|last(?:\s*-\s*(\d+))?/iy;
+
+/**
+ * Parses a range string into page numbers, sorted and without repeats
+ * unless `keepOrder` is set. Parts are separated by commas and can be:
+ * - a page: "5", "last" or "last-2" (two before the last)
+ * - a range: "1-3", "10-1" for pages in reverse, or "5-" to the last page
+ * - "all", "odd" or "even"
+ * - any of those after "!" to leave the pages out, e.g. "1-20,!7". Only
+ *   exclusions means all pages but those.
+ * Throws a PageRangeError with the position of the first problem.
+ */
+export function parsePageRanges(
+  rangeString: string,
+  totalPages: number,
+  options: PageRangeOptions = {},
+): number[] {
+  const included: number[] = [];
+  const excluded = new Set<number>();
+  let hasInclusions = false;
+  let partStart = 0;
+
+  for (const part of rangeString.split(",")) {
+    const exclusion = /^\s*!/.exec(part);
+    const offset = exclusion ? exclusion[0].length : 0;
+    const pages = parsePart(part.slice(offset), partStart + offset, totalPages);
+
+    if (exclusion) {
+      pages.forEach((page) => excluded.add(page));
+    } else {
+      hasInclusions = true;
+      included.push(...pages);
+    }
+    partStart += part.length + 1;
+  }
+
+  const pages = (
+    hasInclusions ? included : getPageSet("all", totalPages)
+  ).filter((page) => !excluded.has(page));
+
+  if (pages.length === 0) {
+    throw new PageRangeError("The range leaves no pages", 1);
+  }
+  return options.keepOrder ? pages : [...new Set(pages)].sort((a, b) => a - b);
+}
+
+// `start` is the part's 0-based offset in the whole range string
+function parsePart(part: string, start: number, totalPages: number): number[] {
+  const keyword = part.trim().toLowerCase();
+  if (PAGE_SETS.has(keyword)) {
+    return getPageSet(keyword, totalPages);
+  }
+
+  const first = readPage(part, 0, start, totalPages);
+  let index = skipSpaces(part, first.end);
+  if (index === part.length) {
+    return [first.page];
+  }
+  if (part[index] !== "-") {
+    throw unexpected(part, index, start);
+  }
+
+  index = skipSpaces(part, index + 1);
+  if (index === part.length) {
+    return getPagesBetween(first.page, totalPages); // Open range, e.g. "5-"
+  }
+  const last = readPage(part, index, start, totalPages);
+  index = skipSpaces(part, last.end);
+  if (index !== part.length) {
+    throw unexpected(part, index, start);
+  }
+  return getPagesBetween(first.page, last.page);
+}
+
+function readPage(
+  part: string,
+  index: number,
+  start: number,
+  totalPages: number,
+): { page: number; end: number } {
+  index = skipSpaces(part, index);
+  PAGE_PATTERN.lastIndex = index;
+  const match = PAGE_PATTERN.exec(part);
+  if (!match) {
+    throw unexpected(part, index, start);
+  }
+
+  const [text, number, offset] = match;
+  const page = number
+    ? parseInt(number)
+    : totalPages - (offset ? parseInt(offset) : 0);
+  if (page < 1 || page > totalPages) {
+    throw new PageRangeError(
+      `Invalid page "${text}" at position ${start + index + 1}. Pages must be between 1 and ${totalPages}`,
+      start + index + 1,
+    );
+  }
+  return { page, end: PAGE_PATTERN.lastIndex };
+}
+
+function unexpected(
+  part: string,
+  index: number,
+  start: number,
+): PageRangeError {
+  const position = start + index + 1;
+  if (index >= part.length) {
+    return new PageRangeError(
+      `Missing page number at position ${position}`,
+      position,
+    );
+  }
+  return new PageRangeError(
+    `Unexpected "${part[index]}" at position ${position}. Use page numbers, ranges like 1-5, last, odd or even.`,
+    position,
+  );
+}
+
+function skipSpaces(text: string, index: number): number {
+  while (index < text.length && /\s/.test(text[index])) index++;
+  return index;
+}
+
+function getPageSet(keyword: string, totalPages: number): number[] {
+  return Array.from({ length: totalPages }, (_, i) => i + 1).filter(
+    PAGE_SETS.get(keyword)!,
+  );
+}
+
+function getPagesBetween(first: number, last: number): number[] {
+  const step = first <= last ? 1 : -1;
+  return Array.from(
+    { length: Math.abs(last - first) + 1 },
+    (_, i) => first + i * step,
+  );
+}
@@ -1,12 +1,16 @@
 import { describe, it, expect, beforeEach } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { readOutline, writeOutline } from "./outline";
 import {
   reorderPDF,
   getDefaultPageOrder,
   reversePageOrder,
+  getPageOrderFromRanges,
   randomizePageOrder,
   isReorderNecessary,
   type ReorderPDFOptions,
 } from "./reorder";
+import { createPDFFileFromBytes } from "../../tests/pdf-fixtures";
 
 // Mock PDF files for testing
 function createMockPDFFile(name: string): File {
@@ -19,6 +23,16 @@ function createMockNonPDFFile(name: string): File {
   return new File([blob], name, { type: "text/plain" });
 }
 
+// jsdom's Blob has no arrayBuffer(), so go through FileReader
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
 describe("reorderPDF", () => {
   let mockPDFFile: File;
   let mockNonPDFFile: File;
@@ -104,6 +118,33 @@ describe("reorderPDF", () => {
       expect(result).toHaveProperty("error");
     }
   });
+
+  it("should keep bookmarks pointing at their moved pages", async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+    pdfDoc.addPage();
+    writeOutline(pdfDoc, [
+      { title: "Cover", pageIndex: 0, view: [], open: true, children: [] },
+      { title: "Back", pageIndex: 1, view: [], open: true, children: [] },
+    ]);
+    const file = createPDFFileFromBytes("book.pdf", await pdfDoc.save());
+
+    const result = await reorderPDF({ file, pageOrder: [2, 1] });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const reordered = await PDFDocument.load(await readBlob(result.pdfBlob));
+      expect(
+        readOutline(reordered).map(({ title, pageIndex }) => [
+          title,
+          pageIndex,
+        ]),
+      ).toEqual([
+        ["Cover", 1],
+        ["Back", 0],
+      ]);
+    }
+  });
 });
 
 describe("getDefaultPageOrder", () => {
@@ -144,6 +185,25 @@ describe("reversePageOrder", () => {
   });
 });
 
+describe("getPageOrderFromRanges", () => {
+  it("should put the listed pages first and keep the rest in order", () => {
+    expect(getPageOrderFromRanges("odd,even", 5)).toEqual([1, 3, 5, 2, 4]);
+    expect(getPageOrderFromRanges("6-", 8)).toEqual([6, 7, 8, 1, 2, 3, 4, 5]);
+    expect(getPageOrderFromRanges("last,1,last", 3)).toEqual([3, 1, 2]);
+  });
+
+  it("should reverse ranges written backwards", () => {
+    expect(getPageOrderFromRanges("last-1", 4)).toEqual([3, 1, 2, 4]);
+    expect(getPageOrderFromRanges("4-1", 4)).toEqual([4, 3, 2, 1]);
+  });
+
+  it("should throw for invalid ranges", () => {
+    expect(() => getPageOrderFromRanges("1-9", 4)).toThrow(
+      "Pages must be between 1 and 4",
+    );
+  });
+});
+
 describe("randomizePageOrder", () => {
   it("should contain all original pages", () => {
     const pageCount = 5;
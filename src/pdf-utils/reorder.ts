@@ -1,8 +1,13 @@
 import { PDFDocument } from "pdf-lib";
+import { loadPDFDocument } from "./decrypt";
+import { writeOutline } from "./outline";
+import { appendPages } from "./page-copy";
+import { parsePageRanges } from "./page-ranges";
 
 export interface ReorderPDFOptions {
   file: File;
   pageOrder: number[]; // Array of page numbers in desired order (1-based)
+  password?: string; // For encrypted files
 }
 
 export interface ReorderPDFResult {
@@ -29,7 +34,7 @@ export async function reorderPDF(
   options: ReorderPDFOptions,
 ): Promise<ReorderPDFResponse> {
   try {
-    const { file, pageOrder } = options;
+    const { file, pageOrder, password } = options;
 
     // Validate input
     if (!file) {
@@ -50,7 +55,7 @@ export async function reorderPDF(
 
     // Load the source PDF
     const fileBuffer = await file.arrayBuffer();
-    const sourcePdf = await PDFDocument.load(fileBuffer);
+    const sourcePdf = await loadPDFDocument(fileBuffer, { password });
     const totalPages = sourcePdf.getPageCount();
 
     if (totalPages === 0) {
@@ -66,27 +71,22 @@ export async function reorderPDF(
     // Create a new PDF document for the reordered pages
     const reorderedPdf = await PDFDocument.create();
 
-    // Copy pages in the specified order
-    for (const pageNum of pageOrder) {
-      try {
-        // Convert to 0-based index
-        const pageIndex = pageNum - 1;
-
-        // Copy the page from source to destination
-        const [copiedPage] = await reorderedPdf.copyPages(sourcePdf, [
-          pageIndex,
-        ]);
-
-        // Add the copied page to the reordered document
-        reorderedPdf.addPage(copiedPage);
-      } catch (pageError) {
-        return {
-          success: false,
-          error: `Failed to reorder page ${pageNum}`,
-          details:
-            pageError instanceof Error ? pageError.message : String(pageError),
-        };
-      }
+    // Copy pages in the specified order, keeping bookmarks, links and form
+    // fields pointed at them
+    try {
+      const outline = await appendPages(
+        reorderedPdf,
+        sourcePdf,
+        pageOrder.map((pageNum) => pageNum - 1),
+      );
+      writeOutline(reorderedPdf, outline);
+    } catch (pageError) {
+      return {
+        success: false,
+        error: "Failed to reorder pages",
+        details:
+          pageError instanceof Error ? pageError.message : String(pageError),
+      };
     }
 
     // Generate the final PDF bytes
@@ -162,6 +162,19 @@ export function reversePageOrder(totalPages: number): number[] {
   return Array.from({ length: totalPages }, (_, i) => totalPages - i);
 }
 
+/**
+ * Builds a full page order from a range string such as "odd,even" or "10-1":
+ * the listed pages come first, repeats are ignored and the pages left out
+ * follow in their original order. Throws a PageRangeError for bad ranges.
+ */
+export function getPageOrderFromRanges(
+  rangeString: string,
+  totalPages: number,
+): number[] {
+  const listed = parsePageRanges(rangeString, totalPages, { keepOrder: true });
+  return [...new Set([...listed, ...getDefaultPageOrder(totalPages)])];
+}
+
 /**
  * Utility function to create a random page order (for testing/demo purposes)
  */
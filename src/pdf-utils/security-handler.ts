@@ -0,0 +1,520 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRef,
+  PDFString,
+} from "pdf-lib";
+import {
+  aesDecrypt,
+  aesEncrypt,
+  concatBytes,
+  md5,
+  randomBytes,
+  rc4,
+  sha,
+} from "./crypto";
+
+export class PDFPasswordError extends Error {
+  name = "PDFPasswordError";
+}
+
+export class UnsupportedEncryptionError extends Error {
+  name = "UnsupportedEncryptionError";
+}
+
+export type CryptMethod = "none" | "rc4" | "aesv2" | "aesv3";
+
+export interface SecurityHandler {
+  permissions: number; // P, a bit field of what the user password allows
+  encryptMetadata: boolean;
+  decrypt(
+    data: Uint8Array,
+    ref: PDFRef,
+    target: "string" | "stream",
+  ): Promise<Uint8Array>;
+}
+
+// Values of the standard security handler's encryption dictionary
+export interface StandardSecurityParams {
+  revision: number; // R
+  keyLength: number; // In bytes
+  owner: Uint8Array; // O
+  user: Uint8Array; // U
+  permissions: number; // P
+  encryptMetadata: boolean;
+  fileId: Uint8Array; // First element of the trailer's /ID
+}
+
+// Values that check revision 6 passwords and hold the encrypted file key
+export interface AesV3PasswordValues {
+  owner: Uint8Array; // O
+  ownerEncryptedKey: Uint8Array; // OE
+  user: Uint8Array; // U
+  userEncryptedKey: Uint8Array; // UE
+  perms: Uint8Array; // Perms, the permissions encrypted with the file key
+}
+
+export const PASSWORD_PADDING = Uint8Array.from([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff,
+  0xfa, 0x01, 0x08, 0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c,
+  0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+/**
+ * Checks a password against a document's encryption dictionary, trying it
+ * as both the user and the owner password
+ * @throws PDFPasswordError if it matches neither
+ * @throws UnsupportedEncryptionError for other security handlers and
+ * unknown algorithms
+ */
+export async function openSecurityHandler(
+  encrypt: PDFDict,
+  fileId: Uint8Array,
+  password: string,
+): Promise<SecurityHandler> {
+  const filter = encrypt.lookup(PDFName.of("Filter"));
+  if (filter !== PDFName.of("Standard")) {
+    throw new UnsupportedEncryptionError(
+      `Unsupported security handler: ${filter ? String(filter).slice(1) : "none"}`,
+    );
+  }
+
+  const version = getNumber(encrypt, "V") ?? 0;
+  let stringMethod: CryptMethod;
+  let streamMethod: CryptMethod;
+  let keyLength: number;
+  if (version === 1 || version === 2) {
+    stringMethod = streamMethod = "rc4";
+    keyLength = version === 1 ? 5 : (getNumber(encrypt, "Length") ?? 40) / 8;
+  } else if (version === 4 || version === 5) {
+    stringMethod = getCryptMethod(encrypt, encrypt.lookup(PDFName.of("StrF")));
+    streamMethod = getCryptMethod(encrypt, encrypt.lookup(PDFName.of("StmF")));
+    keyLength = version === 5 ? 32 : (getNumber(encrypt, "Length") ?? 128) / 8;
+  } else {
+    throw new UnsupportedEncryptionError(
+      `Unsupported encryption algorithm: V ${version}`,
+    );
+  }
+
+  const params: StandardSecurityParams = {
+    revision: getNumber(encrypt, "R") ?? 0,
+    keyLength,
+    owner: getBytes(encrypt, "O"),
+    user: getBytes(encrypt, "U"),
+    permissions: getNumber(encrypt, "P") ?? 0,
+    encryptMetadata:
+      encrypt.lookup(PDFName.of("EncryptMetadata")) !== PDFBool.False,
+    fileId,
+  };
+  if (
+    params.revision < 2 ||
+    params.revision > 6 ||
+    keyLength < 5 ||
+    keyLength > 32
+  ) {
+    throw new UnsupportedEncryptionError(
+      `Unsupported security handler revision: R ${params.revision}`,
+    );
+  }
+
+  const fileKey =
+    params.revision >= 5
+      ? await getAesV3FileKey(
+          params,
+          getBytes(encrypt, "OE"),
+          getBytes(encrypt, "UE"),
+          password,
+        )
+      : getRc4FileKey(params, password);
+  if (!fileKey) throw new PDFPasswordError("Incorrect password");
+
+  return {
+    permissions: params.permissions,
+    encryptMetadata: params.encryptMetadata,
+    async decrypt(data, ref, target) {
+      const method = target === "string" ? stringMethod : streamMethod;
+      if (method === "none") return data;
+
+      const key = getObjectKey(fileKey, ref, method);
+      if (method === "rc4") return rc4(key, data);
+      // The first block is the initialization vector
+      if (data.length < 16) return new Uint8Array(0);
+      return aesDecrypt(key, data.subarray(0, 16), data.subarray(16));
+    },
+  };
+}
+
+/**
+ * Algorithm 1: the key for one object's strings and streams
+ */
+export function getObjectKey(
+  fileKey: Uint8Array,
+  ref: PDFRef,
+  method: CryptMethod,
+): Uint8Array {
+  if (method === "aesv3") return fileKey;
+
+  const { objectNumber, generationNumber } = ref;
+  const salt = method === "aesv2" ? [0x73, 0x41, 0x6c, 0x54] : []; // "sAlT"
+  const hash = md5(
+    Uint8Array.from([
+      ...fileKey,
+      objectNumber & 0xff,
+      (objectNumber >> 8) & 0xff,
+      (objectNumber >> 16) & 0xff,
+      generationNumber & 0xff,
+      (generationNumber >> 8) & 0xff,
+      ...salt,
+    ]),
+  );
+  return hash.subarray(0, Math.min(fileKey.length + 5, 16));
+}
+
+/**
+ * Passwords are PDFDocEncoding up to revision 4, approximated by Latin-1,
+ * and UTF-8 from revision 5
+ */
+export function encodePassword(password: string, revision: number): Uint8Array {
+  if (revision >= 5) {
+    return new TextEncoder().encode(password).slice(0, 127);
+  }
+  return Uint8Array.from(password.slice(0, 32), (char) => {
+    const code = char.charCodeAt(0);
+    return code < 256 ? code : 0x3f; // "?"
+  });
+}
+
+export function padPassword(password: Uint8Array): Uint8Array {
+  const length = Math.min(password.length, 32);
+  return concatBytes(
+    password.subarray(0, length),
+    PASSWORD_PADDING.subarray(0, 32 - length),
+  );
+}
+
+/**
+ * Algorithm 2: the file key for a user password, revisions 2 to 4
+ */
+export function computeRc4FileKey(
+  params: StandardSecurityParams,
+  userPassword: Uint8Array,
+): Uint8Array {
+  const permissions = new Uint8Array(4);
+  new DataView(permissions.buffer).setInt32(0, params.permissions, true);
+
+  let key = md5(
+    concatBytes(
+      padPassword(userPassword),
+      params.owner.subarray(0, 32),
+      permissions,
+      params.fileId,
+      params.revision >= 4 && !params.encryptMetadata
+        ? Uint8Array.from([0xff, 0xff, 0xff, 0xff])
+        : new Uint8Array(0),
+    ),
+  );
+  if (params.revision >= 3) {
+    for (let round = 0; round < 50; round++) {
+      key = md5(key.subarray(0, params.keyLength));
+    }
+  }
+  return key.slice(0, params.revision === 2 ? 5 : params.keyLength);
+}
+
+/**
+ * Algorithms 4 and 5: the U value for a file key. Only the first 16 bytes
+ * are significant from revision 3.
+ */
+export function computeRc4UserValue(
+  params: StandardSecurityParams,
+  fileKey: Uint8Array,
+): Uint8Array {
+  if (params.revision === 2) return rc4(fileKey, PASSWORD_PADDING);
+
+  let value = md5(concatBytes(PASSWORD_PADDING, params.fileId));
+  for (let round = 0; round < 20; round++) {
+    value = rc4(
+      fileKey.map((byte) => byte ^ round),
+      value,
+    );
+  }
+  return concatBytes(value, new Uint8Array(16));
+}
+
+/**
+ * Algorithm 3, steps a to d: the RC4 key that encrypts the user password
+ * into O
+ */
+export function computeRc4OwnerKey(
+  params: Pick<StandardSecurityParams, "revision" | "keyLength">,
+  ownerPassword: Uint8Array,
+): Uint8Array {
+  let hash = md5(padPassword(ownerPassword));
+  if (params.revision >= 3) {
+    for (let round = 0; round < 50; round++) hash = md5(hash);
+  }
+  return hash.slice(0, params.revision === 2 ? 5 : params.keyLength);
+}
+
+/**
+ * Algorithms 2.A and 2.B: the hash used by revisions 5 and 6
+ */
+export async function computeAesV3Hash(
+  revision: number,
+  password: Uint8Array,
+  salt: Uint8Array,
+  userData: Uint8Array = new Uint8Array(0),
+): Promise<Uint8Array> {
+  let hash = await sha("SHA-256", concatBytes(password, salt, userData));
+  if (revision === 5) return hash;
+
+  for (let round = 0; ; round++) {
+    const block = concatBytes(password, hash, userData);
+    const repeated = new Uint8Array(block.length * 64);
+    for (let index = 0; index < 64; index++) {
+      repeated.set(block, index * block.length);
+    }
+    const encrypted = await aesEncrypt(
+      hash.subarray(0, 16),
+      hash.subarray(16, 32),
+      repeated,
+      false,
+    );
+
+    const remainder =
+      encrypted.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    hash = await sha(
+      remainder === 0 ? "SHA-256" : remainder === 1 ? "SHA-384" : "SHA-512",
+      encrypted,
+    );
+    if (round >= 63 && encrypted[encrypted.length - 1] <= round - 31) break;
+  }
+  return hash.slice(0, 32);
+}
+
+/**
+ * Algorithm 3: the O value for revisions 2 to 4
+ */
+export function computeRc4OwnerValue(
+  params: Pick<StandardSecurityParams, "revision" | "keyLength">,
+  ownerPassword: Uint8Array,
+  userPassword: Uint8Array,
+): Uint8Array {
+  const ownerKey = computeRc4OwnerKey(params, ownerPassword);
+  let value = rc4(ownerKey, padPassword(userPassword));
+  if (params.revision >= 3) {
+    for (let round = 1; round < 20; round++) {
+      value = rc4(
+        ownerKey.map((byte) => byte ^ round),
+        value,
+      );
+    }
+  }
+  return value;
+}
+
+/**
+ * Algorithms 8, 9 and 10: the password values of a revision 6 encryption
+ * dictionary for a 32-byte file key, with fresh random salts
+ */
+export async function computeAesV3Values(
+  fileKey: Uint8Array,
+  userPassword: Uint8Array,
+  ownerPassword: Uint8Array,
+  permissions: number,
+  encryptMetadata: boolean,
+): Promise<AesV3PasswordValues> {
+  const noIV = new Uint8Array(16);
+  const [userSalt, userKeySalt, ownerSalt, ownerKeySalt] = [0, 1, 2, 3].map(
+    () => randomBytes(8),
+  );
+
+  const user = concatBytes(
+    await computeAesV3Hash(6, userPassword, userSalt),
+    userSalt,
+    userKeySalt,
+  );
+  const userEncryptedKey = await aesEncrypt(
+    await computeAesV3Hash(6, userPassword, userKeySalt),
+    noIV,
+    fileKey,
+    false,
+  );
+  const owner = concatBytes(
+    await computeAesV3Hash(6, ownerPassword, ownerSalt, user),
+    ownerSalt,
+    ownerKeySalt,
+  );
+  const ownerEncryptedKey = await aesEncrypt(
+    await computeAesV3Hash(6, ownerPassword, ownerKeySalt, user),
+    noIV,
+    fileKey,
+    false,
+  );
+
+  // P extended to 64 bits, "T" or "F" for EncryptMetadata, "adb" and 4
+  // random bytes, encrypted as a single block
+  const perms = new Uint8Array(16);
+  const view = new DataView(perms.buffer);
+  view.setInt32(0, permissions, true);
+  view.setInt32(4, -1, true);
+  perms.set([encryptMetadata ? 0x54 : 0x46, 0x61, 0x64, 0x62], 8);
+  perms.set(randomBytes(4), 12);
+
+  return {
+    owner,
+    ownerEncryptedKey,
+    user,
+    userEncryptedKey,
+    perms: await aesEncrypt(fileKey, noIV, perms, false),
+  };
+}
+
+/**
+ * Replaces every string in an object with its transformed bytes, in place
+ * where possible. Signature values are left alone, as they're never
+ * encrypted.
+ */
+export async function transformStrings(
+  object: PDFObject,
+  transform: (data: Uint8Array) => Promise<Uint8Array>,
+): Promise<PDFObject> {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return toHexString(await transform(object.asBytes()));
+  }
+
+  if (object instanceof PDFArray) {
+    for (let index = 0; index < object.size(); index++) {
+      object.set(index, await transformStrings(object.get(index), transform));
+    }
+  } else if (object instanceof PDFDict) {
+    const isSignature = object.has(PDFName.of("ByteRange"));
+    for (const [key, value] of object.entries()) {
+      if (isSignature && key === PDFName.of("Contents")) continue;
+      object.set(key, await transformStrings(value, transform));
+    }
+  }
+  return object;
+}
+
+export function toHexString(bytes: Uint8Array): PDFHexString {
+  return PDFHexString.of(
+    Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(""),
+  );
+}
+
+function getRc4FileKey(
+  params: StandardSecurityParams,
+  password: string,
+): Uint8Array | undefined {
+  const passwordBytes = encodePassword(password, params.revision);
+  const significantLength = params.revision === 2 ? 32 : 16;
+  const isUserKey = (key: Uint8Array) =>
+    bytesEqual(
+      computeRc4UserValue(params, key).subarray(0, significantLength),
+      params.user.subarray(0, significantLength),
+    );
+
+  const userKey = computeRc4FileKey(params, passwordBytes);
+  if (isUserKey(userKey)) return userKey;
+
+  // Algorithm 7: the owner password decrypts O into the user password
+  const ownerKey = computeRc4OwnerKey(params, passwordBytes);
+  let userPassword = params.owner.subarray(0, 32);
+  if (params.revision === 2) {
+    userPassword = rc4(ownerKey, userPassword);
+  } else {
+    for (let round = 19; round >= 0; round--) {
+      userPassword = rc4(
+        ownerKey.map((byte) => byte ^ round),
+        userPassword,
+      );
+    }
+  }
+  const key = computeRc4FileKey(params, userPassword);
+  return isUserKey(key) ? key : undefined;
+}
+
+async function getAesV3FileKey(
+  params: StandardSecurityParams,
+  ownerEncryptedKey: Uint8Array,
+  userEncryptedKey: Uint8Array,
+  password: string,
+): Promise<Uint8Array | undefined> {
+  const { revision, owner, user } = params;
+  const passwordBytes = encodePassword(password, revision);
+  const userData = user.subarray(0, 48);
+  const noIV = new Uint8Array(16);
+
+  const ownerHash = await computeAesV3Hash(
+    revision,
+    passwordBytes,
+    owner.subarray(32, 40),
+    userData,
+  );
+  if (bytesEqual(ownerHash, owner.subarray(0, 32))) {
+    const key = await computeAesV3Hash(
+      revision,
+      passwordBytes,
+      owner.subarray(40, 48),
+      userData,
+    );
+    return aesDecrypt(key, noIV, ownerEncryptedKey.subarray(0, 32), false);
+  }
+
+  const userHash = await computeAesV3Hash(
+    revision,
+    passwordBytes,
+    user.subarray(32, 40),
+  );
+  if (bytesEqual(userHash, user.subarray(0, 32))) {
+    const key = await computeAesV3Hash(
+      revision,
+      passwordBytes,
+      user.subarray(40, 48),
+    );
+    return aesDecrypt(key, noIV, userEncryptedKey.subarray(0, 32), false);
+  }
+
+  return undefined;
+}
+
+// Crypt filters from /CF, named by /StrF and /StmF
+function getCryptMethod(
+  encrypt: PDFDict,
+  name: PDFObject | undefined,
+): CryptMethod {
+  if (!(name instanceof PDFName) || name === PDFName.of("Identity")) {
+    return "none";
+  }
+
+  const filters = encrypt.lookupMaybe(PDFName.of("CF"), PDFDict);
+  const method = filters?.lookupMaybe(name, PDFDict)?.lookup(PDFName.of("CFM"));
+  if (method === PDFName.of("V2")) return "rc4";
+  if (method === PDFName.of("AESV2")) return "aesv2";
+  if (method === PDFName.of("AESV3")) return "aesv3";
+  if (!method || method === PDFName.of("None")) return "none";
+  throw new UnsupportedEncryptionError(
+    `Unsupported crypt filter: ${String(method).slice(1)}`,
+  );
+}
+
+function getNumber(dict: PDFDict, key: string): number | undefined {
+  return dict.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber();
+}
+
+function getBytes(dict: PDFDict, key: string): Uint8Array {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString
+    ? value.asBytes()
+    : new Uint8Array(0);
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
@@ -18,6 +18,7 @@ export interface SelectAreaOptions {
   outputFormat: "jpeg" | "png";
   quality?: number; // 0.1 to 1.0 for JPEG
   scale?: number; // Rendering scale (default: 2 for high quality)
+  password?: string; // For encrypted files
 }
 
 export interface SelectAreaResult {
@@ -49,6 +50,7 @@ export const selectPDFArea = async (
       outputFormat,
       quality = 0.92,
       scale = 2,
+      password,
     } = options;
 
     // Validate inputs
@@ -73,7 +75,8 @@ export const selectPDFArea = async (
 
     // Load PDF
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer, password })
+      .promise;
 
     if (pageNumber > pdf.numPages) {
       return {
@@ -10,12 +10,24 @@ vi.mock("pdfjs-dist", () => ({
   })),
 }));
 
+import * as pdfjsLib from "pdfjs-dist";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import type { PixelData } from "./compare";
+import { writeOutline, type OutlineItem } from "./outline";
 import {
+  detectBlankPages,
+  findPatternSections,
+  getBookmarkSections,
+  getInkCoverage,
+  getPatternSections,
+  readPDFBookmarks,
   splitPDFToPDFs,
   splitPDFToImages,
+  type PDFBookmark,
   type SplitPDFToPDFsOptions,
   type SplitPDFToImagesOptions,
 } from "./split";
+import { createPDFFileFromBytes } from "../../tests/pdf-fixtures";
 
 // Mock PDF files for testing
 function createMockPDFFile(name: string): File {
@@ -28,6 +40,22 @@ function createMockNonPDFFile(name: string): File {
   return new File([blob], name, { type: "text/plain" });
 }
 
+// jsdom's Blob has no arrayBuffer(), so go through FileReader
+async function readBlob(blob: Blob): Promise<Uint8Array> {
+  const buffer = await new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+  return new Uint8Array(buffer);
+}
+
+async function getPageWidths(blob: Blob): Promise<number[]> {
+  const pdfDoc = await PDFDocument.load(await readBlob(blob));
+  return pdfDoc.getPages().map((page) => page.getWidth());
+}
+
 describe("splitPDFToPDFs", () => {
   let mockPDFFile: File;
   let mockNonPDFFile: File;
@@ -148,6 +176,584 @@ describe("splitPDFToPDFs", () => {
   });
 });
 
+describe("splitPDFToPDFs ranges", () => {
+  async function createPDF(pageCount: number): Promise<File> {
+    const pdfDoc = await PDFDocument.create();
+    for (let i = 0; i < pageCount; i++) pdfDoc.addPage([101 + i, 200]);
+    const bytes = await pdfDoc.save();
+    return createPDFFileFromBytes("doc.pdf", bytes);
+  }
+
+  it("should create one file per comma-separated range", async () => {
+    const result = await splitPDFToPDFs({
+      file: await createPDF(4),
+      splitMethod: "ranges",
+      ranges: "1-2, 4-3",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.filenames).toEqual([
+      "doc_pages_1-2.pdf",
+      "doc_pages_4-3.pdf",
+    ]);
+    expect(await getPageWidths(result.pdfBlobs[1])).toEqual([103, 104]);
+  });
+
+  it("should create one file per list entry, with commas inside", async () => {
+    const result = await splitPDFToPDFs({
+      file: await createPDF(6),
+      splitMethod: "ranges",
+      rangeList: ["1-4,!2", "odd,even"],
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.totalFiles).toBe(2);
+    expect(await getPageWidths(result.pdfBlobs[0])).toEqual([101, 103, 104]);
+    expect(await getPageWidths(result.pdfBlobs[1])).toEqual([
+      101, 102, 103, 104, 105, 106,
+    ]);
+  });
+
+  it("should keep each range's order when asked to", async () => {
+    const result = await splitPDFToPDFs({
+      file: await createPDF(6),
+      splitMethod: "ranges",
+      rangeList: ["odd,even", "6-3,!4"],
+      keepPageOrder: true,
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(await getPageWidths(result.pdfBlobs[0])).toEqual([
+      101, 103, 105, 102, 104, 106,
+    ]);
+    expect(await getPageWidths(result.pdfBlobs[1])).toEqual([106, 105, 103]);
+  });
+
+  it("should report invalid ranges", async () => {
+    const result = await splitPDFToPDFs({
+      file: await createPDF(3),
+      splitMethod: "ranges",
+      rangeList: ["1-2", "2-9"],
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toBe("Invalid page range");
+    expect(result.details).toContain("Pages must be between 1 and 3");
+  });
+});
+
+describe("splitPDFToPDFs bookmarks", () => {
+  const item = (
+    title: string,
+    pageIndex: number | null,
+    children: OutlineItem[] = [],
+  ): OutlineItem => ({ title, pageIndex, view: [], open: true, children });
+
+  async function createBookmarkedPDF(outline: OutlineItem[]): Promise<File> {
+    const pdfDoc = await PDFDocument.create();
+    for (let i = 0; i < 8; i++) pdfDoc.addPage([100 + i, 200]);
+    writeOutline(pdfDoc, outline);
+    const bytes = await pdfDoc.save();
+    return createPDFFileFromBytes("book.pdf", bytes);
+  }
+
+  const outline = [
+    item("Preface", 0),
+    item("Chapter 1: Basics", 2, [item("1.1", 2), item("1.2", 4)]),
+    item("Chapter 2", 5, [item("Heading", null, [item("2.1", 6)])]),
+  ];
+
+  it("should create a file per top-level bookmark", async () => {
+    const result = await splitPDFToPDFs({
+      file: await createBookmarkedPDF(outline),
+      splitMethod: "bookmarks",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.filenames).toEqual([
+      "Preface.pdf",
+      "Chapter 1_ Basics.pdf",
+      "Chapter 2.pdf",
+    ]);
+    expect(await getPageWidths(result.pdfBlobs[0])).toEqual([100, 101]);
+    expect(await getPageWidths(result.pdfBlobs[1])).toEqual([102, 103, 104]);
+    expect(await getPageWidths(result.pdfBlobs[2])).toEqual([105, 106, 107]);
+  });
+
+  it("should split at deeper bookmarks and keep only chosen ones", async () => {
+    const result = await splitPDFToPDFs({
+      file: await createBookmarkedPDF(outline),
+      splitMethod: "bookmarks",
+      bookmarkDepth: 3,
+      bookmarkIds: ["2.1", "2.2", "3.1.1"],
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.filenames).toEqual(["1.1.pdf", "1.2.pdf", "2.1.pdf"]);
+    expect(await getPageWidths(result.pdfBlobs[0])).toEqual([102, 103]);
+    expect(await getPageWidths(result.pdfBlobs[1])).toEqual([104]);
+    expect(await getPageWidths(result.pdfBlobs[2])).toEqual([106, 107]);
+  });
+
+  it("should fail for PDFs without bookmarks", async () => {
+    const result = await splitPDFToPDFs({
+      file: await createBookmarkedPDF([]),
+      splitMethod: "bookmarks",
+    });
+
+    expect(result).toEqual({ success: false, error: "PDF has no bookmarks" });
+  });
+
+  it("should read the bookmark tree with ids", async () => {
+    const result = await readPDFBookmarks({
+      file: await createBookmarkedPDF(outline.slice(1)),
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.totalPages).toBe(8);
+    expect(result.bookmarks).toEqual([
+      {
+        id: "1",
+        title: "Chapter 1: Basics",
+        pageNumber: 3,
+        children: [
+          { id: "1.1", title: "1.1", pageNumber: 3, children: [] },
+          { id: "1.2", title: "1.2", pageNumber: 5, children: [] },
+        ],
+      },
+      {
+        id: "2",
+        title: "Chapter 2",
+        pageNumber: 6,
+        children: [
+          {
+            id: "2.1",
+            title: "Heading",
+            pageNumber: null,
+            children: [
+              { id: "2.1.1", title: "2.1", pageNumber: 7, children: [] },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("splitPDFToPDFs size", () => {
+  async function createTextPDF(pageCount: number): Promise<File> {
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Courier);
+    for (let i = 0; i < pageCount; i++) {
+      const page = pdfDoc.addPage([300, 400]);
+      for (let line = 0; line < 20; line++) {
+        page.drawText(`Page ${i + 1}, line ${line + 1}: ${"x".repeat(30)}`, {
+          font,
+          size: 8,
+          x: 10,
+          y: 380 - line * 12,
+        });
+      }
+    }
+    const bytes = await pdfDoc.save();
+    return createPDFFileFromBytes("scan.pdf", bytes);
+  }
+
+  it("should pack consecutive pages under the limit", async () => {
+    const result = await splitPDFToPDFs({
+      file: await createTextPDF(9),
+      splitMethod: "size",
+      maxFileSize: 6000,
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const parts = result.parts!;
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.length).toBeLessThan(9);
+    expect(result.warnings).toEqual([]);
+    expect(result.filenames[0]).toBe("scan_part_1.pdf");
+
+    // Contiguous and covering every page
+    expect(parts[0].startPage).toBe(1);
+    expect(parts[parts.length - 1].endPage).toBe(9);
+    parts.slice(1).forEach((part, i) => {
+      expect(part.startPage).toBe(parts[i].endPage + 1);
+    });
+    parts.forEach((part, i) => {
+      expect(part.size).toBeLessThanOrEqual(6000);
+      expect(part.size).toBe(result.pdfBlobs[i].size);
+    });
+  });
+
+  it("should warn about pages that are over the limit alone", async () => {
+    const result = await splitPDFToPDFs({
+      file: await createTextPDF(2),
+      splitMethod: "size",
+      maxFileSize: 500,
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.parts!.map((part) => part.startPage)).toEqual([1, 2]);
+    expect(result.warnings).toHaveLength(2);
+    expect(result.warnings![0]).toMatch(
+      /^Page 1 alone is [\d.]+ KB, over the 500 Bytes limit$/,
+    );
+  });
+
+  it("should reject a non-positive limit", async () => {
+    const result = await splitPDFToPDFs({
+      file: await createTextPDF(1),
+      splitMethod: "size",
+      maxFileSize: 0,
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: "Maximum file size must be greater than 0",
+    });
+  });
+});
+
+describe("blank separator pages", () => {
+  // White page with a dark frame, like a scanned sheet, and optionally text
+  function createPage(hasText: boolean): PixelData {
+    const size = 40;
+    const data = new Uint8ClampedArray(size * size * 4).fill(255);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const onFrame = x === 0 || y === 0 || x === size - 1 || y === size - 1;
+        const onText = hasText && y % 4 === 0 && x > 5 && x < 30;
+        if (onFrame || onText)
+          data.fill(20, (y * size + x) * 4, (y * size + x) * 4 + 3);
+      }
+    }
+    return { data, width: size, height: size };
+  }
+
+  // pdf.js gets a document whose pages render to the given bitmaps; returns
+  // its destroy mock
+  function mockRenderedPages(pages: PixelData[]) {
+    const destroy = vi.fn().mockResolvedValue(undefined);
+    vi.mocked(pdfjsLib.getDocument).mockReturnValueOnce({
+      promise: Promise.resolve({
+        numPages: pages.length,
+        getPage: vi.fn().mockResolvedValue({
+          getViewport: () => ({ width: 40, height: 40 }),
+          render: () => ({ promise: Promise.resolve() }),
+        }),
+        destroy,
+      }),
+    } as any);
+    vi.mocked(document.createElement).mockImplementation(((tagName: string) => {
+      if (tagName !== "canvas") throw new Error("Unexpected element");
+      return {
+        width: 0,
+        height: 0,
+        getContext: () => ({
+          fillRect: vi.fn(),
+          getImageData: () => pages.shift(),
+        }),
+      };
+    }) as any);
+    return destroy;
+  }
+
+  async function createScanPDF(pageCount: number): Promise<File> {
+    const pdfDoc = await PDFDocument.create();
+    for (let i = 0; i < pageCount; i++) pdfDoc.addPage([100 + i, 200]);
+    const bytes = await pdfDoc.save();
+    return createPDFFileFromBytes("mail.pdf", bytes);
+  }
+
+  // Letter, blank, two-page letter, two blanks from a duplex scan, letter
+  const scan = [true, false, true, true, false, false, true];
+
+  it("should ignore the edges when measuring ink", () => {
+    expect(getInkCoverage(createPage(false))).toBe(0);
+    expect(getInkCoverage(createPage(true))).toBeGreaterThan(0.1);
+  });
+
+  it("should split at blank pages and drop them", async () => {
+    const destroy = mockRenderedPages(scan.map(createPage));
+
+    const result = await splitPDFToPDFs({
+      file: await createScanPDF(scan.length),
+      splitMethod: "blank-separator",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.filenames).toEqual([
+      "mail_part_1.pdf",
+      "mail_part_2.pdf",
+      "mail_part_3.pdf",
+    ]);
+    expect(await getPageWidths(result.pdfBlobs[0])).toEqual([100]);
+    expect(await getPageWidths(result.pdfBlobs[1])).toEqual([102, 103]);
+    expect(await getPageWidths(result.pdfBlobs[2])).toEqual([106]);
+    expect(destroy).toHaveBeenCalled();
+  });
+
+  it("should keep given separators at the start of their part", async () => {
+    const result = await splitPDFToPDFs({
+      file: await createScanPDF(scan.length),
+      splitMethod: "blank-separator",
+      separatorPages: [2, 5, 6],
+      removeSeparators: false,
+    });
+
+    expect(pdfjsLib.getDocument).not.toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(await getPageWidths(result.pdfBlobs[1])).toEqual([101, 102, 103]);
+    expect(await getPageWidths(result.pdfBlobs[2])).toEqual([104, 105, 106]);
+  });
+
+  it("should fail when there are no separators", async () => {
+    const result = await splitPDFToPDFs({
+      file: await createScanPDF(2),
+      splitMethod: "blank-separator",
+      separatorPages: [],
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe("No blank separator pages found");
+    }
+  });
+
+  it("should report each page's ink coverage", async () => {
+    const destroy = mockRenderedPages(scan.map(createPage));
+    const onProgress = vi.fn();
+
+    const result = await detectBlankPages({
+      file: await createScanPDF(scan.length),
+      inkThreshold: 0.01,
+      onProgress,
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.blankPages).toEqual([2, 5, 6]);
+    expect(result.pages[0].inkCoverage).toBeGreaterThan(0.01);
+    expect(onProgress).toHaveBeenLastCalledWith(7, 7);
+    expect(destroy).toHaveBeenCalled();
+  });
+});
+
+describe("text pattern split", () => {
+  const pageTexts = [
+    "Cover letter",
+    "ACME Ltd Invoice No. 1001 Total due",
+    "Invoice No. 1001 (continued)",
+    "Invoice No. 1002",
+    "Invoice No. 1001",
+  ];
+
+  // pdf.js gets a document whose pages have the given text; returns its
+  // destroy mock
+  function mockPageTexts(texts: string[]) {
+    const destroy = vi.fn().mockResolvedValue(undefined);
+    vi.mocked(pdfjsLib.getDocument).mockReturnValueOnce({
+      promise: Promise.resolve({
+        numPages: texts.length,
+        getMetadata: () => Promise.resolve({ info: { Title: "March run" } }),
+        getPage: vi.fn((pageNumber: number) =>
+          Promise.resolve({
+            getTextContent: () =>
+              Promise.resolve({
+                items: texts[pageNumber - 1]
+                  .split(" ")
+                  .map((str) => ({ str, hasEOL: false })),
+              }),
+          }),
+        ),
+        destroy,
+      }),
+    } as any);
+    return destroy;
+  }
+
+  async function createBillingRun(): Promise<File> {
+    const pdfDoc = await PDFDocument.create();
+    pageTexts.forEach((_, i) => pdfDoc.addPage([100 + i, 200]));
+    const bytes = await pdfDoc.save();
+    return createPDFFileFromBytes("billing.pdf", bytes);
+  }
+
+  it("should start a file where the pattern matches, named by its groups", async () => {
+    const destroy = mockPageTexts(pageTexts);
+
+    const result = await splitPDFToPDFs({
+      file: await createBillingRun(),
+      splitMethod: "text-pattern",
+      pattern: "Invoice No\\.\\s*(\\d+)",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.filenames).toEqual([
+      "billing_part_1.pdf",
+      "1001.pdf",
+      "1002.pdf",
+      "1001 (2).pdf",
+    ]);
+    expect(await getPageWidths(result.pdfBlobs[1])).toEqual([101, 102]);
+    expect(await getPageWidths(result.pdfBlobs[3])).toEqual([104]);
+    expect(destroy).toHaveBeenCalled();
+  });
+
+  it("should start a file on every match without groups", () => {
+    const sections = getPatternSections(pageTexts, /invoice/i);
+
+    expect(sections.map((s) => [s.startPage, s.endPage, s.match])).toEqual([
+      [1, 1, null],
+      [2, 2, "Invoice"],
+      [3, 3, "Invoice"],
+      [4, 4, "Invoice"],
+      [5, 5, "Invoice"],
+    ]);
+  });
+
+  it("should fail when nothing matches", async () => {
+    mockPageTexts(pageTexts);
+
+    const result = await splitPDFToPDFs({
+      file: await createBillingRun(),
+      splitMethod: "text-pattern",
+      pattern: "Receipt (\\d+)",
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: "The pattern doesn't match any page",
+    });
+  });
+
+  it("should report invalid patterns", async () => {
+    const result = await findPatternSections({
+      file: await createBillingRun(),
+      pattern: "Invoice (",
+    });
+
+    expect(pdfjsLib.getDocument).not.toHaveBeenCalled();
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe("Invalid pattern");
+    }
+  });
+
+  it("should preview sections and file names", async () => {
+    const destroy = mockPageTexts(pageTexts);
+
+    const result = await findPatternSections({
+      file: await createBillingRun(),
+      pattern: "acme.*invoice no\\. (\\d+)",
+      ignoreCase: true,
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.sections).toEqual([
+      { startPage: 1, endPage: 1, match: null, groups: [] },
+      {
+        startPage: 2,
+        endPage: 5,
+        match: "ACME Ltd Invoice No. 1001",
+        groups: ["1001"],
+      },
+    ]);
+    expect(result.filenames).toEqual(["billing_part_1.pdf", "1001.pdf"]);
+    expect(destroy).toHaveBeenCalled();
+  });
+});
+
+describe("filename templates", () => {
+  it("should name outputs from the template", async () => {
+    vi.mocked(pdfjsLib.getDocument).mockReturnValueOnce({
+      promise: Promise.resolve({
+        numPages: 2,
+        getMetadata: () => Promise.resolve({ info: { Title: "March run" } }),
+        getPage: vi.fn((pageNumber: number) =>
+          Promise.resolve({
+            getTextContent: () =>
+              Promise.resolve({
+                items: [{ str: `Invoice ${pageNumber}00`, hasEOL: true }],
+              }),
+          }),
+        ),
+        destroy: () => Promise.resolve(),
+      }),
+    } as any);
+
+    const result = await findPatternSections({
+      file: createMockPDFFile("billing.pdf"),
+      pattern: "Invoice (\\d+)",
+      filenameTemplate: "{title} {match} {index:00} p{start}",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.filenames).toEqual([
+        "March run 100 01 p1.pdf",
+        "March run 200 02 p2.pdf",
+      ]);
+    }
+  });
+
+  it("should reject invalid templates before reading the PDF", async () => {
+    const result = await splitPDFToPDFs({
+      file: createMockPDFFile("test.pdf"),
+      splitMethod: "pages",
+      pages: 1,
+      filenameTemplate: "{name}_{author}",
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: "Invalid filename template",
+      details: "Unknown token {author}",
+    });
+  });
+});
+
+describe("getBookmarkSections", () => {
+  const bookmark = (id: string, pageNumber: number): PDFBookmark => ({
+    id,
+    title: id,
+    pageNumber,
+    children: [],
+  });
+
+  it("should order sections by page and give duplicates no pages", () => {
+    const sections = getBookmarkSections(
+      [bookmark("1", 5), bookmark("2", 2), bookmark("3", 2)],
+      1,
+      6,
+    );
+
+    expect(
+      sections.map(({ bookmark, startPage, endPage }) => [
+        bookmark.id,
+        startPage,
+        endPage,
+      ]),
+    ).toEqual([
+      ["3", 2, 4],
+      ["1", 5, 6],
+    ]);
+  });
+});
+
 describe("splitPDFToImages", () => {
   let mockPDFFile: File;
   let mockNonPDFFile: File;
@@ -192,7 +798,9 @@ describe("splitPDFToImages", () => {
 
     expect(result.success).toBe(false);
     if (!result.success) {
-      expect(result.error).toBe("Invalid format. Supported formats: jpeg, png");
+      expect(result.error).toBe(
+        "Invalid format. Supported formats: jpeg, png, webp, tiff",
+      );
     }
   });
 
@@ -248,4 +856,130 @@ describe("splitPDFToImages", () => {
       expect(result).toHaveProperty("error");
     }
   });
+
+  it("should reject resolutions outside 72 to 600 DPI", async () => {
+    for (const dpi of [50, 1200]) {
+      const result = await splitPDFToImages({
+        file: mockPDFFile,
+        format: "png",
+        dpi,
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe("DPI must be between 72 and 600");
+      }
+    }
+  });
+
+  describe("rendering", () => {
+    // Signature, a 1x1 IHDR and IEND; CRCs aren't checked
+    const png = Uint8Array.from([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48,
+      0x44, 0x52, 0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+      0x49, 0x45, 0x4e, 0x44, 0, 0, 0, 0,
+    ]);
+
+    // pdf.js gets a document whose pages render to 2x1 pixel canvases, which
+    // encode as `encodedType` (default: the requested type)
+    function mockRenderedPages(pageCount: number, encodedType?: string) {
+      const scales: number[] = [];
+      const destroy = vi.fn().mockResolvedValue(undefined);
+      vi.mocked(pdfjsLib.getDocument).mockReturnValueOnce({
+        promise: Promise.resolve({
+          numPages: pageCount,
+          getMetadata: () => Promise.resolve({ info: {} }),
+          getPage: vi.fn().mockResolvedValue({
+            getViewport: ({ scale }: { scale: number }) => {
+              scales.push(scale);
+              return { width: 2, height: 1 };
+            },
+            render: () => ({ promise: Promise.resolve() }),
+          }),
+          destroy,
+        }),
+      } as any);
+      vi.mocked(document.createElement).mockImplementation(((
+        tagName: string,
+      ) => {
+        if (tagName !== "canvas") throw new Error("Unexpected element");
+        return {
+          width: 0,
+          height: 0,
+          getContext: () => ({
+            getImageData: () => ({
+              data: Uint8ClampedArray.from([10, 20, 30, 255, 40, 50, 60, 255]),
+            }),
+          }),
+          toBlob: (callback: (blob: unknown) => void, type: string) =>
+            callback({
+              type: encodedType ?? type,
+              arrayBuffer: () => Promise.resolve(png.slice().buffer),
+            }),
+        };
+      }) as any);
+      return { scales, destroy };
+    }
+
+    it("should render at the requested DPI and record it in PNGs", async () => {
+      const { scales } = mockRenderedPages(2);
+
+      const result = await splitPDFToImages({
+        file: mockPDFFile,
+        format: "png",
+        dpi: 300,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(scales).toEqual([300 / 72, 300 / 72]);
+      expect(result.filenames).toEqual(["test_page_1.png", "test_page_2.png"]);
+
+      const bytes = await readBlob(result.imageBlobs[0]);
+      expect(new TextDecoder().decode(bytes.subarray(37, 41))).toBe("pHYs");
+      expect(new DataView(bytes.buffer).getUint32(41)).toBe(11811);
+    });
+
+    it("should put every page in one TIFF", async () => {
+      const { destroy } = mockRenderedPages(3);
+
+      const result = await splitPDFToImages({
+        file: mockPDFFile,
+        format: "tiff",
+        extractRange: "2-3",
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.totalImages).toBe(1);
+      expect(result.filenames).toEqual(["test.tiff"]);
+      expect(result.imageBlobs[0].type).toBe("image/tiff");
+
+      const bytes = await readBlob(result.imageBlobs[0]);
+      const view = new DataView(bytes.buffer);
+      const firstIFD = view.getUint32(4, true);
+      const secondIFD = view.getUint32(
+        firstIFD + 2 + view.getUint16(firstIFD, true) * 12,
+        true,
+      );
+      expect(secondIFD).toBeGreaterThan(0);
+      expect(destroy).toHaveBeenCalled();
+    });
+
+    it("should fail when the browser can't encode WebP", async () => {
+      const { destroy } = mockRenderedPages(1, "image/png");
+
+      const result = await splitPDFToImages({
+        file: mockPDFFile,
+        format: "webp",
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe("Failed to convert page 1");
+        expect(result.details).toBe("This browser can't create WEBP images");
+      }
+      expect(destroy).toHaveBeenCalled();
+    });
+  });
 });
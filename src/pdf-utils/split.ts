@@ -1,5 +1,24 @@
 import { PDFDocument } from "pdf-lib";
 import * as pdfjsLib from "pdfjs-dist";
+import { renderPageToPixels, type PixelData } from "./compare";
+import { formatFileSize } from "./compress";
+import { loadPDFDocument } from "./decrypt";
+import {
+  formatFilename,
+  getUniqueFilename,
+  validateFilenameTemplate,
+  type FilenameTokens,
+} from "./filename-template";
+import {
+  createTIFF,
+  encodeTIFFPage,
+  setJPEGResolution,
+  setPNGResolution,
+  type TIFFPage,
+} from "./image-formats";
+import { readOutline, writeOutline, type OutlineItem } from "./outline";
+import { appendPages } from "./page-copy";
+import { PageRangeError, parsePageRanges } from "./page-ranges";
 
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc =
@@ -7,17 +26,94 @@ pdfjsLib.GlobalWorkerOptions.workerSrc =
 
 export interface SplitPDFToPDFsOptions {
   file: File;
-  splitMethod: "pages" | "ranges" | "extract";
+  splitMethod:
+    | "pages"
+    | "ranges"
+    | "extract"
+    | "bookmarks"
+    | "size"
+    | "blank-separator"
+    | "text-pattern";
   pages?: number; // For 'pages' method: split every N pages
-  ranges?: string; // For 'ranges' method: e.g., "1-3,4-6,7-10"
-  extractRange?: string; // For 'extract' method: e.g., "2-4" or "5"
+  ranges?: string; // For 'ranges' method: e.g., "1-3,4-6,7-10", one file per comma-separated range
+  rangeList?: string[]; // For 'ranges' method instead of ranges: one file per entry, which can use commas, e.g. ["1-20,!7", "odd"]
+  extractRange?: string; // For 'extract' method: e.g., "2-4" or "5", see parsePageRanges
+  keepPageOrder?: boolean; // For 'extract' and 'ranges' methods: pages in the order written, repeats included
+  bookmarkDepth?: number; // For 'bookmarks' method: outline levels to split at, default 1
+  bookmarkIds?: string[]; // For 'bookmarks' method: sections to keep, default all
+  maxFileSize?: number; // For 'size' method: largest part in bytes
+  inkThreshold?: number; // For 'blank-separator' method: see detectBlankPages
+  separatorPages?: number[]; // For 'blank-separator' method: 1-based, skips detection
+  removeSeparators?: boolean; // For 'blank-separator' method: default true
+  pattern?: string; // For 'text-pattern' method: regex that starts a new file
+  ignoreCase?: boolean; // For 'text-pattern' method
+  filenameTemplate?: string; // See formatFilename; each method has a default
+  password?: string; // For encrypted files
 }
 
+export interface ReadPDFBookmarksOptions {
+  file: File;
+  password?: string; // For encrypted files
+}
+
+export interface DetectBlankPagesOptions {
+  file: File;
+  inkThreshold?: number; // Share of dark pixels below which a page is blank
+  password?: string; // For encrypted files
+  onProgress?: (checkedPages: number, totalPages: number) => void;
+}
+
+export interface PageInk {
+  pageNumber: number; // 1-based
+  inkCoverage: number; // Share of dark pixels, 0 to 1
+  blank: boolean;
+}
+
+export interface FindPatternSectionsOptions {
+  file: File;
+  pattern: string; // Regular expression; captured groups name the files
+  ignoreCase?: boolean;
+  filenameTemplate?: string; // See formatFilename, default "{match}"
+  password?: string; // For encrypted files
+}
+
+export interface PatternSection {
+  startPage: number; // 1-based, inclusive
+  endPage: number;
+  match: string | null; // Matched text, null for pages before the first match
+  groups: string[]; // Captured groups of the match
+}
+
+export interface PDFBookmark {
+  id: string; // Position in the outline, e.g. "2.1" for the second item's first child
+  title: string;
+  pageNumber: number | null; // 1-based, null when it doesn't point to a page
+  children: PDFBookmark[];
+}
+
+export interface BookmarkSection {
+  bookmark: PDFBookmark;
+  startPage: number;
+  endPage: number;
+}
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "tiff";
+
 export interface SplitPDFToImagesOptions {
   file: File;
-  format: "jpeg" | "png";
-  quality?: number; // 0.1 to 1.0 for JPEG
-  extractRange?: string; // Optional: extract specific pages e.g., "2-4" or "5"
+  format: ImageFormat; // TIFF puts every page in one file
+  quality?: number; // 0.1 to 1.0 for JPEG and WebP
+  dpi?: number; // 72 to 600, default 144
+  extractRange?: string; // Optional: extract specific pages e.g., "2-4" or "5", see parsePageRanges
+  keepPageOrder?: boolean; // Pages in the order written, repeats included
+  filenameTemplate?: string; // See formatFilename, default "{name}_page_{start}", or "{name}" for TIFF
+  password?: string; // For encrypted files
+}
+
+export interface SplitPart {
+  startPage: number; // 1-based, inclusive
+  endPage: number;
+  size: number; // Bytes
 }
 
 export interface SplitPDFToPDFsResult {
@@ -25,6 +121,8 @@ export interface SplitPDFToPDFsResult {
   pdfBlobs: Blob[];
   filenames: string[];
   totalFiles: number;
+  parts?: SplitPart[]; // For 'size' method
+  warnings?: string[]; // For 'size' method: pages that are over the limit alone
 }
 
 export interface SplitPDFToImagesResult {
@@ -40,50 +138,51 @@ export interface SplitPDFError {
   details?: string;
 }
 
+export interface ReadPDFBookmarksResult {
+  success: true;
+  bookmarks: PDFBookmark[];
+  totalPages: number;
+}
+
+export interface DetectBlankPagesResult {
+  success: true;
+  pages: PageInk[];
+  blankPages: number[]; // 1-based page numbers
+}
+
+export interface FindPatternSectionsResult {
+  success: true;
+  sections: PatternSection[];
+  filenames: string[];
+}
+
 export type SplitPDFToPDFsResponse = SplitPDFToPDFsResult | SplitPDFError;
 export type SplitPDFToImagesResponse = SplitPDFToImagesResult | SplitPDFError;
+export type ReadPDFBookmarksResponse = ReadPDFBookmarksResult | SplitPDFError;
+export type DetectBlankPagesResponse = DetectBlankPagesResult | SplitPDFError;
+export type FindPatternSectionsResponse =
+  | FindPatternSectionsResult
+  | SplitPDFError;
 
-/**
- * Parses a range string (e.g., "1-3,5,7-9") into an array of page numbers
- */
-function parsePageRanges(rangeString: string, totalPages: number): number[] {
-  const pages: number[] = [];
-  const ranges = rangeString.split(",").map((s) => s.trim());
-
-  for (const range of ranges) {
-    if (range.includes("-")) {
-      const [startStr, endStr] = range.split("-").map((s) => s.trim());
-      const start = parseInt(startStr);
-      const end = parseInt(endStr);
-
-      if (
-        isNaN(start) ||
-        isNaN(end) ||
-        start < 1 ||
-        end > totalPages ||
-        start > end
-      ) {
-        throw new Error(
-          `Invalid range: ${range}. Pages must be between 1 and ${totalPages}`,
-        );
-      }
+export const DEFAULT_IMAGE_DPI = 144;
+export const MIN_IMAGE_DPI = 72;
+export const MAX_IMAGE_DPI = 600;
 
-      for (let i = start; i <= end; i++) {
-        pages.push(i);
-      }
-    } else {
-      const pageNum = parseInt(range);
-      if (isNaN(pageNum) || pageNum < 1 || pageNum > totalPages) {
-        throw new Error(
-          `Invalid page number: ${range}. Pages must be between 1 and ${totalPages}`,
-        );
-      }
-      pages.push(pageNum);
-    }
-  }
+const IMAGE_MIME_TYPES: Record<Exclude<ImageFormat, "tiff">, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
 
-  return [...new Set(pages)].sort((a, b) => a - b); // Remove duplicates and sort
-}
+// Scanned blank sheets keep some specks, so a little ink is allowed
+export const DEFAULT_INK_THRESHOLD = 0.005;
+
+// Pixels darker than this count as ink
+const INK_LUMINANCE = 192;
+// Scanners often leave dark edges, so this share of each side is ignored
+const INK_MARGIN = 0.05;
+// 36 DPI is enough to tell a blank page from one with text
+const BLANK_DETECTION_SCALE = 0.5;
 
 /**
  * Splits a PDF into multiple PDF files
@@ -92,7 +191,25 @@ export async function splitPDFToPDFs(
   options: SplitPDFToPDFsOptions,
 ): Promise<SplitPDFToPDFsResponse> {
   try {
-    const { file, splitMethod, pages, ranges, extractRange } = options;
+    const {
+      file,
+      splitMethod,
+      pages,
+      ranges,
+      rangeList,
+      extractRange,
+      keepPageOrder = false,
+      bookmarkDepth = 1,
+      bookmarkIds,
+      maxFileSize,
+      inkThreshold = DEFAULT_INK_THRESHOLD,
+      separatorPages,
+      removeSeparators = true,
+      pattern,
+      ignoreCase = false,
+      filenameTemplate,
+      password,
+    } = options;
 
     // Validate input
     if (!file) {
@@ -107,9 +224,19 @@ export async function splitPDFToPDFs(
       };
     }
 
+    const templateError = checkFilenameTemplate(filenameTemplate);
+    if (templateError) return templateError;
+
+    let regex: RegExp | undefined;
+    if (splitMethod === "text-pattern" && pattern) {
+      const parsed = parsePattern(pattern, ignoreCase);
+      if (!parsed.success) return parsed;
+      regex = parsed.regex;
+    }
+
     // Load the source PDF
     const fileBuffer = await file.arrayBuffer();
-    const sourcePdf = await PDFDocument.load(fileBuffer);
+    const sourcePdf = await loadPDFDocument(fileBuffer.slice(0), { password });
     const totalPages = sourcePdf.getPageCount();
 
     if (totalPages === 0) {
@@ -118,22 +245,34 @@ export async function splitPDFToPDFs(
 
     const pdfBlobs: Blob[] = [];
     const filenames: string[] = [];
-    const baseName = file.name.replace(/\.pdf$/i, "");
+    const parts: SplitPart[] = [];
+    const warnings: string[] = [];
+    const nameOutput = createOutputNamer(
+      filenameTemplate,
+      {
+        name: file.name.replace(/\.pdf$/i, ""),
+        title: sourcePdf.getTitle(),
+      },
+      "pdf",
+    );
 
     if (splitMethod === "extract" && extractRange) {
       // Extract specific pages into a single PDF
-      const pageNumbers = parsePageRanges(extractRange, totalPages);
+      const pageNumbers = parsePageRanges(extractRange, totalPages, {
+        keepOrder: keepPageOrder,
+      });
       const pageIndices = pageNumbers.map((p) => p - 1); // Convert to 0-based indices
 
-      const extractedPdf = await PDFDocument.create();
-      const copiedPages = await extractedPdf.copyPages(sourcePdf, pageIndices);
-      copiedPages.forEach((page) => extractedPdf.addPage(page));
-
-      const pdfBytes = await extractedPdf.save();
-      const pdfBlob = new Blob([pdfBytes], { type: "application/pdf" });
+      const pdfBlob = await createPartPDF(sourcePdf, pageIndices);
 
       pdfBlobs.push(pdfBlob);
-      filenames.push(`${baseName}_pages_${extractRange}.pdf`);
+      filenames.push(
+        nameOutput("{name}_pages_{range}", {
+          range: extractRange,
+          start: pageNumbers[0],
+          end: pageNumbers[pageNumbers.length - 1],
+        }),
+      );
     } else if (splitMethod === "pages" && pages) {
       // Split every N pages
       if (pages <= 0) {
@@ -150,38 +289,207 @@ export async function splitPDFToPDFs(
           (_, i) => startPage + i,
         );
 
-        const splitPdf = await PDFDocument.create();
-        const copiedPages = await splitPdf.copyPages(sourcePdf, pageIndices);
-        copiedPages.forEach((page) => splitPdf.addPage(page));
-
-        const pdfBytes = await splitPdf.save();
-        const pdfBlob = new Blob([pdfBytes], { type: "application/pdf" });
+        const pdfBlob = await createPartPDF(sourcePdf, pageIndices);
 
         pdfBlobs.push(pdfBlob);
         filenames.push(
-          `${baseName}_part_${Math.floor(startPage / pages) + 1}.pdf`,
+          nameOutput("{name}_part_{index}", {
+            start: startPage + 1,
+            end: endPage + 1,
+          }),
         );
       }
-    } else if (splitMethod === "ranges" && ranges) {
-      // Split by custom ranges
-      const rangeList = ranges.split(",").map((s) => s.trim());
+    } else if (splitMethod === "ranges" && (rangeList || ranges)) {
+      // Split by custom ranges. Commas separate the files in `ranges`, so
+      // only `rangeList` entries can join several parts.
+      const fileRanges = (rangeList ?? ranges!.split(",")).map((s) => s.trim());
 
-      for (let i = 0; i < rangeList.length; i++) {
-        const range = rangeList[i];
-        const pageNumbers = parsePageRanges(range, totalPages);
+      for (const range of fileRanges) {
+        const pageNumbers = parsePageRanges(range, totalPages, {
+          keepOrder: keepPageOrder,
+        });
         const pageIndices = pageNumbers.map((p) => p - 1); // Convert to 0-based indices
 
-        const splitPdf = await PDFDocument.create();
-        const copiedPages = await splitPdf.copyPages(sourcePdf, pageIndices);
-        copiedPages.forEach((page) => splitPdf.addPage(page));
+        const pdfBlob = await createPartPDF(sourcePdf, pageIndices);
 
-        const pdfBytes = await splitPdf.save();
-        const pdfBlob = new Blob([pdfBytes], { type: "application/pdf" });
+        pdfBlobs.push(pdfBlob);
+        filenames.push(
+          nameOutput("{name}_pages_{range}", {
+            range,
+            start: pageNumbers[0],
+            end: pageNumbers[pageNumbers.length - 1],
+          }),
+        );
+      }
+    } else if (splitMethod === "bookmarks") {
+      // One file per bookmark, running until the next one's page
+      if (bookmarkDepth < 1) {
+        return {
+          success: false,
+          error: "Bookmark depth must be at least 1",
+        };
+      }
+
+      const bookmarks = toBookmarks(readOutline(sourcePdf));
+      if (bookmarks.length === 0) {
+        return { success: false, error: "PDF has no bookmarks" };
+      }
+
+      const sections = getBookmarkSections(
+        bookmarks,
+        bookmarkDepth,
+        totalPages,
+      ).filter(
+        ({ bookmark }) => !bookmarkIds || bookmarkIds.includes(bookmark.id),
+      );
+      if (sections.length === 0) {
+        return { success: false, error: "No bookmarked sections to split" };
+      }
+
+      for (const { bookmark, startPage, endPage } of sections) {
+        const pageIndices = Array.from(
+          { length: endPage - startPage + 1 },
+          (_, i) => startPage - 1 + i,
+        );
+
+        const pdfBlob = await createPartPDF(sourcePdf, pageIndices);
 
         pdfBlobs.push(pdfBlob);
         filenames.push(
-          `${baseName}_pages_${range.replace(/[^\d-]/g, "_")}.pdf`,
+          nameOutput("{bookmark}", {
+            bookmark: bookmark.title,
+            start: startPage,
+            end: endPage,
+          }),
+        );
+      }
+    } else if (splitMethod === "size" && maxFileSize !== undefined) {
+      // Pack consecutive pages into parts under the limit
+      if (maxFileSize <= 0) {
+        return {
+          success: false,
+          error: "Maximum file size must be greater than 0",
+        };
+      }
+
+      for (let startPage = 0; startPage < totalPages; ) {
+        const { endPage, pdfBytes } = await packPagesUnderSize(
+          sourcePdf,
+          startPage,
+          maxFileSize,
+        );
+
+        if (pdfBytes.length > maxFileSize) {
+          warnings.push(
+            `Page ${startPage + 1} alone is ${formatFileSize(pdfBytes.length)}, over the ${formatFileSize(maxFileSize)} limit`,
+          );
+        }
+
+        pdfBlobs.push(new Blob([pdfBytes], { type: "application/pdf" }));
+        filenames.push(
+          nameOutput("{name}_part_{index}", {
+            start: startPage + 1,
+            end: endPage,
+          }),
         );
+        parts.push({
+          startPage: startPage + 1,
+          endPage,
+          size: pdfBytes.length,
+        });
+        startPage = endPage;
+      }
+    } else if (splitMethod === "blank-separator") {
+      // A new part starts at every run of blank pages
+      let separators = separatorPages;
+      if (!separators) {
+        const pdfDocument = await pdfjsLib.getDocument({
+          data: fileBuffer,
+          password,
+        }).promise;
+        try {
+          const pages = await measurePagesInk(pdfDocument, inkThreshold);
+          separators = pages
+            .filter((page) => page.blank)
+            .map((page) => page.pageNumber);
+        } finally {
+          await pdfDocument.destroy();
+        }
+      }
+
+      const isSeparator = new Set(
+        separators.map((pageNumber) => pageNumber - 1),
+      );
+      const groups: number[][] = [];
+      let current: number[] = [];
+      for (let pageIndex = 0; pageIndex < totalPages; pageIndex++) {
+        const startsRun =
+          isSeparator.has(pageIndex) && !isSeparator.has(pageIndex - 1);
+        if (startsRun && current.length > 0) {
+          groups.push(current);
+          current = [];
+        }
+        if (!isSeparator.has(pageIndex) || !removeSeparators) {
+          current.push(pageIndex);
+        }
+      }
+      groups.push(current);
+
+      // Kept separators start their part, so parts of only blanks are dropped
+      const documents = groups.filter((group) =>
+        group.some((pageIndex) => !isSeparator.has(pageIndex)),
+      );
+      if (isSeparator.size === 0 || documents.length === 0) {
+        return {
+          success: false,
+          error: "No blank separator pages found",
+          details:
+            isSeparator.size === 0
+              ? "Try a higher ink threshold if the separators have marks on them"
+              : "Every page is a separator",
+        };
+      }
+
+      for (const pageIndices of documents) {
+        const pdfBlob = await createPartPDF(sourcePdf, pageIndices);
+
+        pdfBlobs.push(pdfBlob);
+        filenames.push(
+          nameOutput("{name}_part_{index}", {
+            start: pageIndices[0] + 1,
+            end: pageIndices[pageIndices.length - 1] + 1,
+          }),
+        );
+      }
+    } else if (splitMethod === "text-pattern" && regex) {
+      // A new part starts on every page the pattern matches
+      const pdfDocument = await pdfjsLib.getDocument({
+        data: fileBuffer,
+        password,
+      }).promise;
+      let pageTexts: string[];
+      try {
+        pageTexts = await readPageTexts(pdfDocument);
+      } finally {
+        await pdfDocument.destroy();
+      }
+      const sections = getPatternSections(pageTexts, regex);
+      if (!sections.some((section) => section.match !== null)) {
+        return {
+          success: false,
+          error: "The pattern doesn't match any page",
+        };
+      }
+
+      for (const section of sections) {
+        const { startPage, endPage } = section;
+        const pageIndices = Array.from(
+          { length: endPage - startPage + 1 },
+          (_, i) => startPage - 1 + i,
+        );
+
+        pdfBlobs.push(await createPartPDF(sourcePdf, pageIndices));
+        filenames.push(nameOutput("{match}", getPatternTokens(section)));
       }
     } else {
       return {
@@ -195,8 +503,16 @@ export async function splitPDFToPDFs(
       pdfBlobs,
       filenames,
       totalFiles: pdfBlobs.length,
+      ...(splitMethod === "size" && { parts, warnings }),
     };
   } catch (error) {
+    if (error instanceof PageRangeError) {
+      return {
+        success: false,
+        error: "Invalid page range",
+        details: error.message,
+      };
+    }
     return {
       success: false,
       error: "Failed to split PDF",
@@ -205,6 +521,286 @@ export async function splitPDFToPDFs(
   }
 }
 
+/**
+ * Renders every page and flags the ones with almost no ink, such as the
+ * blank sheets a mailroom scans between letters
+ * @param options - Configuration object containing the PDF file and threshold
+ * @returns Promise that resolves to each page's ink coverage or error
+ */
+export async function detectBlankPages(
+  options: DetectBlankPagesOptions,
+): Promise<DetectBlankPagesResponse> {
+  try {
+    const {
+      file,
+      inkThreshold = DEFAULT_INK_THRESHOLD,
+      password,
+      onProgress,
+    } = options;
+
+    if (!file) {
+      return { success: false, error: "No file provided" };
+    }
+
+    if (file.type !== "application/pdf") {
+      return {
+        success: false,
+        error: "Invalid file type. Only PDF files are supported.",
+        details: `Expected 'application/pdf', got '${file.type}'`,
+      };
+    }
+
+    const fileBuffer = await file.arrayBuffer();
+    const pdfDocument = await pdfjsLib.getDocument({
+      data: fileBuffer,
+      password,
+    }).promise;
+    try {
+      const pages = await measurePagesInk(
+        pdfDocument,
+        inkThreshold,
+        onProgress,
+      );
+
+      return {
+        success: true,
+        pages,
+        blankPages: pages
+          .filter((page) => page.blank)
+          .map((page) => page.pageNumber),
+      };
+    } finally {
+      await pdfDocument.destroy();
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: "Failed to detect blank pages",
+      details: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Share of dark pixels in a rendered page, ignoring its edges
+ */
+export function getInkCoverage(pixels: PixelData): number {
+  const { data, width, height } = pixels;
+  const marginX = Math.floor(width * INK_MARGIN);
+  const marginY = Math.floor(height * INK_MARGIN);
+
+  let inkPixels = 0;
+  let totalPixels = 0;
+  for (let y = marginY; y < height - marginY; y++) {
+    for (let x = marginX; x < width - marginX; x++) {
+      const offset = (y * width + x) * 4;
+      const luminance =
+        0.299 * data[offset] +
+        0.587 * data[offset + 1] +
+        0.114 * data[offset + 2];
+      if (luminance < INK_LUMINANCE) inkPixels++;
+      totalPixels++;
+    }
+  }
+  return totalPixels === 0 ? 0 : inkPixels / totalPixels;
+}
+
+/**
+ * Finds where a text pattern split would start new files, so the result can
+ * be previewed before splitting
+ * @param options - Configuration object containing the PDF file and pattern
+ * @returns Promise that resolves to the sections and their file names or error
+ */
+export async function findPatternSections(
+  options: FindPatternSectionsOptions,
+): Promise<FindPatternSectionsResponse> {
+  try {
+    const {
+      file,
+      pattern,
+      ignoreCase = false,
+      filenameTemplate,
+      password,
+    } = options;
+
+    if (!file) {
+      return { success: false, error: "No file provided" };
+    }
+
+    if (file.type !== "application/pdf") {
+      return {
+        success: false,
+        error: "Invalid file type. Only PDF files are supported.",
+        details: `Expected 'application/pdf', got '${file.type}'`,
+      };
+    }
+
+    const templateError = checkFilenameTemplate(filenameTemplate);
+    if (templateError) return templateError;
+
+    const parsed = parsePattern(pattern, ignoreCase);
+    if (!parsed.success) return parsed;
+
+    const fileBuffer = await file.arrayBuffer();
+    const pdfDocument = await pdfjsLib.getDocument({
+      data: fileBuffer,
+      password,
+    }).promise;
+    try {
+      const sections = getPatternSections(
+        await readPageTexts(pdfDocument),
+        parsed.regex,
+      );
+
+      const nameOutput = createOutputNamer(
+        filenameTemplate,
+        {
+          name: file.name.replace(/\.pdf$/i, ""),
+          title: await getDocumentTitle(pdfDocument),
+        },
+        "pdf",
+      );
+
+      return {
+        success: true,
+        sections,
+        filenames: sections.map((section) =>
+          nameOutput("{match}", getPatternTokens(section)),
+        ),
+      };
+    } finally {
+      await pdfDocument.destroy();
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: "Failed to search PDF text",
+      details: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Groups pages into sections that each start on a page matching `regex`.
+ * Pages before the first match form a section without a match, and a match
+ * capturing the same groups as the previous section continues it, so
+ * invoices that repeat their number on every page stay together.
+ */
+export function getPatternSections(
+  pageTexts: string[],
+  regex: RegExp,
+): PatternSection[] {
+  const sections: PatternSection[] = [];
+
+  pageTexts.forEach((text, index) => {
+    const match = regex.exec(text);
+    const current = sections[sections.length - 1];
+    const groups = match ? match.slice(1).map((group) => group ?? "") : [];
+    const continuesCurrent =
+      current &&
+      (!match ||
+        (groups.length > 0 &&
+          groups.join("\u0000") === current.groups.join("\u0000")));
+
+    if (continuesCurrent) {
+      current.endPage = index + 1;
+    } else {
+      sections.push({
+        startPage: index + 1,
+        endPage: index + 1,
+        match: match ? match[0] : null,
+        groups,
+      });
+    }
+  });
+
+  return sections;
+}
+
+/**
+ * Filename tokens of a pattern section. {match} is only the captured groups,
+ * so outputs fall back to numbered parts without them.
+ */
+export function getPatternTokens(
+  section: PatternSection,
+): Partial<FilenameTokens> {
+  return {
+    match: section.groups.filter(Boolean).join("_"),
+    start: section.startPage,
+    end: section.endPage,
+  };
+}
+
+/**
+ * Reads a PDF's bookmarks, for choosing the sections of a bookmark split
+ * @param options - Configuration object containing the PDF file
+ * @returns Promise that resolves to the bookmark tree or error
+ */
+export async function readPDFBookmarks(
+  options: ReadPDFBookmarksOptions,
+): Promise<ReadPDFBookmarksResponse> {
+  try {
+    const { file, password } = options;
+
+    if (!file) {
+      return { success: false, error: "No file provided" };
+    }
+
+    if (file.type !== "application/pdf") {
+      return {
+        success: false,
+        error: "Invalid file type. Only PDF files are supported.",
+        details: `Expected 'application/pdf', got '${file.type}'`,
+      };
+    }
+
+    const fileBuffer = await file.arrayBuffer();
+    const pdfDoc = await loadPDFDocument(fileBuffer, { password });
+
+    return {
+      success: true,
+      bookmarks: toBookmarks(readOutline(pdfDoc)),
+      totalPages: pdfDoc.getPageCount(),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: "Failed to read PDF bookmarks",
+      details: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * The page ranges a bookmark split produces. Every bookmark down to `depth`
+ * starts a section that ends where the next one in page order starts, so
+ * bookmarks sharing a page with a later one get no section of their own.
+ */
+export function getBookmarkSections(
+  bookmarks: PDFBookmark[],
+  depth: number,
+  totalPages: number,
+): BookmarkSection[] {
+  const starts: PDFBookmark[] = [];
+  const collect = (items: PDFBookmark[], level: number) => {
+    for (const item of items) {
+      if (item.pageNumber !== null) starts.push(item);
+      if (level < depth) collect(item.children, level + 1);
+    }
+  };
+  collect(bookmarks, 1);
+  starts.sort((a, b) => a.pageNumber! - b.pageNumber!);
+
+  return starts
+    .map((bookmark, i) => ({
+      bookmark,
+      startPage: bookmark.pageNumber!,
+      endPage:
+        i + 1 < starts.length ? starts[i + 1].pageNumber! - 1 : totalPages,
+    }))
+    .filter(({ startPage, endPage }) => startPage <= endPage);
+}
+
 /**
  * Converts PDF pages to image files
  */
@@ -212,7 +808,16 @@ export async function splitPDFToImages(
   options: SplitPDFToImagesOptions,
 ): Promise<SplitPDFToImagesResponse> {
   try {
-    const { file, format, quality = 0.9, extractRange } = options;
+    const {
+      file,
+      format,
+      quality = 0.9,
+      dpi = DEFAULT_IMAGE_DPI,
+      extractRange,
+      keepPageOrder = false,
+      filenameTemplate,
+      password,
+    } = options;
 
     // Validate input
     if (!file) {
@@ -227,101 +832,363 @@ export async function splitPDFToImages(
       };
     }
 
-    if (format !== "jpeg" && format !== "png") {
+    if (!["jpeg", "png", "webp", "tiff"].includes(format)) {
+      return {
+        success: false,
+        error: "Invalid format. Supported formats: jpeg, png, webp, tiff",
+      };
+    }
+
+    if (!(dpi >= MIN_IMAGE_DPI && dpi <= MAX_IMAGE_DPI)) {
       return {
         success: false,
-        error: "Invalid format. Supported formats: jpeg, png",
+        error: `DPI must be between ${MIN_IMAGE_DPI} and ${MAX_IMAGE_DPI}`,
       };
     }
 
+    const templateError = checkFilenameTemplate(filenameTemplate);
+    if (templateError) return templateError;
+
     // Load PDF with PDF.js
     const fileBuffer = await file.arrayBuffer();
-    const loadingTask = pdfjsLib.getDocument({ data: fileBuffer });
+    const loadingTask = pdfjsLib.getDocument({ data: fileBuffer, password });
     const pdfDocument = await loadingTask.promise;
+    try {
+      const totalPages = pdfDocument.numPages;
+      if (totalPages === 0) {
+        return { success: false, error: "PDF file has no pages" };
+      }
 
-    const totalPages = pdfDocument.numPages;
-    if (totalPages === 0) {
-      return { success: false, error: "PDF file has no pages" };
-    }
+      // Determine which pages to extract
+      let pageNumbers: number[];
+      if (extractRange) {
+        pageNumbers = parsePageRanges(extractRange, totalPages, {
+          keepOrder: keepPageOrder,
+        });
+      } else {
+        pageNumbers = Array.from({ length: totalPages }, (_, i) => i + 1);
+      }
 
-    // Determine which pages to extract
-    let pageNumbers: number[];
-    if (extractRange) {
-      pageNumbers = parsePageRanges(extractRange, totalPages);
-    } else {
-      pageNumbers = Array.from({ length: totalPages }, (_, i) => i + 1);
-    }
+      const imageBlobs: Blob[] = [];
+      const filenames: string[] = [];
+      const tiffPages: TIFFPage[] = [];
+      const nameOutput = createOutputNamer(
+        filenameTemplate,
+        {
+          name: file.name.replace(/\.pdf$/i, ""),
+          title: await getDocumentTitle(pdfDocument),
+        },
+        format,
+      );
 
-    const imageBlobs: Blob[] = [];
-    const filenames: string[] = [];
-    const baseName = file.name.replace(/\.pdf$/i, "");
+      // Convert each page to image
+      for (const pageNum of pageNumbers) {
+        try {
+          const page = await pdfDocument.getPage(pageNum);
 
-    // Convert each page to image
-    for (const pageNum of pageNumbers) {
-      try {
-        const page = await pdfDocument.getPage(pageNum);
+          // PDF units are points, 72 per inch
+          const viewport = page.getViewport({ scale: dpi / 72 });
 
-        // Set up rendering options
-        const scale = 2.0; // Higher scale for better quality
-        const viewport = page.getViewport({ scale });
+          // Create canvas
+          const canvas = document.createElement("canvas");
+          const context = canvas.getContext("2d");
+          if (!context) {
+            throw new Error("Failed to get canvas context");
+          }
 
-        // Create canvas
-        const canvas = document.createElement("canvas");
-        const context = canvas.getContext("2d");
-        if (!context) {
-          throw new Error("Failed to get canvas context");
-        }
+          canvas.height = viewport.height;
+          canvas.width = viewport.width;
 
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
+          // Render page to canvas
+          const renderContext = {
+            canvasContext: context,
+            viewport: viewport,
+          };
 
-        // Render page to canvas
-        const renderContext = {
-          canvasContext: context,
-          viewport: viewport,
-        };
+          await page.render(renderContext).promise;
 
-        await page.render(renderContext).promise;
-
-        // Convert canvas to blob
-        const blob = await new Promise<Blob>((resolve, reject) => {
-          const mimeType = format === "jpeg" ? "image/jpeg" : "image/png";
-          canvas.toBlob(
-            (blob) => {
-              if (blob) {
-                resolve(blob);
-              } else {
-                reject(new Error("Failed to create image blob"));
-              }
-            },
-            mimeType,
-            format === "jpeg" ? quality : undefined,
+          if (format === "tiff") {
+            const { data } = context.getImageData(
+              0,
+              0,
+              canvas.width,
+              canvas.height,
+            );
+            tiffPages.push(encodeTIFFPage(data, canvas.width, canvas.height));
+            continue;
+          }
+
+          imageBlobs.push(
+            await encodeCanvasImage(canvas, format, quality, dpi),
           );
-        });
+          filenames.push(
+            nameOutput("{name}_page_{start}", { start: pageNum, end: pageNum }),
+          );
+        } catch (pageError) {
+          return {
+            success: false,
+            error: `Failed to convert page ${pageNum}`,
+            details:
+              pageError instanceof Error
+                ? pageError.message
+                : String(pageError),
+          };
+        }
+      }
 
-        imageBlobs.push(blob);
-        filenames.push(`${baseName}_page_${pageNum}.${format}`);
-      } catch (pageError) {
-        return {
-          success: false,
-          error: `Failed to convert page ${pageNum}`,
-          details:
-            pageError instanceof Error ? pageError.message : String(pageError),
-        };
+      if (format === "tiff") {
+        imageBlobs.push(
+          new Blob([createTIFF(tiffPages, dpi)], { type: "image/tiff" }),
+        );
+        filenames.push(
+          nameOutput("{name}", {
+            start: pageNumbers[0],
+            end: pageNumbers[pageNumbers.length - 1],
+            range: extractRange,
+          }),
+        );
       }
-    }
 
+      return {
+        success: true,
+        imageBlobs,
+        filenames,
+        totalImages: imageBlobs.length,
+      };
+    } finally {
+      await pdfDocument.destroy();
+    }
+  } catch (error) {
+    if (error instanceof PageRangeError) {
+      return {
+        success: false,
+        error: "Invalid page range",
+        details: error.message,
+      };
+    }
     return {
-      success: true,
-      imageBlobs,
-      filenames,
-      totalImages: imageBlobs.length,
+      success: false,
+      error: "Failed to convert PDF to images",
+      details: error instanceof Error ? error.message : String(error),
     };
+  }
+}
+
+/**
+ * Copies pages into a new PDF, keeping their bookmarks, links and form fields
+ */
+async function createPartPDF(
+  sourcePdf: PDFDocument,
+  pageIndices: number[],
+): Promise<Blob> {
+  const pdfBytes = await createPartBytes(sourcePdf, pageIndices);
+  return new Blob([pdfBytes], { type: "application/pdf" });
+}
+
+async function createPartBytes(
+  sourcePdf: PDFDocument,
+  pageIndices: number[],
+): Promise<Uint8Array> {
+  const partPdf = await PDFDocument.create();
+  const outline = await appendPages(partPdf, sourcePdf, pageIndices);
+  writeOutline(partPdf, outline);
+
+  return partPdf.save();
+}
+
+function parsePattern(
+  pattern: string,
+  ignoreCase: boolean,
+): { success: true; regex: RegExp } | SplitPDFError {
+  if (!pattern) {
+    return { success: false, error: "A pattern is required" };
+  }
+  try {
+    return { success: true, regex: new RegExp(pattern, ignoreCase ? "i" : "") };
   } catch (error) {
     return {
       success: false,
-      error: "Failed to convert PDF to images",
+      error: "Invalid pattern",
       details: error instanceof Error ? error.message : String(error),
     };
   }
 }
+
+// Text items are joined with spaces, and line ends become newlines
+async function readPageTexts(
+  pdfDocument: pdfjsLib.PDFDocumentProxy,
+): Promise<string[]> {
+  const texts: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+    const page = await pdfDocument.getPage(pageNumber);
+    const content = await page.getTextContent();
+    texts.push(
+      content.items
+        .map((item) =>
+          "str" in item ? item.str + (item.hasEOL ? "\n" : " ") : "",
+        )
+        .join(""),
+    );
+  }
+  return texts;
+}
+
+function checkFilenameTemplate(
+  template: string | undefined,
+): SplitPDFError | null {
+  const error =
+    template === undefined ? null : validateFilenameTemplate(template);
+  return error
+    ? { success: false, error: "Invalid filename template", details: error }
+    : null;
+}
+
+/**
+ * Names outputs in order from `template`, or the default each call passes,
+ * sharing one date and keeping the names unique
+ */
+function createOutputNamer(
+  template: string | undefined,
+  documentTokens: Pick<FilenameTokens, "name" | "title">,
+  extension: string,
+) {
+  const usedNames = new Set<string>();
+  const date = new Date();
+  let index = 0;
+
+  return (defaultTemplate: string, tokens: Partial<FilenameTokens> = {}) => {
+    index++;
+    const filename = formatFilename(
+      template ?? defaultTemplate,
+      { ...documentTokens, date, index, ...tokens },
+      extension,
+    );
+    return getUniqueFilename(filename, usedNames);
+  };
+}
+
+/**
+ * Encodes a rendered page, recording its resolution where the format has
+ * a place for it
+ */
+async function encodeCanvasImage(
+  canvas: HTMLCanvasElement,
+  format: Exclude<ImageFormat, "tiff">,
+  quality: number,
+  dpi: number,
+): Promise<Blob> {
+  const mimeType = IMAGE_MIME_TYPES[format];
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error("Failed to create image blob"));
+        }
+      },
+      mimeType,
+      format === "png" ? undefined : quality,
+    );
+  });
+
+  // Browsers that can't encode a type fall back to PNG
+  if (blob.type !== mimeType) {
+    throw new Error(`This browser can't create ${format.toUpperCase()} images`);
+  }
+  if (format === "webp") return blob;
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return new Blob(
+    [
+      format === "png"
+        ? setPNGResolution(bytes, dpi)
+        : setJPEGResolution(bytes, dpi),
+    ],
+    { type: mimeType },
+  );
+}
+
+async function getDocumentTitle(
+  pdfDocument: pdfjsLib.PDFDocumentProxy,
+): Promise<string | undefined> {
+  const metadata = await pdfDocument.getMetadata().catch(() => null);
+  const title = (metadata?.info as { Title?: unknown } | undefined)?.Title;
+  return typeof title === "string" ? title : undefined;
+}
+
+async function measurePagesInk(
+  pdfDocument: pdfjsLib.PDFDocumentProxy,
+  inkThreshold: number,
+  onProgress?: (checkedPages: number, totalPages: number) => void,
+): Promise<PageInk[]> {
+  const pages: PageInk[] = [];
+  for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+    const pixels = await renderPageToPixels(
+      pdfDocument,
+      pageNumber,
+      BLANK_DETECTION_SCALE,
+    );
+    const inkCoverage = getInkCoverage(pixels);
+    pages.push({ pageNumber, inkCoverage, blank: inkCoverage < inkThreshold });
+    onProgress?.(pageNumber, pdfDocument.numPages);
+  }
+  return pages;
+}
+
+/**
+ * Finds the longest run of pages from `startPage` whose saved PDF stays
+ * within `maxSize`, always taking at least one page. Shared fonts and images
+ * make page sizes non-additive, so candidates are actually saved: the run
+ * doubles until it's too big, then a binary search narrows it down.
+ */
+async function packPagesUnderSize(
+  sourcePdf: PDFDocument,
+  startPage: number,
+  maxSize: number,
+): Promise<{ endPage: number; pdfBytes: Uint8Array }> {
+  const totalPages = sourcePdf.getPageCount();
+  const save = (endPage: number) =>
+    createPartBytes(
+      sourcePdf,
+      Array.from({ length: endPage - startPage }, (_, i) => startPage + i),
+    );
+
+  let fit = { endPage: startPage + 1, pdfBytes: await save(startPage + 1) };
+  if (fit.pdfBytes.length > maxSize) return fit;
+
+  // Smallest end page known to be too big
+  let tooBig = totalPages + 1;
+  for (let step = 1; fit.endPage < totalPages; step *= 2) {
+    const endPage = Math.min(fit.endPage + step, totalPages);
+    const pdfBytes = await save(endPage);
+    if (pdfBytes.length > maxSize) {
+      tooBig = endPage;
+      break;
+    }
+    fit = { endPage, pdfBytes };
+  }
+
+  while (tooBig - fit.endPage > 1) {
+    const endPage = Math.floor((fit.endPage + tooBig) / 2);
+    const pdfBytes = await save(endPage);
+    if (pdfBytes.length > maxSize) {
+      tooBig = endPage;
+    } else {
+      fit = { endPage, pdfBytes };
+    }
+  }
+  return fit;
+}
+
+function toBookmarks(items: OutlineItem[], parentId = ""): PDFBookmark[] {
+  return items.map((item, index) => {
+    const id = parentId ? `${parentId}.${index + 1}` : `${index + 1}`;
+    return {
+      id,
+      title: item.title,
+      pageNumber: item.pageIndex === null ? null : item.pageIndex + 1,
+      children: toBookmarks(item.children, id),
+    };
+  });
+}
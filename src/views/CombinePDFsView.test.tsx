@@ -11,11 +11,15 @@ describe.skip("CombinePDFsView", () => {
 
     // Check for description
     expect(
-      screen.getByText(/Merge multiple PDF files into a single document/),
+      screen.getByText(
+        /Merge multiple PDF files and images into a single document/,
+      ),
     ).toBeInTheDocument();
 
     // Check for dropzone
-    expect(screen.getByText("Drop PDF files here")).toBeInTheDocument();
+    expect(
+      screen.getByText("Drop PDF files or images here"),
+    ).toBeInTheDocument();
     expect(
       screen.getByText("or click to browse (max 20MB each)"),
     ).toBeInTheDocument();
@@ -1,6 +1,26 @@
 import React, { useState, useCallback } from "react";
-import { Dropzone, Button, Modal, Toast } from "../components";
-import { mergePDFs } from "../pdf-utils";
+import {
+  Dropzone,
+  Button,
+  FilenameTemplateInput,
+  Modal,
+  PasswordModal,
+  Toast,
+} from "../components";
+import { usePDFPassword } from "../hooks/usePDFPassword";
+import {
+  formatFilename,
+  getInterleavedOrder,
+  isSupportedImageType,
+  mergePDFs,
+  parsePageRanges,
+  validateFilenameTemplate,
+  type FilenameTokens,
+  type ImagePageSize,
+  type MergeBookmarks,
+  type MergeMode,
+  type MergeSeparator,
+} from "../pdf-utils";
 import { saveAs } from "file-saver";
 import * as pdfjsLib from "pdfjs-dist";
 
@@ -14,6 +34,10 @@ interface UploadedFile {
   file: File;
   id: string;
   thumbnail: string;
+  isImage: boolean; // Images become a single page
+  pageCount?: number;
+  pageRange: string; // Empty means all pages
+  password?: string; // For encrypted PDFs
   error?: string;
 }
 
@@ -30,6 +54,35 @@ interface ToastState {
 }
 
 const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+const DEFAULT_FILENAME_TEMPLATE = "combined-pdfs-{date:YYYY-MM-DDTHH-mm-ss}";
+
+const BOOKMARK_OPTIONS: Array<[MergeBookmarks, string, string]> = [
+  ["none", "Original bookmarks only", "Each file keeps its own bookmarks"],
+  ["files", "One per file", "A bookmark at the first page of each file"],
+  [
+    "nested",
+    "One per file, with original bookmarks",
+    "Each file's own bookmarks are kept under its file bookmark",
+  ],
+];
+
+const SEPARATOR_OPTIONS: Array<[MergeSeparator, string, string]> = [
+  ["none", "None", "Documents follow each other directly"],
+  ["blank", "Blank page", "A blank page between documents"],
+  [
+    "title",
+    "Title page",
+    "A page with the file name and page count before each document",
+  ],
+];
+
+const IMAGE_PAGE_SIZES: Array<[ImagePageSize, string]> = [
+  ["image", "Same as image"],
+  ["a4", "A4 (210 × 297 mm)"],
+  ["letter", "Letter (216 × 279 mm)"],
+];
+
+const PREVIEW_PAGE_LIMIT = 60;
 
 export const CombinePDFsView: React.FC = () => {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
@@ -37,18 +90,34 @@ export const CombinePDFsView: React.FC = () => {
     isProcessing: false,
     progress: "",
   });
+  const [mode, setMode] = useState<MergeMode>("append");
+  const [reverseSecond, setReverseSecond] = useState(false);
+  const [keepRangeOrder, setKeepRangeOrder] = useState(false);
+  const [separator, setSeparator] = useState<MergeSeparator>("none");
+  const [duplexPadding, setDuplexPadding] = useState(false);
+  const [bookmarks, setBookmarks] = useState<MergeBookmarks>("files");
+  const [useDocumentTitles, setUseDocumentTitles] = useState(false);
+  const [imagePageSize, setImagePageSize] = useState<ImagePageSize>("image");
+  const [filenameTemplate, setFilenameTemplate] = useState(
+    DEFAULT_FILENAME_TEMPLATE,
+  );
   const [showModal, setShowModal] = useState(false);
   const [toast, setToast] = useState<ToastState>({
     isVisible: false,
     message: "",
     type: "success",
   });
+  const { unlockPDF, passwordPrompt } = usePDFPassword();
 
   const generatePDFThumbnail = useCallback(
-    async (file: File): Promise<string> => {
+    async (
+      file: File,
+      password?: string,
+    ): Promise<{ thumbnail: string; pageCount?: number }> => {
       try {
         const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer, password })
+          .promise;
         const page = await pdf.getPage(1);
         const scale = 0.5;
         const viewport = page.getViewport({ scale });
@@ -63,18 +132,47 @@ export const CombinePDFsView: React.FC = () => {
           viewport: viewport,
         }).promise;
 
-        return canvas.toDataURL("image/jpeg", 0.8);
+        return {
+          thumbnail: canvas.toDataURL("image/jpeg", 0.8),
+          pageCount: pdf.numPages,
+        };
       } catch (error) {
         console.error("PDF thumbnail generation failed:", error);
-        return "";
+        return { thumbnail: "" };
       }
     },
     [],
   );
 
+  // Scaled down to the size of a PDF thumbnail
+  const generateImageThumbnail = useCallback(
+    (file: File): Promise<string> =>
+      new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+          const scale = Math.min(1, 150 / img.width, 200 / img.height);
+          const canvas = document.createElement("canvas");
+          canvas.width = img.width * scale;
+          canvas.height = img.height * scale;
+          canvas
+            .getContext("2d")!
+            .drawImage(img, 0, 0, canvas.width, canvas.height);
+          URL.revokeObjectURL(url);
+          resolve(canvas.toDataURL("image/jpeg", 0.8));
+        };
+        img.onerror = () => {
+          URL.revokeObjectURL(url);
+          reject(new Error(`Failed to load image: ${file.name}`));
+        };
+        img.src = url;
+      }),
+    [],
+  );
+
   const validateFile = (file: File): string | null => {
-    if (file.type !== "application/pdf") {
-      return `${file.name}: Only PDF files are supported`;
+    if (file.type !== "application/pdf" && !isSupportedImageType(file.type)) {
+      return `${file.name}: Only PDF files and JPEG or PNG images are supported`;
     }
     if (file.size > MAX_FILE_SIZE) {
       return `${file.name}: File size exceeds 20MB limit`;
@@ -88,16 +186,32 @@ export const CombinePDFsView: React.FC = () => {
 
       for (const file of files) {
         const error = validateFile(file);
+        const isImage = isSupportedImageType(file.type);
         const fileObj: UploadedFile = {
           file,
           id: `${file.name}-${Date.now()}-${Math.random()}`,
           thumbnail: "",
+          isImage,
+          pageCount: isImage ? 1 : undefined,
+          pageRange: "",
           error: error || undefined,
         };
 
         if (!error) {
           try {
-            fileObj.thumbnail = await generatePDFThumbnail(file);
+            if (isImage) {
+              fileObj.thumbnail = await generateImageThumbnail(file);
+            } else {
+              const { password, error: lockError } = await unlockPDF(file);
+              if (lockError) {
+                fileObj.error = lockError;
+              } else {
+                const preview = await generatePDFThumbnail(file, password);
+                fileObj.thumbnail = preview.thumbnail;
+                fileObj.pageCount = preview.pageCount;
+                fileObj.password = password;
+              }
+            }
           } catch (err) {
             console.error("Thumbnail generation failed:", err);
             fileObj.error = "Failed to generate thumbnail";
@@ -109,9 +223,38 @@ export const CombinePDFsView: React.FC = () => {
 
       setUploadedFiles((prev) => [...prev, ...newFiles]);
     },
-    [generatePDFThumbnail],
+    [generatePDFThumbnail, generateImageThumbnail, unlockPDF],
   );
 
+  const updatePageRange = (id: string, pageRange: string) => {
+    setUploadedFiles((prev) =>
+      prev.map((file) => (file.id === id ? { ...file, pageRange } : file)),
+    );
+  };
+
+  // Checked against the page count read while generating the thumbnail;
+  // mergePDFs validates again in case that count is unknown
+  const getPageRangeStatus = (
+    fileObj: UploadedFile,
+  ): { error?: string; selectedPages?: number[] } => {
+    if (fileObj.pageCount === undefined) {
+      return {};
+    }
+    try {
+      return {
+        selectedPages: parsePageRanges(
+          fileObj.pageRange.trim() || "all",
+          fileObj.pageCount,
+          { keepOrder: keepRangeOrder },
+        ),
+      };
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : "Invalid page range",
+      };
+    }
+  };
+
   const removeFile = (id: string) => {
     setUploadedFiles((prev) => prev.filter((file) => file.id !== id));
   };
@@ -153,7 +296,7 @@ export const CombinePDFsView: React.FC = () => {
       setProcessing({
         isProcessing: false,
         progress: "",
-        error: "Please upload at least 2 valid PDF files to combine",
+        error: "Please upload at least 2 valid files to combine",
       });
       setShowModal(true);
       return;
@@ -165,10 +308,23 @@ export const CombinePDFsView: React.FC = () => {
     });
 
     try {
-      setProcessing((prev) => ({ ...prev, progress: "Merging PDF files..." }));
+      setProcessing((prev) => ({ ...prev, progress: "Merging files..." }));
 
       const result = await mergePDFs({
-        files: validFiles.map((file) => file.file),
+        files: validFiles.map((file) => ({
+          file: file.file,
+          pageRange: file.pageRange,
+          keepPageOrder: keepRangeOrder,
+          password: file.password,
+        })),
+        mode,
+        reverseSecond,
+        // Separator pages only apply when appending
+        separator: mode === "append" ? separator : "none",
+        duplexPadding: mode === "append" && duplexPadding,
+        imagePageSize,
+        bookmarks,
+        bookmarkTitles: useDocumentTitles ? "metadata" : "filename",
       });
 
       if (!result.success) {
@@ -177,15 +333,10 @@ export const CombinePDFsView: React.FC = () => {
 
       setProcessing((prev) => ({ ...prev, progress: "Preparing download..." }));
 
-      // Generate filename with timestamp
-      const timestamp = new Date()
-        .toISOString()
-        .slice(0, 19)
-        .replace(/:/g, "-");
-      const filename = `combined-pdfs-${timestamp}.pdf`;
-
-      // Download the file
-      saveAs(result.pdfBlob, filename);
+      saveAs(
+        result.pdfBlob,
+        formatFilename(filenameTemplate, filenameTokens, "pdf"),
+      );
 
       setProcessing({
         isProcessing: false,
@@ -195,7 +346,7 @@ export const CombinePDFsView: React.FC = () => {
       // Show success toast instead of modal
       setToast({
         isVisible: true,
-        message: `Successfully combined ${validFiles.length} PDFs!`,
+        message: `Successfully combined ${validFiles.length} files!`,
         type: "success",
       });
     } catch (error) {
@@ -211,6 +362,33 @@ export const CombinePDFsView: React.FC = () => {
 
   const validFiles = uploadedFiles.filter((file) => !file.error);
   const hasErrors = uploadedFiles.some((file) => file.error);
+  const hasRangeErrors = validFiles.some(
+    (file) => getPageRangeStatus(file).error,
+  );
+  const hasImages = validFiles.some((file) => file.isImage);
+  const canInterleave = validFiles.length === 2;
+  // {name} is the first file's
+  const filenameTokens: FilenameTokens = {
+    name: validFiles[0]?.file.name.replace(/\.[^.]+$/, "") ?? "",
+  };
+
+  // Labels like "A1, B3, A2" for the interleaved page order
+  const getInterleavePreview = (): string[] | null => {
+    if (!canInterleave) return null;
+    const [first, second] = validFiles.map(
+      (file) => getPageRangeStatus(file).selectedPages,
+    );
+    if (!first || !second) return null;
+
+    return getInterleavedOrder(first.length, second.length, reverseSecond).map(
+      (index) =>
+        index < first.length
+          ? `A${first[index]}`
+          : `B${second[index - first.length]}`,
+    );
+  };
+  const interleavePreview =
+    mode === "interleave" ? getInterleavePreview() : null;
 
   return (
     <div className="max-w-7xl mx-auto px-6 py-4 relative z-10">
@@ -222,8 +400,8 @@ export const CombinePDFsView: React.FC = () => {
           </span>
         </h1>
         <p className="text-lg text-slate-300 leading-relaxed max-w-2xl mx-auto">
-          Merge multiple PDF files into a single document with professional
-          quality. Maximum file size: 20MB per file.
+          Merge multiple PDF files and images into a single document with
+          professional quality. Maximum file size: 20MB per file.
         </p>
       </div>
 
@@ -246,11 +424,11 @@ export const CombinePDFsView: React.FC = () => {
                 />
               </svg>
             </span>
-            Upload PDF Files
+            Upload PDFs and Images
           </h2>
           <Dropzone
             onFilesDrop={handleFilesDrop}
-            accept=".pdf"
+            accept=".pdf,.jpg,.jpeg,.png"
             multiple={true}
             disabled={processing.isProcessing}
             className="w-full min-h-[200px]"
@@ -260,7 +438,7 @@ export const CombinePDFsView: React.FC = () => {
                 <p className="text-lg font-medium">
                   {processing.isProcessing
                     ? "Processing..."
-                    : "Drop PDF files here"}
+                    : "Drop PDF files or images here"}
                 </p>
                 <p className="text-sm">
                   {processing.isProcessing
@@ -306,7 +484,13 @@ export const CombinePDFsView: React.FC = () => {
                 </Button>
                 <Button
                   variant="primary"
-                  disabled={validFiles.length < 2 || processing.isProcessing}
+                  disabled={
+                    validFiles.length < 2 ||
+                    (mode === "interleave" && !canInterleave) ||
+                    hasRangeErrors ||
+                    validateFilenameTemplate(filenameTemplate) !== null ||
+                    processing.isProcessing
+                  }
                   onClick={handleMerge}
                   loading={processing.isProcessing}
                   className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 hover:shadow-lg hover:scale-105 transition-all duration-200"
@@ -347,122 +531,418 @@ export const CombinePDFsView: React.FC = () => {
             )}
 
             <div className="space-y-4">
-              {uploadedFiles.map((fileObj, index) => (
-                <div
-                  key={fileObj.id}
-                  className={`flex items-center space-x-4 p-4 rounded-2xl transition-all duration-200 hover:shadow-md ${
-                    fileObj.error
-                      ? "bg-red-900/20 border border-red-700/60 backdrop-blur-sm"
-                      : "bg-slate-700/40 border border-slate-600/60 backdrop-blur-sm hover:bg-slate-700/60"
-                  }`}
-                >
-                  {/* Thumbnail */}
-                  <div className="flex-shrink-0 w-16 h-20 bg-slate-600 rounded-xl overflow-hidden shadow-sm">
-                    {fileObj.thumbnail ? (
-                      <img
-                        src={fileObj.thumbnail}
-                        alt={`${fileObj.file.name} thumbnail`}
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <div className="w-full h-full flex items-center justify-center">
-                        <span className="text-xs font-medium text-slate-300">
-                          PDF
-                        </span>
+              {uploadedFiles.map((fileObj, index) => {
+                const rangeStatus = getPageRangeStatus(fileObj);
+                return (
+                  <div
+                    key={fileObj.id}
+                    className={`flex items-center space-x-4 p-4 rounded-2xl transition-all duration-200 hover:shadow-md ${
+                      fileObj.error
+                        ? "bg-red-900/20 border border-red-700/60 backdrop-blur-sm"
+                        : "bg-slate-700/40 border border-slate-600/60 backdrop-blur-sm hover:bg-slate-700/60"
+                    }`}
+                  >
+                    {/* Thumbnail */}
+                    <div className="flex-shrink-0 w-16 h-20 bg-slate-600 rounded-xl overflow-hidden shadow-sm">
+                      {fileObj.thumbnail ? (
+                        <img
+                          src={fileObj.thumbnail}
+                          alt={`${fileObj.file.name} thumbnail`}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center">
+                          <span className="text-xs font-medium text-slate-300">
+                            {fileObj.isImage ? "IMG" : "PDF"}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+
+                    {/* File Info */}
+                    <div className="flex-grow min-w-0">
+                      <p className="text-sm font-semibold text-slate-200 truncate mb-1">
+                        {fileObj.file.name}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        {(fileObj.file.size / 1024 / 1024).toFixed(2)} MB
+                        {fileObj.isImage
+                          ? " · Image, 1 page"
+                          : fileObj.pageCount !== undefined &&
+                            ` · ${fileObj.pageCount} page${fileObj.pageCount === 1 ? "" : "s"}`}
+                      </p>
+                      {fileObj.error && (
+                        <p className="text-xs text-red-300 mt-1 font-medium">
+                          {fileObj.error}
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Page Range */}
+                    {!fileObj.error && !fileObj.isImage && (
+                      <div className="flex-shrink-0 w-48">
+                        <input
+                          type="text"
+                          aria-label={`Pages from ${fileObj.file.name}`}
+                          value={fileObj.pageRange}
+                          onChange={(e) =>
+                            updatePageRange(fileObj.id, e.target.value)
+                          }
+                          placeholder="All pages (e.g., 1-3,7 or odd)"
+                          disabled={processing.isProcessing}
+                          className={`w-full px-3 py-1.5 border rounded-lg bg-slate-700 text-slate-100 text-sm placeholder-slate-400 focus:outline-none focus:ring-2 ${
+                            rangeStatus.error
+                              ? "border-red-500 focus:ring-red-500"
+                              : "border-slate-600 focus:ring-blue-500"
+                          }`}
+                        />
+                        {rangeStatus.error ? (
+                          <p className="text-xs text-red-300 mt-1">
+                            {rangeStatus.error}
+                          </p>
+                        ) : (
+                          rangeStatus.selectedPages !== undefined && (
+                            <p className="text-xs text-slate-400 mt-1">
+                              {rangeStatus.selectedPages.length} of{" "}
+                              {fileObj.pageCount} pages
+                            </p>
+                          )
+                        )}
                       </div>
                     )}
+
+                    {/* Order Number */}
+                    <div className="flex-shrink-0">
+                      <span className="inline-flex items-center justify-center w-8 h-8 bg-gradient-to-r from-indigo-500 to-indigo-600 text-white rounded-full text-sm font-semibold shadow-lg">
+                        {index + 1}
+                      </span>
+                    </div>
+
+                    {/* Controls */}
+                    <div className="flex-shrink-0 flex space-x-1">
+                      <button
+                        onClick={() => moveFileUp(index)}
+                        disabled={index === 0 || processing.isProcessing}
+                        className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed hover:shadow-sm"
+                        title="Move up"
+                      >
+                        <svg
+                          className="w-4 h-4"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M5 15l7-7 7 7"
+                          />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => moveFileDown(index)}
+                        disabled={
+                          index === uploadedFiles.length - 1 ||
+                          processing.isProcessing
+                        }
+                        className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed hover:shadow-sm"
+                        title="Move down"
+                      >
+                        <svg
+                          className="w-4 h-4"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M19 9l-7 7-7-7"
+                          />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => removeFile(fileObj.id)}
+                        disabled={processing.isProcessing}
+                        className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed hover:shadow-sm"
+                        title="Remove file"
+                      >
+                        <svg
+                          className="w-4 h-4"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                          />
+                        </svg>
+                      </button>
+                    </div>
                   </div>
+                );
+              })}
+            </div>
+
+            {/* Merge Mode */}
+            <div className="mt-6 pt-6 border-t border-slate-700">
+              <label className="block text-sm font-medium text-slate-300 mb-3">
+                Page Order
+              </label>
+              <div className="flex flex-wrap gap-6">
+                {(
+                  [
+                    ["append", "One file after another"],
+                    ["interleave", "Interleave (duplex scans)"],
+                  ] as const
+                ).map(([value, label]) => (
+                  <label
+                    key={value}
+                    className="flex items-center space-x-2 cursor-pointer"
+                  >
+                    <input
+                      type="radio"
+                      name="mergeMode"
+                      value={value}
+                      checked={mode === value}
+                      onChange={() => setMode(value)}
+                      disabled={processing.isProcessing}
+                    />
+                    <span className="text-sm text-slate-200">{label}</span>
+                  </label>
+                ))}
+              </div>
+
+              <label className="flex items-start space-x-3 cursor-pointer mt-4">
+                <input
+                  type="checkbox"
+                  checked={keepRangeOrder}
+                  onChange={(e) => setKeepRangeOrder(e.target.checked)}
+                  disabled={processing.isProcessing}
+                  className="mt-1"
+                />
+                <div className="flex-grow">
+                  <span className="text-sm font-medium text-slate-200">
+                    Keep the order of page ranges
+                  </span>
+                  <p className="text-xs text-slate-400">
+                    Pages are taken as written, e.g. 10-1 in reverse, and
+                    repeated pages are kept
+                  </p>
+                </div>
+              </label>
+
+              {mode === "interleave" && (
+                <div className="mt-4 space-y-3">
+                  <p className="text-xs text-slate-400">
+                    Alternates pages of the two files: A1, B1, A2, B2... Pages
+                    left over from the longer file go at the end.
+                  </p>
+                  <label className="flex items-start space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={reverseSecond}
+                      onChange={(e) => setReverseSecond(e.target.checked)}
+                      disabled={processing.isProcessing}
+                      className="mt-1"
+                    />
+                    <div className="flex-grow">
+                      <span className="text-sm font-medium text-slate-200">
+                        Reverse second file
+                      </span>
+                      <p className="text-xs text-slate-400">
+                        For back sides scanned last page first
+                      </p>
+                    </div>
+                  </label>
 
-                  {/* File Info */}
-                  <div className="flex-grow min-w-0">
-                    <p className="text-sm font-semibold text-slate-200 truncate mb-1">
-                      {fileObj.file.name}
+                  {!canInterleave ? (
+                    <p className="text-sm text-amber-300">
+                      Interleaving needs exactly 2 files; A is the first file in
+                      the list and B the second.
                     </p>
+                  ) : (
+                    interleavePreview && (
+                      <div>
+                        <p className="text-xs text-slate-400 mb-2">
+                          Resulting order ({interleavePreview.length} pages):
+                        </p>
+                        <div className="flex flex-wrap gap-1">
+                          {interleavePreview
+                            .slice(0, PREVIEW_PAGE_LIMIT)
+                            .map((label, position) => (
+                              <span
+                                key={position}
+                                className={`px-2 py-0.5 rounded-md text-xs font-medium ${
+                                  label.startsWith("A")
+                                    ? "bg-blue-900/60 text-blue-200"
+                                    : "bg-purple-900/60 text-purple-200"
+                                }`}
+                              >
+                                {label}
+                              </span>
+                            ))}
+                          {interleavePreview.length > PREVIEW_PAGE_LIMIT && (
+                            <span className="px-2 py-0.5 text-xs text-slate-400">
+                              +{interleavePreview.length - PREVIEW_PAGE_LIMIT}{" "}
+                              more
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Separator Pages */}
+            {mode === "append" && (
+              <div className="mt-6 pt-6 border-t border-slate-700">
+                <label className="block text-sm font-medium text-slate-300 mb-3">
+                  Separator Pages
+                </label>
+                <div className="space-y-3">
+                  {SEPARATOR_OPTIONS.map(([value, label, description]) => (
+                    <label
+                      key={value}
+                      className="flex items-start space-x-3 cursor-pointer"
+                    >
+                      <input
+                        type="radio"
+                        name="separator"
+                        value={value}
+                        checked={separator === value}
+                        onChange={() => setSeparator(value)}
+                        disabled={processing.isProcessing}
+                        className="mt-1"
+                      />
+                      <div className="flex-grow">
+                        <span className="text-sm font-medium text-slate-200">
+                          {label}
+                        </span>
+                        <p className="text-xs text-slate-400">{description}</p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+                <label className="flex items-start space-x-3 cursor-pointer mt-4">
+                  <input
+                    type="checkbox"
+                    checked={duplexPadding}
+                    onChange={(e) => setDuplexPadding(e.target.checked)}
+                    disabled={processing.isProcessing}
+                    className="mt-1"
+                  />
+                  <div className="flex-grow">
+                    <span className="text-sm font-medium text-slate-200">
+                      Pad for duplex printing
+                    </span>
                     <p className="text-xs text-slate-400">
-                      {(fileObj.file.size / 1024 / 1024).toFixed(2)} MB
+                      Adds a blank page where needed so every document starts on
+                      a right-hand page
                     </p>
-                    {fileObj.error && (
-                      <p className="text-xs text-red-300 mt-1 font-medium">
-                        {fileObj.error}
-                      </p>
-                    )}
                   </div>
+                </label>
+              </div>
+            )}
 
-                  {/* Order Number */}
-                  <div className="flex-shrink-0">
-                    <span className="inline-flex items-center justify-center w-8 h-8 bg-gradient-to-r from-indigo-500 to-indigo-600 text-white rounded-full text-sm font-semibold shadow-lg">
-                      {index + 1}
-                    </span>
-                  </div>
+            {/* Image Page Size */}
+            {hasImages && (
+              <div className="mt-6 pt-6 border-t border-slate-700">
+                <label
+                  htmlFor="imagePageSize"
+                  className="block text-sm font-medium text-slate-300 mb-3"
+                >
+                  Image Page Size
+                </label>
+                <select
+                  id="imagePageSize"
+                  value={imagePageSize}
+                  onChange={(e) =>
+                    setImagePageSize(e.target.value as ImagePageSize)
+                  }
+                  disabled={processing.isProcessing}
+                  className="w-full max-w-xs px-3 py-2 border border-slate-600 rounded-lg bg-slate-700 text-slate-100 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {IMAGE_PAGE_SIZES.map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-400 mt-2">
+                  Images are centered and scaled to fit A4 and Letter pages,
+                  turned to match the image
+                </p>
+              </div>
+            )}
 
-                  {/* Controls */}
-                  <div className="flex-shrink-0 flex space-x-1">
-                    <button
-                      onClick={() => moveFileUp(index)}
-                      disabled={index === 0 || processing.isProcessing}
-                      className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed hover:shadow-sm"
-                      title="Move up"
-                    >
-                      <svg
-                        className="w-4 h-4"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M5 15l7-7 7 7"
-                        />
-                      </svg>
-                    </button>
-                    <button
-                      onClick={() => moveFileDown(index)}
-                      disabled={
-                        index === uploadedFiles.length - 1 ||
-                        processing.isProcessing
-                      }
-                      className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed hover:shadow-sm"
-                      title="Move down"
-                    >
-                      <svg
-                        className="w-4 h-4"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M19 9l-7 7-7-7"
-                        />
-                      </svg>
-                    </button>
-                    <button
-                      onClick={() => removeFile(fileObj.id)}
+            {/* Bookmark Options */}
+            <div className="mt-6 pt-6 border-t border-slate-700">
+              <label className="block text-sm font-medium text-slate-300 mb-3">
+                Bookmarks
+              </label>
+              <div className="space-y-3">
+                {BOOKMARK_OPTIONS.map(([value, label, description]) => (
+                  <label
+                    key={value}
+                    className="flex items-start space-x-3 cursor-pointer"
+                  >
+                    <input
+                      type="radio"
+                      name="bookmarks"
+                      value={value}
+                      checked={bookmarks === value}
+                      onChange={() => setBookmarks(value)}
                       disabled={processing.isProcessing}
-                      className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed hover:shadow-sm"
-                      title="Remove file"
-                    >
-                      <svg
-                        className="w-4 h-4"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                        />
-                      </svg>
-                    </button>
+                      className="mt-1"
+                    />
+                    <div className="flex-grow">
+                      <span className="text-sm font-medium text-slate-200">
+                        {label}
+                      </span>
+                      <p className="text-xs text-slate-400">{description}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+              {bookmarks !== "none" && (
+                <label className="flex items-start space-x-3 cursor-pointer mt-4">
+                  <input
+                    type="checkbox"
+                    checked={useDocumentTitles}
+                    onChange={(e) => setUseDocumentTitles(e.target.checked)}
+                    disabled={processing.isProcessing}
+                    className="mt-1"
+                  />
+                  <div className="flex-grow">
+                    <span className="text-sm font-medium text-slate-200">
+                      Use document titles
+                    </span>
+                    <p className="text-xs text-slate-400">
+                      Name bookmarks after each PDF's Title metadata instead of
+                      its file name, when it has one
+                    </p>
                   </div>
-                </div>
-              ))}
+                </label>
+              )}
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-slate-700">
+              <FilenameTemplateInput
+                value={filenameTemplate}
+                onChange={setFilenameTemplate}
+                defaultTemplate={DEFAULT_FILENAME_TEMPLATE}
+                samples={[filenameTokens]}
+                extension="pdf"
+                disabled={processing.isProcessing}
+              />
             </div>
           </div>
         )}
@@ -477,6 +957,8 @@ export const CombinePDFsView: React.FC = () => {
         <div className="text-red-600 dark:text-red-400">{processing.error}</div>
       </Modal>
 
+      <PasswordModal {...passwordPrompt} />
+
       {/* Success Toast */}
       <Toast
         isVisible={toast.isVisible}
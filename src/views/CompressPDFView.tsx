@@ -1,7 +1,31 @@
 import React, { useState, useCallback } from "react";
-import { Dropzone, Button, Modal, Toast } from "../components";
-import { compressPDF } from "../pdf-utils";
+import {
+  Dropzone,
+  Button,
+  FilenameTemplateInput,
+  Modal,
+  PasswordModal,
+  Toast,
+  BeforeAfterViewer,
+} from "../components";
+import { usePDFPassword } from "../hooks/usePDFPassword";
+import {
+  analyzePDF,
+  calculateCompressionPercentage,
+  comparePDFPages,
+  compressPDF,
+  formatFilename,
+  getUniqueFilename,
+  validateFilenameTemplate,
+  type AppliedCompressionSettings,
+  type CleanupReport,
+  type ImageColorMode,
+  type PageComparison,
+  type PDFSizeReport,
+  type SizeCategory,
+} from "../pdf-utils";
 import { saveAs } from "file-saver";
+import JSZip from "jszip";
 import * as pdfjsLib from "pdfjs-dist";
 
 // Configure PDF.js worker for offline use
@@ -14,6 +38,7 @@ interface UploadedFile {
   file: File;
   id: string;
   thumbnail: string;
+  password?: string; // For encrypted PDFs
   error?: string;
 }
 
@@ -27,6 +52,39 @@ interface CompressionResult {
   originalSize: number;
   compressedSize: number;
   reductionPercentage: number;
+  appliedSettings: AppliedCompressionSettings;
+  removedObjects: CleanupReport;
+  linearizeRequested: boolean;
+  linearized: boolean;
+  targetSize?: number;
+  targetReached?: boolean;
+}
+
+interface CompressedOutput {
+  blob: Blob;
+  filename: string;
+}
+
+// One row of the batch summary, keyed by UploadedFile.id
+interface BatchFileResult {
+  status: "pending" | "compressing" | "done" | "failed";
+  compressedSize?: number;
+  reductionPercentage?: number;
+  targetReached?: boolean;
+  linearized?: boolean;
+  error?: string;
+}
+
+interface BatchOutput {
+  zipBlob: Blob;
+  filename: string;
+}
+
+interface ComparisonState {
+  isComparing: boolean;
+  progress: string;
+  pages: PageComparison[] | null;
+  error?: string;
 }
 
 interface ToastState {
@@ -36,9 +94,54 @@ interface ToastState {
 }
 
 const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+const BYTES_PER_MB = 1024 * 1024;
+
+const REMOVED_OBJECT_LABELS: Record<keyof CleanupReport, string> = {
+  unreachableObjects: "unused objects",
+  thumbnails: "page thumbnails",
+  duplicateFonts: "duplicate fonts",
+  duplicateImages: "duplicate images",
+  unusedFormXObjects: "unused form XObjects",
+  unusedResources: "unused resource entries",
+};
+
+const SIZE_CATEGORY_LABELS: Record<SizeCategory, string> = {
+  images: "Images",
+  fonts: "Fonts",
+  contentStreams: "Page content",
+  annotations: "Annotations",
+  attachments: "Attachments",
+  metadata: "Metadata",
+  unusedObjects: "Unused objects",
+  other: "Structure & other",
+};
+
+const COLOR_MODE_OPTIONS: Array<[ImageColorMode, string, string]> = [
+  ["color", "Color", "Images keep their colors"],
+  [
+    "grayscale",
+    "Grayscale",
+    "Images are converted to shades of gray, e.g. for black and white printing",
+  ],
+  [
+    "bilevel",
+    "Black & white (1-bit)",
+    "Images become pure black and white at 300 DPI or more; much smaller for scanned forms and text",
+  ],
+];
+
+// Number of images and fonts listed in the size breakdown
+const BREAKDOWN_LIST_LIMIT = 5;
+
+// One "Removed 3 duplicate fonts" line per non-zero cleanup category
+function getRemovedObjectSummary(report: CleanupReport): string[] {
+  return (Object.keys(REMOVED_OBJECT_LABELS) as Array<keyof CleanupReport>)
+    .filter((key) => report[key] > 0)
+    .map((key) => `Removed ${report[key]} ${REMOVED_OBJECT_LABELS[key]}`);
+}
 
 export const CompressPDFView: React.FC = () => {
-  const [uploadedFile, setUploadedFile] = useState<UploadedFile | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [processing, setProcessing] = useState<ProcessingState>({
     isProcessing: false,
     progress: "",
@@ -46,20 +149,62 @@ export const CompressPDFView: React.FC = () => {
   const [compressionLevel, setCompressionLevel] = useState<
     "low" | "medium" | "high"
   >("medium");
+  const [compressionMode, setCompressionMode] = useState<
+    "level" | "target-size"
+  >("level");
+  const [targetSizeMB, setTargetSizeMB] = useState("10");
+  const [removeMetadata, setRemoveMetadata] = useState(false);
+  const [colorMode, setColorMode] = useState<ImageColorMode>("color");
+  const [linearize, setLinearize] = useState(false);
+  // null follows the default, which names the compression mode
+  const [customFilenameTemplate, setCustomFilenameTemplate] = useState<
+    string | null
+  >(null);
   const [compressionResult, setCompressionResult] =
     useState<CompressionResult | null>(null);
+  const [sizeReport, setSizeReport] = useState<PDFSizeReport | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [compressedOutput, setCompressedOutput] =
+    useState<CompressedOutput | null>(null);
+  const [comparison, setComparison] = useState<ComparisonState>({
+    isComparing: false,
+    progress: "",
+    pages: null,
+  });
+  const [batchResults, setBatchResults] = useState<
+    Record<string, BatchFileResult>
+  >({});
+  const [batchOutput, setBatchOutput] = useState<BatchOutput | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [toast, setToast] = useState<ToastState>({
     isVisible: false,
     message: "",
     type: "success",
   });
+  const { unlockPDF, passwordPrompt } = usePDFPassword();
+
+  const validFiles = uploadedFiles.filter((f) => !f.error);
+  const isBatch = validFiles.length > 1;
+  // Analysis and the before/after comparison only apply to a single file
+  const uploadedFile = isBatch ? null : (validFiles[0] ?? null);
+  const modeLabel =
+    compressionMode === "target-size"
+      ? `target-${targetSizeMB}mb`
+      : compressionLevel;
+  // e.g. invoice-compressed-medium-2024-05-01T10-00-00.pdf
+  const defaultFilenameTemplate = `{name}-compressed-${modeLabel}-{date:YYYY-MM-DDTHH-mm-ss}`;
+  const filenameTemplate = customFilenameTemplate ?? defaultFilenameTemplate;
+  const filenameSamples = validFiles.map((f, index) => ({
+    name: f.file.name.replace(".pdf", ""),
+    index: index + 1,
+  }));
 
   const generatePDFThumbnail = useCallback(
-    async (file: File): Promise<string> => {
+    async (file: File, password?: string): Promise<string> => {
       try {
         const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer, password })
+          .promise;
         const page = await pdf.getPage(1);
         const scale = 0.5;
         const viewport = page.getViewport({ scale });
@@ -93,49 +238,148 @@ export const CompressPDFView: React.FC = () => {
     return null;
   };
 
+  const resetResults = () => {
+    setCompressionResult(null);
+    setCompressedOutput(null);
+    setBatchResults({});
+    setBatchOutput(null);
+  };
+
+  // Size analysis is only shown when exactly one valid file is loaded
+  const analyzeSingleFile = async (files: UploadedFile[]) => {
+    const valid = files.filter((f) => !f.error);
+    setSizeReport(null);
+    if (valid.length !== 1) return;
+
+    setIsAnalyzing(true);
+    const analysis = await analyzePDF({
+      file: valid[0].file,
+      password: valid[0].password,
+    });
+    setIsAnalyzing(false);
+    if (analysis.success) {
+      setSizeReport(analysis.report);
+      setCompressionLevel(analysis.report.recommendedLevel);
+    } else {
+      console.warn("PDF analysis failed:", analysis.details);
+    }
+  };
+
   const handleFilesDrop = useCallback(
     async (files: File[]) => {
       if (files.length === 0) return;
 
-      // Only take the first file for compression
-      const file = files[0];
-      const error = validateFile(file);
-
-      if (error) {
-        setUploadedFile({
-          file,
-          id: `${file.name}-${Date.now()}`,
-          thumbnail: "",
-          error,
-        });
-        return;
-      }
+      const newFiles = await Promise.all(
+        files.map(async (file): Promise<UploadedFile> => {
+          const id = `${file.name}-${Date.now()}-${Math.random()}`;
+          const error = validateFile(file);
+          if (error) {
+            return { file, id, thumbnail: "", error };
+          }
+          try {
+            const { password, error: lockError } = await unlockPDF(file);
+            if (lockError) {
+              return { file, id, thumbnail: "", error: lockError };
+            }
+            const thumbnail = await generatePDFThumbnail(file, password);
+            return { file, id, thumbnail, password };
+          } catch (err) {
+            console.error("Failed to process PDF:", err);
+            return {
+              file,
+              id,
+              thumbnail: "",
+              error: `${file.name}: Failed to process PDF file`,
+            };
+          }
+        }),
+      );
 
-      try {
-        const thumbnail = await generatePDFThumbnail(file);
-        setUploadedFile({
-          file,
-          id: `${file.name}-${Date.now()}`,
-          thumbnail,
-          error: undefined,
-        });
-        setCompressionResult(null); // Reset previous results
-      } catch (err) {
-        console.error("Failed to process PDF:", err);
-        setUploadedFile({
-          file,
-          id: `${file.name}-${Date.now()}`,
-          thumbnail: "",
-          error: "Failed to process PDF file",
-        });
-      }
+      const allFiles = [...uploadedFiles, ...newFiles];
+      setUploadedFiles(allFiles);
+      resetResults();
+      await analyzeSingleFile(allFiles);
     },
-    [generatePDFThumbnail],
+    [uploadedFiles, generatePDFThumbnail, unlockPDF],
   );
 
-  const removeFile = () => {
-    setUploadedFile(null);
-    setCompressionResult(null);
+  const removeFile = async (id: string) => {
+    const remaining = uploadedFiles.filter((f) => f.id !== id);
+    setUploadedFiles(remaining);
+    resetResults();
+    await analyzeSingleFile(remaining);
+  };
+
+  const clearAll = () => {
+    setUploadedFiles([]);
+    resetResults();
+    setSizeReport(null);
+  };
+
+  const handleDownload = () => {
+    if (!compressedOutput) return;
+    saveAs(compressedOutput.blob, compressedOutput.filename);
+  };
+
+  // Inline status shown next to a file's size while a batch runs
+  const renderBatchStatus = (result: BatchFileResult) => {
+    switch (result.status) {
+      case "pending":
+        return <span> · Waiting</span>;
+      case "compressing":
+        return <span className="text-sky-400"> · Compressing...</span>;
+      case "failed":
+        return <span className="text-red-400"> · Failed</span>;
+      case "done":
+        return (
+          <span className="text-green-400">
+            {" "}
+            → {formatFileSize(result.compressedSize ?? 0)} (
+            {result.reductionPercentage}% smaller)
+            {result.targetReached === false && " · target not reached"}
+            {result.linearized === false && " · not linearized"}
+          </span>
+        );
+    }
+  };
+
+  const handleBatchDownload = () => {
+    if (!batchOutput) return;
+    saveAs(batchOutput.zipBlob, batchOutput.filename);
+  };
+
+  /**
+   * Scores every page of the compressed output against the original so
+   * pages with visible quality loss can be flagged before downloading
+   */
+  const runComparison = async (
+    original: File,
+    compressed: Blob,
+    password?: string,
+  ) => {
+    setComparison({
+      isComparing: true,
+      progress: "Comparing pages...",
+      pages: null,
+    });
+
+    const result = await comparePDFPages({
+      original,
+      compressed,
+      password,
+      onProgress: (comparedPages, totalPages) =>
+        setComparison((prev) => ({
+          ...prev,
+          progress: `Comparing page ${comparedPages} of ${totalPages}...`,
+        })),
+    });
+
+    setComparison({
+      isComparing: false,
+      progress: "",
+      pages: result.success ? result.pages : null,
+      error: result.success ? undefined : result.error,
+    });
   };
 
   const formatFileSize = (bytes: number): string => {
@@ -149,18 +393,33 @@ export const CompressPDFView: React.FC = () => {
   const getCompressionDescription = (level: "low" | "medium" | "high") => {
     switch (level) {
       case "low":
-        return "Minimal compression - Keeps high quality, smaller file size reduction";
+        return "Minimal compression - Leaves images untouched, smaller file size reduction";
       case "medium":
-        return "Balanced compression - Good quality with moderate file size reduction";
+        return "Balanced compression - Images downsampled to 150 DPI with moderate file size reduction";
       case "high":
-        return "Maximum compression - Significant file size reduction, may reduce quality";
+        return "Maximum compression - Images downsampled to 96 DPI, significant file size reduction, may reduce quality";
       default:
         return "";
     }
   };
 
+  const getCompressOptions = (
+    { file, password }: UploadedFile,
+    targetSize: number,
+  ) =>
+    compressionMode === "target-size"
+      ? { file, password, targetSize, removeMetadata, colorMode, linearize }
+      : {
+          file,
+          password,
+          compressionLevel,
+          removeMetadata,
+          colorMode,
+          linearize,
+        };
+
   const handleCompress = async () => {
-    if (!uploadedFile || uploadedFile.error) {
+    if (validFiles.length === 0) {
       setProcessing({
         isProcessing: false,
         progress: "",
@@ -170,18 +429,44 @@ export const CompressPDFView: React.FC = () => {
       return;
     }
 
+    const targetSize = parseFloat(targetSizeMB) * BYTES_PER_MB;
+    if (
+      compressionMode === "target-size" &&
+      (!Number.isFinite(targetSize) || targetSize <= 0)
+    ) {
+      setProcessing({
+        isProcessing: false,
+        progress: "",
+        error: "Please enter a target size greater than 0 MB",
+      });
+      setShowModal(true);
+      return;
+    }
+
+    if (isBatch) {
+      await handleBatchCompress(targetSize);
+      return;
+    }
+
+    const { file, password } = validFiles[0];
+
     setProcessing({
       isProcessing: true,
       progress: "Analyzing PDF structure...",
     });
 
     try {
-      setProcessing((prev) => ({ ...prev, progress: "Compressing PDF..." }));
+      setProcessing((prev) => ({
+        ...prev,
+        progress:
+          compressionMode === "target-size"
+            ? "Searching for settings that fit the target size..."
+            : "Compressing PDF...",
+      }));
 
-      const result = await compressPDF({
-        file: uploadedFile.file,
-        compressionLevel: compressionLevel,
-      });
+      const result = await compressPDF(
+        getCompressOptions(validFiles[0], targetSize),
+      );
 
       if (!result.success) {
         throw new Error(result.error);
@@ -190,7 +475,7 @@ export const CompressPDFView: React.FC = () => {
       setProcessing((prev) => ({ ...prev, progress: "Preparing download..." }));
 
       // Calculate compression stats
-      const originalSize = uploadedFile.file.size;
+      const originalSize = file.size;
       const compressedSize = result.pdfBlob.size;
       const reductionPercentage = Math.round(
         ((originalSize - compressedSize) / originalSize) * 100,
@@ -200,18 +485,22 @@ export const CompressPDFView: React.FC = () => {
         originalSize,
         compressedSize,
         reductionPercentage,
+        appliedSettings: result.appliedSettings,
+        removedObjects: result.removedObjects,
+        linearizeRequested: linearize,
+        linearized: result.linearized,
+        targetSize: result.targetSize,
+        targetReached: result.targetReached,
       });
 
-      // Generate filename with timestamp and compression level
-      const timestamp = new Date()
-        .toISOString()
-        .slice(0, 19)
-        .replace(/:/g, "-");
-      const baseFilename = uploadedFile.file.name.replace(".pdf", "");
-      const filename = `${baseFilename}-compressed-${compressionLevel}-${timestamp}.pdf`;
+      const filename = formatFilename(
+        filenameTemplate,
+        filenameSamples[0],
+        "pdf",
+      );
 
-      // Download the file
-      saveAs(result.pdfBlob, filename);
+      // Keep the output for review; the user downloads after comparing
+      setCompressedOutput({ blob: result.pdfBlob, filename });
 
       setProcessing({
         isProcessing: false,
@@ -219,22 +508,139 @@ export const CompressPDFView: React.FC = () => {
       });
 
       // Show success toast with compression details
+      if (result.targetReached === false) {
+        setToast({
+          isVisible: true,
+          message: `Target size could not be reached. Smallest result: ${formatFileSize(compressedSize)}`,
+          type: "error",
+        });
+      } else {
+        setToast({
+          isVisible: true,
+          message: `PDF compressed successfully! ${reductionPercentage}% size reduction`,
+          type: "success",
+        });
+      }
+
+      await runComparison(file, result.pdfBlob, password);
+    } catch (error) {
+      setProcessing({
+        isProcessing: false,
+        progress: "",
+        error:
+          error instanceof Error ? error.message : "Failed to compress PDF",
+      });
+      setShowModal(true);
+    }
+  };
+
+  /**
+   * Compresses the files one after another so memory stays bounded, then
+   * packs every successful output into a ZIP. Failed files are listed in
+   * the summary instead of stopping the batch.
+   */
+  const handleBatchCompress = async (targetSize: number) => {
+    const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, "-");
+    const zip = new JSZip();
+    const usedNames = new Set<string>();
+    let succeeded = 0;
+
+    setBatchOutput(null);
+    setBatchResults(
+      Object.fromEntries(
+        validFiles.map((f) => [f.id, { status: "pending" as const }]),
+      ),
+    );
+
+    const updateResult = (id: string, result: BatchFileResult) =>
+      setBatchResults((prev) => ({ ...prev, [id]: result }));
+
+    try {
+      for (const [index, uploaded] of validFiles.entries()) {
+        const { file, id } = uploaded;
+        setProcessing({
+          isProcessing: true,
+          progress: `Compressing ${index + 1} of ${validFiles.length}: ${file.name}`,
+        });
+        updateResult(id, { status: "compressing" });
+
+        const result = await compressPDF(
+          getCompressOptions(uploaded, targetSize),
+        );
+        if (!result.success) {
+          updateResult(id, {
+            status: "failed",
+            error: result.details
+              ? `${result.error}: ${result.details}`
+              : result.error,
+          });
+          continue;
+        }
+
+        zip.file(
+          getUniqueFilename(
+            formatFilename(filenameTemplate, filenameSamples[index], "pdf"),
+            usedNames,
+          ),
+          result.pdfBlob,
+        );
+        succeeded++;
+        updateResult(id, {
+          status: "done",
+          compressedSize: result.compressedSize,
+          reductionPercentage: result.compressionRatio,
+          targetReached: result.targetReached,
+          // Only tracked when requested, to flag files it failed for
+          linearized: linearize ? result.linearized : undefined,
+        });
+      }
+
+      if (succeeded === 0) {
+        throw new Error("None of the files could be compressed");
+      }
+
+      setProcessing({
+        isProcessing: true,
+        progress: "Creating ZIP archive...",
+      });
+      const zipBlob = await zip.generateAsync({ type: "blob" });
+      setBatchOutput({ zipBlob, filename: `compressed-pdfs-${timestamp}.zip` });
+
+      setProcessing({ isProcessing: false, progress: "" });
+      const failed = validFiles.length - succeeded;
       setToast({
         isVisible: true,
-        message: `PDF compressed successfully! ${reductionPercentage}% size reduction`,
-        type: "success",
+        message:
+          failed > 0
+            ? `Compressed ${succeeded} files, ${failed} failed`
+            : `Compressed ${succeeded} files!`,
+        type: failed > 0 ? "error" : "success",
       });
     } catch (error) {
       setProcessing({
         isProcessing: false,
         progress: "",
         error:
-          error instanceof Error ? error.message : "Failed to compress PDF",
+          error instanceof Error ? error.message : "Failed to compress PDFs",
       });
       setShowModal(true);
     }
   };
 
+  const batchTotals = validFiles.reduce(
+    (totals, { file, id }) => {
+      const result = batchResults[id];
+      if (result?.status !== "done" || result.compressedSize === undefined) {
+        return totals;
+      }
+      return {
+        originalSize: totals.originalSize + file.size,
+        compressedSize: totals.compressedSize + result.compressedSize,
+      };
+    },
+    { originalSize: 0, compressedSize: 0 },
+  );
+
   return (
     <div className="max-w-7xl mx-auto px-6 py-4 relative z-10">
       <div className="text-center mb-5 bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
@@ -269,12 +675,12 @@ export const CompressPDFView: React.FC = () => {
                 />
               </svg>
             </span>
-            Upload PDF File
+            Upload PDF Files
           </h2>
           <Dropzone
             onFilesDrop={handleFilesDrop}
             accept=".pdf"
-            multiple={false}
+            multiple={true}
             disabled={processing.isProcessing}
             className="w-full min-h-[200px]"
           >
@@ -283,12 +689,12 @@ export const CompressPDFView: React.FC = () => {
                 <p className="text-lg font-medium">
                   {processing.isProcessing
                     ? "Processing..."
-                    : "Drop PDF file here"}
+                    : "Drop PDF files here"}
                 </p>
                 <p className="text-sm">
                   {processing.isProcessing
                     ? processing.progress
-                    : "or click to browse (max 20MB)"}
+                    : "or click to browse (max 20MB each)"}
                 </p>
               </div>
             </div>
@@ -296,7 +702,7 @@ export const CompressPDFView: React.FC = () => {
         </div>
 
         {/* File Info Section - Full width like header/footer */}
-        {uploadedFile && (
+        {uploadedFiles.length > 0 && (
           <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-xl font-semibold text-slate-200 flex items-center">
@@ -315,49 +721,296 @@ export const CompressPDFView: React.FC = () => {
                     />
                   </svg>
                 </span>
-                PDF File
+                {uploadedFiles.length === 1
+                  ? "PDF File"
+                  : `PDF Files (${uploadedFiles.length})`}
               </h2>
               <Button
                 variant="secondary"
                 size="sm"
-                onClick={removeFile}
+                onClick={clearAll}
                 disabled={processing.isProcessing}
                 className="hover:shadow-md hover:scale-105 transition-all duration-200"
               >
-                Remove
+                {uploadedFiles.length === 1 ? "Remove" : "Clear All"}
               </Button>
             </div>
 
-            {uploadedFile.error ? (
-              <div className="p-3 border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/10 rounded-lg">
-                <p className="text-sm text-red-600 dark:text-red-400">
-                  {uploadedFile.error}
-                </p>
-              </div>
-            ) : (
-              <div className="flex items-center space-x-4 p-3 border border-slate-600 bg-slate-700/50 rounded-lg">
-                {/* Thumbnail */}
-                <div className="flex-shrink-0 w-16 h-20 bg-slate-600 rounded overflow-hidden">
-                  {uploadedFile.thumbnail ? (
-                    <img
-                      src={uploadedFile.thumbnail}
-                      alt={`${uploadedFile.file.name} thumbnail`}
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-full flex items-center justify-center">
-                      <span className="text-xs text-slate-400">PDF</span>
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {uploadedFiles.map((uploadedFile) =>
+                uploadedFile.error ? (
+                  <div
+                    key={uploadedFile.id}
+                    className="p-3 border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/10 rounded-lg flex items-center justify-between"
+                  >
+                    <p className="text-sm text-red-600 dark:text-red-400">
+                      {uploadedFile.error}
+                    </p>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => removeFile(uploadedFile.id)}
+                      disabled={processing.isProcessing}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <div
+                    key={uploadedFile.id}
+                    className="flex items-center space-x-4 p-3 border border-slate-600 bg-slate-700/50 rounded-lg"
+                  >
+                    {/* Thumbnail */}
+                    <div className="flex-shrink-0 w-16 h-20 bg-slate-600 rounded overflow-hidden">
+                      {uploadedFile.thumbnail ? (
+                        <img
+                          src={uploadedFile.thumbnail}
+                          alt={`${uploadedFile.file.name} thumbnail`}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center">
+                          <span className="text-xs text-slate-400">PDF</span>
+                        </div>
+                      )}
                     </div>
-                  )}
+
+                    {/* File Info */}
+                    <div className="flex-grow min-w-0">
+                      <p className="text-sm font-medium text-slate-100 truncate">
+                        {uploadedFile.file.name}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        {formatFileSize(uploadedFile.file.size)}
+                        {batchResults[uploadedFile.id] &&
+                          renderBatchStatus(batchResults[uploadedFile.id])}
+                      </p>
+                    </div>
+
+                    {uploadedFiles.length > 1 && (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => removeFile(uploadedFile.id)}
+                        disabled={processing.isProcessing}
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                ),
+              )}
+            </div>
+          </div>
+        )}
+
+        {isBatch && batchOutput && (
+          <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+            <h2 className="text-lg font-semibold text-slate-100 mb-4">
+              Batch Summary
+            </h2>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-slate-400 border-b border-slate-700">
+                  <tr>
+                    <th className="py-2 pr-4 font-medium">File</th>
+                    <th className="py-2 pr-4 font-medium text-right">
+                      Original
+                    </th>
+                    <th className="py-2 pr-4 font-medium text-right">
+                      Compressed
+                    </th>
+                    <th className="py-2 font-medium text-right">Saved</th>
+                  </tr>
+                </thead>
+                <tbody className="text-slate-200">
+                  {validFiles.map(({ file, id }) => {
+                    const result = batchResults[id];
+                    return (
+                      <tr key={id} className="border-b border-slate-700/60">
+                        <td className="py-2 pr-4 truncate max-w-xs">
+                          {file.name}
+                        </td>
+                        <td className="py-2 pr-4 text-right">
+                          {formatFileSize(file.size)}
+                        </td>
+                        {result?.status === "done" &&
+                        result.compressedSize !== undefined ? (
+                          <>
+                            <td className="py-2 pr-4 text-right">
+                              {formatFileSize(result.compressedSize)}
+                            </td>
+                            <td className="py-2 text-right text-green-400">
+                              {result.reductionPercentage}%
+                            </td>
+                          </>
+                        ) : (
+                          <td
+                            colSpan={2}
+                            className="py-2 text-right text-red-400"
+                          >
+                            {result?.error ?? "Not compressed"}
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+                <tfoot className="text-slate-100 font-semibold">
+                  <tr>
+                    <td className="py-2 pr-4">Total</td>
+                    <td className="py-2 pr-4 text-right">
+                      {formatFileSize(batchTotals.originalSize)}
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      {formatFileSize(batchTotals.compressedSize)}
+                    </td>
+                    <td className="py-2 text-right text-green-300">
+                      {calculateCompressionPercentage(
+                        batchTotals.originalSize,
+                        batchTotals.compressedSize,
+                      )}
+                      %
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+
+            <div className="flex justify-end pt-6">
+              <Button variant="primary" onClick={handleBatchDownload}>
+                Download ZIP
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {uploadedFile && (isAnalyzing || sizeReport) && (
+          <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+            <h2 className="text-lg font-semibold text-slate-100 mb-4">
+              Size Breakdown
+            </h2>
+
+            {isAnalyzing || !sizeReport ? (
+              <p className="text-sm text-slate-400">Analyzing PDF...</p>
+            ) : (
+              <div className="space-y-6">
+                <div className="space-y-2">
+                  {(Object.keys(SIZE_CATEGORY_LABELS) as SizeCategory[])
+                    .filter(
+                      (category) =>
+                        sizeReport.categories[category].totalSize > 0,
+                    )
+                    .map((category) => {
+                      const { count, totalSize } =
+                        sizeReport.categories[category];
+                      const share =
+                        sizeReport.totalSize > 0
+                          ? (totalSize / sizeReport.totalSize) * 100
+                          : 0;
+                      return (
+                        <div key={category}>
+                          <div className="flex justify-between text-xs text-slate-300 mb-1">
+                            <span>
+                              {SIZE_CATEGORY_LABELS[category]}
+                              {category !== "other" && ` (${count})`}
+                            </span>
+                            <span>
+                              {formatFileSize(totalSize)} · {Math.round(share)}%
+                            </span>
+                          </div>
+                          <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-gradient-to-r from-red-500 to-orange-400"
+                              style={{ width: `${Math.min(100, share)}%` }}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
                 </div>
 
-                {/* File Info */}
-                <div className="flex-grow min-w-0">
-                  <p className="text-sm font-medium text-slate-100 truncate">
-                    {uploadedFile.file.name}
+                {sizeReport.images.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-medium text-slate-300 mb-2">
+                      Largest Images
+                    </h3>
+                    <ul className="text-xs text-slate-400 space-y-1">
+                      {sizeReport.images
+                        .slice(0, BREAKDOWN_LIST_LIMIT)
+                        .map((image) => (
+                          <li key={image.id} className="flex justify-between">
+                            <span>
+                              {image.width}×{image.height} px
+                              {image.effectiveDPI !== null
+                                ? ` · ${image.effectiveDPI} DPI · page ${image.pageIndices.map((index) => index + 1).join(", ")}`
+                                : " · not placed on a page"}
+                            </span>
+                            <span>{formatFileSize(image.size)}</span>
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                )}
+
+                {sizeReport.fonts.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-medium text-slate-300 mb-2">
+                      Fonts
+                    </h3>
+                    <ul className="text-xs text-slate-400 space-y-1">
+                      {sizeReport.fonts
+                        .slice(0, BREAKDOWN_LIST_LIMIT)
+                        .map((font) => (
+                          <li key={font.id} className="flex justify-between">
+                            <span>
+                              {font.name || "Unnamed font"} ·{" "}
+                              {font.embedded
+                                ? font.subset
+                                  ? "embedded subset"
+                                  : "fully embedded"
+                                : "not embedded"}
+                            </span>
+                            <span>{formatFileSize(font.size)}</span>
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                )}
+
+                {sizeReport.attachments.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-medium text-slate-300 mb-2">
+                      Attachments
+                    </h3>
+                    <ul className="text-xs text-slate-400 space-y-1">
+                      {sizeReport.attachments.map((attachment, index) => (
+                        <li
+                          key={`${attachment.name}-${index}`}
+                          className="flex justify-between"
+                        >
+                          <span>{attachment.name}</span>
+                          <span>{formatFileSize(attachment.size)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="p-4 bg-green-900/20 border border-green-800/60 rounded-2xl">
+                  <p className="text-sm text-green-300">
+                    Recommended:{" "}
+                    <span className="font-semibold capitalize">
+                      {sizeReport.recommendedLevel}
+                    </span>{" "}
+                    compression, about{" "}
+                    {formatFileSize(
+                      sizeReport.estimatedSizes[sizeReport.recommendedLevel],
+                    )}
                   </p>
-                  <p className="text-xs text-slate-400">
-                    {formatFileSize(uploadedFile.file.size)}
+                  <p className="text-xs text-green-200/80 mt-1">
+                    {sizeReport.recommendationReason}
                   </p>
                 </div>
               </div>
@@ -408,10 +1061,104 @@ export const CompressPDFView: React.FC = () => {
                 </p>
               </div>
             </div>
+
+            <p className="text-xs text-slate-400 mt-4">
+              {compressionResult.appliedSettings.optimizeImages
+                ? `Images downsampled to ${compressionResult.appliedSettings.imageTargetDPI} DPI at ${Math.round(compressionResult.appliedSettings.imageQuality * 100)}% JPEG quality`
+                : "Images kept unchanged"}
+              {compressionResult.appliedSettings.colorMode === "grayscale" &&
+                "; converted to grayscale"}
+              {compressionResult.appliedSettings.colorMode === "bilevel" &&
+                "; converted to black and white"}
+            </p>
+
+            {compressionResult.linearizeRequested && (
+              <p
+                className={`text-xs mt-2 ${compressionResult.linearized ? "text-slate-400" : "text-amber-300"}`}
+              >
+                {compressionResult.linearized
+                  ? "Linearized for Fast Web View"
+                  : "This file could not be linearized; it was saved normally"}
+              </p>
+            )}
+
+            {getRemovedObjectSummary(compressionResult.removedObjects).length >
+              0 && (
+              <ul className="text-xs text-slate-400 mt-2 space-y-1">
+                {getRemovedObjectSummary(compressionResult.removedObjects).map(
+                  (line) => (
+                    <li key={line}>{line}</li>
+                  ),
+                )}
+              </ul>
+            )}
+
+            {compressionResult.targetReached === false &&
+              compressionResult.targetSize !== undefined && (
+                <div className="mt-4 p-4 bg-amber-900/30 border border-amber-700/60 rounded-2xl">
+                  <p className="text-sm text-amber-200">
+                    The target of {formatFileSize(compressionResult.targetSize)}{" "}
+                    could not be reached. The strongest settings produced{" "}
+                    {formatFileSize(compressionResult.compressedSize)}.
+                  </p>
+                </div>
+              )}
+
+            {compressedOutput && (
+              <div className="flex justify-end pt-6">
+                <Button variant="primary" onClick={handleDownload}>
+                  Download Compressed PDF
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {compressedOutput && uploadedFile && (
+          <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+            <h2 className="text-lg font-semibold text-slate-100 mb-4">
+              Before / After
+            </h2>
+
+            {comparison.isComparing && (
+              <p className="text-sm text-slate-400 mb-4">
+                {comparison.progress}
+              </p>
+            )}
+            {comparison.error && (
+              <p className="text-sm text-red-400 mb-4">{comparison.error}</p>
+            )}
+            {comparison.pages &&
+              (comparison.pages.some((page) => page.flagged) ? (
+                <div className="mb-4 p-4 bg-amber-900/30 border border-amber-700/60 rounded-2xl">
+                  <p className="text-sm text-amber-200">
+                    Image quality dropped noticeably on page
+                    {comparison.pages.filter((page) => page.flagged).length > 1
+                      ? "s"
+                      : ""}{" "}
+                    {comparison.pages
+                      .filter((page) => page.flagged)
+                      .map((page) => page.pageNumber)
+                      .join(", ")}
+                    . Check them below or try a milder compression level.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-green-400 mb-4">
+                  All pages look close to the original
+                </p>
+              ))}
+
+            <BeforeAfterViewer
+              before={uploadedFile.file}
+              beforePassword={uploadedFile.password}
+              after={compressedOutput.blob}
+              scores={comparison.pages}
+            />
           </div>
         )}
 
-        {uploadedFile && !uploadedFile.error && (
+        {validFiles.length > 0 && (
           <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700 mt-8">
             <h2 className="text-lg font-semibold text-slate-100 mb-4">
               Compression Settings
@@ -420,49 +1167,202 @@ export const CompressPDFView: React.FC = () => {
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-3">
-                  Compression Level
+                  Compression Mode
+                </label>
+                <div className="flex space-x-6">
+                  {(
+                    [
+                      ["level", "Compression level"],
+                      ["target-size", "Target file size"],
+                    ] as const
+                  ).map(([mode, label]) => (
+                    <label
+                      key={mode}
+                      className="flex items-center space-x-2 cursor-pointer"
+                    >
+                      <input
+                        type="radio"
+                        name="compressionMode"
+                        value={mode}
+                        checked={compressionMode === mode}
+                        onChange={() => setCompressionMode(mode)}
+                      />
+                      <span className="text-sm text-slate-200">{label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {compressionMode === "target-size" ? (
+                <div>
+                  <label
+                    htmlFor="targetSize"
+                    className="block text-sm font-medium text-slate-300 mb-2"
+                  >
+                    Maximum Output Size (MB)
+                  </label>
+                  <input
+                    id="targetSize"
+                    type="number"
+                    min="0.1"
+                    step="0.1"
+                    value={targetSizeMB}
+                    onChange={(e) => setTargetSizeMB(e.target.value)}
+                    className="w-40 px-3 py-2 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 bg-slate-700 text-slate-100"
+                  />
+                  <p className="text-xs text-slate-400 mt-1">
+                    Image resolution and quality are lowered step by step until
+                    the file fits, e.g. under 10 MB for email attachments
+                  </p>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-3">
+                    Compression Level
+                  </label>
+                  <div className="space-y-3">
+                    {(["low", "medium", "high"] as const).map((level) => (
+                      <label
+                        key={level}
+                        className="flex items-start space-x-3 cursor-pointer"
+                      >
+                        <input
+                          type="radio"
+                          name="compressionLevel"
+                          value={level}
+                          checked={compressionLevel === level}
+                          onChange={(e) =>
+                            setCompressionLevel(
+                              e.target.value as "low" | "medium" | "high",
+                            )
+                          }
+                          className="mt-1"
+                        />
+                        <div className="flex-grow">
+                          <span className="text-sm font-medium text-slate-200 capitalize">
+                            {level} Compression
+                          </span>
+                          {sizeReport && (
+                            <span className="ml-2 text-xs text-slate-400">
+                              ≈{" "}
+                              {formatFileSize(sizeReport.estimatedSizes[level])}
+                              {sizeReport.recommendedLevel === level && (
+                                <span className="ml-2 text-green-400">
+                                  Recommended
+                                </span>
+                              )}
+                            </span>
+                          )}
+                          <p className="text-xs text-slate-400">
+                            {getCompressionDescription(level)}
+                          </p>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-3">
+                  Image Colors
                 </label>
                 <div className="space-y-3">
-                  {(["low", "medium", "high"] as const).map((level) => (
+                  {COLOR_MODE_OPTIONS.map(([mode, label, description]) => (
                     <label
-                      key={level}
+                      key={mode}
                       className="flex items-start space-x-3 cursor-pointer"
                     >
                       <input
                         type="radio"
-                        name="compressionLevel"
-                        value={level}
-                        checked={compressionLevel === level}
-                        onChange={(e) =>
-                          setCompressionLevel(
-                            e.target.value as "low" | "medium" | "high",
-                          )
-                        }
+                        name="colorMode"
+                        value={mode}
+                        checked={colorMode === mode}
+                        onChange={() => setColorMode(mode)}
                         className="mt-1"
                       />
                       <div className="flex-grow">
-                        <span className="text-sm font-medium text-slate-200 capitalize">
-                          {level} Compression
+                        <span className="text-sm font-medium text-slate-200">
+                          {label}
                         </span>
-                        <p className="text-xs text-slate-400">
-                          {getCompressionDescription(level)}
-                        </p>
+                        <p className="text-xs text-slate-400">{description}</p>
                       </div>
                     </label>
                   ))}
                 </div>
+                {colorMode !== "color" && (
+                  <p className="text-xs text-slate-400 mt-2">
+                    Only images are converted; colored text and drawings stay as
+                    they are.
+                  </p>
+                )}
               </div>
 
+              <label className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={linearize}
+                  onChange={(e) => setLinearize(e.target.checked)}
+                  className="mt-1"
+                />
+                <div className="flex-grow">
+                  <span className="text-sm font-medium text-slate-200">
+                    Fast Web View (linearize)
+                  </span>
+                  <p className="text-xs text-slate-400">
+                    Lets browsers show the first page before the whole file has
+                    downloaded. Useful for manuals published on a website or
+                    intranet; the file may be slightly larger.
+                  </p>
+                </div>
+              </label>
+
+              <label className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={removeMetadata}
+                  onChange={(e) => setRemoveMetadata(e.target.checked)}
+                  className="mt-1"
+                />
+                <div className="flex-grow">
+                  <span className="text-sm font-medium text-slate-200">
+                    Remove document metadata
+                  </span>
+                  <p className="text-xs text-slate-400">
+                    Strips title, author, keywords and XMP data. Leave off if
+                    other systems index the file by its title.
+                  </p>
+                </div>
+              </label>
+
+              <FilenameTemplateInput
+                value={filenameTemplate}
+                onChange={(template) =>
+                  setCustomFilenameTemplate(
+                    template === defaultFilenameTemplate ? null : template,
+                  )
+                }
+                defaultTemplate={defaultFilenameTemplate}
+                samples={filenameSamples}
+                extension="pdf"
+                disabled={processing.isProcessing}
+              />
+
               <div className="flex justify-end pt-4">
                 <Button
                   variant="primary"
-                  disabled={processing.isProcessing}
+                  disabled={
+                    processing.isProcessing ||
+                    validateFilenameTemplate(filenameTemplate) !== null
+                  }
                   onClick={handleCompress}
                   loading={processing.isProcessing}
                 >
                   {processing.isProcessing
                     ? processing.progress
-                    : "Compress & Download"}
+                    : isBatch
+                      ? `Compress ${validFiles.length} Files`
+                      : "Compress"}
                 </Button>
               </div>
             </div>
@@ -479,6 +1379,8 @@ export const CompressPDFView: React.FC = () => {
         <div className="text-red-600 dark:text-red-400">{processing.error}</div>
       </Modal>
 
+      <PasswordModal {...passwordPrompt} />
+
       {/* Success Toast */}
       <Toast
         isVisible={toast.isVisible}
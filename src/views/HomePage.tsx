@@ -9,6 +9,9 @@ import {
   Minimize2,
   RotateCcw,
   Crop,
+  Tags,
+  Lock,
+  LockOpen,
 } from "lucide-react";
 import { Link } from "react-router-dom";
 
@@ -67,6 +70,34 @@ const tools = [
     iconColor: "text-amber-600",
     hoverColor: "hover:border-amber-200",
   },
+  {
+    name: "Edit Metadata",
+    description: "View and edit title, author and custom document properties",
+    path: "/metadata",
+    icon: Tags,
+    gradient: "from-sky-50 to-teal-50",
+    iconColor: "text-sky-600",
+    hoverColor: "hover:border-sky-200",
+  },
+  {
+    name: "Protect PDF",
+    description:
+      "Encrypt PDFs with a password and restrict printing or copying",
+    path: "/protect",
+    icon: Lock,
+    gradient: "from-indigo-50 to-slate-50",
+    iconColor: "text-indigo-600",
+    hoverColor: "hover:border-indigo-200",
+  },
+  {
+    name: "Unlock PDF",
+    description: "Remove passwords and restrictions from PDFs you can open",
+    path: "/unlock",
+    icon: LockOpen,
+    gradient: "from-lime-50 to-emerald-50",
+    iconColor: "text-lime-600",
+    hoverColor: "hover:border-lime-200",
+  },
 ];
 
 const features = [
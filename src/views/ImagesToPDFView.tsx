@@ -1,6 +1,17 @@
 import React, { useState, useCallback } from "react";
-import { Dropzone, Button, Modal, Toast } from "../components";
-import { convertImagesToPDF } from "../pdf-utils";
+import {
+  Dropzone,
+  Button,
+  FilenameTemplateInput,
+  Modal,
+  Toast,
+} from "../components";
+import {
+  convertImagesToPDF,
+  formatFilename,
+  validateFilenameTemplate,
+  type FilenameTokens,
+} from "../pdf-utils";
 import { saveAs } from "file-saver";
 
 interface UploadedImage {
@@ -38,6 +49,7 @@ const SUPPORTED_FORMATS = [
   "image/bmp",
   "image/webp",
 ];
+const DEFAULT_FILENAME_TEMPLATE = "images-to-pdf-{date:YYYY-MM-DDTHH-mm-ss}";
 
 export const ImagesToPDFView: React.FC = () => {
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
@@ -52,6 +64,9 @@ export const ImagesToPDFView: React.FC = () => {
       margin: 10,
       quality: 0.9,
     });
+  const [filenameTemplate, setFilenameTemplate] = useState(
+    DEFAULT_FILENAME_TEMPLATE,
+  );
   const [showModal, setShowModal] = useState(false);
   const [toast, setToast] = useState<ToastState>({
     isVisible: false,
@@ -189,15 +204,10 @@ export const ImagesToPDFView: React.FC = () => {
 
       setProcessing((prev) => ({ ...prev, progress: "Preparing download..." }));
 
-      // Generate filename with timestamp
-      const timestamp = new Date()
-        .toISOString()
-        .slice(0, 19)
-        .replace(/:/g, "-");
-      const filename = `images-to-pdf-${timestamp}.pdf`;
-
-      // Download the file
-      saveAs(result.pdfBlob, filename);
+      saveAs(
+        result.pdfBlob,
+        formatFilename(filenameTemplate, filenameTokens, "pdf"),
+      );
 
       setProcessing({
         isProcessing: false,
@@ -225,6 +235,10 @@ export const ImagesToPDFView: React.FC = () => {
 
   const validImages = uploadedImages.filter((img) => !img.error);
   const hasErrors = uploadedImages.some((img) => img.error);
+  // {name} is the first image's
+  const filenameTokens: FilenameTokens = {
+    name: validImages[0]?.file.name.replace(/\.[^.]+$/, "") ?? "",
+  };
 
   return (
     <div className="max-w-7xl mx-auto px-6 py-4 relative z-10">
@@ -320,7 +334,11 @@ export const ImagesToPDFView: React.FC = () => {
                 </Button>
                 <Button
                   variant="primary"
-                  disabled={validImages.length === 0 || processing.isProcessing}
+                  disabled={
+                    validImages.length === 0 ||
+                    validateFilenameTemplate(filenameTemplate) !== null ||
+                    processing.isProcessing
+                  }
                   onClick={handleConvert}
                   loading={processing.isProcessing}
                   className="bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 hover:shadow-lg hover:scale-105 transition-all duration-200"
@@ -554,6 +572,16 @@ export const ImagesToPDFView: React.FC = () => {
                 />
               </div>
             </div>
+
+            <FilenameTemplateInput
+              value={filenameTemplate}
+              onChange={setFilenameTemplate}
+              defaultTemplate={DEFAULT_FILENAME_TEMPLATE}
+              samples={[filenameTokens]}
+              extension="pdf"
+              disabled={processing.isProcessing}
+              className="mt-6"
+            />
           </div>
         )}
       </div>
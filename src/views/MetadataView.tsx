@@ -0,0 +1,687 @@
+import React, { useState, useCallback } from "react";
+import {
+  Dropzone,
+  Button,
+  FilenameTemplateInput,
+  Modal,
+  PasswordModal,
+  Toast,
+} from "../components";
+import { usePDFPassword } from "../hooks/usePDFPassword";
+import {
+  formatFilename,
+  getUniqueFilename,
+  readPDFMetadata,
+  updatePDFMetadata,
+  updateMultiplePDFMetadata,
+  validateFilenameTemplate,
+  type MetadataChanges,
+  type PDFMetadata,
+} from "../pdf-utils";
+import { saveAs } from "file-saver";
+import JSZip from "jszip";
+
+interface UploadedFile {
+  file: File;
+  id: string;
+  password?: string; // For encrypted PDFs
+  error?: string;
+}
+
+interface ProcessingState {
+  isProcessing: boolean;
+  progress: string;
+  error?: string;
+}
+
+interface ToastState {
+  isVisible: boolean;
+  message: string;
+  type: "success" | "error";
+}
+
+interface MetadataForm {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string;
+  creator: string;
+  producer: string;
+  creationDate: string; // datetime-local value
+  modificationDate: string; // datetime-local value
+  rights: string;
+  publisher: string;
+  language: string;
+}
+
+interface CustomProperty {
+  id: string;
+  name: string;
+  value: string;
+}
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+const DEFAULT_FILENAME_TEMPLATE = "{name}-metadata-{date:YYYY-MM-DDTHH-mm-ss}";
+
+const EMPTY_FORM: MetadataForm = {
+  title: "",
+  author: "",
+  subject: "",
+  keywords: "",
+  creator: "",
+  producer: "",
+  creationDate: "",
+  modificationDate: "",
+  rights: "",
+  publisher: "",
+  language: "",
+};
+
+const TEXT_FIELDS: Array<{
+  key: Exclude<keyof MetadataForm, "creationDate" | "modificationDate">;
+  label: string;
+  xmpOnly?: boolean;
+}> = [
+  { key: "title", label: "Title" },
+  { key: "author", label: "Author" },
+  { key: "subject", label: "Subject" },
+  { key: "keywords", label: "Keywords" },
+  { key: "creator", label: "Creator Application" },
+  { key: "producer", label: "Producer" },
+  { key: "rights", label: "Rights", xmpOnly: true },
+  { key: "publisher", label: "Publisher", xmpOnly: true },
+  { key: "language", label: "Language", xmpOnly: true },
+];
+
+// datetime-local inputs work in local time without a zone suffix
+function toDateTimeLocal(date?: Date): string {
+  if (!date) return "";
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function fromDateTimeLocal(value: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function metadataToForm(metadata: PDFMetadata): MetadataForm {
+  return {
+    title: metadata.title,
+    author: metadata.author,
+    subject: metadata.subject,
+    keywords: metadata.keywords,
+    creator: metadata.creator,
+    producer: metadata.producer,
+    creationDate: toDateTimeLocal(metadata.creationDate),
+    modificationDate: toDateTimeLocal(metadata.modificationDate),
+    rights: metadata.dublinCore.rights,
+    publisher: metadata.dublinCore.publisher,
+    language: metadata.dublinCore.language,
+  };
+}
+
+export const MetadataView: React.FC = () => {
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  const [processing, setProcessing] = useState<ProcessingState>({
+    isProcessing: false,
+    progress: "",
+  });
+  const [form, setForm] = useState<MetadataForm>(EMPTY_FORM);
+  const [customProperties, setCustomProperties] = useState<CustomProperty[]>(
+    [],
+  );
+  // Metadata of the file the form was filled from (single-file mode only)
+  const [loadedMetadata, setLoadedMetadata] = useState<PDFMetadata | null>(
+    null,
+  );
+  const [filenameTemplate, setFilenameTemplate] = useState(
+    DEFAULT_FILENAME_TEMPLATE,
+  );
+  const [showModal, setShowModal] = useState(false);
+  const [toast, setToast] = useState<ToastState>({
+    isVisible: false,
+    message: "",
+    type: "success",
+  });
+  const { unlockPDF, passwordPrompt } = usePDFPassword();
+
+  const validFiles = uploadedFiles.filter((f) => !f.error);
+  const isBatch = validFiles.length > 1;
+  // {title} is the new title; in batch mode a blank one isn't known
+  const filenameSamples = validFiles.map((f, index) => ({
+    name: f.file.name.replace(".pdf", ""),
+    index: index + 1,
+    title: form.title.trim() || undefined,
+  }));
+
+  const validateFile = (file: File): string | null => {
+    if (file.type !== "application/pdf") {
+      return `${file.name}: Only PDF files are supported`;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return `${file.name}: File size exceeds 50MB limit`;
+    }
+    return null;
+  };
+
+  const loadMetadataIntoForm = useCallback(async (fileObj: UploadedFile) => {
+    const result = await readPDFMetadata({
+      file: fileObj.file,
+      password: fileObj.password,
+    });
+    if (!result.success) {
+      setLoadedMetadata(null);
+      setProcessing({
+        isProcessing: false,
+        progress: "",
+        error: result.details
+          ? `${result.error}: ${result.details}`
+          : result.error,
+      });
+      setShowModal(true);
+      return;
+    }
+
+    setLoadedMetadata(result.metadata);
+    setForm(metadataToForm(result.metadata));
+    setCustomProperties(
+      Object.entries(result.metadata.customProperties).map(
+        ([name, value], index) => ({ id: `${name}-${index}`, name, value }),
+      ),
+    );
+  }, []);
+
+  const resetForm = () => {
+    setLoadedMetadata(null);
+    setForm(EMPTY_FORM);
+    setCustomProperties([]);
+  };
+
+  const handleFilesDrop = useCallback(
+    async (files: File[]) => {
+      const newFiles: UploadedFile[] = [];
+      for (const file of files) {
+        const fileObj: UploadedFile = {
+          file,
+          id: `${file.name}-${Date.now()}-${Math.random()}`,
+          error: validateFile(file) ?? undefined,
+        };
+        if (!fileObj.error) {
+          const { password, error } = await unlockPDF(file);
+          fileObj.password = password;
+          fileObj.error = error;
+        }
+        newFiles.push(fileObj);
+      }
+
+      const allFiles = [...uploadedFiles, ...newFiles];
+      setUploadedFiles(allFiles);
+
+      const valid = allFiles.filter((f) => !f.error);
+      if (valid.length === 1) {
+        await loadMetadataIntoForm(valid[0]);
+      } else if (valid.length > 1) {
+        // Batch edits start blank so untouched fields stay as they are
+        resetForm();
+      }
+    },
+    [uploadedFiles, loadMetadataIntoForm, unlockPDF],
+  );
+
+  const removeFile = async (id: string) => {
+    const remaining = uploadedFiles.filter((f) => f.id !== id);
+    setUploadedFiles(remaining);
+
+    const valid = remaining.filter((f) => !f.error);
+    if (valid.length === 1) {
+      await loadMetadataIntoForm(valid[0]);
+    } else if (valid.length === 0) {
+      resetForm();
+    }
+  };
+
+  const clearAll = () => {
+    setUploadedFiles([]);
+    resetForm();
+  };
+
+  const updateField = (key: keyof MetadataForm, value: string) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const addCustomProperty = () => {
+    setCustomProperties((prev) => [
+      ...prev,
+      { id: `custom-${Date.now()}`, name: "", value: "" },
+    ]);
+  };
+
+  const updateCustomProperty = (
+    id: string,
+    changes: Partial<Omit<CustomProperty, "id">>,
+  ) => {
+    setCustomProperties((prev) =>
+      prev.map((property) =>
+        property.id === id ? { ...property, ...changes } : property,
+      ),
+    );
+  };
+
+  const removeCustomProperty = (id: string) => {
+    setCustomProperties((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  /**
+   * In single-file mode the form is the complete new state, so cleared
+   * fields and deleted properties are removed. In batch mode only filled-in
+   * fields are applied.
+   */
+  const buildChanges = (): MetadataChanges => {
+    const changes: MetadataChanges = {};
+
+    for (const { key } of TEXT_FIELDS) {
+      if (!isBatch || form[key].trim() !== "") {
+        changes[key] = form[key].trim();
+      }
+    }
+
+    if (!isBatch || form.creationDate) {
+      changes.creationDate = fromDateTimeLocal(form.creationDate);
+    }
+    if (form.modificationDate) {
+      changes.modificationDate = fromDateTimeLocal(form.modificationDate);
+    }
+
+    const properties: Record<string, string | null> = {};
+    for (const name of Object.keys(loadedMetadata?.customProperties ?? {})) {
+      properties[name] = null;
+    }
+    for (const { name, value } of customProperties) {
+      if (name.trim()) {
+        properties[name.trim()] = value;
+      }
+    }
+    changes.customProperties = properties;
+
+    return changes;
+  };
+
+  const handleApply = async () => {
+    if (validFiles.length === 0) {
+      setProcessing({
+        isProcessing: false,
+        progress: "",
+        error: "Please upload at least one valid PDF file",
+      });
+      setShowModal(true);
+      return;
+    }
+
+    setProcessing({ isProcessing: true, progress: "Updating metadata..." });
+
+    try {
+      const changes = buildChanges();
+      const timestamp = new Date()
+        .toISOString()
+        .slice(0, 19)
+        .replace(/:/g, "-");
+
+      if (!isBatch) {
+        const { file, password } = validFiles[0];
+        const result = await updatePDFMetadata({ file, changes, password });
+
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+
+        saveAs(
+          result.pdfBlob,
+          formatFilename(filenameTemplate, filenameSamples[0], "pdf"),
+        );
+
+        setProcessing({ isProcessing: false, progress: "" });
+        setToast({
+          isVisible: true,
+          message: "Metadata updated successfully!",
+          type: "success",
+        });
+        return;
+      }
+
+      const result = await updateMultiplePDFMetadata({
+        files: validFiles.map(({ file, password }) => ({ file, password })),
+        changes,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setProcessing((prev) => ({
+        ...prev,
+        progress: "Creating ZIP archive...",
+      }));
+
+      const zip = new JSZip();
+      const usedNames = new Set<string>();
+      for (const { fileName, pdfBlob } of result.results) {
+        const tokens =
+          filenameSamples[
+            validFiles.findIndex((f) => f.file.name === fileName)
+          ];
+        zip.file(
+          getUniqueFilename(
+            formatFilename(filenameTemplate, tokens, "pdf"),
+            usedNames,
+          ),
+          pdfBlob,
+        );
+      }
+      const zipBlob = await zip.generateAsync({ type: "blob" });
+
+      saveAs(zipBlob, `pdf-metadata-${timestamp}.zip`);
+
+      setProcessing({ isProcessing: false, progress: "" });
+      setToast({
+        isVisible: true,
+        message:
+          result.failures.length > 0
+            ? `Updated ${result.results.length} files, ${result.failures.length} failed: ${result.failures.map((f) => f.fileName).join(", ")}`
+            : `Metadata updated in ${result.results.length} files!`,
+        type: result.failures.length > 0 ? "error" : "success",
+      });
+    } catch (error) {
+      setProcessing({
+        isProcessing: false,
+        progress: "",
+        error:
+          error instanceof Error ? error.message : "Failed to update metadata",
+      });
+      setShowModal(true);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 bg-slate-700 text-slate-100";
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-4 relative z-10">
+      <div className="text-center mb-5 bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+        <h1 className="text-4xl font-bold text-slate-100 mb-4 tracking-tight drop-shadow-sm">
+          🏷️{" "}
+          <span className="bg-gradient-to-r from-sky-400 to-teal-400 bg-clip-text text-transparent">
+            Edit Metadata
+          </span>
+        </h1>
+        <p className="text-lg text-slate-300 leading-relaxed max-w-2xl mx-auto">
+          View and edit title, author, keywords, dates and custom properties of
+          one or many PDFs at once.
+        </p>
+      </div>
+
+      <div className="space-y-5">
+        <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+          <h2 className="text-xl font-semibold text-slate-200 mb-6">
+            Upload PDF Files
+          </h2>
+          <Dropzone
+            onFilesDrop={handleFilesDrop}
+            accept=".pdf"
+            multiple={true}
+            disabled={processing.isProcessing}
+            className="w-full min-h-[200px]"
+          >
+            <div className="space-y-2">
+              <div className="text-gray-600 dark:text-gray-400">
+                <p className="text-lg font-medium">
+                  {processing.isProcessing
+                    ? "Processing..."
+                    : "Drop PDF files here"}
+                </p>
+                <p className="text-sm">
+                  {processing.isProcessing
+                    ? processing.progress
+                    : "or click to browse (max 50MB each)"}
+                </p>
+              </div>
+            </div>
+          </Dropzone>
+        </div>
+
+        {uploadedFiles.length > 0 && (
+          <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-semibold text-slate-200">
+                PDF Files ({validFiles.length})
+              </h2>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={clearAll}
+                disabled={processing.isProcessing}
+              >
+                Clear All
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {uploadedFiles.map((uploadedFile) => (
+                <div
+                  key={uploadedFile.id}
+                  className={`flex items-center justify-between p-3 border rounded-lg ${
+                    uploadedFile.error
+                      ? "border-red-800 bg-red-900/10"
+                      : "border-slate-600 bg-slate-700/50"
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-100 truncate">
+                      {uploadedFile.file.name}
+                    </p>
+                    {uploadedFile.error && (
+                      <p className="text-xs text-red-400">
+                        {uploadedFile.error}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => removeFile(uploadedFile.id)}
+                    disabled={processing.isProcessing}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {validFiles.length > 0 && (
+          <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+            <h2 className="text-lg font-semibold text-slate-100 mb-2">
+              Document Properties
+            </h2>
+            <p className="text-xs text-slate-400 mb-6">
+              {isBatch
+                ? "Only filled-in fields are applied to every file; empty fields keep each file's current value."
+                : loadedMetadata?.hasXMP
+                  ? "The Info dictionary and XMP packet are updated together."
+                  : "This file has no XMP packet yet; one is created from these values."}
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {TEXT_FIELDS.map(({ key, label, xmpOnly }) => (
+                <div key={key}>
+                  <label
+                    htmlFor={`metadata-${key}`}
+                    className="block text-sm font-medium text-slate-300 mb-1"
+                  >
+                    {label}
+                    {xmpOnly && (
+                      <span className="ml-2 text-xs text-slate-500">XMP</span>
+                    )}
+                  </label>
+                  <input
+                    id={`metadata-${key}`}
+                    type="text"
+                    value={form[key]}
+                    placeholder={isBatch ? "Keep existing" : ""}
+                    onChange={(e) => updateField(key, e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+
+              <div>
+                <label
+                  htmlFor="metadata-creationDate"
+                  className="block text-sm font-medium text-slate-300 mb-1"
+                >
+                  Creation Date
+                </label>
+                <input
+                  id="metadata-creationDate"
+                  type="datetime-local"
+                  value={form.creationDate}
+                  onChange={(e) => updateField("creationDate", e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="metadata-modificationDate"
+                  className="block text-sm font-medium text-slate-300 mb-1"
+                >
+                  Modification Date
+                </label>
+                <input
+                  id="metadata-modificationDate"
+                  type="datetime-local"
+                  value={form.modificationDate}
+                  onChange={(e) =>
+                    updateField("modificationDate", e.target.value)
+                  }
+                  className={inputClassName}
+                />
+                <p className="text-xs text-slate-400 mt-1">
+                  Leave empty to use the current time
+                </p>
+              </div>
+            </div>
+
+            <div className="mt-6">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-slate-300">
+                  Custom Properties
+                </h3>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={addCustomProperty}
+                  disabled={processing.isProcessing}
+                >
+                  Add Property
+                </Button>
+              </div>
+
+              {customProperties.length === 0 ? (
+                <p className="text-xs text-slate-400">No custom properties</p>
+              ) : (
+                <div className="space-y-2">
+                  {customProperties.map((property) => (
+                    <div key={property.id} className="flex space-x-2">
+                      <input
+                        type="text"
+                        aria-label="Property name"
+                        placeholder="Name"
+                        value={property.name}
+                        onChange={(e) =>
+                          updateCustomProperty(property.id, {
+                            name: e.target.value,
+                          })
+                        }
+                        className={inputClassName}
+                      />
+                      <input
+                        type="text"
+                        aria-label="Property value"
+                        placeholder="Value"
+                        value={property.value}
+                        onChange={(e) =>
+                          updateCustomProperty(property.id, {
+                            value: e.target.value,
+                          })
+                        }
+                        className={inputClassName}
+                      />
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => removeCustomProperty(property.id)}
+                        disabled={processing.isProcessing}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <FilenameTemplateInput
+              value={filenameTemplate}
+              onChange={setFilenameTemplate}
+              defaultTemplate={DEFAULT_FILENAME_TEMPLATE}
+              samples={filenameSamples}
+              extension="pdf"
+              disabled={processing.isProcessing}
+              className="mt-6"
+            />
+
+            <div className="flex justify-end pt-6">
+              <Button
+                variant="primary"
+                disabled={
+                  processing.isProcessing ||
+                  validateFilenameTemplate(filenameTemplate) !== null
+                }
+                onClick={handleApply}
+                loading={processing.isProcessing}
+              >
+                {processing.isProcessing
+                  ? processing.progress
+                  : isBatch
+                    ? `Apply to ${validFiles.length} Files & Download`
+                    : "Save & Download"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Error Modal */}
+      <Modal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        title="Error"
+      >
+        <div className="text-red-600 dark:text-red-400">{processing.error}</div>
+      </Modal>
+
+      <PasswordModal {...passwordPrompt} />
+
+      {/* Success Toast */}
+      <Toast
+        isVisible={toast.isVisible}
+        message={toast.message}
+        type={toast.type}
+        onClose={() => setToast((prev) => ({ ...prev, isVisible: false }))}
+      />
+    </div>
+  );
+};
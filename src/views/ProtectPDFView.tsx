@@ -0,0 +1,553 @@
+import React, { useState, useCallback } from "react";
+import {
+  Dropzone,
+  Button,
+  FilenameTemplateInput,
+  Modal,
+  PasswordModal,
+  Toast,
+} from "../components";
+import { usePDFPassword } from "../hooks/usePDFPassword";
+import {
+  encryptPDF,
+  formatFilename,
+  getUniqueFilename,
+  validateFilenameTemplate,
+  type EncryptionAlgorithm,
+  type PDFPermissions,
+} from "../pdf-utils";
+import { saveAs } from "file-saver";
+import JSZip from "jszip";
+
+interface UploadedFile {
+  file: File;
+  id: string;
+  password?: string; // For inputs that are already encrypted
+  error?: string;
+}
+
+interface ProcessingState {
+  isProcessing: boolean;
+  progress: string;
+  error?: string;
+}
+
+interface ToastState {
+  isVisible: boolean;
+  message: string;
+  type: "success" | "error";
+}
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+const DEFAULT_FILENAME_TEMPLATE = "{name}-protected";
+
+const ALGORITHM_OPTIONS: Array<[EncryptionAlgorithm, string, string]> = [
+  ["aes-256", "AES-256", "Strongest; needs Acrobat X or a recent viewer"],
+  ["aes-128", "AES-128", "For viewers from around 2007 onwards"],
+  [
+    "rc4-128",
+    "RC4 128-bit (legacy)",
+    "Weak; only for very old viewers that can't open AES",
+  ],
+];
+
+const PERMISSION_OPTIONS: Array<[keyof PDFPermissions, string, string]> = [
+  ["printing", "Printing", "Print the document"],
+  ["copying", "Copying", "Copy text and images"],
+  [
+    "modifying",
+    "Modifying",
+    "Edit contents and insert, rotate or delete pages",
+  ],
+  ["annotating", "Annotating", "Add comments and fill in forms"],
+];
+
+export const ProtectPDFView: React.FC = () => {
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  const [processing, setProcessing] = useState<ProcessingState>({
+    isProcessing: false,
+    progress: "",
+  });
+  const [userPassword, setUserPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [ownerPassword, setOwnerPassword] = useState("");
+  const [algorithm, setAlgorithm] = useState<EncryptionAlgorithm>("aes-256");
+  const [permissions, setPermissions] = useState<PDFPermissions>({
+    printing: true,
+    copying: true,
+    modifying: true,
+    annotating: true,
+  });
+  const [filenameTemplate, setFilenameTemplate] = useState(
+    DEFAULT_FILENAME_TEMPLATE,
+  );
+  const [showModal, setShowModal] = useState(false);
+  const [toast, setToast] = useState<ToastState>({
+    isVisible: false,
+    message: "",
+    type: "success",
+  });
+  const { unlockPDF, passwordPrompt } = usePDFPassword();
+
+  const validFiles = uploadedFiles.filter((f) => !f.error);
+  const isBatch = validFiles.length > 1;
+  const isRestricted = Object.values(permissions).some((allowed) => !allowed);
+  const filenameSamples = validFiles.map((f, index) => ({
+    name: f.file.name.replace(".pdf", ""),
+    index: index + 1,
+  }));
+
+  const validateFile = (file: File): string | null => {
+    if (file.type !== "application/pdf") {
+      return `${file.name}: Only PDF files are supported`;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return `${file.name}: File size exceeds 50MB limit`;
+    }
+    return null;
+  };
+
+  const handleFilesDrop = useCallback(
+    async (files: File[]) => {
+      const newFiles: UploadedFile[] = [];
+
+      for (const file of files) {
+        const id = `${file.name}-${Date.now()}-${Math.random()}`;
+        const error = validateFile(file);
+        if (error) {
+          newFiles.push({ file, id, error });
+          continue;
+        }
+
+        try {
+          const { password, error: lockError } = await unlockPDF(file);
+          newFiles.push({ file, id, password, error: lockError });
+        } catch (err) {
+          console.error("Failed to process PDF:", err);
+          newFiles.push({
+            file,
+            id,
+            error: `${file.name}: Failed to process PDF file`,
+          });
+        }
+      }
+
+      setUploadedFiles((prev) => [...prev, ...newFiles]);
+    },
+    [unlockPDF],
+  );
+
+  const removeFile = (id: string) => {
+    setUploadedFiles((prev) => prev.filter((f) => f.id !== id));
+  };
+
+  const clearAll = () => {
+    setUploadedFiles([]);
+  };
+
+  const getSettingsError = (): string | null => {
+    if (!userPassword && !ownerPassword) {
+      return "Enter a password to open the file, or an owner password to restrict it";
+    }
+    if (userPassword !== confirmPassword) {
+      return "The passwords don't match";
+    }
+    if (ownerPassword && ownerPassword === userPassword) {
+      return "The owner password must differ from the open password, or anyone who can open the file can lift the restrictions";
+    }
+    return null;
+  };
+
+  const handleProtect = async () => {
+    const settingsError =
+      validFiles.length === 0
+        ? "Please upload at least one valid PDF file"
+        : getSettingsError();
+    if (settingsError) {
+      setProcessing({
+        isProcessing: false,
+        progress: "",
+        error: settingsError,
+      });
+      setShowModal(true);
+      return;
+    }
+
+    try {
+      const outputs: Array<{ fileName: string; pdfBlob: Blob }> = [];
+      const failures: string[] = [];
+      const usedNames = new Set<string>();
+
+      for (const [index, { file, password }] of validFiles.entries()) {
+        setProcessing({
+          isProcessing: true,
+          progress: isBatch
+            ? `Encrypting ${index + 1} of ${validFiles.length}: ${file.name}`
+            : "Encrypting PDF...",
+        });
+
+        const result = await encryptPDF({
+          file,
+          password,
+          userPassword,
+          ownerPassword,
+          algorithm,
+          permissions,
+        });
+
+        if (result.success) {
+          outputs.push({
+            fileName: getUniqueFilename(
+              formatFilename(filenameTemplate, filenameSamples[index], "pdf"),
+              usedNames,
+            ),
+            pdfBlob: result.pdfBlob,
+          });
+        } else if (!isBatch) {
+          throw new Error(
+            result.details
+              ? `${result.error}: ${result.details}`
+              : result.error,
+          );
+        } else {
+          failures.push(file.name);
+        }
+      }
+
+      if (outputs.length === 0) {
+        throw new Error("Failed to encrypt any file");
+      }
+
+      if (!isBatch) {
+        saveAs(outputs[0].pdfBlob, outputs[0].fileName);
+      } else {
+        setProcessing({
+          isProcessing: true,
+          progress: "Creating ZIP archive...",
+        });
+
+        const zip = new JSZip();
+        for (const { fileName, pdfBlob } of outputs) {
+          zip.file(fileName, pdfBlob);
+        }
+        const zipBlob = await zip.generateAsync({ type: "blob" });
+        const timestamp = new Date()
+          .toISOString()
+          .slice(0, 19)
+          .replace(/:/g, "-");
+        saveAs(zipBlob, `protected-pdfs-${timestamp}.zip`);
+      }
+
+      setProcessing({ isProcessing: false, progress: "" });
+      setToast({
+        isVisible: true,
+        message:
+          failures.length > 0
+            ? `Protected ${outputs.length} files, ${failures.length} failed: ${failures.join(", ")}`
+            : isBatch
+              ? `Protected ${outputs.length} files!`
+              : "PDF protected successfully!",
+        type: failures.length > 0 ? "error" : "success",
+      });
+    } catch (error) {
+      setProcessing({
+        isProcessing: false,
+        progress: "",
+        error: error instanceof Error ? error.message : "Failed to encrypt PDF",
+      });
+      setShowModal(true);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 bg-slate-700 text-slate-100";
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-4 relative z-10">
+      <div className="text-center mb-5 bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+        <h1 className="text-4xl font-bold text-slate-100 mb-4 tracking-tight drop-shadow-sm">
+          🔒{" "}
+          <span className="bg-gradient-to-r from-indigo-400 to-sky-400 bg-clip-text text-transparent">
+            Protect PDF
+          </span>
+        </h1>
+        <p className="text-lg text-slate-300 leading-relaxed max-w-2xl mx-auto">
+          Encrypt PDFs with a password and choose what readers may do with them.
+          Everything happens in your browser.
+        </p>
+      </div>
+
+      <div className="space-y-5">
+        <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+          <h2 className="text-xl font-semibold text-slate-200 mb-6">
+            Upload PDF Files
+          </h2>
+          <Dropzone
+            onFilesDrop={handleFilesDrop}
+            accept=".pdf"
+            multiple={true}
+            disabled={processing.isProcessing}
+            className="w-full min-h-[200px]"
+          >
+            <div className="space-y-2">
+              <div className="text-gray-600 dark:text-gray-400">
+                <p className="text-lg font-medium">
+                  {processing.isProcessing
+                    ? "Processing..."
+                    : "Drop PDF files here"}
+                </p>
+                <p className="text-sm">
+                  {processing.isProcessing
+                    ? processing.progress
+                    : "or click to browse (max 50MB each)"}
+                </p>
+              </div>
+            </div>
+          </Dropzone>
+        </div>
+
+        {uploadedFiles.length > 0 && (
+          <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-semibold text-slate-200">
+                PDF Files ({validFiles.length})
+              </h2>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={clearAll}
+                disabled={processing.isProcessing}
+              >
+                Clear All
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {uploadedFiles.map((uploadedFile) => (
+                <div
+                  key={uploadedFile.id}
+                  className={`flex items-center justify-between p-3 border rounded-lg ${
+                    uploadedFile.error
+                      ? "border-red-800 bg-red-900/10"
+                      : "border-slate-600 bg-slate-700/50"
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-100 truncate">
+                      {uploadedFile.file.name}
+                    </p>
+                    {uploadedFile.error ? (
+                      <p className="text-xs text-red-400">
+                        {uploadedFile.error}
+                      </p>
+                    ) : (
+                      uploadedFile.password !== undefined && (
+                        <p className="text-xs text-slate-400">
+                          Already encrypted; its old password is replaced
+                        </p>
+                      )
+                    )}
+                  </div>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => removeFile(uploadedFile.id)}
+                    disabled={processing.isProcessing}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {validFiles.length > 0 && (
+          <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+            <h2 className="text-lg font-semibold text-slate-100 mb-6">
+              Protection Settings
+            </h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor="protect-user-password"
+                  className="block text-sm font-medium text-slate-300 mb-1"
+                >
+                  Password to Open
+                </label>
+                <input
+                  id="protect-user-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={userPassword}
+                  onChange={(e) => setUserPassword(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="protect-confirm-password"
+                  className="block text-sm font-medium text-slate-300 mb-1"
+                >
+                  Confirm Password
+                </label>
+                <input
+                  id="protect-confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className={inputClassName}
+                />
+                {confirmPassword && userPassword !== confirmPassword && (
+                  <p className="text-xs text-red-400 mt-1">
+                    The passwords don't match
+                  </p>
+                )}
+              </div>
+
+              <div className="md:col-span-2">
+                <label
+                  htmlFor="protect-owner-password"
+                  className="block text-sm font-medium text-slate-300 mb-1"
+                >
+                  Owner Password
+                  <span className="ml-2 text-xs text-slate-500">Optional</span>
+                </label>
+                <input
+                  id="protect-owner-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={ownerPassword}
+                  onChange={(e) => setOwnerPassword(e.target.value)}
+                  className={inputClassName}
+                />
+                <p className="text-xs text-slate-400 mt-1">
+                  {isRestricted && !ownerPassword
+                    ? "Without an owner password, nobody can lift the restrictions below later"
+                    : "Opens the file without restrictions"}
+                </p>
+              </div>
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-slate-700">
+              <label className="block text-sm font-medium text-slate-300 mb-3">
+                Encryption
+              </label>
+              <div className="space-y-3">
+                {ALGORITHM_OPTIONS.map(([value, label, description]) => (
+                  <label
+                    key={value}
+                    className="flex items-start space-x-3 cursor-pointer"
+                  >
+                    <input
+                      type="radio"
+                      name="algorithm"
+                      value={value}
+                      checked={algorithm === value}
+                      onChange={() => setAlgorithm(value)}
+                      disabled={processing.isProcessing}
+                      className="mt-1"
+                    />
+                    <div className="flex-grow">
+                      <span className="text-sm font-medium text-slate-200">
+                        {label}
+                      </span>
+                      <p className="text-xs text-slate-400">{description}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-slate-700">
+              <label className="block text-sm font-medium text-slate-300 mb-1">
+                Permissions
+              </label>
+              <p className="text-xs text-slate-400 mb-3">
+                Viewers enforce these when the file is opened with the password
+                to open; the owner password allows everything
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {PERMISSION_OPTIONS.map(([key, label, description]) => (
+                  <label
+                    key={key}
+                    className="flex items-start space-x-3 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={permissions[key]}
+                      onChange={(e) =>
+                        setPermissions((prev) => ({
+                          ...prev,
+                          [key]: e.target.checked,
+                        }))
+                      }
+                      disabled={processing.isProcessing}
+                      className="mt-1"
+                    />
+                    <div className="flex-grow">
+                      <span className="text-sm font-medium text-slate-200">
+                        {label}
+                      </span>
+                      <p className="text-xs text-slate-400">{description}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <FilenameTemplateInput
+              value={filenameTemplate}
+              onChange={setFilenameTemplate}
+              defaultTemplate={DEFAULT_FILENAME_TEMPLATE}
+              samples={filenameSamples}
+              extension="pdf"
+              disabled={processing.isProcessing}
+              className="mt-6"
+            />
+
+            <div className="flex justify-end pt-6">
+              <Button
+                variant="primary"
+                disabled={
+                  processing.isProcessing ||
+                  validateFilenameTemplate(filenameTemplate) !== null
+                }
+                onClick={handleProtect}
+                loading={processing.isProcessing}
+              >
+                {processing.isProcessing
+                  ? processing.progress
+                  : isBatch
+                    ? `Protect ${validFiles.length} Files & Download`
+                    : "Protect & Download"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Error Modal */}
+      <Modal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        title="Error"
+      >
+        <div className="text-red-600 dark:text-red-400">{processing.error}</div>
+      </Modal>
+
+      <PasswordModal {...passwordPrompt} />
+
+      {/* Success Toast */}
+      <Toast
+        isVisible={toast.isVisible}
+        message={toast.message}
+        type={toast.type}
+        onClose={() => setToast((prev) => ({ ...prev, isVisible: false }))}
+      />
+    </div>
+  );
+};
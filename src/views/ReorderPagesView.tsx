@@ -1,6 +1,20 @@
 import React, { useState, useCallback } from "react";
-import { Dropzone, Button, Modal, Toast } from "../components";
-import { reorderPDF } from "../pdf-utils";
+import {
+  Dropzone,
+  Button,
+  FilenameTemplateInput,
+  Modal,
+  PasswordModal,
+  Toast,
+} from "../components";
+import { usePDFPassword } from "../hooks/usePDFPassword";
+import {
+  formatFilename,
+  getPageOrderFromRanges,
+  reorderPDF,
+  validateFilenameTemplate,
+  type FilenameTokens,
+} from "../pdf-utils";
 import { saveAs } from "file-saver";
 import * as pdfjsLib from "pdfjs-dist";
 
@@ -13,6 +27,7 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
 interface UploadedFile {
   file: File;
   id: string;
+  password?: string; // For encrypted PDFs
   error?: string;
 }
 
@@ -41,6 +56,7 @@ interface ToastState {
 }
 
 const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+const DEFAULT_FILENAME_TEMPLATE = "{name}-reordered-{date:YYYY-MM-DDTHH-mm-ss}";
 
 export const ReorderPagesView: React.FC = () => {
   const [uploadedFile, setUploadedFile] = useState<UploadedFile | null>(null);
@@ -54,18 +70,25 @@ export const ReorderPagesView: React.FC = () => {
     draggedIndex: null,
     dropTargetIndex: null,
   });
+  const [orderRange, setOrderRange] = useState("");
+  const [orderRangeError, setOrderRangeError] = useState<string | null>(null);
+  const [filenameTemplate, setFilenameTemplate] = useState(
+    DEFAULT_FILENAME_TEMPLATE,
+  );
   const [showModal, setShowModal] = useState(false);
   const [toast, setToast] = useState<ToastState>({
     isVisible: false,
     message: "",
     type: "success",
   });
+  const { unlockPDF, passwordPrompt } = usePDFPassword();
 
   const generatePageThumbnails = useCallback(
-    async (file: File): Promise<PageInfo[]> => {
+    async (file: File, password?: string): Promise<PageInfo[]> => {
       try {
         const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer, password })
+          .promise;
         const pageCount = pdf.numPages;
         const pageInfos: PageInfo[] = [];
 
@@ -130,10 +153,23 @@ export const ReorderPagesView: React.FC = () => {
       setProcessing({ isProcessing: true, progress: "Analyzing PDF pages..." });
 
       try {
-        const pageInfos = await generatePageThumbnails(file);
+        const { password, error: lockError } = await unlockPDF(file);
+        if (lockError) {
+          setUploadedFile({
+            file,
+            id: `${file.name}-${Date.now()}`,
+            error: lockError,
+          });
+          setPages([]);
+          setProcessing({ isProcessing: false, progress: "" });
+          return;
+        }
+
+        const pageInfos = await generatePageThumbnails(file, password);
         setUploadedFile({
           file,
           id: `${file.name}-${Date.now()}`,
+          password,
         });
         setPages(pageInfos);
       } catch (err) {
@@ -148,7 +184,7 @@ export const ReorderPagesView: React.FC = () => {
 
       setProcessing({ isProcessing: false, progress: "" });
     },
-    [generatePageThumbnails],
+    [generatePageThumbnails, unlockPDF],
   );
 
   const removeFile = () => {
@@ -240,6 +276,28 @@ export const ReorderPagesView: React.FC = () => {
     );
   };
 
+  // Page numbers in the range are the original ones, whatever the current
+  // order is
+  const applyOrderRange = () => {
+    try {
+      const order = getPageOrderFromRanges(orderRange, pages.length);
+      setPages((prev) => {
+        const original = [...prev].sort(
+          (a, b) => a.originalIndex - b.originalIndex,
+        );
+        return order.map((pageNumber, idx) => ({
+          ...original[pageNumber - 1],
+          index: idx,
+        }));
+      });
+      setOrderRangeError(null);
+    } catch (error) {
+      setOrderRangeError(
+        error instanceof Error ? error.message : "Invalid page range",
+      );
+    }
+  };
+
   const handleReorder = async () => {
     if (!uploadedFile || uploadedFile.error || pages.length === 0) {
       setProcessing({
@@ -268,6 +326,7 @@ export const ReorderPagesView: React.FC = () => {
       const result = await reorderPDF({
         file: uploadedFile.file,
         pageOrder: newOrder,
+        password: uploadedFile.password,
       });
 
       if (!result.success) {
@@ -276,16 +335,10 @@ export const ReorderPagesView: React.FC = () => {
 
       setProcessing((prev) => ({ ...prev, progress: "Preparing download..." }));
 
-      // Generate filename with timestamp
-      const timestamp = new Date()
-        .toISOString()
-        .slice(0, 19)
-        .replace(/:/g, "-");
-      const baseFilename = uploadedFile.file.name.replace(".pdf", "");
-      const filename = `${baseFilename}-reordered-${timestamp}.pdf`;
-
-      // Download the file
-      saveAs(result.pdfBlob, filename);
+      saveAs(
+        result.pdfBlob,
+        formatFilename(filenameTemplate, filenameTokens, "pdf"),
+      );
 
       setProcessing({
         isProcessing: false,
@@ -310,6 +363,11 @@ export const ReorderPagesView: React.FC = () => {
   };
 
   const hasChanges = pages.some((page, index) => page.originalIndex !== index);
+  const filenameTokens: FilenameTokens = {
+    name: uploadedFile?.file.name.replace(".pdf", "") ?? "",
+    start: 1,
+    end: pages.length,
+  };
 
   return (
     <div className="max-w-7xl mx-auto px-6 py-4 relative z-10">
@@ -479,7 +537,11 @@ export const ReorderPagesView: React.FC = () => {
                 </Button>
                 <Button
                   variant="primary"
-                  disabled={!hasChanges || processing.isProcessing}
+                  disabled={
+                    !hasChanges ||
+                    validateFilenameTemplate(filenameTemplate) !== null ||
+                    processing.isProcessing
+                  }
                   onClick={handleReorder}
                   loading={processing.isProcessing}
                   className="bg-gradient-to-r from-indigo-500 to-indigo-600 hover:from-indigo-600 hover:to-indigo-700 hover:shadow-lg hover:scale-105 transition-all duration-200"
@@ -504,6 +566,64 @@ export const ReorderPagesView: React.FC = () => {
               </p>
             </div>
 
+            <div className="mb-6">
+              <label
+                htmlFor="order-range"
+                className="block text-sm font-medium text-slate-300 mb-2"
+              >
+                Arrange by Page Range
+              </label>
+              <div className="flex gap-3">
+                <input
+                  id="order-range"
+                  type="text"
+                  value={orderRange}
+                  onChange={(e) => {
+                    setOrderRange(e.target.value);
+                    setOrderRangeError(null);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && orderRange.trim()) {
+                      applyOrderRange();
+                    }
+                  }}
+                  placeholder="e.g., odd,even or last-1 or 5,1-4"
+                  disabled={processing.isProcessing}
+                  className={`flex-grow px-3 py-2 border rounded-md focus:outline-none focus:ring-2 bg-slate-700 text-slate-100 ${
+                    orderRangeError
+                      ? "border-red-600 focus:ring-red-500"
+                      : "border-slate-600 focus:ring-sky-500"
+                  }`}
+                />
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={applyOrderRange}
+                  disabled={!orderRange.trim() || processing.isProcessing}
+                >
+                  Arrange
+                </Button>
+              </div>
+              {orderRangeError ? (
+                <p className="text-xs text-red-400 mt-1">{orderRangeError}</p>
+              ) : (
+                <p className="text-xs text-slate-400 mt-1">
+                  Listed pages come first in the order written; the rest follow
+                  in their original order.
+                </p>
+              )}
+            </div>
+
+            <FilenameTemplateInput
+              value={filenameTemplate}
+              onChange={setFilenameTemplate}
+              defaultTemplate={DEFAULT_FILENAME_TEMPLATE}
+              samples={[filenameTokens]}
+              extension="pdf"
+              disabled={processing.isProcessing}
+              className="mb-6"
+            />
+
             {/* Page Grid */}
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
               {pages.map((page, index) => (
@@ -577,6 +697,8 @@ export const ReorderPagesView: React.FC = () => {
         </div>
       </Modal>
 
+      <PasswordModal {...passwordPrompt} />
+
       {/* Success Toast */}
       <Toast
         isVisible={toast.isVisible}
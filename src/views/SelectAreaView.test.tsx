@@ -3,8 +3,10 @@ import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { SelectAreaView } from "./SelectAreaView";
 
 // Mock the PDF utilities
-vi.mock("../pdf-utils", () => ({
+vi.mock("../pdf-utils", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../pdf-utils")>()),
   selectPDFArea: vi.fn(),
+  checkPDFPassword: vi.fn().mockResolvedValue("not-encrypted"),
 }));
 
 // Mock file-saver
@@ -1,6 +1,19 @@
 import React, { useState, useCallback, useRef, useEffect } from "react";
-import { Dropzone, Button, Modal, Toast } from "../components";
-import { selectPDFArea } from "../pdf-utils";
+import {
+  Dropzone,
+  Button,
+  FilenameTemplateInput,
+  Modal,
+  PasswordModal,
+  Toast,
+} from "../components";
+import { usePDFPassword } from "../hooks/usePDFPassword";
+import {
+  formatFilename,
+  selectPDFArea,
+  validateFilenameTemplate,
+  type FilenameTokens,
+} from "../pdf-utils";
 import { saveAs } from "file-saver";
 import * as pdfjsLib from "pdfjs-dist";
 // Import icons as needed - currently commented out to fix build
@@ -15,6 +28,7 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
 interface UploadedFile {
   file: File;
   id: string;
+  password?: string; // For encrypted PDFs
   error?: string;
 }
 
@@ -49,7 +63,7 @@ interface SelectionState {
 interface ExportSettings {
   outputFormat: "jpeg" | "png";
   quality: number;
-  filename: string;
+  filenameTemplate: string;
 }
 
 interface ToastState {
@@ -61,10 +75,13 @@ interface ToastState {
 const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
 const CANVAS_SCALE = 2; // High-DPI rendering
 const THUMBNAIL_SCALE = 0.12; // Smaller thumbnails for faster generation
+const DEFAULT_FILENAME_TEMPLATE =
+  "{name}-page{start}-selection-{date:YYYY-MM-DDTHH-mm-ss}";
 // const PREVIEW_SCALE = 0.3; // Medium scale for quick preview - currently unused
 
 export const SelectAreaView: React.FC = () => {
   const [uploadedFile, setUploadedFile] = useState<UploadedFile | null>(null);
+  const { unlockPDF, passwordPrompt } = usePDFPassword();
   const [processing, setProcessing] = useState<ProcessingState>({
     isProcessing: false,
     progress: "",
@@ -82,7 +99,7 @@ export const SelectAreaView: React.FC = () => {
   const [exportSettings, setExportSettings] = useState<ExportSettings>({
     outputFormat: "jpeg",
     quality: 0.92,
-    filename: "",
+    filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
   });
   const [showModal, setShowModal] = useState(false);
   const [toast, setToast] = useState<ToastState>({
@@ -182,35 +199,39 @@ export const SelectAreaView: React.FC = () => {
   );
 
   // Initialize PDF document and page structure
-  const initializePDF = useCallback(async (file: File): Promise<PageInfo[]> => {
-    try {
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-      setPdfDocument(pdf);
-
-      const pageCount = pdf.numPages;
-      const pageInfos: PageInfo[] = [];
-
-      // Create page structure without thumbnails (lazy loading)
-      for (let i = 1; i <= pageCount; i++) {
-        const page = await pdf.getPage(i);
-        const viewport = page.getViewport({ scale: 1 });
-
-        pageInfos.push({
-          pageNumber: i,
-          thumbnail: null, // Will be generated lazily
-          width: viewport.width,
-          height: viewport.height,
-          isGenerating: false,
-        });
-      }
+  const initializePDF = useCallback(
+    async (file: File, password?: string): Promise<PageInfo[]> => {
+      try {
+        const arrayBuffer = await file.arrayBuffer();
+        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer, password })
+          .promise;
+        setPdfDocument(pdf);
+
+        const pageCount = pdf.numPages;
+        const pageInfos: PageInfo[] = [];
+
+        // Create page structure without thumbnails (lazy loading)
+        for (let i = 1; i <= pageCount; i++) {
+          const page = await pdf.getPage(i);
+          const viewport = page.getViewport({ scale: 1 });
+
+          pageInfos.push({
+            pageNumber: i,
+            thumbnail: null, // Will be generated lazily
+            width: viewport.width,
+            height: viewport.height,
+            isGenerating: false,
+          });
+        }
 
-      return pageInfos;
-    } catch (error) {
-      console.error("Failed to initialize PDF:", error);
-      throw error;
-    }
-  }, []);
+        return pageInfos;
+      } catch (error) {
+        console.error("Failed to initialize PDF:", error);
+        throw error;
+      }
+    },
+    [],
+  );
 
   const renderCurrentPage = useCallback(async () => {
     if (!pdfDocument || !canvasRef.current) return;
@@ -314,22 +335,29 @@ export const SelectAreaView: React.FC = () => {
       });
 
       try {
+        const { password, error: lockError } = await unlockPDF(file);
+        if (lockError) {
+          setUploadedFile({
+            file,
+            id: `${file.name}-${Date.now()}`,
+            error: lockError,
+          });
+          setPages([]);
+          setPdfDocument(null);
+          setProcessing({ isProcessing: false, progress: "" });
+          return;
+        }
+
         // Initialize PDF structure quickly
-        const pageInfos = await initializePDF(file);
+        const pageInfos = await initializePDF(file, password);
         setUploadedFile({
           file,
           id: `${file.name}-${Date.now()}`,
+          password,
         });
         setPages(pageInfos);
         setCurrentPage(1);
 
-        // Set default filename
-        const baseName = file.name.replace(".pdf", "");
-        setExportSettings((prev) => ({
-          ...prev,
-          filename: `${baseName}-page1-selection`,
-        }));
-
         setProcessing({
           isProcessing: false,
           progress: "Generating thumbnails...",
@@ -352,7 +380,7 @@ export const SelectAreaView: React.FC = () => {
 
       setProcessing({ isProcessing: false, progress: "" });
     },
-    [initializePDF, generateThumbnailsLazily],
+    [initializePDF, generateThumbnailsLazily, unlockPDF],
   );
 
   const removeFile = () => {
@@ -424,17 +452,14 @@ export const SelectAreaView: React.FC = () => {
     }
   };
 
+  const filenameTokens: FilenameTokens = {
+    name: uploadedFile?.file.name.replace(".pdf", "") ?? "",
+    start: currentPage,
+    end: currentPage,
+  };
+
   const handlePageChange = (pageNumber: number) => {
     setCurrentPage(pageNumber);
-
-    // Update filename
-    if (uploadedFile) {
-      const baseName = uploadedFile.file.name.replace(".pdf", "");
-      setExportSettings((prev) => ({
-        ...prev,
-        filename: `${baseName}-page${pageNumber}-selection`,
-      }));
-    }
   };
 
   const handleExportArea = async () => {
@@ -456,6 +481,7 @@ export const SelectAreaView: React.FC = () => {
     try {
       const result = await selectPDFArea({
         file: uploadedFile.file,
+        password: uploadedFile.password,
         pageNumber: currentPage,
         selection: selectionState.selection,
         outputFormat: exportSettings.outputFormat,
@@ -469,13 +495,11 @@ export const SelectAreaView: React.FC = () => {
 
       setProcessing((prev) => ({ ...prev, progress: "Preparing download..." }));
 
-      // Generate filename with timestamp
-      const timestamp = new Date()
-        .toISOString()
-        .slice(0, 19)
-        .replace(/:/g, "-");
-      const extension = exportSettings.outputFormat;
-      const filename = `${exportSettings.filename}-${timestamp}.${extension}`;
+      const filename = formatFilename(
+        exportSettings.filenameTemplate,
+        filenameTokens,
+        exportSettings.outputFormat,
+      );
 
       // Download the file
       saveAs(result.imageBlob!, filename);
@@ -532,6 +556,7 @@ export const SelectAreaView: React.FC = () => {
       // For clipboard, always use PNG format as it's more widely supported
       const result = await selectPDFArea({
         file: uploadedFile.file,
+        password: uploadedFile.password,
         pageNumber: currentPage,
         selection: selectionState.selection,
         outputFormat: "png", // Force PNG for clipboard compatibility
@@ -972,23 +997,16 @@ export const SelectAreaView: React.FC = () => {
               )}
 
               {/* Filename */}
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-2">
-                  Filename
-                </label>
-                <input
-                  type="text"
-                  value={exportSettings.filename}
-                  onChange={(e) =>
-                    setExportSettings((prev) => ({
-                      ...prev,
-                      filename: e.target.value,
-                    }))
-                  }
-                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
-                  placeholder="Enter filename"
-                />
-              </div>
+              <FilenameTemplateInput
+                value={exportSettings.filenameTemplate}
+                onChange={(filenameTemplate) =>
+                  setExportSettings((prev) => ({ ...prev, filenameTemplate }))
+                }
+                defaultTemplate={DEFAULT_FILENAME_TEMPLATE}
+                samples={[filenameTokens]}
+                extension={exportSettings.outputFormat}
+                disabled={processing.isProcessing}
+              />
             </div>
 
             {/* Export Buttons */}
@@ -1027,7 +1045,12 @@ export const SelectAreaView: React.FC = () => {
 
               <Button
                 onClick={handleExportArea}
-                disabled={processing.isProcessing || !selectionState.selection}
+                disabled={
+                  processing.isProcessing ||
+                  !selectionState.selection ||
+                  validateFilenameTemplate(exportSettings.filenameTemplate) !==
+                    null
+                }
                 className="bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 text-white px-6 py-3 text-lg"
                 size="lg"
               >
@@ -1103,6 +1126,8 @@ export const SelectAreaView: React.FC = () => {
         </div>
       </Modal>
 
+      <PasswordModal {...passwordPrompt} />
+
       {/* Toast Notification */}
       <Toast
         isVisible={toast.isVisible}
@@ -1,6 +1,35 @@
-import React, { useState, useCallback, useEffect } from "react";
-import { Dropzone, Button, Toast } from "../components";
-import { splitPDFToPDFs, splitPDFToImages } from "../pdf-utils";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
+import {
+  Dropzone,
+  Button,
+  FilenameTemplateInput,
+  PasswordModal,
+  Toast,
+} from "../components";
+import { usePDFPassword } from "../hooks/usePDFPassword";
+import {
+  DEFAULT_IMAGE_DPI,
+  DEFAULT_INK_THRESHOLD,
+  MAX_IMAGE_DPI,
+  MIN_IMAGE_DPI,
+  detectBlankPages,
+  findPatternSections,
+  formatFilename,
+  getBookmarkSections,
+  getPatternTokens,
+  getUniqueFilename,
+  PageRangeError,
+  parsePageRanges,
+  readPDFBookmarks,
+  splitPDFToPDFs,
+  splitPDFToImages,
+  validateFilenameTemplate,
+  type FilenameTokens,
+  type ImageFormat,
+  type PageInk,
+  type PatternSection,
+  type PDFBookmark,
+} from "../pdf-utils";
 import { saveAs } from "file-saver";
 import JSZip from "jszip";
 import * as pdfjsLib from "pdfjs-dist";
@@ -15,6 +44,9 @@ interface UploadedFile {
   file: File;
   id: string;
   thumbnail: string;
+  password?: string; // For encrypted PDFs
+  bookmarks: PDFBookmark[];
+  totalPages: number;
   error?: string;
 }
 
@@ -24,11 +56,40 @@ interface ProcessingState {
   error?: string;
 }
 
+type OutputType =
+  | "pdfs"
+  | "images"
+  | "single-pdf"
+  | "bookmarks"
+  | "size"
+  | "blank-separator"
+  | "text-pattern";
+
 interface SplitSettings {
-  outputType: "pdfs" | "images" | "single-pdf";
+  outputType: OutputType;
   pageRange: string;
-  imageFormat: "jpeg" | "png";
+  keepPageOrder: boolean; // Pages in the order of the range, repeats included
+  imageFormat: ImageFormat;
   imageQuality: number;
+  imageDpi: number;
+  bookmarkDepth: number;
+  excludedBookmarks: string[]; // Ids of sections not to create files for
+  maxPartSize: number; // MB
+  inkThreshold: number; // Percent of dark pixels below which a page is blank
+  removeSeparators: boolean;
+  pattern: string;
+  ignoreCase: boolean;
+  filenameTemplates: Partial<Record<OutputType, string>>; // Edited ones only
+}
+
+interface PatternPreview {
+  sections: PatternSection[];
+}
+
+interface BlankDetection {
+  fileId: string;
+  pages: PageInk[];
+  thumbnails: string[]; // Data URLs, one per page
 }
 
 interface ToastState {
@@ -45,6 +106,16 @@ interface PageRangeValidation {
 
 const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
 
+const DEFAULT_FILENAME_TEMPLATES: Record<OutputType, string> = {
+  pdfs: "{name}-page-{start}",
+  images: "{name}-page-{start}",
+  "single-pdf": "{name}-extracted-pages-{date:YYYY-MM-DDTHH-mm-ss}",
+  bookmarks: "{bookmark}",
+  size: "{name}_part_{index}",
+  "blank-separator": "{name}_part_{index}",
+  "text-pattern": "{match}",
+};
+
 export const SplitPDFsView: React.FC = () => {
   const [uploadedFile, setUploadedFile] = useState<UploadedFile | null>(null);
   const [processing, setProcessing] = useState<ProcessingState>({
@@ -54,9 +125,26 @@ export const SplitPDFsView: React.FC = () => {
   const [splitSettings, setSplitSettings] = useState<SplitSettings>({
     outputType: "pdfs",
     pageRange: "all",
+    keepPageOrder: false,
     imageFormat: "jpeg",
     imageQuality: 0.9,
+    imageDpi: DEFAULT_IMAGE_DPI,
+    bookmarkDepth: 1,
+    excludedBookmarks: [],
+    maxPartSize: 10,
+    inkThreshold: DEFAULT_INK_THRESHOLD * 100,
+    removeSeparators: true,
+    pattern: "",
+    ignoreCase: false,
+    filenameTemplates: {},
   });
+  const [patternPreview, setPatternPreview] = useState<PatternPreview | null>(
+    null,
+  );
+  const [blankDetection, setBlankDetection] = useState<BlankDetection | null>(
+    null,
+  );
+  const [separatorPages, setSeparatorPages] = useState<number[]>([]);
 
   const [toast, setToast] = useState<ToastState>({
     isVisible: false,
@@ -71,6 +159,7 @@ export const SplitPDFsView: React.FC = () => {
   // Debounced validation for page range
   const [validationTimeout, setValidationTimeout] =
     useState<NodeJS.Timeout | null>(null);
+  const { unlockPDF, passwordPrompt } = usePDFPassword();
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -82,10 +171,11 @@ export const SplitPDFsView: React.FC = () => {
   }, [validationTimeout]);
 
   const generatePDFThumbnail = useCallback(
-    async (file: File): Promise<string> => {
+    async (file: File, password?: string): Promise<string> => {
       try {
         const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer, password })
+          .promise;
         const page = await pdf.getPage(1);
         const scale = 0.5;
         const viewport = page.getViewport({ scale });
@@ -109,6 +199,35 @@ export const SplitPDFsView: React.FC = () => {
     [],
   );
 
+  const generatePageThumbnails = useCallback(
+    async (file: File, password?: string): Promise<string[]> => {
+      const arrayBuffer = await file.arrayBuffer();
+      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer, password })
+        .promise;
+      const thumbnails: string[] = [];
+
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        try {
+          const page = await pdf.getPage(pageNumber);
+          const viewport = page.getViewport({ scale: 0.2 });
+
+          const canvas = document.createElement("canvas");
+          const context = canvas.getContext("2d")!;
+          canvas.width = viewport.width;
+          canvas.height = viewport.height;
+
+          await page.render({ canvasContext: context, viewport }).promise;
+          thumbnails.push(canvas.toDataURL("image/jpeg", 0.7));
+        } catch (error) {
+          console.error("PDF thumbnail generation failed:", error);
+          thumbnails.push("");
+        }
+      }
+      return thumbnails;
+    },
+    [],
+  );
+
   const validateFile = (file: File): string | null => {
     if (file.type !== "application/pdf") {
       return `${file.name}: Only PDF files are supported`;
@@ -125,6 +244,7 @@ export const SplitPDFsView: React.FC = () => {
 
       // Only take the first file for splitting
       const file = files[0];
+      setPatternPreview(null);
       const error = validateFile(file);
 
       if (error) {
@@ -132,36 +252,106 @@ export const SplitPDFsView: React.FC = () => {
           file,
           id: `${file.name}-${Date.now()}`,
           thumbnail: "",
+          bookmarks: [],
+          totalPages: 0,
           error,
         });
         return;
       }
 
       try {
-        const thumbnail = await generatePDFThumbnail(file);
+        const { password, error: lockError } = await unlockPDF(file);
+        if (lockError) {
+          setUploadedFile({
+            file,
+            id: `${file.name}-${Date.now()}`,
+            thumbnail: "",
+            bookmarks: [],
+            totalPages: 0,
+            error: lockError,
+          });
+          return;
+        }
+
+        const thumbnail = await generatePDFThumbnail(file, password);
+        const outline = await readPDFBookmarks({ file, password });
         setUploadedFile({
           file,
           id: `${file.name}-${Date.now()}`,
           thumbnail,
+          password,
+          bookmarks: outline.success ? outline.bookmarks : [],
+          totalPages: outline.success ? outline.totalPages : 0,
           error: undefined,
         });
+        setSplitSettings((prev) => ({
+          ...prev,
+          outputType:
+            prev.outputType === "bookmarks" &&
+            !(outline.success && outline.bookmarks.length > 0)
+              ? "pdfs"
+              : prev.outputType,
+          bookmarkDepth: 1,
+          excludedBookmarks: [],
+        }));
       } catch (err) {
         console.error("Failed to process PDF:", err);
         setUploadedFile({
           file,
           id: `${file.name}-${Date.now()}`,
           thumbnail: "",
+          bookmarks: [],
+          totalPages: 0,
           error: "Failed to process PDF file",
         });
       }
     },
-    [generatePDFThumbnail],
+    [generatePDFThumbnail, unlockPDF],
   );
 
   const removeFile = () => {
     setUploadedFile(null);
   };
 
+  const bookmarks = useMemo(
+    () => uploadedFile?.bookmarks ?? [],
+    [uploadedFile],
+  );
+
+  const maxBookmarkDepth = useMemo(() => {
+    const getDepth = (items: PDFBookmark[]): number =>
+      items.length === 0
+        ? 0
+        : 1 + Math.max(...items.map((item) => getDepth(item.children)));
+    return getDepth(bookmarks);
+  }, [bookmarks]);
+
+  // Bookmarks that start a non-empty section, with their page ranges
+  const bookmarkSections = useMemo(
+    () =>
+      new Map(
+        getBookmarkSections(
+          bookmarks,
+          splitSettings.bookmarkDepth,
+          uploadedFile?.totalPages ?? 0,
+        ).map((section) => [section.bookmark.id, section]),
+      ),
+    [bookmarks, splitSettings.bookmarkDepth, uploadedFile],
+  );
+
+  const selectedBookmarkIds = [...bookmarkSections.keys()].filter(
+    (id) => !splitSettings.excludedBookmarks.includes(id),
+  );
+
+  const toggleBookmark = (id: string) => {
+    setSplitSettings((prev) => ({
+      ...prev,
+      excludedBookmarks: prev.excludedBookmarks.includes(id)
+        ? prev.excludedBookmarks.filter((excluded) => excluded !== id)
+        : [...prev.excludedBookmarks, id],
+    }));
+  };
+
   const validatePageRange = async (
     range: string,
   ): Promise<PageRangeValidation> => {
@@ -172,47 +362,20 @@ export const SplitPDFsView: React.FC = () => {
       };
     }
 
-    if (range.toLowerCase() === "all") {
-      return {
-        isValid: true,
-        parsedPages: [],
-      };
-    }
-
-    // Basic format validation
-    const validPattern = /^(\d+(-\d+)?)(,\s*\d+(-\d+)?)*$/;
-    if (!validPattern.test(range.trim())) {
-      return {
-        isValid: false,
-        error:
-          "Invalid format. Use numbers, ranges (1-5), or comma-separated values (1,2,3)",
-      };
-    }
-
     // If we have an uploaded file, validate against actual page count
-    if (uploadedFile && !uploadedFile.error) {
+    if (uploadedFile && !uploadedFile.error && uploadedFile.totalPages > 0) {
       try {
-        const arrayBuffer = await uploadedFile.file.arrayBuffer();
-        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-        const totalPages = pdf.numPages;
-
-        const parsedPages = parsePageRange(range, totalPages);
-
-        if (parsedPages.length === 0) {
-          return {
-            isValid: false,
-            error: `No valid pages found. Document has ${totalPages} pages`,
-          };
-        }
-
         return {
           isValid: true,
-          parsedPages,
+          parsedPages: parsePageRanges(range, uploadedFile.totalPages),
         };
-      } catch {
+      } catch (error) {
         return {
           isValid: false,
-          error: "Unable to validate against document",
+          error:
+            error instanceof PageRangeError
+              ? error.message
+              : "Unable to validate against document",
         };
       }
     }
@@ -223,42 +386,15 @@ export const SplitPDFsView: React.FC = () => {
     };
   };
 
+  // Pages of the range, or none while it's invalid
   const parsePageRange = (range: string, totalPages: number): number[] => {
-    if (range.toLowerCase() === "all") {
-      return Array.from({ length: totalPages }, (_, i) => i + 1);
-    }
-
-    const pages: number[] = [];
-    const parts = range.split(",").map((part) => part.trim());
-
-    for (const part of parts) {
-      if (part.includes("-")) {
-        const [start, end] = part.split("-").map((num) => parseInt(num.trim()));
-        if (
-          !isNaN(start) &&
-          !isNaN(end) &&
-          start >= 1 &&
-          end <= totalPages &&
-          start <= end
-        ) {
-          for (let i = start; i <= end; i++) {
-            if (!pages.includes(i)) pages.push(i);
-          }
-        }
-      } else {
-        const pageNum = parseInt(part);
-        if (
-          !isNaN(pageNum) &&
-          pageNum >= 1 &&
-          pageNum <= totalPages &&
-          !pages.includes(pageNum)
-        ) {
-          pages.push(pageNum);
-        }
-      }
+    try {
+      return parsePageRanges(range, totalPages, {
+        keepOrder: splitSettings.keepPageOrder,
+      });
+    } catch {
+      return [];
     }
-
-    return pages.sort((a, b) => a - b);
   };
 
   const handlePageRangeChange = (value: string) => {
@@ -281,6 +417,345 @@ export const SplitPDFsView: React.FC = () => {
     setValidationTimeout(timeout);
   };
 
+  const usesPageRange =
+    splitSettings.outputType === "pdfs" ||
+    splitSettings.outputType === "images" ||
+    splitSettings.outputType === "single-pdf";
+
+  const detection =
+    blankDetection?.fileId === uploadedFile?.id ? blankDetection : null;
+
+  // Detect separators once per file, when that split is chosen
+  useEffect(() => {
+    if (
+      splitSettings.outputType !== "blank-separator" ||
+      !uploadedFile ||
+      uploadedFile.error ||
+      blankDetection?.fileId === uploadedFile.id
+    ) {
+      return;
+    }
+
+    let cancelled = false;
+    const detect = async () => {
+      setProcessing({
+        isProcessing: true,
+        progress: "Looking for blank pages...",
+      });
+
+      const result = await detectBlankPages({
+        file: uploadedFile.file,
+        password: uploadedFile.password,
+        inkThreshold: splitSettings.inkThreshold / 100,
+        onProgress: (checkedPages, totalPages) =>
+          setProcessing({
+            isProcessing: true,
+            progress: `Looking for blank pages (${checkedPages} of ${totalPages})...`,
+          }),
+      });
+      const thumbnails = result.success
+        ? await generatePageThumbnails(
+            uploadedFile.file,
+            uploadedFile.password,
+          ).catch(() => [])
+        : [];
+
+      setProcessing({ isProcessing: false, progress: "" });
+      if (cancelled) return;
+      if (!result.success) {
+        setToast({ isVisible: true, message: result.error, type: "error" });
+        setSplitSettings((prev) => ({ ...prev, outputType: "pdfs" }));
+        return;
+      }
+      setBlankDetection({
+        fileId: uploadedFile.id,
+        pages: result.pages,
+        thumbnails,
+      });
+      setSeparatorPages(result.blankPages);
+    };
+    detect();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    splitSettings.outputType,
+    splitSettings.inkThreshold,
+    uploadedFile,
+    blankDetection,
+    generatePageThumbnails,
+  ]);
+
+  const handleInkThresholdChange = (inkThreshold: number) => {
+    setSplitSettings((prev) => ({ ...prev, inkThreshold }));
+    // Re-applying the threshold discards manual corrections
+    if (detection) {
+      setSeparatorPages(
+        detection.pages
+          .filter((page) => page.inkCoverage < inkThreshold / 100)
+          .map((page) => page.pageNumber),
+      );
+    }
+  };
+
+  const toggleSeparator = (pageNumber: number) => {
+    setSeparatorPages((prev) =>
+      prev.includes(pageNumber)
+        ? prev.filter((page) => page !== pageNumber)
+        : [...prev, pageNumber].sort((a, b) => a - b),
+    );
+  };
+
+  const handlePatternChange = (
+    changes: Partial<Pick<SplitSettings, "pattern" | "ignoreCase">>,
+  ) => {
+    setSplitSettings((prev) => ({ ...prev, ...changes }));
+    setPatternPreview(null);
+  };
+
+  const handlePatternPreview = async () => {
+    if (!uploadedFile || uploadedFile.error) return;
+
+    setProcessing({ isProcessing: true, progress: "Searching PDF text..." });
+    const result = await findPatternSections({
+      file: uploadedFile.file,
+      password: uploadedFile.password,
+      pattern: splitSettings.pattern,
+      ignoreCase: splitSettings.ignoreCase,
+    });
+    setProcessing({ isProcessing: false, progress: "" });
+
+    if (!result.success) {
+      setToast({
+        isVisible: true,
+        message: result.details
+          ? `${result.error}: ${result.details}`
+          : result.error,
+        type: "error",
+      });
+      return;
+    }
+    setPatternPreview({ sections: result.sections });
+  };
+
+  // TIFF puts every page in one file
+  const isTIFF =
+    splitSettings.outputType === "images" &&
+    splitSettings.imageFormat === "tiff";
+  const isImageDpiValid =
+    splitSettings.imageDpi >= MIN_IMAGE_DPI &&
+    splitSettings.imageDpi <= MAX_IMAGE_DPI;
+  const defaultFilenameTemplate = isTIFF
+    ? "{name}"
+    : DEFAULT_FILENAME_TEMPLATES[splitSettings.outputType];
+  const filenameTemplate =
+    splitSettings.filenameTemplates[splitSettings.outputType] ??
+    defaultFilenameTemplate;
+  const filenameError = validateFilenameTemplate(filenameTemplate);
+
+  // Templates matching the default keep following it, e.g. when the image
+  // format changes between TIFF and the others
+  const handleFilenameTemplateChange = (template: string) => {
+    setSplitSettings((prev) => ({
+      ...prev,
+      filenameTemplates: {
+        ...prev.filenameTemplates,
+        [prev.outputType]:
+          template === defaultFilenameTemplate ? undefined : template,
+      },
+    }));
+  };
+
+  // Tokens of the files the split would create, as far as they're known
+  // before splitting
+  const getFilenameSamples = (): FilenameTokens[] => {
+    if (!uploadedFile || uploadedFile.error) return [];
+    const name = uploadedFile.file.name.replace(".pdf", "");
+    const pages = parsePageRange(
+      splitSettings.pageRange,
+      uploadedFile.totalPages,
+    );
+
+    // A TIFF holds the pages like a single extracted PDF does
+    switch (isTIFF ? "single-pdf" : splitSettings.outputType) {
+      case "pdfs":
+      case "images":
+        return pages.map((page, index) => ({
+          name,
+          index: index + 1,
+          start: page,
+          end: page,
+          range: String(page),
+        }));
+      case "single-pdf":
+        return pages.length > 0
+          ? [
+              {
+                name,
+                index: 1,
+                start: pages[0],
+                end: pages[pages.length - 1],
+                range: pages.join(","),
+              },
+            ]
+          : [];
+      case "bookmarks":
+        return selectedBookmarkIds.map((id, index) => {
+          const section = bookmarkSections.get(id)!;
+          return {
+            name,
+            index: index + 1,
+            start: section.startPage,
+            end: section.endPage,
+            bookmark: section.bookmark.title,
+          };
+        });
+      case "text-pattern":
+        return (patternPreview?.sections ?? []).map((section, index) => ({
+          name,
+          index: index + 1,
+          ...getPatternTokens(section),
+        }));
+      default:
+        // Part boundaries aren't known until the split runs
+        return [1, 2, 3].map((index) => ({ name, index }));
+    }
+  };
+
+  const filenameSamples = getFilenameSamples();
+  const usedPatternFilenames = new Set<string>();
+  const patternFilenames = filenameSamples.map((tokens) =>
+    splitSettings.outputType === "text-pattern" && !filenameError
+      ? getUniqueFilename(
+          formatFilename(filenameTemplate, tokens, "pdf"),
+          usedPatternFilenames,
+        )
+      : "",
+  );
+
+  // Bookmark, size, blank page and pattern splits cover the whole document
+  // and name their own files
+  const handleDocumentSplit = async (uploadedFile: UploadedFile) => {
+    const { outputType } = splitSettings;
+    const validationError =
+      outputType === "bookmarks" && selectedBookmarkIds.length === 0
+        ? "Please select at least one bookmark"
+        : outputType === "size" && !(splitSettings.maxPartSize > 0)
+          ? "Please enter a maximum part size"
+          : outputType === "blank-separator" && separatorPages.length === 0
+            ? "Please mark at least one separator page"
+            : outputType === "text-pattern" && !splitSettings.pattern
+              ? "Please enter a pattern"
+              : null;
+
+    if (validationError) {
+      setToast({
+        isVisible: true,
+        message: validationError,
+        type: "error",
+      });
+      return;
+    }
+
+    setProcessing({
+      isProcessing: true,
+      progress:
+        outputType === "bookmarks"
+          ? `Splitting into ${selectedBookmarkIds.length} PDF files...`
+          : outputType === "size"
+            ? `Splitting into parts of up to ${splitSettings.maxPartSize} MB...`
+            : outputType === "blank-separator"
+              ? "Splitting at separator pages..."
+              : "Splitting where the pattern matches...",
+    });
+
+    try {
+      const { file, password } = uploadedFile;
+      const result = await splitPDFToPDFs({
+        file,
+        password,
+        filenameTemplate,
+        ...(outputType === "bookmarks"
+          ? {
+              splitMethod: "bookmarks",
+              bookmarkDepth: splitSettings.bookmarkDepth,
+              bookmarkIds: selectedBookmarkIds,
+            }
+          : outputType === "size"
+            ? {
+                splitMethod: "size",
+                maxFileSize: Math.floor(
+                  splitSettings.maxPartSize * 1024 * 1024,
+                ),
+              }
+            : outputType === "blank-separator"
+              ? {
+                  splitMethod: "blank-separator",
+                  separatorPages,
+                  removeSeparators: splitSettings.removeSeparators,
+                }
+              : {
+                  splitMethod: "text-pattern",
+                  pattern: splitSettings.pattern,
+                  ignoreCase: splitSettings.ignoreCase,
+                }),
+      });
+
+      if (!result.success) {
+        throw new Error(
+          result.details ? `${result.error}: ${result.details}` : result.error,
+        );
+      }
+
+      setProcessing((prev) => ({
+        ...prev,
+        progress: "Creating ZIP archive...",
+      }));
+
+      const zip = new JSZip();
+      result.pdfBlobs.forEach((blob, index) => {
+        zip.file(result.filenames[index], blob);
+      });
+      const zipBlob = await zip.generateAsync({ type: "blob" });
+
+      const baseFilename = uploadedFile.file.name.replace(".pdf", "");
+      const timestamp = new Date()
+        .toISOString()
+        .slice(0, 19)
+        .replace(/:/g, "-");
+      saveAs(
+        zipBlob,
+        `${baseFilename}-${outputType === "bookmarks" ? "bookmarks" : "parts"}-${timestamp}.zip`,
+      );
+
+      setProcessing({
+        isProcessing: false,
+        progress: "",
+      });
+
+      const warnings = result.warnings ?? [];
+      setToast({
+        isVisible: true,
+        message:
+          warnings.length > 0
+            ? `Split into ${result.totalFiles} PDF files, but ${warnings.length === 1 ? "a page is" : `${warnings.length} pages are`} over the limit on their own: ${warnings.join("; ")}`
+            : `Successfully split into ${result.totalFiles} PDF files!`,
+        type: warnings.length > 0 ? "error" : "success",
+      });
+    } catch (error) {
+      setProcessing({
+        isProcessing: false,
+        progress: "",
+      });
+      setToast({
+        isVisible: true,
+        message: error instanceof Error ? error.message : "Failed to split PDF",
+        type: "error",
+      });
+    }
+  };
+
   const handleSplit = async () => {
     if (!uploadedFile || uploadedFile.error) {
       setToast({
@@ -291,6 +766,11 @@ export const SplitPDFsView: React.FC = () => {
       return;
     }
 
+    if (!usesPageRange) {
+      await handleDocumentSplit(uploadedFile);
+      return;
+    }
+
     if (!pageRangeValidation.isValid) {
       setToast({
         isVisible: true,
@@ -308,7 +788,10 @@ export const SplitPDFsView: React.FC = () => {
     try {
       // First, get the total number of pages
       const arrayBuffer = await uploadedFile.file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+      const pdf = await pdfjsLib.getDocument({
+        data: arrayBuffer,
+        password: uploadedFile.password,
+      }).promise;
       const totalPages = pdf.numPages;
 
       // Parse page range
@@ -335,8 +818,10 @@ export const SplitPDFsView: React.FC = () => {
 
         const result = await splitPDFToPDFs({
           file: uploadedFile.file,
+          password: uploadedFile.password,
           splitMethod: "ranges",
           ranges: pagesToSplit.join(","),
+          filenameTemplate,
         });
 
         if (!result.success) {
@@ -353,8 +838,7 @@ export const SplitPDFsView: React.FC = () => {
         const baseFilename = uploadedFile.file.name.replace(".pdf", "");
 
         result.pdfBlobs.forEach((blob, index) => {
-          const pageNum = pagesToSplit[index];
-          zip.file(`${baseFilename}-page-${pageNum}.pdf`, blob);
+          zip.file(result.filenames[index], blob);
         });
 
         const zipBlob = await zip.generateAsync({ type: "blob" });
@@ -393,8 +877,11 @@ export const SplitPDFsView: React.FC = () => {
 
         const result = await splitPDFToPDFs({
           file: uploadedFile.file,
+          password: uploadedFile.password,
           splitMethod: "extract",
           extractRange: pagesToSplit.join(","),
+          keepPageOrder: splitSettings.keepPageOrder,
+          filenameTemplate,
         });
 
         if (!result.success) {
@@ -407,15 +894,7 @@ export const SplitPDFsView: React.FC = () => {
         }));
 
         // Download the single PDF file
-        const baseFilename = uploadedFile.file.name.replace(".pdf", "");
-        const timestamp = new Date()
-          .toISOString()
-          .slice(0, 19)
-          .replace(/:/g, "-");
-        const filename = `${baseFilename}-extracted-pages-${timestamp}.pdf`;
-
-        // Download the single PDF file
-        saveAs(result.pdfBlobs[0], filename);
+        saveAs(result.pdfBlobs[0], result.filenames[0]);
 
         setProcessing({
           isProcessing: false,
@@ -436,13 +915,36 @@ export const SplitPDFsView: React.FC = () => {
 
         const result = await splitPDFToImages({
           file: uploadedFile.file,
+          password: uploadedFile.password,
           format: splitSettings.imageFormat,
           quality: splitSettings.imageQuality,
+          dpi: splitSettings.imageDpi,
           extractRange: pagesToSplit.join(","),
+          keepPageOrder: splitSettings.keepPageOrder,
+          filenameTemplate,
         });
 
         if (!result.success) {
-          throw new Error(result.error);
+          throw new Error(
+            result.details
+              ? `${result.error}: ${result.details}`
+              : result.error,
+          );
+        }
+
+        if (isTIFF) {
+          saveAs(result.imageBlobs[0], result.filenames[0]);
+
+          setProcessing({
+            isProcessing: false,
+            progress: "",
+          });
+          setToast({
+            isVisible: true,
+            message: `Successfully converted ${pagesToSplit.length} pages to a TIFF!`,
+            type: "success",
+          });
+          return;
         }
 
         setProcessing((prev) => ({
@@ -455,10 +957,7 @@ export const SplitPDFsView: React.FC = () => {
         const baseFilename = uploadedFile.file.name.replace(".pdf", "");
 
         result.imageBlobs.forEach((blob, index) => {
-          const pageNum = pagesToSplit[index];
-          const extension =
-            splitSettings.imageFormat === "jpeg" ? "jpg" : "png";
-          zip.file(`${baseFilename}-page-${pageNum}.${extension}`, blob);
+          zip.file(result.filenames[index], blob);
         });
 
         const zipBlob = await zip.generateAsync({ type: "blob" });
@@ -503,6 +1002,46 @@ export const SplitPDFsView: React.FC = () => {
     }
   };
 
+  const renderBookmarkTree = (
+    items: PDFBookmark[],
+    level: number,
+  ): React.ReactNode => (
+    <ul className={level > 1 ? "ml-6" : undefined}>
+      {items.map((item) => {
+        const section = bookmarkSections.get(item.id);
+        return (
+          <li key={item.id}>
+            {section ? (
+              <label className="flex items-center gap-2 py-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!splitSettings.excludedBookmarks.includes(item.id)}
+                  onChange={() => toggleBookmark(item.id)}
+                  disabled={processing.isProcessing}
+                />
+                <span className="text-sm text-slate-200 truncate">
+                  {item.title || "Untitled"}
+                </span>
+                <span className="text-xs text-slate-400 whitespace-nowrap">
+                  {section.startPage === section.endPage
+                    ? `page ${section.startPage}`
+                    : `pages ${section.startPage}-${section.endPage}`}
+                </span>
+              </label>
+            ) : (
+              <p className="py-1 pl-6 text-sm text-slate-400 truncate">
+                {item.title || "Untitled"}
+              </p>
+            )}
+            {level < splitSettings.bookmarkDepth &&
+              item.children.length > 0 &&
+              renderBookmarkTree(item.children, level + 1)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
   return (
     <div className="max-w-7xl mx-auto px-6 py-4 relative z-10">
       <div className="text-center mb-5 bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
@@ -670,10 +1209,7 @@ export const SplitPDFsView: React.FC = () => {
                       onChange={(e) =>
                         setSplitSettings((prev) => ({
                           ...prev,
-                          outputType: e.target.value as
-                            | "pdfs"
-                            | "images"
-                            | "single-pdf",
+                          outputType: e.target.value as OutputType,
                         }))
                       }
                       className="mr-3 mt-1"
@@ -697,10 +1233,7 @@ export const SplitPDFsView: React.FC = () => {
                       onChange={(e) =>
                         setSplitSettings((prev) => ({
                           ...prev,
-                          outputType: e.target.value as
-                            | "pdfs"
-                            | "images"
-                            | "single-pdf",
+                          outputType: e.target.value as OutputType,
                         }))
                       }
                       className="mr-3 mt-1"
@@ -724,10 +1257,7 @@ export const SplitPDFsView: React.FC = () => {
                       onChange={(e) =>
                         setSplitSettings((prev) => ({
                           ...prev,
-                          outputType: e.target.value as
-                            | "pdfs"
-                            | "images"
-                            | "single-pdf",
+                          outputType: e.target.value as OutputType,
                         }))
                       }
                       className="mr-3 mt-1"
@@ -742,35 +1272,443 @@ export const SplitPDFsView: React.FC = () => {
                       </p>
                     </div>
                   </label>
+                  <label
+                    className={`flex items-start p-3 border border-slate-600 rounded-lg transition-colors ${
+                      bookmarks.length > 0
+                        ? "hover:bg-slate-700/50 cursor-pointer"
+                        : "opacity-50 cursor-not-allowed"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="outputType"
+                      value="bookmarks"
+                      checked={splitSettings.outputType === "bookmarks"}
+                      disabled={bookmarks.length === 0}
+                      onChange={(e) =>
+                        setSplitSettings((prev) => ({
+                          ...prev,
+                          outputType: e.target.value as OutputType,
+                        }))
+                      }
+                      className="mr-3 mt-1"
+                    />
+                    <div>
+                      <span className="text-sm font-medium text-slate-200">
+                        Split by bookmarks
+                      </span>
+                      <p className="text-xs text-slate-400 mt-1">
+                        {bookmarks.length > 0
+                          ? "Creates a PDF file for each chapter in the outline, named after its bookmark"
+                          : "This PDF has no bookmarks"}
+                      </p>
+                    </div>
+                  </label>
+                  <label className="flex items-start p-3 border border-slate-600 rounded-lg hover:bg-slate-700/50 cursor-pointer transition-colors">
+                    <input
+                      type="radio"
+                      name="outputType"
+                      value="size"
+                      checked={splitSettings.outputType === "size"}
+                      onChange={(e) =>
+                        setSplitSettings((prev) => ({
+                          ...prev,
+                          outputType: e.target.value as OutputType,
+                        }))
+                      }
+                      className="mr-3 mt-1"
+                    />
+                    <div>
+                      <span className="text-sm font-medium text-slate-200">
+                        Split by file size
+                      </span>
+                      <p className="text-xs text-slate-400 mt-1">
+                        Packs consecutive pages into as few PDF files as
+                        possible, each under an upload limit
+                      </p>
+                    </div>
+                  </label>
+                  <label className="flex items-start p-3 border border-slate-600 rounded-lg hover:bg-slate-700/50 cursor-pointer transition-colors">
+                    <input
+                      type="radio"
+                      name="outputType"
+                      value="blank-separator"
+                      checked={splitSettings.outputType === "blank-separator"}
+                      onChange={(e) =>
+                        setSplitSettings((prev) => ({
+                          ...prev,
+                          outputType: e.target.value as OutputType,
+                        }))
+                      }
+                      className="mr-3 mt-1"
+                    />
+                    <div>
+                      <span className="text-sm font-medium text-slate-200">
+                        Split at blank pages
+                      </span>
+                      <p className="text-xs text-slate-400 mt-1">
+                        Starts a new PDF file after every blank sheet, for
+                        scanned batches of letters
+                      </p>
+                    </div>
+                  </label>
+                  <label className="flex items-start p-3 border border-slate-600 rounded-lg hover:bg-slate-700/50 cursor-pointer transition-colors">
+                    <input
+                      type="radio"
+                      name="outputType"
+                      value="text-pattern"
+                      checked={splitSettings.outputType === "text-pattern"}
+                      onChange={(e) =>
+                        setSplitSettings((prev) => ({
+                          ...prev,
+                          outputType: e.target.value as OutputType,
+                        }))
+                      }
+                      className="mr-3 mt-1"
+                    />
+                    <div>
+                      <span className="text-sm font-medium text-slate-200">
+                        Split by text pattern
+                      </span>
+                      <p className="text-xs text-slate-400 mt-1">
+                        Starts a new PDF file on every page matching a regular
+                        expression, such as an invoice number
+                      </p>
+                    </div>
+                  </label>
                 </div>
               </div>
 
-              {/* Page Range */}
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-2">
-                  Page Range
-                </label>
-                <input
-                  type="text"
-                  value={splitSettings.pageRange}
-                  onChange={(e) => handlePageRangeChange(e.target.value)}
-                  placeholder="e.g., all, 1,2,3, 2-5, 7"
-                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 bg-slate-700 text-slate-100 ${
-                    pageRangeValidation.isValid
-                      ? "border-slate-600 focus:ring-sky-500"
-                      : "border-red-600 focus:ring-red-500"
-                  }`}
-                />
-                {pageRangeValidation.error && (
-                  <p className="text-xs text-red-400 mt-1">
-                    {pageRangeValidation.error}
+              {/* Bookmarks (when outputType is 'bookmarks') */}
+              {splitSettings.outputType === "bookmarks" && (
+                <div className="space-y-4">
+                  {maxBookmarkDepth > 1 && (
+                    <div>
+                      <label
+                        htmlFor="bookmark-depth"
+                        className="block text-sm font-medium text-slate-300 mb-2"
+                      >
+                        Split At
+                      </label>
+                      <select
+                        id="bookmark-depth"
+                        value={splitSettings.bookmarkDepth}
+                        onChange={(e) =>
+                          setSplitSettings((prev) => ({
+                            ...prev,
+                            bookmarkDepth: parseInt(e.target.value),
+                          }))
+                        }
+                        className="w-full px-3 py-2 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 bg-slate-700 text-slate-100"
+                      >
+                        {Array.from(
+                          { length: maxBookmarkDepth },
+                          (_, i) => i + 1,
+                        ).map((depth) => (
+                          <option key={depth} value={depth}>
+                            {depth === 1
+                              ? "Top-level bookmarks"
+                              : `Bookmarks down to level ${depth}`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="block text-sm font-medium text-slate-300">
+                        Sections ({selectedBookmarkIds.length} of{" "}
+                        {bookmarkSections.size} selected)
+                      </span>
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setSplitSettings((prev) => ({
+                              ...prev,
+                              excludedBookmarks: [],
+                            }))
+                          }
+                          className="px-2 py-1 text-xs bg-slate-700 text-slate-300 border border-slate-600 rounded hover:bg-slate-600 transition-colors"
+                        >
+                          All
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setSplitSettings((prev) => ({
+                              ...prev,
+                              excludedBookmarks: [...bookmarkSections.keys()],
+                            }))
+                          }
+                          className="px-2 py-1 text-xs bg-slate-700 text-slate-300 border border-slate-600 rounded hover:bg-slate-600 transition-colors"
+                        >
+                          None
+                        </button>
+                      </div>
+                    </div>
+                    <div className="max-h-80 overflow-y-auto p-3 border border-slate-600 rounded-lg bg-slate-700/50">
+                      {renderBookmarkTree(bookmarks, 1)}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Part Size (when outputType is 'size') */}
+              {splitSettings.outputType === "size" && (
+                <div>
+                  <label
+                    htmlFor="max-part-size"
+                    className="block text-sm font-medium text-slate-300 mb-2"
+                  >
+                    Maximum Part Size (MB)
+                  </label>
+                  <input
+                    id="max-part-size"
+                    type="number"
+                    min="0.1"
+                    step="0.1"
+                    value={splitSettings.maxPartSize}
+                    onChange={(e) =>
+                      setSplitSettings((prev) => ({
+                        ...prev,
+                        maxPartSize: parseFloat(e.target.value),
+                      }))
+                    }
+                    className="w-full px-3 py-2 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 bg-slate-700 text-slate-100"
+                  />
+                  <p className="text-xs text-slate-400 mt-1">
+                    Pages that are bigger than this on their own get a part of
+                    their own
                   </p>
-                )}
-                <div className="mt-2">
-                  <p className="text-xs text-slate-400 mb-2">Valid examples:</p>
-                  <div className="flex flex-wrap gap-2">
-                    {["all", "1,2,3", "2-5", "7", "1-3,5,8-10"].map(
-                      (example) => (
+                </div>
+              )}
+
+              {/* Separators (when outputType is 'blank-separator') */}
+              {splitSettings.outputType === "blank-separator" && (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                      <label
+                        htmlFor="ink-threshold"
+                        className="block text-sm font-medium text-slate-300 mb-2"
+                      >
+                        Ink Threshold: {splitSettings.inkThreshold.toFixed(1)}%
+                      </label>
+                      <input
+                        id="ink-threshold"
+                        type="range"
+                        min="0.1"
+                        max="5"
+                        step="0.1"
+                        value={splitSettings.inkThreshold}
+                        onChange={(e) =>
+                          handleInkThresholdChange(parseFloat(e.target.value))
+                        }
+                        disabled={processing.isProcessing}
+                        className="w-full"
+                      />
+                      <p className="text-xs text-slate-400 mt-1">
+                        Pages with less ink than this count as blank. Raise it
+                        if separators have specks or stamps on them.
+                      </p>
+                    </div>
+                    <label className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={splitSettings.removeSeparators}
+                        onChange={(e) =>
+                          setSplitSettings((prev) => ({
+                            ...prev,
+                            removeSeparators: e.target.checked,
+                          }))
+                        }
+                        className="mt-1"
+                      />
+                      <span className="text-sm text-slate-200">
+                        Remove separator pages
+                        <span className="block text-xs text-slate-400">
+                          Otherwise they stay at the start of the next file
+                        </span>
+                      </span>
+                    </label>
+                  </div>
+
+                  {detection && (
+                    <div>
+                      <p className="text-sm font-medium text-slate-300 mb-2">
+                        {separatorPages.length} separator pages found. Click a
+                        page to mark or unmark it.
+                      </p>
+                      <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 gap-3 max-h-96 overflow-y-auto p-1">
+                        {detection.pages.map(({ pageNumber, inkCoverage }) => {
+                          const isSeparator =
+                            separatorPages.includes(pageNumber);
+                          return (
+                            <button
+                              key={pageNumber}
+                              type="button"
+                              onClick={() => toggleSeparator(pageNumber)}
+                              disabled={processing.isProcessing}
+                              title={`Page ${pageNumber}: ${(inkCoverage * 100).toFixed(2)}% ink`}
+                              aria-pressed={isSeparator}
+                              className={`relative rounded-lg overflow-hidden border-2 transition-colors ${
+                                isSeparator
+                                  ? "border-red-500 opacity-60"
+                                  : "border-slate-600 hover:border-sky-500"
+                              }`}
+                            >
+                              {detection.thumbnails[pageNumber - 1] ? (
+                                <img
+                                  src={detection.thumbnails[pageNumber - 1]}
+                                  alt={`Page ${pageNumber}`}
+                                  className="w-full bg-white"
+                                />
+                              ) : (
+                                <div className="aspect-[3/4] bg-slate-600" />
+                              )}
+                              <span
+                                className={`absolute bottom-0 inset-x-0 text-xs py-0.5 ${
+                                  isSeparator
+                                    ? "bg-red-600 text-white"
+                                    : "bg-slate-900/80 text-slate-200"
+                                }`}
+                              >
+                                {isSeparator ? "Separator" : pageNumber}
+                              </span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Pattern (when outputType is 'text-pattern') */}
+              {splitSettings.outputType === "text-pattern" && (
+                <div className="space-y-4">
+                  <div>
+                    <label
+                      htmlFor="split-pattern"
+                      className="block text-sm font-medium text-slate-300 mb-2"
+                    >
+                      Pattern
+                    </label>
+                    <div className="flex gap-3">
+                      <input
+                        id="split-pattern"
+                        type="text"
+                        value={splitSettings.pattern}
+                        onChange={(e) =>
+                          handlePatternChange({ pattern: e.target.value })
+                        }
+                        placeholder="e.g., Invoice No\.\s*(\d+)"
+                        spellCheck={false}
+                        className="w-full px-3 py-2 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 bg-slate-700 text-slate-100 font-mono"
+                      />
+                      <Button
+                        variant="secondary"
+                        onClick={handlePatternPreview}
+                        disabled={
+                          processing.isProcessing || !splitSettings.pattern
+                        }
+                      >
+                        Preview
+                      </Button>
+                    </div>
+                    <p className="text-xs text-slate-400 mt-1">
+                      A regular expression. Captured groups in parentheses name
+                      the files, and pages repeating the previous match stay in
+                      its file.
+                    </p>
+                  </div>
+
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={splitSettings.ignoreCase}
+                      onChange={(e) =>
+                        handlePatternChange({ ignoreCase: e.target.checked })
+                      }
+                    />
+                    <span className="text-sm text-slate-200">Ignore case</span>
+                  </label>
+
+                  {patternPreview && (
+                    <div className="max-h-80 overflow-y-auto border border-slate-600 rounded-lg bg-slate-700/50">
+                      <table className="w-full text-sm">
+                        <thead className="text-left text-xs text-slate-400">
+                          <tr>
+                            <th className="px-3 py-2 font-medium">File</th>
+                            <th className="px-3 py-2 font-medium">Pages</th>
+                            <th className="px-3 py-2 font-medium">Match</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {patternPreview.sections.map((section, index) => (
+                            <tr
+                              key={section.startPage}
+                              className="border-t border-slate-600"
+                            >
+                              <td className="px-3 py-2 text-slate-100">
+                                {patternFilenames[index]}
+                              </td>
+                              <td className="px-3 py-2 text-slate-300 whitespace-nowrap">
+                                {section.startPage === section.endPage
+                                  ? section.startPage
+                                  : `${section.startPage}-${section.endPage}`}
+                              </td>
+                              <td className="px-3 py-2 text-slate-400 truncate max-w-xs">
+                                {section.match ?? "Before the first match"}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Page Range */}
+              {usesPageRange && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    Page Range
+                  </label>
+                  <input
+                    type="text"
+                    value={splitSettings.pageRange}
+                    onChange={(e) => handlePageRangeChange(e.target.value)}
+                    placeholder="e.g., all, 1-5, odd, 10-, 1-20,!7"
+                    className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 bg-slate-700 text-slate-100 ${
+                      pageRangeValidation.isValid
+                        ? "border-slate-600 focus:ring-sky-500"
+                        : "border-red-600 focus:ring-red-500"
+                    }`}
+                  />
+                  {pageRangeValidation.error && (
+                    <p className="text-xs text-red-400 mt-1">
+                      {pageRangeValidation.error}
+                    </p>
+                  )}
+                  <div className="mt-2">
+                    <p className="text-xs text-slate-400 mb-2">
+                      Valid examples:
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {[
+                        "all",
+                        "1-3,5,8-10",
+                        "odd",
+                        "even",
+                        "5-",
+                        "last-2-last",
+                        "10-1",
+                        "1-20,!7",
+                      ].map((example) => (
                         <button
                           key={example}
                           type="button"
@@ -779,11 +1717,33 @@ export const SplitPDFsView: React.FC = () => {
                         >
                           {example}
                         </button>
-                      ),
-                    )}
+                      ))}
+                    </div>
                   </div>
+                  {splitSettings.outputType !== "pdfs" && (
+                    <label className="flex items-start gap-3 cursor-pointer mt-4">
+                      <input
+                        type="checkbox"
+                        checked={splitSettings.keepPageOrder}
+                        onChange={(e) =>
+                          setSplitSettings((prev) => ({
+                            ...prev,
+                            keepPageOrder: e.target.checked,
+                          }))
+                        }
+                        className="mt-1"
+                      />
+                      <span className="text-sm text-slate-200">
+                        Keep the order of the range
+                        <span className="block text-xs text-slate-400">
+                          Pages come out as written, e.g. 10-1 in reverse, and
+                          repeated pages are kept
+                        </span>
+                      </span>
+                    </label>
+                  )}
                 </div>
-              </div>
+              )}
 
               {/* Image Settings (when outputType is 'images') */}
               {splitSettings.outputType === "images" && (
@@ -797,52 +1757,116 @@ export const SplitPDFsView: React.FC = () => {
                       onChange={(e) =>
                         setSplitSettings((prev) => ({
                           ...prev,
-                          imageFormat: e.target.value as "jpeg" | "png",
+                          imageFormat: e.target.value as ImageFormat,
                         }))
                       }
                       className="w-full px-3 py-2 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 bg-slate-700 text-slate-100"
                     >
                       <option value="jpeg">JPEG (smaller files)</option>
                       <option value="png">PNG (lossless)</option>
+                      <option value="webp">WebP (smallest files)</option>
+                      <option value="tiff">TIFF (all pages in one file)</option>
                     </select>
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-slate-300 mb-2">
-                      Image Quality:{" "}
-                      {Math.round(splitSettings.imageQuality * 100)}%
+                    <label
+                      htmlFor="image-dpi"
+                      className="block text-sm font-medium text-slate-300 mb-2"
+                    >
+                      Resolution (DPI)
                     </label>
                     <input
-                      type="range"
-                      min="0.1"
-                      max="1"
-                      step="0.1"
-                      value={splitSettings.imageQuality}
+                      id="image-dpi"
+                      type="number"
+                      min={MIN_IMAGE_DPI}
+                      max={MAX_IMAGE_DPI}
+                      step="1"
+                      value={splitSettings.imageDpi}
                       onChange={(e) =>
                         setSplitSettings((prev) => ({
                           ...prev,
-                          imageQuality: parseFloat(e.target.value),
+                          imageDpi: parseInt(e.target.value),
                         }))
                       }
-                      className="w-full"
+                      className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 bg-slate-700 text-slate-100 ${
+                        isImageDpiValid
+                          ? "border-slate-600 focus:ring-sky-500"
+                          : "border-red-600 focus:ring-red-500"
+                      }`}
                     />
+                    <p
+                      className={`text-xs mt-1 ${isImageDpiValid ? "text-slate-400" : "text-red-400"}`}
+                    >
+                      {MIN_IMAGE_DPI} to {MAX_IMAGE_DPI}. 150 is enough for
+                      screens; OCR usually wants 300.
+                    </p>
                   </div>
+
+                  {(splitSettings.imageFormat === "jpeg" ||
+                    splitSettings.imageFormat === "webp") && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-300 mb-2">
+                        Image Quality:{" "}
+                        {Math.round(splitSettings.imageQuality * 100)}%
+                      </label>
+                      <input
+                        type="range"
+                        min="0.1"
+                        max="1"
+                        step="0.1"
+                        value={splitSettings.imageQuality}
+                        onChange={(e) =>
+                          setSplitSettings((prev) => ({
+                            ...prev,
+                            imageQuality: parseFloat(e.target.value),
+                          }))
+                        }
+                        className="w-full"
+                      />
+                    </div>
+                  )}
                 </div>
               )}
 
+              <FilenameTemplateInput
+                value={filenameTemplate}
+                onChange={handleFilenameTemplateChange}
+                defaultTemplate={defaultFilenameTemplate}
+                samples={filenameSamples}
+                extension={
+                  splitSettings.outputType === "images"
+                    ? splitSettings.imageFormat
+                    : "pdf"
+                }
+                disabled={processing.isProcessing}
+              />
+
               {/* Split Button */}
               <div className="flex justify-end">
                 <Button
                   variant="primary"
                   disabled={
-                    processing.isProcessing || !pageRangeValidation.isValid
+                    processing.isProcessing ||
+                    filenameError !== null ||
+                    (splitSettings.outputType === "bookmarks"
+                      ? selectedBookmarkIds.length === 0
+                      : splitSettings.outputType === "size"
+                        ? !(splitSettings.maxPartSize > 0)
+                        : splitSettings.outputType === "blank-separator"
+                          ? separatorPages.length === 0
+                          : splitSettings.outputType === "text-pattern"
+                            ? !splitSettings.pattern
+                            : !pageRangeValidation.isValid ||
+                              (splitSettings.outputType === "images" &&
+                                !isImageDpiValid))
                   }
                   onClick={handleSplit}
                   loading={processing.isProcessing}
                 >
                   {processing.isProcessing
                     ? processing.progress
-                    : `Split to ${splitSettings.outputType === "pdfs" ? "PDFs" : splitSettings.outputType === "images" ? "Images" : "Single PDF"}`}
+                    : `Split to ${splitSettings.outputType === "images" ? "Images" : splitSettings.outputType === "single-pdf" ? "Single PDF" : "PDFs"}`}
                 </Button>
               </div>
             </div>
@@ -850,6 +1874,8 @@ export const SplitPDFsView: React.FC = () => {
         )}
       </div>
 
+      <PasswordModal {...passwordPrompt} />
+
       {/* Success Toast */}
       <Toast
         isVisible={toast.isVisible}
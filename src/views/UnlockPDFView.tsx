@@ -0,0 +1,441 @@
+import React, { useState, useCallback } from "react";
+import {
+  Dropzone,
+  Button,
+  FilenameTemplateInput,
+  Modal,
+  Toast,
+} from "../components";
+import {
+  checkPDFPassword,
+  decryptPDF,
+  formatFilename,
+  getUniqueFilename,
+  validateFilenameTemplate,
+  type PDFPasswordCheck,
+} from "../pdf-utils";
+import { saveAs } from "file-saver";
+import JSZip from "jszip";
+
+interface UploadedFile {
+  file: File;
+  id: string;
+  status?: PDFPasswordCheck; // Without a password
+  password: string; // Overrides the shared password when set
+  unlockError?: string; // From the last attempt
+  error?: string;
+}
+
+interface ProcessingState {
+  isProcessing: boolean;
+  progress: string;
+  error?: string;
+}
+
+interface ToastState {
+  isVisible: boolean;
+  message: string;
+  type: "success" | "error";
+}
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+const DEFAULT_FILENAME_TEMPLATE = "{name}-unlocked";
+
+const STATUS_LABELS: Record<PDFPasswordCheck, string> = {
+  "not-encrypted": "Not encrypted",
+  unlocked: "Encrypted, opens without a password",
+  "wrong-password": "Needs a password",
+  unsupported: "Unsupported encryption",
+};
+
+export const UnlockPDFView: React.FC = () => {
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  const [processing, setProcessing] = useState<ProcessingState>({
+    isProcessing: false,
+    progress: "",
+  });
+  const [sharedPassword, setSharedPassword] = useState("");
+  const [filenameTemplate, setFilenameTemplate] = useState(
+    DEFAULT_FILENAME_TEMPLATE,
+  );
+  const [showModal, setShowModal] = useState(false);
+  const [toast, setToast] = useState<ToastState>({
+    isVisible: false,
+    message: "",
+    type: "success",
+  });
+
+  const validFiles = uploadedFiles.filter((f) => !f.error);
+  const isBatch = validFiles.length > 1;
+  const needsPassword = validFiles.some((f) => f.status === "wrong-password");
+  const filenameSamples = validFiles.map((f, index) => ({
+    name: f.file.name.replace(".pdf", ""),
+    index: index + 1,
+  }));
+
+  const validateFile = (file: File): string | null => {
+    if (file.type !== "application/pdf") {
+      return `${file.name}: Only PDF files are supported`;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return `${file.name}: File size exceeds 50MB limit`;
+    }
+    return null;
+  };
+
+  const handleFilesDrop = useCallback(async (files: File[]) => {
+    const newFiles: UploadedFile[] = [];
+
+    for (const file of files) {
+      const id = `${file.name}-${Date.now()}-${Math.random()}`;
+      const error = validateFile(file);
+      if (error) {
+        newFiles.push({ file, id, password: "", error });
+        continue;
+      }
+
+      try {
+        const status = await checkPDFPassword(await file.arrayBuffer());
+        newFiles.push({
+          file,
+          id,
+          status,
+          password: "",
+          error:
+            status === "unsupported"
+              ? `${file.name}: Encrypted with a method that isn't supported`
+              : undefined,
+        });
+      } catch (err) {
+        console.error("Failed to process PDF:", err);
+        newFiles.push({
+          file,
+          id,
+          password: "",
+          error: `${file.name}: Failed to process PDF file`,
+        });
+      }
+    }
+
+    setUploadedFiles((prev) => [...prev, ...newFiles]);
+  }, []);
+
+  const updateFilePassword = (id: string, password: string) => {
+    setUploadedFiles((prev) =>
+      prev.map((f) =>
+        f.id === id ? { ...f, password, unlockError: undefined } : f,
+      ),
+    );
+  };
+
+  const removeFile = (id: string) => {
+    setUploadedFiles((prev) => prev.filter((f) => f.id !== id));
+  };
+
+  const clearAll = () => {
+    setUploadedFiles([]);
+  };
+
+  const handleUnlock = async () => {
+    if (validFiles.length === 0) {
+      setProcessing({
+        isProcessing: false,
+        progress: "",
+        error: "Please upload at least one valid PDF file",
+      });
+      setShowModal(true);
+      return;
+    }
+
+    try {
+      const outputs: Array<{ fileName: string; pdfBlob: Blob }> = [];
+      const unlockErrors = new Map<string, string>();
+      const usedNames = new Set<string>();
+
+      for (const [index, uploaded] of validFiles.entries()) {
+        const { file, id } = uploaded;
+        setProcessing({
+          isProcessing: true,
+          progress: isBatch
+            ? `Decrypting ${index + 1} of ${validFiles.length}: ${file.name}`
+            : "Decrypting PDF...",
+        });
+
+        const result = await decryptPDF({
+          file,
+          password: uploaded.password || sharedPassword,
+        });
+
+        if (result.success) {
+          outputs.push({
+            fileName: getUniqueFilename(
+              formatFilename(filenameTemplate, filenameSamples[index], "pdf"),
+              usedNames,
+            ),
+            pdfBlob: result.pdfBlob,
+          });
+        } else {
+          unlockErrors.set(id, result.error);
+        }
+      }
+
+      setUploadedFiles((prev) =>
+        prev.map((f) => ({ ...f, unlockError: unlockErrors.get(f.id) })),
+      );
+
+      if (outputs.length === 0) {
+        throw new Error(
+          isBatch
+            ? "Failed to decrypt any file. Check the passwords and try again."
+            : `${[...unlockErrors.values()][0]}. Check the password and try again.`,
+        );
+      }
+
+      if (!isBatch) {
+        saveAs(outputs[0].pdfBlob, outputs[0].fileName);
+      } else {
+        setProcessing({
+          isProcessing: true,
+          progress: "Creating ZIP archive...",
+        });
+
+        const zip = new JSZip();
+        for (const { fileName, pdfBlob } of outputs) {
+          zip.file(fileName, pdfBlob);
+        }
+        const zipBlob = await zip.generateAsync({ type: "blob" });
+        const timestamp = new Date()
+          .toISOString()
+          .slice(0, 19)
+          .replace(/:/g, "-");
+        saveAs(zipBlob, `unlocked-pdfs-${timestamp}.zip`);
+      }
+
+      setProcessing({ isProcessing: false, progress: "" });
+      setToast({
+        isVisible: true,
+        message:
+          unlockErrors.size > 0
+            ? `Unlocked ${outputs.length} files, ${unlockErrors.size} failed`
+            : isBatch
+              ? `Unlocked ${outputs.length} files!`
+              : "PDF unlocked successfully!",
+        type: unlockErrors.size > 0 ? "error" : "success",
+      });
+    } catch (error) {
+      setProcessing({
+        isProcessing: false,
+        progress: "",
+        error: error instanceof Error ? error.message : "Failed to decrypt PDF",
+      });
+      setShowModal(true);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 bg-slate-700 text-slate-100";
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-4 relative z-10">
+      <div className="text-center mb-5 bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+        <h1 className="text-4xl font-bold text-slate-100 mb-4 tracking-tight drop-shadow-sm">
+          🔓{" "}
+          <span className="bg-gradient-to-r from-lime-400 to-emerald-400 bg-clip-text text-transparent">
+            Unlock PDF
+          </span>
+        </h1>
+        <p className="text-lg text-slate-300 leading-relaxed max-w-2xl mx-auto">
+          Remove the password and printing, copying or editing restrictions from
+          PDFs you have the password for.
+        </p>
+      </div>
+
+      <div className="space-y-5">
+        <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+          <h2 className="text-xl font-semibold text-slate-200 mb-6">
+            Upload PDF Files
+          </h2>
+          <Dropzone
+            onFilesDrop={handleFilesDrop}
+            accept=".pdf"
+            multiple={true}
+            disabled={processing.isProcessing}
+            className="w-full min-h-[200px]"
+          >
+            <div className="space-y-2">
+              <div className="text-gray-600 dark:text-gray-400">
+                <p className="text-lg font-medium">
+                  {processing.isProcessing
+                    ? "Processing..."
+                    : "Drop PDF files here"}
+                </p>
+                <p className="text-sm">
+                  {processing.isProcessing
+                    ? processing.progress
+                    : "or click to browse (max 50MB each)"}
+                </p>
+              </div>
+            </div>
+          </Dropzone>
+        </div>
+
+        {uploadedFiles.length > 0 && (
+          <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-semibold text-slate-200">
+                PDF Files ({validFiles.length})
+              </h2>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={clearAll}
+                disabled={processing.isProcessing}
+              >
+                Clear All
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {uploadedFiles.map((uploadedFile) => (
+                <div
+                  key={uploadedFile.id}
+                  className={`flex items-center justify-between gap-4 p-3 border rounded-lg ${
+                    uploadedFile.error || uploadedFile.unlockError
+                      ? "border-red-800 bg-red-900/10"
+                      : "border-slate-600 bg-slate-700/50"
+                  }`}
+                >
+                  <div className="min-w-0 flex-grow">
+                    <p className="text-sm font-medium text-slate-100 truncate">
+                      {uploadedFile.file.name}
+                    </p>
+                    {uploadedFile.error ? (
+                      <p className="text-xs text-red-400">
+                        {uploadedFile.error}
+                      </p>
+                    ) : (
+                      <p
+                        className={`text-xs ${
+                          uploadedFile.unlockError
+                            ? "text-red-400"
+                            : "text-slate-400"
+                        }`}
+                      >
+                        {uploadedFile.unlockError ??
+                          (uploadedFile.status &&
+                            STATUS_LABELS[uploadedFile.status])}
+                      </p>
+                    )}
+                  </div>
+                  {isBatch && uploadedFile.status === "wrong-password" && (
+                    <input
+                      type="password"
+                      aria-label={`Password for ${uploadedFile.file.name}`}
+                      placeholder="Shared password"
+                      autoComplete="off"
+                      value={uploadedFile.password}
+                      onChange={(e) =>
+                        updateFilePassword(uploadedFile.id, e.target.value)
+                      }
+                      disabled={processing.isProcessing}
+                      className={`${inputClassName} max-w-[12rem]`}
+                    />
+                  )}
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => removeFile(uploadedFile.id)}
+                    disabled={processing.isProcessing}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {validFiles.length > 0 && (
+          <div className="bg-slate-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-lg border border-slate-700">
+            <h2 className="text-lg font-semibold text-slate-100 mb-6">
+              Password
+            </h2>
+
+            {needsPassword ? (
+              <div>
+                <label
+                  htmlFor="unlock-password"
+                  className="block text-sm font-medium text-slate-300 mb-1"
+                >
+                  {isBatch ? "Shared Password" : "Password"}
+                </label>
+                <input
+                  id="unlock-password"
+                  type="password"
+                  autoComplete="off"
+                  value={sharedPassword}
+                  onChange={(e) => setSharedPassword(e.target.value)}
+                  className={inputClassName}
+                />
+                <p className="text-xs text-slate-400 mt-1">
+                  {isBatch
+                    ? "Used for every file without a password of its own. The owner password works as well."
+                    : "The password to open the file, or its owner password"}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400">
+                No password needed; any permission restrictions are removed.
+              </p>
+            )}
+
+            <FilenameTemplateInput
+              value={filenameTemplate}
+              onChange={setFilenameTemplate}
+              defaultTemplate={DEFAULT_FILENAME_TEMPLATE}
+              samples={filenameSamples}
+              extension="pdf"
+              disabled={processing.isProcessing}
+              className="mt-6"
+            />
+
+            <div className="flex justify-end pt-6">
+              <Button
+                variant="primary"
+                disabled={
+                  processing.isProcessing ||
+                  validateFilenameTemplate(filenameTemplate) !== null
+                }
+                onClick={handleUnlock}
+                loading={processing.isProcessing}
+              >
+                {processing.isProcessing
+                  ? processing.progress
+                  : isBatch
+                    ? `Unlock ${validFiles.length} Files & Download`
+                    : "Unlock & Download"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Error Modal */}
+      <Modal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        title="Error"
+      >
+        <div className="text-red-600 dark:text-red-400">{processing.error}</div>
+      </Modal>
+
+      {/* Success Toast */}
+      <Toast
+        isVisible={toast.isVisible}
+        message={toast.message}
+        type={toast.type}
+        onClose={() => setToast((prev) => ({ ...prev, isVisible: false }))}
+      />
+    </div>
+  );
+};
@@ -5,4 +5,7 @@ export { CompressPDFView } from "./CompressPDFView";
 export { ImagesToPDFView } from "./ImagesToPDFView";
 export { ReorderPagesView } from "./ReorderPagesView";
 export { SelectAreaView } from "./SelectAreaView";
+export { MetadataView } from "./MetadataView";
+export { ProtectPDFView } from "./ProtectPDFView";
+export { UnlockPDFView } from "./UnlockPDFView";
 export { PlaceholderView } from "./PlaceholderView";
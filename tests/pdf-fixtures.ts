@@ -0,0 +1,122 @@
+// PDF fixtures shared by the pdf-utils tests
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+} from "pdf-lib";
+import { rc4 } from "../src/pdf-utils/crypto";
+import {
+  computeRc4FileKey,
+  computeRc4OwnerValue,
+  computeRc4UserValue,
+  encodePassword,
+  getObjectKey,
+  type StandardSecurityParams,
+} from "../src/pdf-utils/security-handler";
+
+// File.arrayBuffer is mocked globally in tests/setup.ts, so files of real
+// PDFs need to hand out their own bytes
+export function createPDFFileFromBytes(name: string, bytes: Uint8Array): File {
+  const file = new File([bytes], name, { type: "application/pdf" });
+  Object.defineProperty(file, "arrayBuffer", {
+    value: () => Promise.resolve(bytes.slice().buffer),
+  });
+  return file;
+}
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+// 128-bit RC4 (revision 3) encryption, done by hand
+export async function encryptRC4(
+  pdfDoc: PDFDocument,
+  userPassword: string,
+  ownerPassword: string,
+  { infoInObjectStream = false } = {},
+): Promise<Uint8Array> {
+  const { context } = pdfDoc;
+  const fileId = Uint8Array.from({ length: 16 }, (_, index) => index * 7);
+  const params: StandardSecurityParams = {
+    revision: 3,
+    keyLength: 16,
+    owner: new Uint8Array(0),
+    user: new Uint8Array(0),
+    permissions: -4,
+    encryptMetadata: true,
+    fileId,
+  };
+
+  params.owner = computeRc4OwnerValue(
+    params,
+    encodePassword(ownerPassword, 3),
+    encodePassword(userPassword, 3),
+  );
+  const fileKey = computeRc4FileKey(params, encodePassword(userPassword, 3));
+  params.user = computeRc4UserValue(params, fileKey);
+
+  const encryptString = (object: PDFObject, ref: PDFRef): PDFObject => {
+    if (object instanceof PDFString || object instanceof PDFHexString) {
+      const key = getObjectKey(fileKey, ref, "rc4");
+      return PDFHexString.of(toHex(rc4(key, object.asBytes())));
+    }
+    if (object instanceof PDFArray) {
+      object.asArray().forEach((item, index) => {
+        object.set(index, encryptString(item, ref));
+      });
+    } else if (object instanceof PDFDict) {
+      for (const [key, value] of object.entries()) {
+        object.set(key, encryptString(value, ref));
+      }
+    }
+    return object;
+  };
+
+  // Objects in object streams are only encrypted along with the stream
+  const infoRef = context.trailerInfo.Info as PDFRef;
+  if (infoInObjectStream) {
+    const header = `${infoRef.objectNumber} 0 `;
+    const objects = new TextEncoder().encode(
+      header + context.lookup(infoRef)!.toString(),
+    );
+    context.delete(infoRef);
+    context.register(
+      PDFRawStream.of(
+        context.obj({ Type: "ObjStm", N: 1, First: header.length }),
+        objects,
+      ),
+    );
+  }
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFRawStream) {
+      encryptString(object.dict, ref);
+      const key = getObjectKey(fileKey, ref, "rc4");
+      context.assign(
+        ref,
+        PDFRawStream.of(object.dict, rc4(key, object.contents)),
+      );
+    } else {
+      context.assign(ref, encryptString(object, ref));
+    }
+  }
+
+  context.trailerInfo.Encrypt = context.register(
+    context.obj({
+      Filter: "Standard",
+      V: 2,
+      R: 3,
+      Length: 128,
+      O: PDFHexString.of(toHex(params.owner)),
+      U: PDFHexString.of(toHex(params.user)),
+      P: params.permissions,
+    }),
+  );
+  const id = PDFHexString.of(toHex(fileId));
+  context.trailerInfo.ID = context.obj([id, id]);
+  return pdfDoc.save({ useObjectStreams: false });
+}